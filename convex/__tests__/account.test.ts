@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  CONVERSATIONS_PER_DELETION_RUN,
+  deleteAccount,
+  deleteAllConversations,
+  getDeletionJob,
+  runDeletionJob,
+} from "../accountQueriesAndMutations";
+import { CONVERSATION_ROWS_PER_RUN } from "../chatQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockMutationCtx,
+  createMockQueryCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+describe("deleting chats and accounts", () => {
+  let mockDb: MockDatabase;
+  let testUserId: Id<"users">;
+  let otherUserId: Id<"users">;
+
+  const mutationCtx = (runAfter = vi.fn().mockResolvedValue(undefined)) =>
+    createMockMutationCtx({
+      db: mockDb as any,
+      scheduler: { runAfter } as any,
+    });
+
+  const getJob = async () =>
+    await (getDeletionJob as any)._handler(
+      createMockQueryCtx({ db: mockDb as any }),
+      {},
+    );
+
+  // Runs the job the way the scheduler would, until it stops scheduling itself
+  const runJob = async (jobId: Id<"deletionJobs">, maxRuns = 10) => {
+    for (let run = 0; run < maxRuns; run++) {
+      const runAfter = vi.fn().mockResolvedValue(undefined);
+      await (runDeletionJob as any)._handler(mutationCtx(runAfter), { jobId });
+      if (runAfter.mock.calls.length === 0) {
+        return;
+      }
+    }
+  };
+
+  const countRows = async (table: string) =>
+    (await mockDb.query(table).collect()).length;
+
+  beforeEach(() => {
+    mockDb = createMockDatabase();
+    ({ userId: testUserId } = createTestUser(mockDb));
+    ({ userId: otherUserId } = createTestUser(mockDb, {
+      name: "Other",
+      email: "other@example.com",
+    }));
+    for (let i = 0; i < CONVERSATIONS_PER_DELETION_RUN + 3; i++) {
+      const { conversationId } = createTestConversation(mockDb, testUserId);
+      createTestMessage(mockDb, conversationId, { content: `Chat ${i}` });
+    }
+    const { conversationId } = createTestConversation(mockDb, otherUserId);
+    createTestMessage(mockDb, conversationId, { content: "Keep me" });
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+  });
+
+  it("deletes all chats in batches and reports progress", async () => {
+    const runAfter = vi.fn().mockResolvedValue(undefined);
+    const jobId = await (deleteAllConversations as any)._handler(
+      mutationCtx(runAfter),
+      {},
+    );
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), { jobId });
+    expect(await getJob()).toMatchObject({
+      status: "running",
+      total: CONVERSATIONS_PER_DELETION_RUN + 3,
+      deleted: 0,
+    });
+
+    await (runDeletionJob as any)._handler(mutationCtx(), { jobId });
+    expect(await getJob()).toMatchObject({
+      status: "running",
+      deleted: CONVERSATIONS_PER_DELETION_RUN,
+    });
+
+    await runJob(jobId);
+    expect(await getJob()).toMatchObject({
+      status: "completed",
+      deleted: CONVERSATIONS_PER_DELETION_RUN + 3,
+    });
+    expect(await countRows("conversations")).toBe(1);
+    expect(await countRows("messages")).toBe(1);
+  });
+
+  it("deletes a long chat over several runs", async () => {
+    const { conversationId } = createTestConversation(mockDb, testUserId);
+    for (let i = 0; i < CONVERSATION_ROWS_PER_RUN + 5; i++) {
+      createTestMessage(mockDb, conversationId, { content: `Message ${i}` });
+    }
+    const jobId = await (deleteAllConversations as any)._handler(
+      mutationCtx(),
+      {},
+    );
+
+    // No run deletes more rows than fit in its transaction
+    let messagesLeft = await countRows("messages");
+    for (let run = 0; run < 10; run++) {
+      await (runDeletionJob as any)._handler(mutationCtx(), { jobId });
+      const left = await countRows("messages");
+      expect(messagesLeft - left).toBeLessThanOrEqual(
+        CONVERSATION_ROWS_PER_RUN,
+      );
+      messagesLeft = left;
+    }
+    expect(await getJob()).toMatchObject({
+      status: "completed",
+      deleted: CONVERSATIONS_PER_DELETION_RUN + 4,
+    });
+    expect(mockDb.get(conversationId)).toBeNull();
+    expect(await countRows("messages")).toBe(1);
+  });
+
+  it("returns the running job and resumes it once stalled", async () => {
+    const jobId = await (deleteAllConversations as any)._handler(
+      mutationCtx(),
+      {},
+    );
+
+    const runAfter = vi.fn().mockResolvedValue(undefined);
+    expect(
+      await (deleteAllConversations as any)._handler(mutationCtx(runAfter), {}),
+    ).toBe(jobId);
+    expect(runAfter).not.toHaveBeenCalled();
+
+    mockDb.patch(jobId, { updatedAt: 0 });
+    await (deleteAllConversations as any)._handler(mutationCtx(runAfter), {});
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), { jobId });
+  });
+
+  it("deletes the account with its keys, usage and sign-in data", async () => {
+    mockDb.insert("userApiKeys", {
+      userId: testUserId,
+      provider: "openai",
+      encryptedKey: "secret",
+      keyHint: "1234",
+      updatedAt: 0,
+    });
+    mockDb.insert("usageRecords", {
+      userId: testUserId,
+      conversationId: "conversations_gone" as Id<"conversations">,
+      messageId: "messages_gone" as Id<"messages">,
+      model: "gpt-4o",
+      inputTokens: 10,
+      outputTokens: 5,
+      reasoningTokens: 0,
+    });
+    mockDb.insert("spendingLimits", {
+      userId: testUserId,
+      provider: "openai",
+      period: "daily",
+      limitUsd: 1,
+    });
+    const sessionId = mockDb.insert("authSessions", {
+      userId: testUserId,
+      expirationTime: 0,
+    });
+    mockDb.insert("authRefreshTokens", { sessionId, expirationTime: 0 });
+    mockDb.insert("authVerifiers", { sessionId });
+    mockDb.insert("authVerifiers", { signature: "pending-sign-in" });
+    mockDb.insert("authRateLimits", {
+      identifier: "test@example.com",
+      lastAttemptTime: 0,
+      attemptsLeft: 9,
+    });
+    mockDb.insert("authRateLimits", {
+      identifier: "other@example.com",
+      lastAttemptTime: 0,
+      attemptsLeft: 9,
+    });
+    mockDb.insert("authAccounts", {
+      userId: testUserId,
+      provider: "password",
+      providerAccountId: "test@example.com",
+    });
+    mockDb.insert("authAccounts", {
+      userId: otherUserId,
+      provider: "password",
+      providerAccountId: "other@example.com",
+    });
+
+    const jobId = await (deleteAccount as any)._handler(mutationCtx(), {});
+    await runJob(jobId);
+
+    expect(mockDb.get(testUserId)).toBeNull();
+    expect(mockDb.get(otherUserId)).not.toBeNull();
+    for (const table of [
+      "userApiKeys",
+      "usageRecords",
+      "spendingLimits",
+      "authSessions",
+      "authRefreshTokens",
+      "deletionJobs",
+    ]) {
+      expect(await countRows(table)).toBe(0);
+    }
+    expect(await countRows("authAccounts")).toBe(1);
+    expect(await countRows("authVerifiers")).toBe(1);
+    expect(await countRows("authRateLimits")).toBe(1);
+    expect(await countRows("conversations")).toBe(1);
+  });
+
+  it("waits for pending file cleanups before deleting the API key", async () => {
+    mockDb.insert("conversationCleanups", {
+      userId: testUserId,
+      conversationId: "conversations_gone" as Id<"conversations">,
+      openaiFileIds: ["file-1"],
+      storageIds: [],
+      status: "pending",
+      attempts: 0,
+    });
+    const jobId = await (deleteAccount as any)._handler(mutationCtx(), {});
+    // Two runs delete the conversations
+    await runJob(jobId, 2);
+
+    const runAfter = vi.fn().mockResolvedValue(undefined);
+    await (runDeletionJob as any)._handler(mutationCtx(runAfter), { jobId });
+    expect(runAfter).toHaveBeenCalledWith(
+      expect.any(Number),
+      expect.anything(),
+      { jobId },
+    );
+    expect(runAfter.mock.calls[0][0]).toBeGreaterThan(0);
+    expect(mockDb.get(testUserId)).not.toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  decryptApiKey,
+  encryptApiKey,
+  getKeyHint,
+  getReachableModels,
+  getStatusForProviderError,
+} from "../apiKeys";
+import {
+  getEncryptedApiKeys,
+  listApiKeys,
+  revokeApiKey,
+  setApiKeyQuotaExhausted,
+  storeEncryptedApiKey,
+} from "../apiKeyQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockQueryCtx,
+  createMockMutationCtx,
+  createMockDatabase,
+  createTestUser,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+const TEST_SECRET = "test-encryption-secret";
+
+describe("apiKeys", () => {
+  const originalSecret = process.env.API_KEY_ENCRYPTION_SECRET;
+
+  beforeEach(() => {
+    process.env.API_KEY_ENCRYPTION_SECRET = TEST_SECRET;
+  });
+
+  afterEach(() => {
+    process.env.API_KEY_ENCRYPTION_SECRET = originalSecret;
+  });
+
+  describe("encryption", () => {
+    it("round-trips a key without storing it in plain text", () => {
+      const encrypted = encryptApiKey("sk-secret-1234", "user1", "openai");
+
+      expect(encrypted).not.toContain("sk-secret-1234");
+      expect(decryptApiKey(encrypted, "user1", "openai")).toBe(
+        "sk-secret-1234",
+      );
+    });
+
+    it("uses a fresh IV for every encryption", () => {
+      expect(encryptApiKey("sk-same", "user1", "openai")).not.toBe(
+        encryptApiKey("sk-same", "user1", "openai"),
+      );
+    });
+
+    it("rejects ciphertext moved to another user or provider", () => {
+      const encrypted = encryptApiKey("sk-secret", "user1", "openai");
+
+      expect(() => decryptApiKey(encrypted, "user2", "openai")).toThrow();
+      expect(() => decryptApiKey(encrypted, "user1", "openrouter")).toThrow();
+    });
+
+    it("fails to decrypt after the secret changes", () => {
+      const encrypted = encryptApiKey("sk-secret", "user1", "openai");
+      process.env.API_KEY_ENCRYPTION_SECRET = "another-secret";
+
+      expect(() => decryptApiKey(encrypted, "user1", "openai")).toThrow();
+    });
+
+    it("requires the encryption secret to be configured", () => {
+      delete process.env.API_KEY_ENCRYPTION_SECRET;
+
+      expect(() => encryptApiKey("sk-secret", "user1", "openai")).toThrow(
+        "API_KEY_ENCRYPTION_SECRET is not set",
+      );
+    });
+
+    it("only exposes the last characters as a hint", () => {
+      expect(getKeyHint("sk-secret-abcd")).toBe("abcd");
+    });
+  });
+
+  describe("validation", () => {
+    it("classifies provider errors", () => {
+      expect(getStatusForProviderError(401)).toBe("invalid");
+      expect(getStatusForProviderError(undefined, "invalid_api_key")).toBe(
+        "invalid",
+      );
+      expect(getStatusForProviderError(402)).toBe("quota_exhausted");
+      expect(getStatusForProviderError(429, "insufficient_quota")).toBe(
+        "quota_exhausted",
+      );
+      expect(getStatusForProviderError(429, "rate_limit_exceeded")).toBe(
+        "error",
+      );
+      expect(getStatusForProviderError(undefined)).toBe("error");
+    });
+
+    it("only reports the provider's supported models that the key can reach", () => {
+      expect(
+        getReachableModels("openai", [
+          "gpt-4.1",
+          "o3",
+          "gpt-3.5-turbo",
+          "google/gemini-2.5-flash",
+        ]),
+      ).toEqual(["gpt-4.1", "o3"]);
+      expect(
+        getReachableModels("openrouter", [
+          "gpt-4.1",
+          "google/gemini-2.5-flash",
+        ]),
+      ).toEqual(["google/gemini-2.5-flash"]);
+    });
+  });
+
+  describe("vault", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    const storeKey = async (encryptedKey: string, keyHint: string) => {
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (storeEncryptedApiKey as any)._handler(ctx, {
+        userId: testUserId,
+        provider: "openai",
+        encryptedKey,
+        keyHint,
+      });
+    };
+
+    it("replaces the existing key for a provider", async () => {
+      await storeKey("v1:first", "1111");
+      await storeKey("v1:second", "2222");
+
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      expect(
+        await (getEncryptedApiKeys as any)._handler(queryCtx, {
+          userId: testUserId,
+        }),
+      ).toEqual([{ provider: "openai", encryptedKey: "v1:second" }]);
+    });
+
+    it("lists saved keys without returning the ciphertext", async () => {
+      await storeKey("v1:ciphertext", "abcd");
+
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      const keys = await (listApiKeys as any)._handler(queryCtx, {});
+
+      expect(keys).toEqual([
+        { provider: "openai", keyHint: "abcd", updatedAt: expect.any(Number) },
+      ]);
+      expect(JSON.stringify(keys)).not.toContain("ciphertext");
+    });
+
+    it("shows a used-up quota until a new key is saved", async () => {
+      await storeKey("v1:first", "1111");
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (setApiKeyQuotaExhausted as any)._handler(ctx, {
+        userId: testUserId,
+        provider: "openai",
+        exhausted: true,
+      });
+
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      const [key] = await (listApiKeys as any)._handler(queryCtx, {});
+      expect(key.quotaExhaustedAt).toEqual(expect.any(Number));
+
+      await storeKey("v1:second", "2222");
+      const [replacedKey] = await (listApiKeys as any)._handler(queryCtx, {});
+      expect(replacedKey.quotaExhaustedAt).toBeUndefined();
+    });
+
+    it("revokes a saved key", async () => {
+      await storeKey("v1:ciphertext", "abcd");
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (revokeApiKey as any)._handler(ctx, { provider: "openai" });
+
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      expect(await (listApiKeys as any)._handler(queryCtx, {})).toEqual([]);
+    });
+  });
+});
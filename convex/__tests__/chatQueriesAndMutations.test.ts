@@ -2,7 +2,27 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   getLoggedInUser,
   findUserMessageByFileIdImpl,
+  sendMessage,
+  rewriteUserMessage,
+  forkConversation,
+  prepareRegeneration,
+  regenerateResponse,
+  selectMessageVersion,
+  listMessages,
+  cancelGeneration,
+  isGenerationCancelled,
+  markMessageComplete,
+  storeConversationSummary,
+  listConversations,
+  listPinnedConversations,
+  getConversationById,
+  renameConversation,
+  updateConversationName,
+  setConversationPinned,
+  setConversationArchived,
+  failStaleReplies,
 } from "../chatQueriesAndMutations";
+import { STALE_REPLY_MS } from "../constants";
 import type { Id } from "../_generated/dataModel";
 import {
   createMockQueryCtx,
@@ -503,4 +523,854 @@ describe("chatQueriesAndMutations", () => {
       ).rejects.toThrow("Access denied: file was not uploaded by current user");
     });
   });
+
+  describe("rewriteUserMessage", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    // Insert a message with an explicit creation time so ordering is deterministic
+    const addMessage = (
+      creationTime: number,
+      messageData: Parameters<typeof createTestMessage>[2],
+    ) => {
+      const { messageId } = createTestMessage(
+        mockDb,
+        testConversationId,
+        messageData,
+      );
+      mockDb.patch(messageId, { _creationTime: creationTime });
+      return messageId;
+    };
+
+    const addEmbedding = (messageId: Id<"messages">) =>
+      mockDb.insert("messageEmbeddings", {
+        messageId,
+        conversationId: testConversationId,
+        userId: testUserId,
+        model: "stub",
+        embedding: [],
+      });
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+        { lastResponseId: "resp_2" },
+      ));
+    });
+
+    it("rewrites the message, drops later messages and rewinds the response chain", async () => {
+      addMessage(1, { author: "user", content: "First question" });
+      addMessage(2, {
+        author: "assistant",
+        content: "First answer",
+        status: "completed",
+        openaiResponseId: "resp_1",
+      });
+      const editedId = addMessage(3, {
+        author: "user",
+        content: "Secnd question",
+      });
+      const laterReplyId = addMessage(4, {
+        author: "assistant",
+        content: "Second answer",
+        status: "completed",
+        openaiResponseId: "resp_2",
+      });
+      addEmbedding(editedId);
+      addEmbedding(laterReplyId);
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      const conversationId = await (rewriteUserMessage as any)._handler(ctx, {
+        messageId: editedId,
+        userId: testUserId,
+        content: "Second question",
+      });
+
+      expect(conversationId).toBe(testConversationId);
+      expect(mockDb.get(editedId).content).toBe("Second question");
+      expect(mockDb.get(laterReplyId)).toBeNull();
+      expect(mockDb.get(testConversationId).lastResponseId).toBe("resp_1");
+      // The old text is no longer searchable
+      expect(await mockDb.query("messageEmbeddings").collect()).toEqual([]);
+    });
+
+    it("clears the response chain when editing the first message", async () => {
+      const editedId = addMessage(1, { author: "user", content: "Hi" });
+      addMessage(2, {
+        author: "assistant",
+        content: "Hello!",
+        status: "completed",
+        openaiResponseId: "resp_2",
+      });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (rewriteUserMessage as any)._handler(ctx, {
+        messageId: editedId,
+        userId: testUserId,
+        content: "Hello there",
+      });
+
+      expect(mockDb.get(testConversationId).lastResponseId).toBeUndefined();
+    });
+
+    it("refuses to edit assistant messages", async () => {
+      const assistantId = addMessage(1, {
+        author: "assistant",
+        content: "Hello!",
+        status: "completed",
+      });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (rewriteUserMessage as any)._handler(ctx, {
+          messageId: assistantId,
+          userId: testUserId,
+          content: "Edited",
+        }),
+      ).rejects.toThrow("Only user messages can be edited");
+    });
+
+    it("refuses to edit while a response is still being generated", async () => {
+      const editedId = addMessage(1, { author: "user", content: "Hi" });
+      addMessage(2, { author: "assistant", content: "", status: "typing" });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (rewriteUserMessage as any)._handler(ctx, {
+          messageId: editedId,
+          userId: testUserId,
+          content: "Hello there",
+        }),
+      ).rejects.toThrow(
+        "Cannot edit a message while a response is being generated",
+      );
+    });
+
+    it("denies access to other users' messages", async () => {
+      const editedId = addMessage(1, { author: "user", content: "Hi" });
+      const { userId: otherUserId } = createTestUser(mockDb, {
+        name: "Other User",
+        email: "other@example.com",
+      });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (rewriteUserMessage as any)._handler(ctx, {
+          messageId: editedId,
+          userId: otherUserId,
+          content: "Hijacked",
+        }),
+      ).rejects.toThrow("Conversation not found or access denied");
+    });
+  });
+
+  describe("forkConversation", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    const addMessage = (
+      creationTime: number,
+      messageData: Parameters<typeof createTestMessage>[2],
+    ) => {
+      const { messageId } = createTestMessage(
+        mockDb,
+        testConversationId,
+        messageData,
+      );
+      mockDb.patch(messageId, { _creationTime: creationTime });
+      return messageId;
+    };
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+        { name: "Trip planning", lastResponseId: "resp_2" },
+      ));
+      mockDb.patch(testConversationId, { vectorStoreId: "vs_123" });
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("copies history up to the forked reply into a new conversation", async () => {
+      const questionId = addMessage(1, {
+        author: "user",
+        content: "First question",
+        fileIds: ["file-abc"],
+      });
+      const replyId = addMessage(2, {
+        author: "assistant",
+        content: "First answer",
+        status: "completed",
+        openaiResponseId: "resp_1",
+      });
+      addMessage(3, { author: "user", content: "Second question" });
+      addMessage(4, {
+        author: "assistant",
+        content: "Second answer",
+        status: "completed",
+        openaiResponseId: "resp_2",
+      });
+      createTestFileMapping(mockDb, "file-abc", "notes.pdf", testUserId, {
+        firstUsedInConversationId: testConversationId,
+        firstUsedInMessageId: questionId,
+      });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      const forkId = await (forkConversation as any)._handler(ctx, {
+        messageId: replyId,
+      });
+
+      const fork = mockDb.get(forkId);
+      expect(fork).toMatchObject({
+        userId: testUserId,
+        name: "Trip planning",
+        lastResponseId: "resp_1",
+        vectorStoreId: "vs_123",
+        forkedFromConversationId: testConversationId,
+        forkedFromMessageId: replyId,
+      });
+
+      const forkMessages = await mockDb
+        .query("messages")
+        .withIndex("by_conversationId", (q: any) =>
+          q.eq("conversationId", forkId),
+        )
+        .collect();
+      expect(forkMessages.map((m: any) => m.content)).toEqual([
+        "First question",
+        "First answer",
+      ]);
+
+      // The copied file mapping resolves citations to the fork's own message
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      const citedMessage = await findUserMessageByFileIdImpl(queryCtx, {
+        openaiFileId: "file-abc",
+        conversationId: forkId,
+      });
+      expect(citedMessage?.messageId).toBe(forkMessages[0]._id);
+
+      // The parent conversation is left untouched
+      const parentMessages = await mockDb
+        .query("messages")
+        .withIndex("by_conversationId", (q: any) =>
+          q.eq("conversationId", testConversationId),
+        )
+        .collect();
+      expect(parentMessages).toHaveLength(4);
+    });
+
+    it("only forks from finished assistant replies", async () => {
+      const questionId = addMessage(1, { author: "user", content: "Hi" });
+      const typingId = addMessage(2, {
+        author: "assistant",
+        content: "",
+        status: "typing",
+      });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      for (const messageId of [questionId, typingId]) {
+        await expect(
+          (forkConversation as any)._handler(ctx, { messageId }),
+        ).rejects.toThrow(
+          "Conversations can only be forked from a finished reply",
+        );
+      }
+    });
+
+    it("denies forking other users' conversations", async () => {
+      const replyId = addMessage(1, {
+        author: "assistant",
+        content: "Answer",
+        status: "completed",
+      });
+      const { userId: otherUserId } = createTestUser(mockDb, {
+        name: "Other User",
+        email: "other@example.com",
+      });
+      (getAuthUserId as any).mockResolvedValue(otherUserId);
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (forkConversation as any)._handler(ctx, { messageId: replyId }),
+      ).rejects.toThrow("Conversation not found or access denied");
+    });
+  });
+
+  describe("reply versions", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    const addMessage = (
+      creationTime: number,
+      messageData: Parameters<typeof createTestMessage>[2],
+    ) => {
+      const { messageId } = createTestMessage(
+        mockDb,
+        testConversationId,
+        messageData,
+      );
+      mockDb.patch(messageId, { _creationTime: creationTime });
+      return messageId;
+    };
+
+    const addEmbedding = (messageId: Id<"messages">) =>
+      mockDb.insert("messageEmbeddings", {
+        messageId,
+        conversationId: testConversationId,
+        userId: testUserId,
+        model: "stub",
+        embedding: [],
+      });
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+        { lastResponseId: "resp_2" },
+      ));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("hides the current reply and rewinds the response chain before regenerating", async () => {
+      addMessage(1, { author: "user", content: "First question" });
+      addMessage(2, {
+        author: "assistant",
+        content: "First answer",
+        status: "completed",
+        openaiResponseId: "resp_1",
+      });
+      const questionId = addMessage(3, {
+        author: "user",
+        content: "Second question",
+      });
+      const replyId = addMessage(4, {
+        author: "assistant",
+        content: "Second answer",
+        status: "completed",
+        openaiResponseId: "resp_2",
+      });
+      addEmbedding(replyId);
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      const conversationId = await (prepareRegeneration as any)._handler(ctx, {
+        messageId: replyId,
+        userId: testUserId,
+      });
+
+      expect(conversationId).toBe(testConversationId);
+      expect(mockDb.get(replyId)).toMatchObject({
+        replyToMessageId: questionId,
+        inactiveVersion: true,
+      });
+      expect(mockDb.get(testConversationId).lastResponseId).toBe("resp_1");
+      expect(await mockDb.query("messageEmbeddings").collect()).toEqual([]);
+    });
+
+    it("refuses to regenerate with an unsupported model", async () => {
+      const replyId = addMessage(2, {
+        author: "assistant",
+        content: "Answer",
+        status: "completed",
+      });
+      const runQuery = vi.fn().mockResolvedValueOnce(mockDb.get(testUserId));
+      const runMutation = vi.fn();
+      const ctx = createMockActionCtx({ runQuery, runMutation });
+      const regenerate = (args: object) =>
+        (regenerateResponse as any)._handler(ctx, {
+          messageId: replyId,
+          ...args,
+        });
+
+      await expect(regenerate({ model: "gpt-2" })).rejects.toThrow(
+        "Unsupported model: gpt-2",
+      );
+      runQuery.mockResolvedValueOnce(mockDb.get(testUserId));
+      await expect(
+        regenerate({ model: "gpt-4.1", thinkingIntensity: "high" }),
+      ).rejects.toThrow(
+        "Thinking intensity can only be set for thinking models",
+      );
+      expect(runMutation).not.toHaveBeenCalled();
+    });
+
+    it("only regenerates the latest reply", async () => {
+      const replyId = addMessage(2, {
+        author: "assistant",
+        content: "First answer",
+        status: "completed",
+      });
+      addMessage(1, { author: "user", content: "First question" });
+      addMessage(3, { author: "user", content: "Second question" });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (prepareRegeneration as any)._handler(ctx, {
+          messageId: replyId,
+          userId: testUserId,
+        }),
+      ).rejects.toThrow("Only the latest reply can be regenerated or switched");
+    });
+
+    it("lists the selected version with its siblings and switches between them", async () => {
+      const questionId = addMessage(1, { author: "user", content: "Question" });
+      const firstId = addMessage(2, {
+        author: "assistant",
+        content: "Answer from GPT-4.1",
+        status: "completed",
+        openaiResponseId: "resp_a",
+        replyToMessageId: questionId,
+        inactiveVersion: true,
+      });
+      const secondId = addMessage(3, {
+        author: "assistant",
+        content: "Answer from o3",
+        status: "completed",
+        openaiResponseId: "resp_b",
+        replyToMessageId: questionId,
+      });
+
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      const listed = await (listMessages as any)._handler(queryCtx, {
+        conversationId: testConversationId,
+        paginationOpts: { numItems: 10, cursor: null },
+      });
+      expect(listed.page.map((m: any) => m._id)).toEqual([
+        secondId,
+        questionId,
+      ]);
+      expect(listed.page[0].versions).toEqual({
+        index: 1,
+        messageIds: [firstId, secondId],
+      });
+
+      // Versions on other pages are found too
+      const firstPage = await (listMessages as any)._handler(queryCtx, {
+        conversationId: testConversationId,
+        paginationOpts: { numItems: 1, cursor: null },
+      });
+      expect(firstPage.isDone).toBe(false);
+      expect(firstPage.page[0].versions).toEqual(listed.page[0].versions);
+
+      addEmbedding(secondId);
+      const runAfter = vi.fn().mockResolvedValue(undefined);
+      const ctx = createMockMutationCtx({
+        db: mockDb as any,
+        scheduler: { runAfter } as any,
+      });
+      await (selectMessageVersion as any)._handler(ctx, {
+        messageId: firstId,
+      });
+
+      expect(mockDb.get(firstId).inactiveVersion).toBeUndefined();
+      expect(mockDb.get(secondId).inactiveVersion).toBe(true);
+      expect(mockDb.get(testConversationId).lastResponseId).toBe("resp_a");
+      // Only the shown version is searchable
+      expect(await mockDb.query("messageEmbeddings").collect()).toEqual([]);
+      expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+        messageIds: [firstId],
+      });
+    });
+  });
+
+  describe("trashed conversations", () => {
+    it("refuses new messages, edits and replies until the chat is restored", async () => {
+      const mockDb = createMockDatabase();
+      const { user, userId } = createTestUser(mockDb);
+      const { conversationId } = createTestConversation(mockDb, userId, {
+        deletedAt: Date.now(),
+      });
+      const { messageId: questionId } = createTestMessage(
+        mockDb,
+        conversationId,
+        { content: "Question" },
+      );
+      const { messageId: replyId } = createTestMessage(mockDb, conversationId, {
+        author: "assistant",
+        content: "Answer",
+        status: "completed",
+      });
+      (getAuthUserId as any).mockResolvedValue(userId);
+
+      const runMutation = vi.fn();
+      const runAfter = vi.fn();
+      const actionCtx = createMockActionCtx({
+        runQuery: vi
+          .fn()
+          .mockResolvedValueOnce(user)
+          .mockResolvedValueOnce(mockDb.get(conversationId)),
+        runMutation,
+        scheduler: { runAfter } as any,
+      });
+      await expect(
+        (sendMessage as any)._handler(actionCtx, {
+          conversationId,
+          content: "Hello again",
+        }),
+      ).rejects.toThrow("Restore this chat to continue it");
+      expect(runMutation).not.toHaveBeenCalled();
+      expect(runAfter).not.toHaveBeenCalled();
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (rewriteUserMessage as any)._handler(ctx, {
+          messageId: questionId,
+          userId,
+          content: "Edited",
+        }),
+      ).rejects.toThrow("Restore this chat to continue it");
+      await expect(
+        (prepareRegeneration as any)._handler(ctx, {
+          messageId: replyId,
+          userId,
+        }),
+      ).rejects.toThrow("Restore this chat to continue it");
+    });
+  });
+
+  describe("cancelGeneration", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+      ));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("flags the in-flight reply and keeps its partial content when stopped", async () => {
+      const { messageId: replyId } = createTestMessage(
+        mockDb,
+        testConversationId,
+        { author: "assistant", content: "Partial ans", status: "typing" },
+      );
+
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      expect(
+        await (isGenerationCancelled as any)._handler(queryCtx, {
+          messageId: replyId,
+        }),
+      ).toBe(false);
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (cancelGeneration as any)._handler(ctx, {
+        conversationId: testConversationId,
+      });
+      expect(
+        await (isGenerationCancelled as any)._handler(queryCtx, {
+          messageId: replyId,
+        }),
+      ).toBe(true);
+
+      await (markMessageComplete as any)._handler(ctx, {
+        messageId: replyId,
+        status: "cancelled",
+      });
+      expect(mockDb.get(replyId)).toMatchObject({
+        status: "cancelled",
+        content: "Partial ans",
+      });
+    });
+
+    it("denies stopping other users' conversations", async () => {
+      const { userId: otherUserId } = createTestUser(mockDb, {
+        name: "Other User",
+        email: "other@example.com",
+      });
+      (getAuthUserId as any).mockResolvedValue(otherUserId);
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (cancelGeneration as any)._handler(ctx, {
+          conversationId: testConversationId,
+        }),
+      ).rejects.toThrow("Conversation not found or access denied");
+    });
+  });
+
+  describe("failStaleReplies", () => {
+    it("fails replies left typing by a dead action and keeps their text", async () => {
+      const mockDb = createMockDatabase();
+      const { userId } = createTestUser(mockDb);
+      const { conversationId } = createTestConversation(mockDb, userId);
+      const { messageId: partialId } = createTestMessage(
+        mockDb,
+        conversationId,
+        { author: "assistant", content: "Partial ans", status: "typing" },
+      );
+      const { messageId: emptyId } = createTestMessage(mockDb, conversationId, {
+        author: "assistant",
+        content: "",
+        status: "typing",
+      });
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+
+      // Replies younger than STALE_REPLY_MS are still being written
+      await (failStaleReplies as any)._handler(ctx, {});
+      expect(mockDb.get(partialId).status).toBe("typing");
+
+      const dateNow = vi
+        .spyOn(Date, "now")
+        .mockReturnValue(Date.now() + STALE_REPLY_MS + 1);
+      try {
+        await (failStaleReplies as any)._handler(ctx, {});
+      } finally {
+        dateNow.mockRestore();
+      }
+      expect(mockDb.get(partialId)).toMatchObject({
+        status: "error",
+        content: "Partial ans",
+        errorDetails:
+          "The response took too long and was stopped. Please try again.",
+      });
+      expect(mockDb.get(emptyId)).toMatchObject({
+        status: "error",
+        content: "Sorry, I encountered an error while generating a response.",
+      });
+    });
+  });
+
+  describe("conversation summary", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+        { summary: "- Old summary", summarizedThroughTime: 10 },
+      ));
+    });
+
+    it("stores a new summary only if no other run updated it first", async () => {
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (storeConversationSummary as any)._handler(ctx, {
+        conversationId: testConversationId,
+        summary: "- Stale summary",
+        previousSummarizedThroughTime: 5,
+        summarizedThroughTime: 20,
+      });
+      expect(mockDb.get(testConversationId).summary).toBe("- Old summary");
+
+      await (storeConversationSummary as any)._handler(ctx, {
+        conversationId: testConversationId,
+        summary: "- New summary",
+        previousSummarizedThroughTime: 10,
+        summarizedThroughTime: 20,
+      });
+      expect(mockDb.get(testConversationId)).toMatchObject({
+        summary: "- New summary",
+        summarizedThroughTime: 20,
+      });
+    });
+
+    it("drops the summary when a summarized message is edited", async () => {
+      const { messageId } = createTestMessage(mockDb, testConversationId, {
+        author: "user",
+        content: "Old question",
+      });
+      mockDb.patch(messageId, { _creationTime: 5 });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (rewriteUserMessage as any)._handler(ctx, {
+        messageId,
+        userId: testUserId,
+        content: "New question",
+      });
+
+      expect(mockDb.get(testConversationId).summary).toBeUndefined();
+      expect(
+        mockDb.get(testConversationId).summarizedThroughTime,
+      ).toBeUndefined();
+    });
+  });
+
+  describe("pinning, renaming and archiving", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let olderId: Id<"conversations">;
+    let newerId: Id<"conversations">;
+
+    const mutationCtx = () => createMockMutationCtx({ db: mockDb as any });
+    const queryCtx = () => createMockQueryCtx({ db: mockDb as any });
+    const listIds = async (
+      args: { archived?: boolean; projectId?: Id<"projects"> } = {},
+      numItems = 10,
+    ) =>
+      (
+        (
+          await (listConversations as any)._handler(queryCtx(), {
+            ...args,
+            paginationOpts: { numItems, cursor: null },
+          })
+        ).page as { _id: string }[]
+      ).map(({ _id }) => _id);
+    const listPinnedIds = async () =>
+      (
+        (await (listPinnedConversations as any)._handler(queryCtx(), {})) as {
+          _id: string;
+        }[]
+      ).map(({ _id }) => _id);
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: olderId } = createTestConversation(
+        mockDb,
+        testUserId,
+        { updatedTime: 1000 },
+      ));
+      ({ conversationId: newerId } = createTestConversation(
+        mockDb,
+        testUserId,
+        { updatedTime: 2000 },
+      ));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("lists pinned conversations separately", async () => {
+      expect(await listIds()).toEqual([newerId, olderId]);
+      expect(await listPinnedIds()).toEqual([]);
+
+      await (setConversationPinned as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        pinned: true,
+      });
+      expect(await listIds()).toEqual([newerId]);
+      expect(await listPinnedIds()).toEqual([olderId]);
+
+      await (setConversationPinned as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        pinned: false,
+      });
+      expect(await listIds()).toEqual([newerId, olderId]);
+      expect(await listPinnedIds()).toEqual([]);
+    });
+
+    it("pages through conversations by their last activity", async () => {
+      const { conversationId: oldestId } = createTestConversation(
+        mockDb,
+        testUserId,
+        { updatedTime: 500 },
+      );
+      const firstPage = await (listConversations as any)._handler(queryCtx(), {
+        paginationOpts: { numItems: 2, cursor: null },
+      });
+      expect(firstPage.page.map(({ _id }: { _id: string }) => _id)).toEqual([
+        newerId,
+        olderId,
+      ]);
+      expect(firstPage.isDone).toBe(false);
+
+      const secondPage = await (listConversations as any)._handler(queryCtx(), {
+        paginationOpts: { numItems: 2, cursor: firstPage.continueCursor },
+      });
+      expect(secondPage.page.map(({ _id }: { _id: string }) => _id)).toEqual([
+        oldestId,
+      ]);
+      expect(secondPage.isDone).toBe(true);
+    });
+
+    it("lists chats in a project only under the project", async () => {
+      const projectId = mockDb.insert("projects", {
+        userId: testUserId,
+        name: "Thesis",
+      });
+      mockDb.patch(olderId, { projectId });
+
+      expect(await listIds()).toEqual([newerId]);
+      expect(await listIds({ projectId })).toEqual([olderId]);
+      expect(await listIds({ archived: true })).toEqual([]);
+
+      // Pinned chats are only listed under Pinned
+      await (setConversationPinned as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        pinned: true,
+      });
+      expect(await listIds({ projectId })).toEqual([]);
+      expect(await listPinnedIds()).toEqual([olderId]);
+    });
+
+    it("gets a conversation by id for its owner only", async () => {
+      const get = async () =>
+        await (getConversationById as any)._handler(queryCtx(), {
+          conversationId: olderId,
+        });
+      expect(await get()).toMatchObject({ _id: olderId });
+
+      const { userId: otherUserId } = createTestUser(mockDb);
+      (getAuthUserId as any).mockResolvedValue(otherUserId);
+      expect(await get()).toBeNull();
+    });
+
+    it("lists archived conversations separately and unpins them", async () => {
+      await (setConversationPinned as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        pinned: true,
+      });
+      await (setConversationArchived as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        archived: true,
+      });
+      expect(await listIds()).toEqual([newerId]);
+      expect(await listIds({ archived: true })).toEqual([olderId]);
+      expect(mockDb.get(olderId).pinnedAt).toBeUndefined();
+
+      await (setConversationArchived as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        archived: false,
+      });
+      expect(await listIds()).toEqual([newerId, olderId]);
+    });
+
+    it("renames conversations with a trimmed, non-empty name", async () => {
+      await (renameConversation as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        name: "  Trip plans  ",
+      });
+      expect(mockDb.get(olderId).name).toBe("Trip plans");
+
+      await expect(
+        (renameConversation as any)._handler(mutationCtx(), {
+          conversationId: olderId,
+          name: "   ",
+        }),
+      ).rejects.toThrow("Chat name can't be empty");
+    });
+
+    it("keeps a name the user chose over a generated title", async () => {
+      await (updateConversationName as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        newName: "Generated title",
+      });
+      expect(mockDb.get(olderId).name).toBe("Generated title");
+
+      await (renameConversation as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        name: "Trip plans",
+      });
+      await (updateConversationName as any)._handler(mutationCtx(), {
+        conversationId: olderId,
+        newName: "Another generated title",
+      });
+      expect(mockDb.get(olderId).name).toBe("Trip plans");
+    });
+  });
 });
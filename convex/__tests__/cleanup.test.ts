@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  MAX_CLEANUP_ATTEMPTS,
+  getCleanupRetryDelay,
+  recordCleanupAttempt,
+} from "../cleanupQueriesAndMutations";
+import { cleanupConversationResources } from "../cleanup";
+import {
+  deleteConversation,
+  deleteConversationForever,
+  forkConversation,
+} from "../chatQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockActionCtx,
+  createMockMutationCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  createTestMessageWithFiles,
+  createTestFileMapping,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+describe("conversation cleanup", () => {
+  let mockDb: MockDatabase;
+  let testUserId: Id<"users">;
+  let testConversationId: Id<"conversations">;
+
+  const mutationCtx = (
+    runAfter = vi.fn().mockResolvedValue(undefined),
+    deleteStorage = vi.fn().mockResolvedValue(undefined),
+  ) =>
+    createMockMutationCtx({
+      db: mockDb as any,
+      scheduler: { runAfter } as any,
+      storage: { delete: deleteStorage } as any,
+    });
+
+  // Moves the conversation to the trash, then deletes it from there
+  const deleteForever = async (
+    conversationId: Id<"conversations">,
+    ctx = mutationCtx(),
+  ) => {
+    await (deleteConversation as any)._handler(ctx, { conversationId });
+    await (deleteConversationForever as any)._handler(ctx, { conversationId });
+  };
+
+  const getCleanups = async () =>
+    await mockDb.query("conversationCleanups").collect();
+
+  beforeEach(() => {
+    mockDb = createMockDatabase();
+    ({ userId: testUserId } = createTestUser(mockDb));
+    ({ conversationId: testConversationId } = createTestConversation(
+      mockDb,
+      testUserId,
+      { vectorStoreId: "vs_1" },
+    ));
+    const { messageId } = createTestMessageWithFiles(
+      mockDb,
+      testConversationId,
+      testUserId,
+      {
+        fileIds: ["file-1"],
+        uploadedFileNames: ["notes.txt"],
+        uploadedFiles: [
+          {
+            fileName: "notes.txt",
+            storageId: "_storage_1" as Id<"_storage">,
+            fileType: "text/plain",
+            fileSize: 10,
+          },
+        ],
+      },
+    );
+    createTestFileMapping(mockDb, "file-1", "notes.txt", testUserId, {
+      storageId: "_storage_1" as Id<"_storage">,
+      firstUsedInConversationId: testConversationId,
+      firstUsedInMessageId: messageId,
+    });
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+  });
+
+  it("schedules deleting the files and vector store of a deleted chat", async () => {
+    const runAfter = vi.fn().mockResolvedValue(undefined);
+    await deleteForever(testConversationId, mutationCtx(runAfter));
+
+    const cleanups = await getCleanups();
+    expect(cleanups).toEqual([
+      expect.objectContaining({
+        userId: testUserId,
+        conversationId: testConversationId,
+        vectorStoreId: "vs_1",
+        openaiFileIds: ["file-1"],
+        storageIds: ["_storage_1"],
+        status: "pending",
+        attempts: 0,
+      }),
+    ]);
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+      cleanupId: cleanups[0]._id,
+    });
+    expect(await mockDb.query("fileMessageMappings").collect()).toEqual([]);
+  });
+
+  it("keeps what a fork still uses", async () => {
+    const { messageId: replyId } = createTestMessage(
+      mockDb,
+      testConversationId,
+      { author: "assistant", content: "Done", status: "completed" },
+    );
+    const forkId = await (forkConversation as any)._handler(mutationCtx(), {
+      messageId: replyId,
+    });
+
+    await deleteForever(testConversationId);
+    expect(await getCleanups()).toEqual([]);
+
+    await deleteForever(forkId);
+    expect(await getCleanups()).toEqual([
+      expect.objectContaining({
+        conversationId: forkId,
+        vectorStoreId: "vs_1",
+        openaiFileIds: ["file-1"],
+        storageIds: ["_storage_1"],
+      }),
+    ]);
+  });
+
+  it("deletes uploads and retries failed attempts with backoff", async () => {
+    await deleteForever(testConversationId);
+    const [{ _id: cleanupId }] = await getCleanups();
+
+    const runAfter = vi.fn().mockResolvedValue(undefined);
+    const deleteStorage = vi.fn().mockResolvedValue(undefined);
+    await (recordCleanupAttempt as any)._handler(
+      mutationCtx(runAfter, deleteStorage),
+      { cleanupId, errors: ["Failed to delete file file-1: timeout"] },
+    );
+    expect(deleteStorage).toHaveBeenCalledWith("_storage_1");
+    expect(runAfter).toHaveBeenCalledWith(
+      getCleanupRetryDelay(1),
+      expect.anything(),
+      { cleanupId },
+    );
+    expect(mockDb.get(cleanupId)).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "Failed to delete file file-1: timeout",
+    });
+
+    await (recordCleanupAttempt as any)._handler(mutationCtx(), {
+      cleanupId,
+      errors: [],
+    });
+    expect(mockDb.get(cleanupId)).toMatchObject({
+      status: "completed",
+      attempts: 2,
+      lastError: undefined,
+    });
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    await deleteForever(testConversationId);
+    const [{ _id: cleanupId }] = await getCleanups();
+    mockDb.patch(cleanupId, { attempts: MAX_CLEANUP_ATTEMPTS - 1 });
+
+    const runAfter = vi.fn().mockResolvedValue(undefined);
+    await (recordCleanupAttempt as any)._handler(mutationCtx(runAfter), {
+      cleanupId,
+      errors: ["No OpenAI API key to delete the files with"],
+    });
+    expect(mockDb.get(cleanupId)).toMatchObject({
+      status: "failed",
+      attempts: MAX_CLEANUP_ATTEMPTS,
+    });
+    expect(runAfter).not.toHaveBeenCalled();
+  });
+
+  it("records an error when the owner has no OpenAI key", async () => {
+    const runMutation = vi.fn().mockResolvedValue(null);
+    const ctx = createMockActionCtx({
+      runQuery: vi
+        .fn()
+        .mockResolvedValueOnce({
+          _id: "cleanup_1",
+          userId: testUserId,
+          vectorStoreId: "vs_1",
+          openaiFileIds: ["file-1"],
+          storageIds: [],
+          status: "pending",
+          attempts: 0,
+        })
+        .mockResolvedValueOnce([]),
+      runMutation,
+    });
+
+    await (cleanupConversationResources as any)._handler(ctx, {
+      cleanupId: "cleanup_1",
+    });
+    expect(runMutation).toHaveBeenCalledWith(expect.anything(), {
+      cleanupId: "cleanup_1",
+      errors: ["No OpenAI API key to delete the files with"],
+    });
+  });
+});
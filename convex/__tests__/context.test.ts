@@ -0,0 +1,231 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildConversationHistory,
+  estimateTokens,
+  getHistoryTokenBudget,
+  truncateToTokens,
+  CHARS_PER_TOKEN,
+  MAX_HISTORY_TOKENS,
+  MAX_OLDER_MESSAGE_TOKENS,
+  RESERVED_OUTPUT_TOKENS,
+  SUMMARIZE_AFTER_TOKENS,
+  SUMMARY_KEEP_RECENT_MESSAGES,
+  appendProjectInstructionsToSystemPrompt,
+  appendSummaryToSystemPrompt,
+  formatTranscript,
+  selectMessagesToSummarize,
+  type ContextMessage,
+} from "../context";
+
+// Messages are passed newest first, the way the query reads them
+const newestFirst = (...messages: ContextMessage[]) => messages.reverse();
+
+describe("estimateTokens", () => {
+  it("rounds up to whole tokens", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abc")).toBe(1);
+    expect(estimateTokens("a".repeat(CHARS_PER_TOKEN * 10 + 1))).toBe(11);
+  });
+});
+
+describe("getHistoryTokenBudget", () => {
+  it("leaves room for the reply and the prompt within the context window", () => {
+    expect(getHistoryTokenBudget("x-ai/grok-3-mini-beta", 1_000)).toBe(
+      Math.min(131_072 - RESERVED_OUTPUT_TOKENS - 1_000, MAX_HISTORY_TOKENS),
+    );
+  });
+
+  it("caps the budget for very large context windows", () => {
+    expect(getHistoryTokenBudget("google/gemini-2.5-flash", 1_000)).toBe(
+      MAX_HISTORY_TOKENS,
+    );
+  });
+
+  it("never returns a negative budget", () => {
+    expect(getHistoryTokenBudget("o3", 1_000_000)).toBe(0);
+  });
+});
+
+describe("truncateToTokens", () => {
+  it("keeps short content unchanged", () => {
+    expect(truncateToTokens("hello", 10)).toBe("hello");
+  });
+
+  it("keeps the end of long content within the budget", () => {
+    const content = "start " + "x".repeat(1_000) + " end";
+    const truncated = truncateToTokens(content, 50);
+    expect(estimateTokens(truncated)).toBeLessThanOrEqual(50);
+    expect(truncated.endsWith(" end")).toBe(true);
+    expect(truncated).toContain("omitted");
+  });
+});
+
+describe("buildConversationHistory", () => {
+  it("maps assistant and user roles in chronological order", async () => {
+    const history = await buildConversationHistory(
+      newestFirst(
+        { author: "user", content: "Hi" },
+        { author: "assistant", content: "Hello!", status: "completed" },
+        { author: "user", content: "How are you?" },
+      ),
+      1_000,
+    );
+
+    expect(history).toEqual([
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello!" },
+      { role: "user", content: "How are you?" },
+    ]);
+  });
+
+  it("skips typing, failed and empty messages but keeps stopped replies", async () => {
+    const history = await buildConversationHistory(
+      newestFirst(
+        { author: "user", content: "Question" },
+        { author: "assistant", content: "Oops", status: "error" },
+        { author: "assistant", content: "", status: "completed" },
+        { author: "assistant", content: "Partial", status: "cancelled" },
+        { author: "assistant", content: "Still writ", status: "typing" },
+      ),
+      1_000,
+    );
+
+    expect(history).toEqual([
+      { role: "user", content: "Question" },
+      { role: "assistant", content: "Partial" },
+    ]);
+  });
+
+  it("truncates older messages but keeps recent ones in full", async () => {
+    const longAnswer = "y".repeat(
+      MAX_OLDER_MESSAGE_TOKENS * CHARS_PER_TOKEN * 2,
+    );
+    const history = await buildConversationHistory(
+      newestFirst(
+        { author: "assistant", content: longAnswer, status: "completed" },
+        { author: "user", content: "One" },
+        { author: "assistant", content: "Two", status: "completed" },
+        { author: "user", content: "Three" },
+        { author: "assistant", content: longAnswer, status: "completed" },
+      ),
+      100_000,
+    );
+
+    expect(history).toHaveLength(5);
+    expect(estimateTokens(history[0].content)).toBeLessThanOrEqual(
+      MAX_OLDER_MESSAGE_TOKENS,
+    );
+    expect(history[4].content).toBe(longAnswer);
+  });
+
+  it("drops the oldest messages once the budget is used up", async () => {
+    const history = await buildConversationHistory(
+      newestFirst(
+        { author: "user", content: "a".repeat(400) },
+        { author: "assistant", content: "b".repeat(400), status: "completed" },
+        { author: "user", content: "c".repeat(400) },
+      ),
+      250,
+    );
+
+    // 100 tokens each: the two newest fit and the oldest is dropped because
+    // the remaining 50 tokens aren't worth a truncated fragment
+    expect(history.map((turn) => turn.content[0])).toEqual(["b", "c"]);
+  });
+
+  it("reads async iterables lazily and stops at the budget", async () => {
+    let read = 0;
+    async function* messages(): AsyncGenerator<ContextMessage> {
+      for (let i = 0; i < 100; i++) {
+        read++;
+        yield {
+          author: i % 2 ? "assistant" : "user",
+          content: "z".repeat(400),
+        };
+      }
+    }
+
+    const history = await buildConversationHistory(messages(), 300);
+
+    expect(history).toHaveLength(3);
+    expect(read).toBe(4);
+  });
+});
+
+describe("selectMessagesToSummarize", () => {
+  const longMessages = (count: number): ContextMessage[] =>
+    Array.from({ length: count }, (_, i) => ({
+      author: i % 2 ? "assistant" : "user",
+      content: String(i).repeat(
+        Math.ceil((SUMMARIZE_AFTER_TOKENS * CHARS_PER_TOKEN) / 10),
+      ),
+    }));
+
+  it("summarizes nothing while the history is short", () => {
+    expect(
+      selectMessagesToSummarize([
+        { author: "user", content: "Hi" },
+        { author: "assistant", content: "Hello!" },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("keeps the most recent messages out of the summary", () => {
+    const messages = longMessages(12);
+    expect(selectMessagesToSummarize(messages)).toEqual(
+      messages.slice(0, 12 - SUMMARY_KEEP_RECENT_MESSAGES),
+    );
+  });
+
+  it("stops before a reply that is still being generated", () => {
+    const messages = longMessages(12);
+    messages[3] = { ...messages[3], status: "typing" };
+    expect(selectMessagesToSummarize(messages)).toEqual(messages.slice(0, 3));
+  });
+});
+
+describe("formatTranscript", () => {
+  it("labels speakers and skips failed replies", () => {
+    expect(
+      formatTranscript([
+        { author: "user", content: "Question" },
+        { author: "assistant", content: "Oops", status: "error" },
+        { author: "assistant", content: "Answer" },
+      ]),
+    ).toBe("User: Question\n\nAssistant: Answer");
+  });
+});
+
+describe("appendSummaryToSystemPrompt", () => {
+  it("leaves the prompt unchanged without a summary", () => {
+    expect(appendSummaryToSystemPrompt("Prompt", undefined)).toBe("Prompt");
+    expect(appendSummaryToSystemPrompt("Prompt", "  ")).toBe("Prompt");
+  });
+
+  it("appends the summary after the prompt", () => {
+    const prompt = appendSummaryToSystemPrompt("Prompt", "- User likes Rust");
+    expect(prompt.startsWith("Prompt")).toBe(true);
+    expect(prompt.endsWith("- User likes Rust")).toBe(true);
+  });
+});
+
+describe("appendProjectInstructionsToSystemPrompt", () => {
+  it("leaves the prompt unchanged outside a project or without instructions", () => {
+    expect(appendProjectInstructionsToSystemPrompt("Prompt", null)).toBe(
+      "Prompt",
+    );
+    expect(
+      appendProjectInstructionsToSystemPrompt("Prompt", { name: "Thesis" }),
+    ).toBe("Prompt");
+  });
+
+  it("appends the project's instructions after the prompt", () => {
+    const prompt = appendProjectInstructionsToSystemPrompt("Prompt", {
+      name: "Thesis",
+      instructions: " Cite papers by author and year. ",
+    });
+    expect(prompt.startsWith("Prompt")).toBe(true);
+    expect(prompt).toContain('"Thesis"');
+    expect(prompt.endsWith("Cite papers by author and year.")).toBe(true);
+  });
+});
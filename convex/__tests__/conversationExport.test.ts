@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  EXPORT_SCHEMA_VERSION,
+  buildConversationExport,
+  formatTimestamp,
+  getExportFile,
+  renderHtml,
+  renderJson,
+  renderMarkdown,
+} from "../conversationExport";
+import { exportConversation } from "../chatQueriesAndMutations";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  createMockActionCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+const CREATED_AT = Date.UTC(2025, 0, 15, 14, 30);
+
+describe("conversation export", () => {
+  let mockDb: MockDatabase;
+  let testUserId: Id<"users">;
+  let conversation: Doc<"conversations">;
+  let messages: Doc<"messages">[];
+
+  beforeEach(() => {
+    mockDb = createMockDatabase();
+    ({ userId: testUserId } = createTestUser(mockDb));
+    ({ conversation } = createTestConversation(mockDb, testUserId, {
+      name: '"Rate limiting: a plan"',
+    }));
+    const { message: question } = createTestMessage(mockDb, conversation._id, {
+      content: "How do I add rate limiting?",
+      uploadedFileNames: ["notes.pdf"],
+    });
+    const { message: reply } = createTestMessage(mockDb, conversation._id, {
+      author: "assistant",
+      content: "Use a **token bucket**.\n\n<script>alert(1)</script>",
+      status: "completed",
+      model: "o3",
+      thinkingIntensity: "high",
+      reasoningSummary: "Compare algorithms",
+      citations: [
+        { type: "url", url: "https://example.com/limits", title: "Limits" },
+        { type: "file", fileId: "file-1", fileName: "notes.pdf" },
+      ],
+    });
+    messages = [question, reply].map((message) => ({
+      ...message,
+      _creationTime: CREATED_AT,
+    }));
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+  });
+
+  it("builds a versioned export with message metadata", () => {
+    const exportData = buildConversationExport(
+      conversation,
+      messages,
+      CREATED_AT,
+    );
+    const parsed = JSON.parse(renderJson(exportData));
+
+    expect(parsed.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(parsed.conversation.name).toBe("Rate limiting: a plan");
+    expect(parsed.messages[0]).toMatchObject({
+      author: "user",
+      attachments: ["notes.pdf"],
+      createdAt: "2025-01-15T14:30:00.000Z",
+    });
+    expect(parsed.messages[1]).toMatchObject({
+      model: "o3",
+      reasoningSummary: "Compare algorithms",
+      citations: [
+        { type: "url", url: "https://example.com/limits" },
+        { type: "file", fileName: "notes.pdf" },
+      ],
+    });
+  });
+
+  it("renders Markdown with authors, times, reasoning and sources", () => {
+    const markdown = renderMarkdown(
+      buildConversationExport(conversation, messages, CREATED_AT),
+      "America/New_York",
+    );
+
+    expect(markdown).toContain("# Rate limiting: a plan");
+    expect(markdown).toContain("## You · Jan 15, 2025, 9:30 AM EST");
+    expect(markdown).toContain("## Assistant (OpenAI o3, high thinking)");
+    expect(markdown).toContain("<summary>Reasoning</summary>");
+    expect(markdown).toContain("1. [Limits](https://example.com/limits)");
+    expect(markdown).toContain("2. notes.pdf");
+  });
+
+  it("falls back to UTC for unknown time zones", () => {
+    expect(formatTimestamp("2025-01-15T14:30:00.000Z", "Not/AZone")).toBe(
+      "2025-01-15T14:30:00.000Z",
+    );
+    expect(formatTimestamp("2025-01-15T14:30:00.000Z")).toBe(
+      "Jan 15, 2025, 2:30 PM UTC",
+    );
+  });
+
+  it("escapes raw HTML and drops unsafe links in the printable page", () => {
+    messages[1].content =
+      "**Sure**: [click](javascript:alert(1)) and [docs](https://example.com)\n\n<img src=x onerror=alert(1)>";
+    const html = renderHtml(
+      buildConversationExport(conversation, messages, CREATED_AT),
+    );
+
+    expect(html).toContain("<title>Rate limiting: a plan</title>");
+    expect(html).not.toContain("<img src=x");
+    expect(html).toContain("&lt;img src=x onerror=alert(1)&gt;");
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain('<a href="https://example.com">docs</a>');
+    expect(html).toContain("<strong>Sure</strong>");
+  });
+
+  it("names the file after the conversation", () => {
+    const exportData = buildConversationExport(
+      conversation,
+      messages,
+      CREATED_AT,
+    );
+    expect(getExportFile(exportData, "markdown")).toEqual({
+      fileName: "rate-limiting-a-plan.md",
+      mimeType: "text/markdown",
+    });
+  });
+
+  it("exports the messages listed for the conversation", async () => {
+    const runQuery = vi
+      .fn()
+      .mockResolvedValueOnce(mockDb.get(testUserId))
+      .mockResolvedValueOnce(conversation)
+      .mockResolvedValueOnce(messages);
+    const ctx = createMockActionCtx({ runQuery });
+
+    const file = await (exportConversation as any)._handler(ctx, {
+      conversationId: conversation._id,
+      format: "json",
+    });
+
+    expect(runQuery).toHaveBeenLastCalledWith(expect.anything(), {
+      conversationId: conversation._id,
+    });
+    expect(file.fileName).toBe("rate-limiting-a-plan.json");
+    expect(JSON.parse(file.content).messages).toHaveLength(2);
+  });
+});
@@ -0,0 +1,370 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  MAX_IMPORT_CHUNK_MESSAGES,
+  MAX_IMPORT_CHUNK_SIZE,
+  MAX_IMPORTED_MESSAGES,
+  MAX_IMPORTED_MESSAGE_SIZE,
+  chunkImportedMessages,
+  parseImportFile,
+  type ImportedMessage,
+} from "../conversationImport";
+import { buildConversationExport, renderJson } from "../conversationExport";
+import { importConversation, importMessages } from "../chatQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockMutationCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+const chatGptMessage = (
+  role: string,
+  parts: unknown[],
+  extra: Record<string, unknown> = {},
+) => ({
+  author: { role },
+  content: { content_type: "text", parts },
+  ...extra,
+});
+
+const chatGptExport = [
+  {
+    title: "Rate limiting",
+    create_time: 1700000000.5,
+    update_time: 1700000600.25,
+    current_node: "answer",
+    mapping: {
+      root: { message: null, parent: null },
+      system: {
+        message: chatGptMessage("system", [""]),
+        parent: "root",
+      },
+      question: {
+        message: chatGptMessage("user", ["How do I add rate limiting?"]),
+        parent: "system",
+      },
+      // An edited branch that is not shown
+      oldAnswer: {
+        message: chatGptMessage("assistant", ["Old answer"]),
+        parent: "question",
+      },
+      tool: {
+        message: {
+          author: { role: "assistant" },
+          content: { content_type: "code", text: "search('rate limits')" },
+        },
+        parent: "question",
+      },
+      answer: {
+        message: chatGptMessage("assistant", ["Use a token bucket."], {
+          metadata: { model_slug: "gpt-4o" },
+        }),
+        parent: "tool",
+      },
+    },
+  },
+  {
+    title: "Empty",
+    mapping: { root: { message: null, parent: null } },
+  },
+];
+
+const claudeExport = [
+  {
+    uuid: "c1",
+    name: "Bread",
+    created_at: "2024-03-01T10:00:00.000Z",
+    updated_at: "2024-03-02T10:00:00.000Z",
+    chat_messages: [
+      { sender: "human", text: "A recipe for bread?", content: [] },
+      {
+        sender: "assistant",
+        text: "",
+        content: [
+          { type: "text", text: "Flour," },
+          { type: "tool_use" },
+          { type: "text", text: "water and salt." },
+        ],
+      },
+    ],
+  },
+];
+
+describe("conversation import", () => {
+  describe("parseImportFile", () => {
+    it("follows the shown branch of ChatGPT conversations", () => {
+      const { source, conversations, skipped } = parseImportFile(
+        JSON.stringify(chatGptExport),
+      );
+
+      expect(source).toBe("chatgpt");
+      expect(skipped).toBe(1);
+      expect(conversations).toEqual([
+        {
+          name: "Rate limiting",
+          updatedAt: 1700000600250,
+          messages: [
+            {
+              author: "user",
+              content: "How do I add rate limiting?",
+              model: undefined,
+            },
+            {
+              author: "assistant",
+              content: "Use a token bucket.",
+              model: "gpt-4o",
+            },
+          ],
+        },
+      ]);
+    });
+
+    it("joins the text blocks of Claude messages", () => {
+      const { source, conversations } = parseImportFile(
+        JSON.stringify(claudeExport),
+      );
+
+      expect(source).toBe("claude");
+      expect(conversations[0]).toEqual({
+        name: "Bread",
+        updatedAt: Date.parse("2024-03-02T10:00:00.000Z"),
+        messages: [
+          { author: "user", content: "A recipe for bread?" },
+          { author: "assistant", content: "Flour,\n\nwater and salt." },
+        ],
+      });
+    });
+
+    it("reads JSON exports from this app", () => {
+      const mockDb = createMockDatabase();
+      const { userId } = createTestUser(mockDb);
+      const { conversation } = createTestConversation(mockDb, userId, {
+        name: "Exported",
+        updatedTime: 1700000000000,
+      });
+      const { message: question } = createTestMessage(
+        mockDb,
+        conversation._id,
+        { content: "Hi" },
+      );
+      const { message: reply } = createTestMessage(mockDb, conversation._id, {
+        author: "assistant",
+        content: "Hello",
+        model: "o3",
+        citations: [
+          { type: "url", url: "https://example.com", title: "Example" },
+          { type: "file", fileId: "file-1", fileName: "notes.pdf" },
+        ],
+      });
+      const file = renderJson(
+        buildConversationExport(conversation, [question, reply], Date.now()),
+      );
+
+      const { source, conversations } = parseImportFile(file);
+
+      expect(source).toBe("app");
+      expect(conversations[0]).toMatchObject({
+        name: "Exported",
+        updatedAt: 1700000000000,
+        messages: [
+          { author: "user", content: "Hi" },
+          {
+            author: "assistant",
+            content: "Hello",
+            model: "o3",
+            citations: [
+              { type: "url", url: "https://example.com", title: "Example" },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("rejects files it doesn't recognize", () => {
+      expect(() => parseImportFile("not json")).toThrow("isn't valid JSON");
+      expect(() => parseImportFile("[]")).toThrow("any conversations");
+      expect(() => parseImportFile('{"hello": "world"}')).toThrow(
+        "Unrecognized file",
+      );
+      expect(() =>
+        parseImportFile(
+          JSON.stringify({ schemaVersion: 99, conversation: {}, messages: [] }),
+        ),
+      ).toThrow("newer version");
+    });
+  });
+
+  describe("chunkImportedMessages", () => {
+    const message = (content: string): ImportedMessage => ({
+      author: "user",
+      content,
+    });
+
+    it("splits chats into chunks that fit in one mutation", () => {
+      const chunks = chunkImportedMessages(
+        Array.from({ length: MAX_IMPORT_CHUNK_MESSAGES + 1 }, () =>
+          message("Hi"),
+        ),
+      );
+      expect(chunks.map((chunk) => chunk.length)).toEqual([
+        MAX_IMPORT_CHUNK_MESSAGES,
+        1,
+      ]);
+
+      // Long messages are cut, then packed up to MAX_IMPORT_CHUNK_SIZE
+      const longMessages = Array.from({ length: 12 }, () =>
+        message("a".repeat(MAX_IMPORTED_MESSAGE_SIZE + 10)),
+      );
+      const perChunk = Math.floor(
+        MAX_IMPORT_CHUNK_SIZE / MAX_IMPORTED_MESSAGE_SIZE,
+      );
+      const sizedChunks = chunkImportedMessages(longMessages);
+      expect(sizedChunks[0]).toHaveLength(perChunk);
+      expect(sizedChunks[0][0].content).toHaveLength(MAX_IMPORTED_MESSAGE_SIZE);
+    });
+
+    it("rejects chats with too many messages", () => {
+      const messages = Array.from({ length: MAX_IMPORTED_MESSAGES }, () =>
+        message("Hi"),
+      );
+      expect(chunkImportedMessages(messages)).toHaveLength(
+        MAX_IMPORTED_MESSAGES / MAX_IMPORT_CHUNK_MESSAGES,
+      );
+      expect(() =>
+        chunkImportedMessages([...messages, message("One more")]),
+      ).toThrow(`more than ${MAX_IMPORTED_MESSAGES} messages`);
+    });
+  });
+
+  describe("importConversation", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("stores the conversation with its original time and marks messages", async () => {
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      const conversationId = await (importConversation as any)._handler(ctx, {
+        source: "chatgpt",
+        name: "  Rate   limiting ",
+        updatedAt: 1700000600250,
+        messages: [
+          { author: "user", content: "How do I add rate limiting?" },
+          { author: "assistant", content: "Use a token bucket." },
+        ],
+      });
+
+      expect(mockDb.get(conversationId)).toMatchObject({
+        userId: testUserId,
+        name: "Rate limiting",
+        updatedTime: 1700000600250,
+        importedFrom: "chatgpt",
+      });
+      expect(mockDb.get(conversationId).lastResponseId).toBeUndefined();
+      const messages = await mockDb.query("messages").collect();
+      expect(messages).toEqual([
+        expect.objectContaining({
+          author: "user",
+          userId: testUserId,
+          imported: true,
+          status: undefined,
+        }),
+        expect.objectContaining({
+          author: "assistant",
+          imported: true,
+          status: "completed",
+        }),
+      ]);
+    });
+
+    it("doesn't date imported chats in the future", async () => {
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      const conversationId = await (importConversation as any)._handler(ctx, {
+        source: "claude",
+        name: "",
+        updatedAt: Date.now() + 1_000_000,
+        messages: [{ author: "user", content: "Hi" }],
+      });
+
+      const conversation = mockDb.get(conversationId);
+      expect(conversation.name).toBe("Imported chat");
+      expect(conversation.updatedTime).toBeLessThanOrEqual(Date.now());
+    });
+
+    it("imports the rest of a chat in chunks up to the limits", async () => {
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      const fullChunk = Array.from(
+        { length: MAX_IMPORT_CHUNK_MESSAGES },
+        (_, i) => ({ author: "user", content: `Message ${i}` }),
+      );
+      const conversationId = await (importConversation as any)._handler(ctx, {
+        source: "chatgpt",
+        name: "Long chat",
+        updatedAt: 0,
+        messages: fullChunk,
+      });
+      await (importMessages as any)._handler(ctx, {
+        conversationId,
+        messages: fullChunk,
+      });
+      expect(await mockDb.query("messages").collect()).toHaveLength(
+        2 * MAX_IMPORT_CHUNK_MESSAGES,
+      );
+
+      await expect(
+        (importMessages as any)._handler(ctx, {
+          conversationId,
+          messages: [...fullChunk, { author: "user", content: "One more" }],
+        }),
+      ).rejects.toThrow("Too many messages to import at once");
+      const oversized = Array.from(
+        {
+          length:
+            Math.floor(MAX_IMPORT_CHUNK_SIZE / MAX_IMPORTED_MESSAGE_SIZE) + 1,
+        },
+        () => ({
+          author: "user",
+          content: "a".repeat(MAX_IMPORTED_MESSAGE_SIZE),
+        }),
+      );
+      await expect(
+        (importMessages as any)._handler(ctx, {
+          conversationId,
+          messages: oversized,
+        }),
+      ).rejects.toThrow("Too many messages to import at once");
+    });
+
+    it("only adds imported messages to the user's imported chats", async () => {
+      const { conversationId } = createTestConversation(mockDb, testUserId);
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (importMessages as any)._handler(ctx, {
+          conversationId,
+          messages: [{ author: "user", content: "Hi" }],
+        }),
+      ).rejects.toThrow("Only imported conversations");
+    });
+
+    it("rejects chats without messages", async () => {
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (importConversation as any)._handler(ctx, {
+          source: "app",
+          name: "Empty",
+          updatedAt: 0,
+          messages: [],
+        }),
+      ).rejects.toThrow();
+    });
+  });
+});
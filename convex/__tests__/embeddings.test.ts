@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  EMBEDDING_DIMENSIONS,
+  createStubEmbeddingProvider,
+  getEmbeddingInput,
+  stubEmbedding,
+} from "../embeddings";
+import { embedMessages, semanticSearch } from "../semanticSearch";
+import {
+  getSemanticSearchResults,
+  storeMessageEmbeddings,
+} from "../searchQueriesAndMutations";
+import { markMessageComplete } from "../chatQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockQueryCtx,
+  createMockMutationCtx,
+  createMockActionCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+const dot = (a: number[], b: number[]) =>
+  a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+describe("embeddings", () => {
+  const originalProvider = process.env.EMBEDDING_PROVIDER;
+
+  beforeEach(() => {
+    process.env.EMBEDDING_PROVIDER = "stub";
+  });
+
+  afterEach(() => {
+    process.env.EMBEDDING_PROVIDER = originalProvider;
+  });
+
+  describe("stub provider", () => {
+    it("returns the same normalized vector for the same text", async () => {
+      const provider = createStubEmbeddingProvider();
+      const [a, b] = await provider.embed([
+        "Rate limiting with Redis",
+        "rate LIMITING with redis!",
+      ]);
+
+      expect(provider.model).toBe("stub");
+      expect(a).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(a).toEqual(b);
+      expect(dot(a, a)).toBeCloseTo(1);
+    });
+
+    it("ranks texts sharing words as more similar", () => {
+      const query = stubEmbedding("rate limiting for the API");
+      const related = stubEmbedding("We added rate limiting to the API");
+      const unrelated = stubEmbedding("A recipe for banana bread");
+
+      expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+    });
+
+    it("embeds empty text as a zero vector", () => {
+      expect(stubEmbedding("", 4)).toEqual([0, 0, 0, 0]);
+    });
+
+    it("flattens whitespace in the embedded text", () => {
+      expect(getEmbeddingInput("  line one\n\nline two ")).toBe(
+        "line one line two",
+      );
+    });
+  });
+
+  describe("storing and searching", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+      ));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("embeds a completed reply with the message it answers", async () => {
+      const { messageId: questionId } = createTestMessage(
+        mockDb,
+        testConversationId,
+        { content: "How do I add rate limiting?" },
+      );
+      const { messageId: replyId } = createTestMessage(
+        mockDb,
+        testConversationId,
+        {
+          author: "assistant",
+          content: "Use a token bucket.",
+          status: "typing",
+          replyToMessageId: questionId,
+        },
+      );
+
+      const runAfter = vi.fn().mockResolvedValue(undefined);
+      const ctx = createMockMutationCtx({
+        db: mockDb as any,
+        scheduler: { runAfter } as any,
+      });
+      await (markMessageComplete as any)._handler(ctx, { messageId: replyId });
+
+      expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+        messageIds: [questionId, replyId],
+      });
+    });
+
+    it("stores one embedding per message", async () => {
+      const { messageId } = createTestMessage(mockDb, testConversationId, {
+        userId: testUserId,
+      });
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      const args = {
+        model: "stub",
+        embeddings: [{ messageId, embedding: [1, 0] }],
+      };
+
+      await (storeMessageEmbeddings as any)._handler(ctx, args);
+      await (storeMessageEmbeddings as any)._handler(ctx, {
+        ...args,
+        embeddings: [{ messageId, embedding: [0, 1] }],
+      });
+
+      const stored = await mockDb.query("messageEmbeddings").collect();
+      expect(stored).toHaveLength(1);
+      expect(stored[0]).toMatchObject({
+        messageId,
+        conversationId: testConversationId,
+        userId: testUserId,
+        embedding: [0, 1],
+      });
+    });
+
+    it("embeds messages with the configured provider", async () => {
+      const messageId = "messages_1" as Id<"messages">;
+      const runMutation = vi.fn();
+      const ctx = createMockActionCtx({
+        runQuery: vi
+          .fn()
+          .mockResolvedValue([
+            { messageId, userId: testUserId, content: "Rate limiting" },
+          ]),
+        runMutation,
+      });
+
+      await (embedMessages as any)._handler(ctx, { messageIds: [messageId] });
+
+      expect(runMutation).toHaveBeenCalledWith(expect.anything(), {
+        model: "stub",
+        embeddings: [{ messageId, embedding: stubEmbedding("Rate limiting") }],
+      });
+    });
+
+    it("only returns visible messages of the user", async () => {
+      const { messageId } = createTestMessage(mockDb, testConversationId, {
+        content: "We talked about rate limiting",
+      });
+      const { messageId: hiddenId } = createTestMessage(
+        mockDb,
+        testConversationId,
+        { author: "assistant", content: "Old version", inactiveVersion: true },
+      );
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (storeMessageEmbeddings as any)._handler(ctx, {
+        model: "stub",
+        embeddings: [
+          { messageId, embedding: [1] },
+          { messageId: hiddenId, embedding: [1] },
+        ],
+      });
+      // Hidden versions aren't stored, but one may be left from before it was
+      // hidden
+      const [visible] = await mockDb.query("messageEmbeddings").collect();
+      expect(visible.messageId).toBe(messageId);
+      const hiddenEmbeddingId = mockDb.insert("messageEmbeddings", {
+        messageId: hiddenId,
+        conversationId: testConversationId,
+        userId: testUserId,
+        model: "stub",
+        embedding: [1],
+      });
+
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      const matches = [
+        { _id: hiddenEmbeddingId, _score: 0.9 },
+        { _id: visible._id, _score: 0.8 },
+      ];
+      const results = await (getSemanticSearchResults as any)._handler(
+        queryCtx,
+        { userId: testUserId, matches },
+      );
+      expect(results).toEqual([
+        expect.objectContaining({ messageId, score: 0.8 }),
+      ]);
+
+      const { userId: otherUserId } = createTestUser(mockDb, {
+        name: "Other",
+        email: "other@example.com",
+      });
+      expect(
+        await (getSemanticSearchResults as any)._handler(queryCtx, {
+          userId: otherUserId,
+          matches,
+        }),
+      ).toEqual([]);
+    });
+
+    it("searches the user's embeddings with the query's vector", async () => {
+      const vectorSearch = vi.fn().mockResolvedValue([]);
+      const ctx = createMockActionCtx({
+        runQuery: vi
+          .fn()
+          .mockResolvedValueOnce(mockDb.get(testUserId))
+          .mockResolvedValueOnce([]),
+        vectorSearch,
+      });
+
+      await (semanticSearch as any)._handler(ctx, {
+        query: "where did we discuss rate limiting",
+      });
+
+      expect(vectorSearch).toHaveBeenCalledWith(
+        "messageEmbeddings",
+        "by_embedding",
+        expect.objectContaining({
+          vector: stubEmbedding("where did we discuss rate limiting"),
+          limit: 10,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  claimProjectVectorStore,
+  createProject,
+  deleteProject,
+  listProjects,
+  removeProjectFile,
+  setConversationProject,
+  updateProject,
+} from "../projectQueriesAndMutations";
+import { createConversation } from "../chatQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockQueryCtx,
+  createMockMutationCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+describe("projects", () => {
+  let mockDb: MockDatabase;
+  let testUserId: Id<"users">;
+  let projectId: Id<"projects">;
+
+  const mutationCtx = (runAfter = vi.fn().mockResolvedValue(undefined)) =>
+    createMockMutationCtx({
+      db: mockDb as any,
+      scheduler: { runAfter } as any,
+    });
+
+  const addFile = (openaiFileId: string) =>
+    mockDb.insert("projectFiles", {
+      projectId,
+      userId: testUserId,
+      fileName: `${openaiFileId}.pdf`,
+      openaiFileId,
+      storageId: `_storage_${openaiFileId}` as Id<"_storage">,
+      fileType: "application/pdf",
+      fileSize: 100,
+    });
+
+  beforeEach(async () => {
+    mockDb = createMockDatabase();
+    ({ userId: testUserId } = createTestUser(mockDb));
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+    projectId = await (createProject as any)._handler(mutationCtx(), {
+      name: " Thesis ",
+      instructions: "",
+    });
+  });
+
+  it("creates, lists and updates projects", async () => {
+    expect(mockDb.get(projectId)).toMatchObject({
+      name: "Thesis",
+      instructions: undefined,
+    });
+
+    await (updateProject as any)._handler(mutationCtx(), {
+      projectId,
+      name: "Dissertation",
+      instructions: "  Cite papers by author and year.  ",
+    });
+    const projects = await (listProjects as any)._handler(
+      createMockQueryCtx({ db: mockDb as any }),
+      {},
+    );
+    expect(projects).toEqual([
+      expect.objectContaining({
+        name: "Dissertation",
+        instructions: "Cite papers by author and year.",
+      }),
+    ]);
+
+    await expect(
+      (updateProject as any)._handler(mutationCtx(), {
+        projectId,
+        name: " ",
+        instructions: "",
+      }),
+    ).rejects.toThrow("Project name can't be empty");
+  });
+
+  it("creates chats in a project and moves chats in and out", async () => {
+    const conversationId = await (createConversation as any)._handler(
+      mutationCtx(),
+      { projectId },
+    );
+    expect(mockDb.get(conversationId).projectId).toBe(projectId);
+
+    await (setConversationProject as any)._handler(mutationCtx(), {
+      conversationId,
+      projectId: null,
+    });
+    expect(mockDb.get(conversationId).projectId).toBeUndefined();
+
+    const { userId: otherUserId } = createTestUser(mockDb, {
+      name: "Other",
+      email: "other@example.com",
+    });
+    const { conversationId: otherConversationId } = createTestConversation(
+      mockDb,
+      otherUserId,
+    );
+    await expect(
+      (setConversationProject as any)._handler(mutationCtx(), {
+        conversationId: otherConversationId,
+        projectId,
+      }),
+    ).rejects.toThrow("Conversation not found or access denied");
+  });
+
+  it("keeps the chats of a deleted project and cleans up its files", async () => {
+    mockDb.patch(projectId, { vectorStoreId: "vs_project" });
+    addFile("file-1");
+    const { conversationId } = createTestConversation(mockDb, testUserId, {
+      projectId,
+    });
+
+    const runAfter = vi.fn().mockResolvedValue(undefined);
+    await (deleteProject as any)._handler(mutationCtx(runAfter), {
+      projectId,
+    });
+
+    expect(mockDb.get(projectId)).toBeNull();
+    expect(mockDb.get(conversationId).projectId).toBeUndefined();
+    expect(await mockDb.query("projectFiles").collect()).toEqual([]);
+    const cleanups = await mockDb.query("conversationCleanups").collect();
+    expect(cleanups).toEqual([
+      expect.objectContaining({
+        projectId,
+        vectorStoreId: "vs_project",
+        openaiFileIds: ["file-1"],
+        storageIds: ["_storage_file-1"],
+        status: "pending",
+      }),
+    ]);
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+      cleanupId: cleanups[0]._id,
+    });
+  });
+
+  it("cleans up a removed file but keeps the vector store", async () => {
+    mockDb.patch(projectId, { vectorStoreId: "vs_project" });
+    const fileId = addFile("file-1");
+    addFile("file-2");
+
+    await (removeProjectFile as any)._handler(mutationCtx(), { fileId });
+
+    expect(
+      (await mockDb.query("projectFiles").collect()).map(
+        ({ openaiFileId }) => openaiFileId,
+      ),
+    ).toEqual(["file-2"]);
+    const [cleanup, ...otherCleanups] = await mockDb
+      .query("conversationCleanups")
+      .collect();
+    expect(otherCleanups).toEqual([]);
+    expect(cleanup).toMatchObject({ projectId, openaiFileIds: ["file-1"] });
+    expect(cleanup.vectorStoreId).toBeUndefined();
+  });
+
+  it("keeps the first vector store claimed by uploads running at once", async () => {
+    const claim = async (vectorStoreId: string) =>
+      await (claimProjectVectorStore as any)._handler(mutationCtx(), {
+        projectId,
+        vectorStoreId,
+      });
+
+    expect(await claim("vs_first")).toBe("vs_first");
+    expect(await claim("vs_second")).toBe("vs_first");
+    expect(mockDb.get(projectId).vectorStoreId).toBe("vs_first");
+
+    mockDb.delete(projectId);
+    expect(await claim("vs_third")).toBeNull();
+  });
+});
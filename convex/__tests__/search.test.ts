@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { buildSnippet, findMatches, getSearchTerms } from "../search";
+import { searchMessages } from "../searchQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockQueryCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+describe("search", () => {
+  describe("snippets", () => {
+    it("splits queries into unique lowercase terms", () => {
+      expect(getSearchTerms("  Vector, vector stores!")).toEqual([
+        "vector",
+        "stores",
+      ]);
+    });
+
+    it("matches terms at the start of words only", () => {
+      expect(findMatches("Re-index the indexes", ["index"])).toEqual([
+        { start: 3, end: 8 },
+        { start: 13, end: 18 },
+      ]);
+      expect(findMatches("reindex", ["index"])).toEqual([]);
+    });
+
+    it("keeps short content whole and highlights every match", () => {
+      const snippet = buildSnippet(
+        "Convex search\n\nworks with Convex",
+        "convex",
+      );
+      expect(snippet.text).toBe("Convex search works with Convex");
+      expect(
+        snippet.highlights.map(({ start, end }) =>
+          snippet.text.slice(start, end),
+        ),
+      ).toEqual(["Convex", "Convex"]);
+    });
+
+    it("cuts long content around the first match", () => {
+      const content = `${"lorem ipsum ".repeat(30)}the needle is here ${"dolor sit ".repeat(30)}`;
+      const snippet = buildSnippet(content, "needle", 80);
+
+      expect(snippet.text.startsWith("…")).toBe(true);
+      expect(snippet.text.endsWith("…")).toBe(true);
+      expect(snippet.text.length).toBeLessThanOrEqual(82);
+      expect(snippet.highlights).toHaveLength(1);
+      const [{ start, end }] = snippet.highlights;
+      expect(snippet.text.slice(start, end)).toBe("needle");
+    });
+  });
+
+  describe("searchMessages", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+        { name: '"Trip planning"' },
+      ));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("returns matching conversations and messages of the user", async () => {
+      const { messageId } = createTestMessage(mockDb, testConversationId, {
+        userId: testUserId,
+        author: "assistant",
+        content: "Pack a rain jacket for the trip.",
+      });
+      createTestMessage(mockDb, testConversationId, {
+        userId: testUserId,
+        content: "What's the weather like?",
+      });
+
+      const { userId: otherUserId } = createTestUser(mockDb, {
+        name: "Other",
+        email: "other@example.com",
+      });
+      const { conversationId: otherConversationId } = createTestConversation(
+        mockDb,
+        otherUserId,
+        { name: "Another trip" },
+      );
+      createTestMessage(mockDb, otherConversationId, {
+        userId: otherUserId,
+        content: "My trip to the coast",
+      });
+
+      const ctx = createMockQueryCtx({ db: mockDb as any });
+      const results = await (searchMessages as any)._handler(ctx, {
+        query: "trip",
+      });
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        conversationId: testConversationId,
+        snippet: "Trip planning",
+        highlights: [{ start: 0, end: 4 }],
+      });
+      expect(results[0].messageId).toBeUndefined();
+      expect(results[1]).toMatchObject({
+        conversationId: testConversationId,
+        conversationName: '"Trip planning"',
+        messageId,
+        author: "assistant",
+      });
+    });
+
+    it("returns nothing for a blank query", async () => {
+      const ctx = createMockQueryCtx({ db: mockDb as any });
+      expect(
+        await (searchMessages as any)._handler(ctx, { query: "   " }),
+      ).toEqual([]);
+    });
+  });
+});
@@ -21,10 +21,19 @@ export interface MockDatabase {
 
 export interface MockQuery {
   withIndex: (indexName: string, constraint?: (q: any) => any) => MockQuery;
+  withSearchIndex: (
+    indexName: string,
+    constraint: (q: any) => any,
+  ) => MockQuery;
   filter: (predicate: (q: any) => any) => MockQuery;
   order: (direction: "asc" | "desc") => MockQuery;
   take: (n: number) => Promise<any[]>;
+  paginate: (paginationOpts: {
+    numItems: number;
+    cursor: string | null;
+  }) => Promise<{ page: any[]; isDone: boolean; continueCursor: string }>;
   collect: () => Promise<any[]>;
+  first: () => Promise<any>;
   unique: () => Promise<any>;
   [Symbol.asyncIterator]: () => AsyncIterator<any>;
 }
@@ -63,22 +72,95 @@ export function createMockDatabase(): MockDatabase {
     const tableData = getTableData(table);
     const filteredData = Array.from(tableData.values());
     let indexFilter: ((item: any) => boolean) | null = null;
+    // Fields of the index, read from names like "by_userId_and_updatedTime"
+    let indexFields: string[] = [];
     let orderDirection: "asc" | "desc" = "asc";
 
+    // Sort like an index: by its fields, missing values first, then by
+    // _creationTime
+    const sortResults = (results: any[]) => {
+      const compareValues = (a: any, b: any) =>
+        a === b
+          ? 0
+          : a === undefined
+            ? -1
+            : b === undefined
+              ? 1
+              : a < b
+                ? -1
+                : 1;
+      return results.sort((a, b) => {
+        for (const field of indexFields) {
+          const comparison = compareValues(a[field], b[field]);
+          if (comparison !== 0) {
+            return orderDirection === "desc" ? -comparison : comparison;
+          }
+        }
+        const timeA = a._creationTime || 0;
+        const timeB = b._creationTime || 0;
+        return orderDirection === "desc" ? timeB - timeA : timeA - timeB;
+      });
+    };
+
     const query: MockQuery = {
       withIndex: (indexName: string, constraint?: (q: any) => any) => {
+        indexFields = indexName.replace(/^by_/, "").split("_and_");
         if (constraint) {
-          // Mock index constraint - for simplicity, we'll assume it's an equality check
-          const mockQ = {
-            eq: (field: string, value: any) => {
-              indexFilter = (item: any) => item[field] === value;
+          // Mock index constraint - supports chained equality and range checks
+          const predicates: Array<(item: any) => boolean> = [];
+          const mockQ: Record<string, (field: string, value: any) => any> = {
+            eq: (field, value) => {
+              predicates.push((item) => item[field] === value);
+              return mockQ;
+            },
+            gt: (field, value) => {
+              predicates.push((item) => item[field] > value);
+              return mockQ;
+            },
+            gte: (field, value) => {
+              predicates.push((item) => item[field] >= value);
+              return mockQ;
+            },
+            lt: (field, value) => {
+              predicates.push((item) => item[field] < value);
+              return mockQ;
+            },
+            lte: (field, value) => {
+              predicates.push((item) => item[field] <= value);
+              return mockQ;
             },
           };
           constraint(mockQ);
+          indexFilter = (item: any) => predicates.every((p) => p(item));
         }
         return query;
       },
 
+      // Mock search - every term of the query must appear in the search field
+      withSearchIndex: (indexName: string, constraint: (q: any) => any) => {
+        const predicates: Array<(item: any) => boolean> = [];
+        const mockQ: Record<string, (field: string, value: any) => any> = {
+          search: (field, text: string) => {
+            const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+            predicates.push((item) =>
+              terms.every((term) =>
+                String(item[field] ?? "")
+                  .toLowerCase()
+                  .includes(term),
+              ),
+            );
+            return mockQ;
+          },
+          eq: (field, value) => {
+            predicates.push((item) => item[field] === value);
+            return mockQ;
+          },
+        };
+        constraint(mockQ);
+        indexFilter = (item: any) => predicates.every((p) => p(item));
+        return query;
+      },
+
       filter: () => {
         return query;
       },
@@ -94,12 +176,7 @@ export function createMockDatabase(): MockDatabase {
           results = results.filter(indexFilter);
         }
 
-        // Sort by _creationTime if no specific ordering
-        results.sort((a, b) => {
-          const timeA = a._creationTime || 0;
-          const timeB = b._creationTime || 0;
-          return orderDirection === "desc" ? timeB - timeA : timeA - timeB;
-        });
+        sortResults(results);
 
         return results.slice(0, n);
       },
@@ -110,16 +187,28 @@ export function createMockDatabase(): MockDatabase {
           results = results.filter(indexFilter);
         }
 
-        // Sort by _creationTime if no specific ordering
-        results.sort((a, b) => {
-          const timeA = a._creationTime || 0;
-          const timeB = b._creationTime || 0;
-          return orderDirection === "desc" ? timeB - timeA : timeA - timeB;
-        });
+        sortResults(results);
 
         return results;
       },
 
+      // Mock pagination - the cursor is the offset of the next page
+      paginate: async ({ numItems, cursor }) => {
+        const results = await query.collect();
+        const start = cursor ? Number(cursor) : 0;
+        const end = start + numItems;
+        return {
+          page: results.slice(start, end),
+          isDone: end >= results.length,
+          continueCursor: String(end),
+        };
+      },
+
+      first: async () => {
+        const results = await query.collect();
+        return results[0] ?? null;
+      },
+
       unique: async () => {
         const results = await query.collect();
         if (results.length === 0) return null;
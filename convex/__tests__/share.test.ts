@@ -0,0 +1,306 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  attachCopiedFiles,
+  copySharedConversation,
+  createShare,
+  findSharedFileByOpenAIId,
+  getSharedConversation,
+  getSharedFile,
+  listShares,
+  revokeShare,
+} from "../shareQueriesAndMutations";
+import { deleteConversation } from "../chatQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockQueryCtx,
+  createMockMutationCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  createTestMessageWithFiles,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+describe("share links", () => {
+  let mockDb: MockDatabase;
+  let testUserId: Id<"users">;
+  let testConversationId: Id<"conversations">;
+  let questionId: Id<"messages">;
+
+  const share = async (
+    mode: "snapshot" | "live",
+    includeFiles: boolean = false,
+  ): Promise<{ shareId: Id<"sharedConversations">; slug: string }> =>
+    await (createShare as any)._handler(
+      createMockMutationCtx({ db: mockDb as any }),
+      { conversationId: testConversationId, mode, includeFiles },
+    );
+
+  // Share pages are loaded without signing in
+  const getShared = async (slug: string) => {
+    (getAuthUserId as any).mockResolvedValue(null);
+    return await (getSharedConversation as any)._handler(
+      createMockQueryCtx({ db: mockDb as any }),
+      { slug },
+    );
+  };
+
+  beforeEach(() => {
+    mockDb = createMockDatabase();
+    ({ userId: testUserId } = createTestUser(mockDb));
+    ({ conversationId: testConversationId } = createTestConversation(
+      mockDb,
+      testUserId,
+      { name: '"Rate limiting"' },
+    ));
+    ({ messageId: questionId } = createTestMessageWithFiles(
+      mockDb,
+      testConversationId,
+      testUserId,
+      {
+        content: "Summarize the attached notes",
+        fileIds: ["file-1"],
+        uploadedFileNames: ["notes.txt"],
+        uploadedFiles: [
+          {
+            fileName: "notes.txt",
+            storageId: "_storage_1" as Id<"_storage">,
+            fileType: "text/plain",
+            fileSize: 10,
+          },
+        ],
+      },
+    ));
+    createTestMessage(mockDb, testConversationId, {
+      author: "assistant",
+      content: "Use a token bucket.",
+      status: "completed",
+      openaiResponseId: "resp_secret",
+      citations: [{ type: "file", fileId: "file-1", fileName: "notes.txt" }],
+      usage: { inputTokens: 10, outputTokens: 5, reasoningTokens: 0 },
+    });
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+  });
+
+  it("creates unguessable slugs", async () => {
+    const first = await share("snapshot");
+    const second = await share("snapshot");
+
+    expect(first.slug).toMatch(/^[0-9a-f]{32}$/);
+    expect(first.slug).not.toBe(second.slug);
+  });
+
+  it("shows snapshots without private fields or files", async () => {
+    const { slug } = await share("snapshot");
+    const shared = await getShared(slug);
+
+    expect(shared).toMatchObject({
+      name: "Rate limiting",
+      mode: "snapshot",
+      includeFiles: false,
+    });
+    expect(shared.messages).toHaveLength(2);
+    expect(shared.messages[0].uploadedFileNames).toBeUndefined();
+    expect(shared.messages[1].citations).toBeUndefined();
+    expect(shared.messages[1]).not.toHaveProperty("openaiResponseId");
+    expect(shared.messages[1]).not.toHaveProperty("usage");
+    expect(shared.messages[1]).not.toHaveProperty("conversationId");
+  });
+
+  it("keeps snapshots as they were while live links follow the chat", async () => {
+    const { slug: snapshotSlug } = await share("snapshot");
+    const { slug: liveSlug } = await share("live");
+    createTestMessage(mockDb, testConversationId, { content: "Thanks!" });
+    createTestMessage(mockDb, testConversationId, {
+      author: "assistant",
+      content: "",
+      status: "typing",
+    });
+
+    expect((await getShared(snapshotSlug)).messages).toHaveLength(2);
+    const live = await getShared(liveSlug);
+    expect(live.messages.map((m: { content: string }) => m.content)).toEqual([
+      "Summarize the attached notes",
+      "Use a token bucket.",
+      "Thanks!",
+    ]);
+  });
+
+  it("only serves files when the share includes them", async () => {
+    const { slug: withoutFiles } = await share("snapshot");
+    const { slug: withFiles } = await share("snapshot", true);
+    const queryCtx = createMockQueryCtx({ db: mockDb as any });
+    const args = { messageId: questionId, fileName: "notes.txt" };
+
+    expect(
+      await (getSharedFile as any)._handler(queryCtx, {
+        ...args,
+        slug: withoutFiles,
+      }),
+    ).toBeNull();
+    expect(
+      await (getSharedFile as any)._handler(queryCtx, {
+        ...args,
+        slug: withFiles,
+      }),
+    ).toMatchObject({ fileName: "notes.txt", storageId: "_storage_1" });
+    expect(
+      await (findSharedFileByOpenAIId as any)._handler(queryCtx, {
+        slug: withFiles,
+        openaiFileId: "file-1",
+      }),
+    ).toEqual({ messageId: questionId, fileName: "notes.txt" });
+    expect((await getShared(withFiles)).messages[1].citations).toHaveLength(1);
+  });
+
+  it("stops working once revoked or the chat is deleted", async () => {
+    const { shareId, slug } = await share("snapshot");
+    const { slug: liveSlug } = await share("live");
+    const mutationCtx = createMockMutationCtx({ db: mockDb as any });
+
+    const { userId: otherUserId } = createTestUser(mockDb, {
+      name: "Other",
+      email: "other@example.com",
+    });
+    (getAuthUserId as any).mockResolvedValue(otherUserId);
+    await expect(
+      (revokeShare as any)._handler(mutationCtx, { shareId }),
+    ).rejects.toThrow("Share link not found");
+
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+    await (revokeShare as any)._handler(mutationCtx, { shareId });
+    expect(await getShared(slug)).toBeNull();
+
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+    await (deleteConversation as any)._handler(mutationCtx, {
+      conversationId: testConversationId,
+    });
+    expect(await getShared(liveSlug)).toBeNull();
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+    expect(
+      await (listShares as any)._handler(
+        createMockQueryCtx({ db: mockDb as any }),
+        {},
+      ),
+    ).toEqual([]);
+  });
+
+  describe("continuing a shared chat", () => {
+    let otherUserId: Id<"users">;
+
+    const copy = async (slug: string) =>
+      await (copySharedConversation as any)._handler(
+        createMockMutationCtx({ db: mockDb as any }),
+        { slug, userId: otherUserId },
+      );
+
+    const getCopiedMessages = async (conversationId: Id<"conversations">) =>
+      (await mockDb.query("messages").collect()).filter(
+        (m) => m.conversationId === conversationId,
+      );
+
+    beforeEach(() => {
+      mockDb.patch(testConversationId, {
+        vectorStoreId: "vs_owner",
+        lastResponseId: "resp_secret",
+      });
+      ({ userId: otherUserId } = createTestUser(mockDb, {
+        name: "Other",
+        email: "other@example.com",
+      }));
+    });
+
+    it("copies messages without the owner's vector store or response chain", async () => {
+      const { slug } = await share("snapshot");
+      const { conversationId, files } = await copy(slug);
+
+      const conversation = mockDb.get(conversationId);
+      expect(conversation).toMatchObject({
+        userId: otherUserId,
+        name: '"Rate limiting"',
+        importedFrom: "share",
+      });
+      expect(conversation.vectorStoreId).toBeUndefined();
+      expect(conversation.lastResponseId).toBeUndefined();
+
+      const messages = await getCopiedMessages(conversationId);
+      expect(messages.map((m) => m.content)).toEqual([
+        "Summarize the attached notes",
+        "Use a token bucket.",
+      ]);
+      for (const message of messages) {
+        expect(message).toMatchObject({ userId: otherUserId, imported: true });
+        expect(message.openaiResponseId).toBeUndefined();
+        expect(message.fileIds).toBeUndefined();
+        expect(message.uploadedFiles).toBeUndefined();
+      }
+      expect(files).toEqual([]);
+    });
+
+    it("returns the attachments of shares that include files", async () => {
+      const { slug } = await share("live", true);
+      const { conversationId, files } = await copy(slug);
+
+      expect(files).toEqual([
+        expect.objectContaining({
+          fileName: "notes.txt",
+          storageId: "_storage_1",
+          sourceFileId: "file-1",
+        }),
+      ]);
+      expect(mockDb.get(files[0].messageId).conversationId).toBe(
+        conversationId,
+      );
+    });
+
+    it("attaches the uploaded copies and updates file citations", async () => {
+      const { slug } = await share("snapshot", true);
+      const { conversationId, files } = await copy(slug);
+
+      await (attachCopiedFiles as any)._handler(
+        createMockMutationCtx({ db: mockDb as any }),
+        {
+          conversationId,
+          messages: [
+            {
+              messageId: files[0].messageId,
+              fileIds: ["file-copy"],
+              vectorStoreFileIds: ["file-copy"],
+              uploadedFiles: [
+                {
+                  fileName: "notes.txt",
+                  storageId: "_storage_2",
+                  fileType: "text/plain",
+                  fileSize: 10,
+                },
+              ],
+            },
+          ],
+          fileIdMap: [{ from: "file-1", to: "file-copy" }],
+        },
+      );
+
+      const [question, answer] = await getCopiedMessages(conversationId);
+      expect(question.fileIds).toEqual(["file-copy"]);
+      expect(question.uploadedFiles[0].storageId).toBe("_storage_2");
+      expect(answer.citations).toEqual([
+        { type: "file", fileId: "file-copy", fileName: "notes.txt" },
+      ]);
+    });
+
+    it("refuses revoked links", async () => {
+      const { shareId, slug } = await share("snapshot");
+      await (revokeShare as any)._handler(
+        createMockMutationCtx({ db: mockDb as any }),
+        { shareId },
+      );
+
+      await expect(copy(slug)).rejects.toThrow(
+        "This share link doesn't exist or was revoked",
+      );
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createStreamWriter,
+  STREAM_FLUSH_INTERVAL_MS,
+  STREAM_FLUSH_MAX_CHARS,
+  type StreamBatch,
+  type StreamWriter,
+} from "../streaming";
+
+describe("createStreamWriter", () => {
+  let batches: StreamBatch[];
+  let time: number;
+  let writer: StreamWriter;
+
+  beforeEach(() => {
+    batches = [];
+    time = 0;
+    writer = createStreamWriter(
+      async (batch) => {
+        batches.push(batch);
+      },
+      () => time,
+    );
+  });
+
+  it("writes the first delta right away and batches the ones after it", async () => {
+    await writer.appendContent("Hel");
+    await writer.appendContent("lo");
+    time += STREAM_FLUSH_INTERVAL_MS - 1;
+    await writer.appendContent(",");
+    expect(batches).toEqual([{ content: "Hel", reasoningSummary: undefined }]);
+
+    time += 1;
+    await writer.appendContent(" world");
+    expect(batches).toEqual([
+      { content: "Hel", reasoningSummary: undefined },
+      { content: "lo, world", reasoningSummary: undefined },
+    ]);
+  });
+
+  it("writes early once enough text has piled up", async () => {
+    await writer.appendContent("a");
+    await writer.appendContent("b".repeat(STREAM_FLUSH_MAX_CHARS - 1));
+    expect(batches).toHaveLength(1);
+
+    await writer.appendContent("b");
+    expect(batches).toHaveLength(2);
+    expect(batches[1].content).toHaveLength(STREAM_FLUSH_MAX_CHARS);
+  });
+
+  it("writes only the latest reasoning summary of a batch", async () => {
+    await writer.setReasoningSummary("Thinking");
+    await writer.setReasoningSummary("Thinking about");
+    await writer.appendContent("Answer");
+    await writer.setReasoningSummary("Thinking about it");
+    time += STREAM_FLUSH_INTERVAL_MS;
+    await writer.appendContent(".");
+
+    expect(batches).toEqual([
+      { content: "", reasoningSummary: "Thinking" },
+      { content: "Answer.", reasoningSummary: "Thinking about it" },
+    ]);
+  });
+
+  it("keeps all the text passed in, written or not", async () => {
+    await writer.setReasoningSummary("Thinking");
+    await writer.appendContent("Hel");
+    await writer.appendContent("lo");
+    await writer.setReasoningSummary("Thinking more. ");
+    expect(batches).toHaveLength(1);
+    expect(writer.getStreamedText()).toBe("Thinking more. Hello");
+  });
+
+  it("flushes pending text and skips empty flushes", async () => {
+    await writer.appendContent("Hi");
+    await writer.flush();
+    expect(batches).toHaveLength(1);
+
+    await writer.appendContent(" there");
+    await writer.flush();
+    await writer.flush();
+    expect(batches).toEqual([
+      { content: "Hi", reasoningSummary: undefined },
+      { content: " there", reasoningSummary: undefined },
+    ]);
+  });
+});
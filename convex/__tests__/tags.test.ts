@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createTag,
+  deleteTag,
+  listConversationTags,
+  listTags,
+  parseTitleAndTags,
+  setConversationTag,
+  updateTag,
+} from "../tagQueriesAndMutations";
+import {
+  deleteConversation,
+  listConversations,
+  restoreConversation,
+  setConversationArchived,
+} from "../chatQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockQueryCtx,
+  createMockMutationCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+describe("tags", () => {
+  let mockDb: MockDatabase;
+  let testUserId: Id<"users">;
+  let tagId: Id<"tags">;
+
+  const mutationCtx = () => createMockMutationCtx({ db: mockDb as any });
+  const queryCtx = () => createMockQueryCtx({ db: mockDb as any });
+  const listIds = async (args: { tagId: Id<"tags">; archived?: boolean }) =>
+    (
+      await (listConversations as any)._handler(queryCtx(), {
+        ...args,
+        paginationOpts: { numItems: 10, cursor: null },
+      })
+    ).page.map((conversation: { _id: string }) => conversation._id);
+
+  beforeEach(async () => {
+    mockDb = createMockDatabase();
+    ({ userId: testUserId } = createTestUser(mockDb));
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+    tagId = await (createTag as any)._handler(mutationCtx(), {
+      name: " Work ",
+      color: "blue",
+    });
+  });
+
+  it("creates, lists and updates tags with unique names", async () => {
+    await (createTag as any)._handler(mutationCtx(), {
+      name: "Travel",
+      color: "green",
+    });
+    await expect(
+      (createTag as any)._handler(mutationCtx(), {
+        name: "work",
+        color: "red",
+      }),
+    ).rejects.toThrow('You already have a tag named "work"');
+    await expect(
+      (createTag as any)._handler(mutationCtx(), { name: " ", color: "red" }),
+    ).rejects.toThrow("Tag name can't be empty");
+
+    // Keeping its own name is not a duplicate
+    await (updateTag as any)._handler(mutationCtx(), {
+      tagId,
+      name: "Work",
+      color: "purple",
+    });
+    const tags = await (listTags as any)._handler(queryCtx(), {});
+    expect(tags.map((tag: { name: string }) => tag.name)).toEqual([
+      "Travel",
+      "Work",
+    ]);
+    expect(mockDb.get(tagId)).toMatchObject({ name: "Work", color: "purple" });
+  });
+
+  it("filters conversations by tag", async () => {
+    const { conversationId: taggedId } = createTestConversation(
+      mockDb,
+      testUserId,
+      { suggestedTagIds: [tagId] },
+    );
+    const { conversationId: archivedId } = createTestConversation(
+      mockDb,
+      testUserId,
+      { archivedAt: Date.now() },
+    );
+    createTestConversation(mockDb, testUserId);
+
+    for (const conversationId of [taggedId, archivedId]) {
+      await (setConversationTag as any)._handler(mutationCtx(), {
+        conversationId,
+        tagId,
+        tagged: true,
+      });
+    }
+    // Tagging twice doesn't add the tag twice
+    await (setConversationTag as any)._handler(mutationCtx(), {
+      conversationId: taggedId,
+      tagId,
+      tagged: true,
+    });
+    expect(await mockDb.query("conversationTags").collect()).toHaveLength(2);
+    // A suggestion that was added is no longer suggested
+    expect(mockDb.get(taggedId).suggestedTagIds).toEqual([]);
+
+    expect(await listIds({ tagId })).toEqual([taggedId]);
+    expect(await listIds({ tagId, archived: true })).toEqual([archivedId]);
+
+    await (setConversationTag as any)._handler(mutationCtx(), {
+      conversationId: taggedId,
+      tagId,
+      tagged: false,
+    });
+    expect(await listIds({ tagId })).toEqual([]);
+  });
+
+  it("moves tagged conversations between lists as they are trashed or archived", async () => {
+    const { conversationId } = createTestConversation(mockDb, testUserId);
+    await (setConversationTag as any)._handler(mutationCtx(), {
+      conversationId,
+      tagId,
+      tagged: true,
+    });
+
+    await (deleteConversation as any)._handler(mutationCtx(), {
+      conversationId,
+    });
+    expect(await listIds({ tagId })).toEqual([]);
+    await (restoreConversation as any)._handler(mutationCtx(), {
+      conversationId,
+    });
+    expect(await listIds({ tagId })).toEqual([conversationId]);
+
+    await (setConversationArchived as any)._handler(mutationCtx(), {
+      conversationId,
+      archived: true,
+    });
+    expect(await listIds({ tagId })).toEqual([]);
+    expect(await listIds({ tagId, archived: true })).toEqual([conversationId]);
+  });
+
+  it("lists the tags of the given conversations only", async () => {
+    const { conversationId: openId } = createTestConversation(
+      mockDb,
+      testUserId,
+    );
+    const { conversationId: otherId } = createTestConversation(
+      mockDb,
+      testUserId,
+    );
+    for (const conversationId of [openId, otherId]) {
+      await (setConversationTag as any)._handler(mutationCtx(), {
+        conversationId,
+        tagId,
+        tagged: true,
+      });
+    }
+
+    expect(
+      await (listConversationTags as any)._handler(queryCtx(), {
+        conversationIds: [openId],
+      }),
+    ).toEqual([{ conversationId: openId, tagId }]);
+
+    const { userId: otherUserId } = createTestUser(mockDb);
+    (getAuthUserId as any).mockResolvedValue(otherUserId);
+    expect(
+      await (listConversationTags as any)._handler(queryCtx(), {
+        conversationIds: [openId],
+      }),
+    ).toEqual([]);
+  });
+
+  it("does not list or tag other users' conversations", async () => {
+    const { userId: otherUserId } = createTestUser(mockDb);
+    const { conversationId } = createTestConversation(mockDb, otherUserId);
+
+    await expect(
+      (setConversationTag as any)._handler(mutationCtx(), {
+        conversationId,
+        tagId,
+        tagged: true,
+      }),
+    ).rejects.toThrow("Conversation not found or access denied");
+
+    (getAuthUserId as any).mockResolvedValue(otherUserId);
+    expect(await listIds({ tagId })).toEqual([]);
+  });
+
+  it("removes a deleted tag from its conversations", async () => {
+    const { conversationId } = createTestConversation(mockDb, testUserId);
+    await (setConversationTag as any)._handler(mutationCtx(), {
+      conversationId,
+      tagId,
+      tagged: true,
+    });
+    const { conversationId: suggestedId } = createTestConversation(
+      mockDb,
+      testUserId,
+      { suggestedTagIds: [tagId] },
+    );
+
+    await (deleteTag as any)._handler(mutationCtx(), { tagId });
+
+    expect(mockDb.get(tagId)).toBeNull();
+    expect(await mockDb.query("conversationTags").collect()).toEqual([]);
+    expect(mockDb.get(conversationId)).not.toBeNull();
+    expect(mockDb.get(suggestedId).suggestedTagIds).toEqual([]);
+  });
+});
+
+describe("parseTitleAndTags", () => {
+  const tags = [
+    { _id: "tag_work" as Id<"tags">, name: "Work" },
+    { _id: "tag_travel" as Id<"tags">, name: "Travel" },
+  ];
+
+  it("reads the title and the suggested tags", () => {
+    expect(
+      parseTitleAndTags(
+        "Title: Planning the Q3 offsite\nTags: travel, Work",
+        tags,
+      ),
+    ).toEqual({
+      title: "Planning the Q3 offsite",
+      suggestedTagIds: ["tag_work", "tag_travel"],
+    });
+  });
+
+  it("ignores unknown tags and answers without tags", () => {
+    expect(
+      parseTitleAndTags("Sourdough starter tips\nTags: Baking", tags),
+    ).toEqual({ title: "Sourdough starter tips", suggestedTagIds: [] });
+    expect(parseTitleAndTags("Sourdough starter tips", tags)).toEqual({
+      title: "Sourdough starter tips",
+      suggestedTagIds: [],
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  deleteConversation,
+  CONVERSATION_ROWS_PER_RUN,
+  deleteConversationForever,
+  finishDeletingConversation,
+  listConversations,
+  listTrashedConversations,
+  purgeExpiredConversations,
+  restoreConversation,
+} from "../chatQueriesAndMutations";
+import {
+  createShare,
+  getSharedConversation,
+} from "../shareQueriesAndMutations";
+import { TRASH_RETENTION_MS } from "../constants";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockQueryCtx,
+  createMockMutationCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+describe("trash", () => {
+  let mockDb: MockDatabase;
+  let testUserId: Id<"users">;
+  let testConversationId: Id<"conversations">;
+
+  const mutationCtx = (runAfter = vi.fn().mockResolvedValue(undefined)) =>
+    createMockMutationCtx({
+      db: mockDb as any,
+      scheduler: { runAfter } as any,
+    });
+  const queryCtx = () => createMockQueryCtx({ db: mockDb as any });
+
+  const trash = async (conversationId: Id<"conversations">) =>
+    await (deleteConversation as any)._handler(mutationCtx(), {
+      conversationId,
+    });
+  // Works for both paginated and plain lists
+  const listIds = async (fn: unknown) => {
+    const result = await (fn as any)._handler(queryCtx(), {
+      paginationOpts: { numItems: 10, cursor: null },
+    });
+    return ((result.page ?? result) as { _id: string }[]).map(({ _id }) => _id);
+  };
+
+  beforeEach(() => {
+    mockDb = createMockDatabase();
+    ({ userId: testUserId } = createTestUser(mockDb));
+    ({ conversationId: testConversationId } = createTestConversation(
+      mockDb,
+      testUserId,
+    ));
+    createTestMessage(mockDb, testConversationId, { content: "Hello" });
+    (getAuthUserId as any).mockResolvedValue(testUserId);
+  });
+
+  it("moves deleted chats to the trash and restores them", async () => {
+    await trash(testConversationId);
+
+    expect(mockDb.get(testConversationId).deletedAt).toEqual(
+      expect.any(Number),
+    );
+    expect(await listIds(listConversations)).toEqual([]);
+    expect(await listIds(listTrashedConversations)).toEqual([
+      testConversationId,
+    ]);
+
+    await (restoreConversation as any)._handler(mutationCtx(), {
+      conversationId: testConversationId,
+    });
+    expect(await listIds(listConversations)).toEqual([testConversationId]);
+    expect(await listIds(listTrashedConversations)).toEqual([]);
+    expect(await mockDb.query("messages").collect()).toHaveLength(1);
+  });
+
+  it("only deletes chats in the trash forever", async () => {
+    const deleteForever = async () =>
+      await (deleteConversationForever as any)._handler(mutationCtx(), {
+        conversationId: testConversationId,
+      });
+
+    await expect(deleteForever()).rejects.toThrow(
+      "Only conversations in the trash can be deleted forever",
+    );
+
+    await trash(testConversationId);
+    await deleteForever();
+    expect(mockDb.get(testConversationId)).toBeNull();
+    expect(await mockDb.query("messages").collect()).toEqual([]);
+  });
+
+  it("purges chats that have been in the trash too long", async () => {
+    const { conversationId: recentId } = createTestConversation(
+      mockDb,
+      testUserId,
+      { deletedAt: Date.now() - TRASH_RETENTION_MS + 60 * 1000 },
+    );
+    mockDb.patch(testConversationId, {
+      deletedAt: Date.now() - TRASH_RETENTION_MS - 1,
+    });
+    const { conversationId: activeId } = createTestConversation(
+      mockDb,
+      testUserId,
+    );
+
+    await (purgeExpiredConversations as any)._handler(mutationCtx(), {});
+
+    expect(mockDb.get(testConversationId)).toBeNull();
+    expect(await mockDb.query("messages").collect()).toEqual([]);
+    expect(mockDb.get(recentId)).not.toBeNull();
+    expect(mockDb.get(activeId)).not.toBeNull();
+  });
+
+  it("deletes a long chat forever over several transactions", async () => {
+    for (let i = 0; i < CONVERSATION_ROWS_PER_RUN; i++) {
+      createTestMessage(mockDb, testConversationId, { content: `Line ${i}` });
+    }
+    await trash(testConversationId);
+
+    const runAfter = vi.fn().mockResolvedValue(undefined);
+    await (deleteConversationForever as any)._handler(mutationCtx(runAfter), {
+      conversationId: testConversationId,
+    });
+    expect(mockDb.get(testConversationId)).not.toBeNull();
+    expect(runAfter).toHaveBeenCalledWith(0, expect.anything(), {
+      conversationId: testConversationId,
+    });
+    // A partly deleted chat leaves the trash and can't be restored
+    expect(await listIds(listTrashedConversations)).toEqual([]);
+    await expect(
+      (restoreConversation as any)._handler(mutationCtx(), {
+        conversationId: testConversationId,
+      }),
+    ).rejects.toThrow("This chat is being deleted forever");
+
+    await (finishDeletingConversation as any)._handler(mutationCtx(), {
+      conversationId: testConversationId,
+    });
+    expect(mockDb.get(testConversationId)).toBeNull();
+    expect(await mockDb.query("messages").collect()).toEqual([]);
+  });
+
+  it("pauses share links while the chat is in the trash", async () => {
+    const { slug } = await (createShare as any)._handler(mutationCtx(), {
+      conversationId: testConversationId,
+      mode: "snapshot",
+      includeFiles: false,
+    });
+    const getShared = async () =>
+      await (getSharedConversation as any)._handler(queryCtx(), { slug });
+
+    await trash(testConversationId);
+    expect(await getShared()).toBeNull();
+
+    await (restoreConversation as any)._handler(mutationCtx(), {
+      conversationId: testConversationId,
+    });
+    expect((await getShared()).messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,371 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  addUsage,
+  estimateCostUsd,
+  estimateUsage,
+  fromChatCompletionUsage,
+  fromResponsesUsage,
+  getPeriodStart,
+  getSpendingStatus,
+  getUsageDate,
+  summarizeUsage,
+  type UsageRecord,
+} from "../usage";
+import {
+  checkSpendingLimit,
+  getConversationUsage,
+  listSpendingLimits,
+  recordMessageUsage,
+  setSpendingLimit,
+} from "../usageQueriesAndMutations";
+import type { Id } from "../_generated/dataModel";
+import {
+  createMockQueryCtx,
+  createMockMutationCtx,
+  createMockDatabase,
+  createTestUser,
+  createTestConversation,
+  createTestMessage,
+  type MockDatabase,
+} from "./setup.nobundle";
+
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("usage", () => {
+  describe("provider usage", () => {
+    it("reads Responses API usage", () => {
+      expect(
+        fromResponsesUsage({
+          input_tokens: 100,
+          output_tokens: 50,
+          output_tokens_details: { reasoning_tokens: 20 },
+        }),
+      ).toEqual({ inputTokens: 100, outputTokens: 50, reasoningTokens: 20 });
+      expect(fromResponsesUsage(undefined)).toBeUndefined();
+    });
+
+    it("reads chat completion usage and adds requests together", () => {
+      const streamed = fromChatCompletionUsage({
+        prompt_tokens: 100,
+        completion_tokens: 50,
+      });
+      const citations = fromChatCompletionUsage({
+        prompt_tokens: 10,
+        completion_tokens: 5,
+        completion_tokens_details: { reasoning_tokens: 2 },
+      });
+
+      expect(addUsage(streamed, citations)).toEqual({
+        inputTokens: 110,
+        outputTokens: 55,
+        reasoningTokens: 2,
+      });
+      expect(addUsage(streamed, undefined)).toEqual(streamed);
+    });
+  });
+
+  describe("estimateCostUsd", () => {
+    it("prices input and output tokens per million", () => {
+      expect(
+        estimateCostUsd("gpt-4.1", {
+          inputTokens: 1_000_000,
+          outputTokens: 500_000,
+          reasoningTokens: 0,
+        }),
+      ).toBeCloseTo(2 + 4);
+    });
+
+    it("returns undefined for models without a price", () => {
+      expect(
+        estimateCostUsd("unknown-model", {
+          inputTokens: 1,
+          outputTokens: 1,
+          reasoningTokens: 0,
+        }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("summarizeUsage", () => {
+    const record = (
+      model: string,
+      time: number,
+      costUsd?: number,
+    ): UsageRecord => ({
+      model,
+      inputTokens: 10,
+      outputTokens: 5,
+      reasoningTokens: 0,
+      costUsd,
+      _creationTime: time,
+    });
+
+    it("buckets days in the user's time zone", () => {
+      const lateEvening = Date.UTC(2025, 5, 2, 1, 30); // 01:30 UTC
+      expect(getUsageDate(lateEvening, 0)).toBe("2025-06-02");
+      // UTC-5 (offset 300) is still the previous evening
+      expect(getUsageDate(lateEvening, 300)).toBe("2025-06-01");
+    });
+
+    it("totals usage per day and per model", () => {
+      const start = Date.UTC(2025, 5, 1, 12);
+      const summary = summarizeUsage(
+        [
+          record("gpt-4.1", start, 0.01),
+          record("o3", start + 1000, 0.05),
+          record("gpt-4.1", start + DAY, 0.02),
+          record("unknown-model", start + DAY),
+        ],
+        0,
+      );
+
+      expect(summary.totals).toMatchObject({
+        replies: 4,
+        inputTokens: 40,
+        outputTokens: 20,
+      });
+      expect(summary.totals.costUsd).toBeCloseTo(0.08);
+      expect(summary.daily.map((day) => [day.date, day.replies])).toEqual([
+        ["2025-06-01", 2],
+        ["2025-06-02", 2],
+      ]);
+      expect(summary.byModel.map((model) => model.model)).toEqual([
+        "o3",
+        "gpt-4.1",
+        "unknown-model",
+      ]);
+    });
+  });
+
+  describe("recordMessageUsage", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+      ));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("stores usage on the reply and in the conversation totals", async () => {
+      const { messageId } = createTestMessage(mockDb, testConversationId, {
+        author: "assistant",
+        content: "Answer",
+        status: "completed",
+        model: "gpt-4.1",
+      });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await (recordMessageUsage as any)._handler(ctx, {
+        messageId,
+        inputTokens: 1_000,
+        outputTokens: 500,
+        reasoningTokens: 0,
+      });
+
+      const message = mockDb.get(messageId);
+      expect(message.usage).toMatchObject({
+        inputTokens: 1_000,
+        outputTokens: 500,
+      });
+      expect(message.usage.costUsd).toBeCloseTo(0.006);
+
+      const queryCtx = createMockQueryCtx({ db: mockDb as any });
+      const totals = await (getConversationUsage as any)._handler(queryCtx, {
+        conversationId: testConversationId,
+      });
+      expect(totals).toMatchObject({ replies: 1, inputTokens: 1_000 });
+    });
+
+    it("stores usage only once per reply", async () => {
+      const { messageId } = createTestMessage(mockDb, testConversationId, {
+        author: "assistant",
+        content: "Answer",
+        status: "error",
+        model: "gpt-4.1",
+      });
+
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      for (const inputTokens of [1_000, 2_000]) {
+        await (recordMessageUsage as any)._handler(ctx, {
+          messageId,
+          inputTokens,
+          outputTokens: 500,
+          reasoningTokens: 0,
+        });
+      }
+
+      expect(mockDb.get(messageId).usage.inputTokens).toBe(1_000);
+      expect(await mockDb.query("usageRecords").collect()).toHaveLength(1);
+    });
+
+    it("estimates the usage of a reply that was cut off", () => {
+      expect(estimateUsage("a".repeat(400), "b".repeat(40))).toEqual({
+        inputTokens: 100,
+        outputTokens: 10,
+        reasoningTokens: 0,
+      });
+    });
+  });
+
+  describe("spending periods", () => {
+    it("starts daily and monthly budgets at UTC boundaries", () => {
+      const now = Date.UTC(2025, 5, 14, 18, 45);
+      expect(getPeriodStart("daily", now)).toBe(Date.UTC(2025, 5, 14));
+      expect(getPeriodStart("monthly", now)).toBe(Date.UTC(2025, 5, 1));
+    });
+
+    it("warns at 80% and refuses at the limit", () => {
+      expect(getSpendingStatus(0.79, 1)).toBe("ok");
+      expect(getSpendingStatus(0.8, 1)).toBe("warning");
+      expect(getSpendingStatus(1, 1)).toBe("exceeded");
+    });
+  });
+
+  describe("spending limits", () => {
+    let mockDb: MockDatabase;
+    let testUserId: Id<"users">;
+    let testConversationId: Id<"conversations">;
+
+    const addSpend = (model: string, costUsd: number) => {
+      mockDb.insert("usageRecords", {
+        userId: testUserId,
+        conversationId: testConversationId,
+        messageId: "messages_0" as Id<"messages">,
+        model,
+        inputTokens: 0,
+        outputTokens: 0,
+        reasoningTokens: 0,
+        costUsd,
+      });
+    };
+
+    beforeEach(() => {
+      mockDb = createMockDatabase();
+      ({ userId: testUserId } = createTestUser(mockDb));
+      ({ conversationId: testConversationId } = createTestConversation(
+        mockDb,
+        testUserId,
+      ));
+      (getAuthUserId as any).mockResolvedValue(testUserId);
+    });
+
+    it("allows replies without a budget", async () => {
+      addSpend("gpt-4.1", 100);
+      const ctx = createMockQueryCtx({ db: mockDb as any });
+      const result = await (checkSpendingLimit as any)._handler(ctx, {
+        userId: testUserId,
+        model: "gpt-4.1",
+      });
+      expect(result).toEqual({ status: "ok" });
+    });
+
+    it("only counts spend with the model's provider", async () => {
+      const mutationCtx = createMockMutationCtx({ db: mockDb as any });
+      await (setSpendingLimit as any)._handler(mutationCtx, {
+        provider: "openai",
+        period: "monthly",
+        limitUsd: 1,
+      });
+      addSpend("gpt-4.1", 0.85);
+      addSpend("anthropic/claude-sonnet-4", 5);
+
+      const ctx = createMockQueryCtx({ db: mockDb as any });
+      const openai = await (checkSpendingLimit as any)._handler(ctx, {
+        userId: testUserId,
+        model: "gpt-4.1",
+      });
+      expect(openai.status).toBe("warning");
+      expect(openai.message).toContain("85%");
+
+      const openrouter = await (checkSpendingLimit as any)._handler(ctx, {
+        userId: testUserId,
+        model: "anthropic/claude-sonnet-4",
+      });
+      expect(openrouter).toEqual({ status: "ok" });
+
+      addSpend("o3", 0.2);
+      const exceeded = await (checkSpendingLimit as any)._handler(ctx, {
+        userId: testUserId,
+        model: "gpt-4.1",
+      });
+      expect(exceeded.status).toBe("exceeded");
+    });
+
+    it("counts stopped replies toward the budget", async () => {
+      const mutationCtx = createMockMutationCtx({ db: mockDb as any });
+      await (setSpendingLimit as any)._handler(mutationCtx, {
+        provider: "openai",
+        period: "daily",
+        limitUsd: 1,
+      });
+      const { messageId } = createTestMessage(mockDb, testConversationId, {
+        author: "assistant",
+        content: "Partial ans",
+        status: "cancelled",
+        model: "o3-pro",
+      });
+
+      // The estimate stored for a reply stopped before the provider reported
+      // its usage: 40k prompt tokens and 5k streamed tokens, about $1.20
+      await (recordMessageUsage as any)._handler(mutationCtx, {
+        messageId,
+        ...estimateUsage("a".repeat(160_000), "b".repeat(20_000)),
+      });
+
+      const ctx = createMockQueryCtx({ db: mockDb as any });
+      const result = await (checkSpendingLimit as any)._handler(ctx, {
+        userId: testUserId,
+        model: "gpt-4.1",
+      });
+      expect(result.status).toBe("exceeded");
+    });
+
+    it("rejects budgets that aren't positive", async () => {
+      const ctx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (setSpendingLimit as any)._handler(ctx, {
+          provider: "openai",
+          period: "daily",
+          limitUsd: 0,
+        }),
+      ).rejects.toThrow("Budget must be a positive amount");
+    });
+
+    it("gives guests a fixed daily allowance", async () => {
+      mockDb.patch(testUserId, { isAnonymous: true });
+      const mutationCtx = createMockMutationCtx({ db: mockDb as any });
+      await expect(
+        (setSpendingLimit as any)._handler(mutationCtx, {
+          provider: "openai",
+          period: "monthly",
+          limitUsd: 10,
+        }),
+      ).rejects.toThrow("Guest accounts have a fixed allowance");
+
+      const ctx = createMockQueryCtx({ db: mockDb as any });
+      const limits = await (listSpendingLimits as any)._handler(ctx, {});
+      expect(limits).toHaveLength(2);
+      expect(limits[0]).toMatchObject({
+        period: "daily",
+        isGuestAllowance: true,
+        status: "ok",
+      });
+
+      addSpend("gpt-4.1", 1);
+      const result = await (checkSpendingLimit as any)._handler(ctx, {
+        userId: testUserId,
+        model: "gpt-4.1",
+      });
+      expect(result.status).toBe("exceeded");
+      expect(result.message).toContain("Guest accounts");
+    });
+  });
+});
@@ -13,13 +13,32 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as accountQueriesAndMutations from "../accountQueriesAndMutations.js";
+import type * as apiKeyQueriesAndMutations from "../apiKeyQueriesAndMutations.js";
+import type * as apiKeys from "../apiKeys.js";
 import type * as auth from "../auth.js";
 import type * as chat from "../chat.js";
 import type * as chatQueriesAndMutations from "../chatQueriesAndMutations.js";
+import type * as cleanup from "../cleanup.js";
+import type * as cleanupQueriesAndMutations from "../cleanupQueriesAndMutations.js";
 import type * as constants from "../constants.js";
+import type * as conversationExport from "../conversationExport.js";
+import type * as conversationImport from "../conversationImport.js";
+import type * as context from "../context.js";
+import type * as crons from "../crons.js";
+import type * as embeddings from "../embeddings.js";
 import type * as filePreview from "../filePreview.js";
 import type * as http from "../http.js";
+import type * as projectQueriesAndMutations from "../projectQueriesAndMutations.js";
+import type * as projects from "../projects.js";
 import type * as router from "../router.js";
+import type * as search from "../search.js";
+import type * as searchQueriesAndMutations from "../searchQueriesAndMutations.js";
+import type * as semanticSearch from "../semanticSearch.js";
+import type * as shareQueriesAndMutations from "../shareQueriesAndMutations.js";
+import type * as tagQueriesAndMutations from "../tagQueriesAndMutations.js";
+import type * as usage from "../usage.js";
+import type * as usageQueriesAndMutations from "../usageQueriesAndMutations.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -30,13 +49,32 @@ import type * as router from "../router.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  accountQueriesAndMutations: typeof accountQueriesAndMutations;
+  apiKeyQueriesAndMutations: typeof apiKeyQueriesAndMutations;
+  apiKeys: typeof apiKeys;
   auth: typeof auth;
   chat: typeof chat;
   chatQueriesAndMutations: typeof chatQueriesAndMutations;
+  cleanup: typeof cleanup;
+  cleanupQueriesAndMutations: typeof cleanupQueriesAndMutations;
   constants: typeof constants;
+  conversationExport: typeof conversationExport;
+  conversationImport: typeof conversationImport;
+  context: typeof context;
+  crons: typeof crons;
+  embeddings: typeof embeddings;
   filePreview: typeof filePreview;
   http: typeof http;
+  projectQueriesAndMutations: typeof projectQueriesAndMutations;
+  projects: typeof projects;
   router: typeof router;
+  search: typeof search;
+  searchQueriesAndMutations: typeof searchQueriesAndMutations;
+  semanticSearch: typeof semanticSearch;
+  shareQueriesAndMutations: typeof shareQueriesAndMutations;
+  tagQueriesAndMutations: typeof tagQueriesAndMutations;
+  usage: typeof usage;
+  usageQueriesAndMutations: typeof usageQueriesAndMutations;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,333 @@
+// This file does NOT use "use node" and contains queries and mutations for
+// deleting all of a user's chats and deleting their account.
+import { query, mutation, internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import {
+  deleteConversationsData,
+  getLoggedInUser,
+} from "./chatQueriesAndMutations";
+import { deleteProjectData } from "./projectQueriesAndMutations";
+
+// Conversations deleted per run of a deletion job, within the row budget
+// of CONVERSATION_ROWS_PER_RUN. Each run is one transaction, so large
+// accounts and long chats are deleted over many runs.
+export const CONVERSATIONS_PER_DELETION_RUN = 10;
+// Other rows of an account deleted per run
+export const ROWS_PER_DELETION_RUN = 500;
+// A running job without progress for this long is resumed when started again
+export const STALLED_DELETION_JOB_MS = 60 * 1000;
+// File cleanups need the user's OpenAI key, so account deletion waits this
+// long for them before deleting the key
+export const MAX_CLEANUP_WAIT_MS = 30 * 60 * 1000;
+const CLEANUP_POLL_INTERVAL_MS = 60 * 1000;
+
+const deletionJobKindValidator = v.union(
+  v.literal("conversations"),
+  v.literal("account"),
+);
+
+const deletionJobDoc = v.object({
+  _id: v.id("deletionJobs"),
+  _creationTime: v.number(),
+  userId: v.id("users"),
+  kind: deletionJobKindValidator,
+  status: v.union(v.literal("running"), v.literal("completed")),
+  total: v.number(),
+  deleted: v.number(),
+  updatedAt: v.number(),
+  completedAt: v.optional(v.number()),
+});
+
+async function getUserJobs(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+): Promise<Doc<"deletionJobs">[]> {
+  return await ctx.db
+    .query("deletionJobs")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+}
+
+// Helper to start a deletion job, or return the one already running. Stalled
+// jobs are scheduled again and continue with the conversations that are left.
+async function startDeletionJob(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  kind: Infer<typeof deletionJobKindValidator>,
+): Promise<Id<"deletionJobs">> {
+  const jobs = await getUserJobs(ctx, userId);
+  const running = jobs.find((job) => job.status === "running");
+  if (running) {
+    // Deleting the account also finishes the chats a running job deletes
+    if (kind === "account" && running.kind !== "account") {
+      await ctx.db.patch(running._id, { kind });
+    }
+    if (Date.now() - running.updatedAt > STALLED_DELETION_JOB_MS) {
+      await ctx.db.patch(running._id, { updatedAt: Date.now() });
+      await ctx.scheduler.runAfter(
+        0,
+        internal.accountQueriesAndMutations.runDeletionJob,
+        { jobId: running._id },
+      );
+    }
+    return running._id;
+  }
+
+  // Only the latest job is shown, so earlier ones are dropped
+  for (const job of jobs) {
+    await ctx.db.delete(job._id);
+  }
+  const conversations = await ctx.db
+    .query("conversations")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+  const jobId = await ctx.db.insert("deletionJobs", {
+    userId,
+    kind,
+    status: "running",
+    total: conversations.length,
+    deleted: 0,
+    updatedAt: Date.now(),
+  });
+  await ctx.scheduler.runAfter(
+    0,
+    internal.accountQueriesAndMutations.runDeletionJob,
+    { jobId },
+  );
+  return jobId;
+}
+
+// Count the conversations deleteAllConversations would delete, including
+// archived ones and those in the trash
+export const countConversations = query({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const user = await getLoggedInUser(ctx);
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+    return conversations.length;
+  },
+});
+
+// Mutation to delete all of the user's conversations in the background.
+// Progress is reported by getDeletionJob.
+export const deleteAllConversations = mutation({
+  args: {},
+  returns: v.id("deletionJobs"),
+  handler: async (ctx) => {
+    const user = await getLoggedInUser(ctx);
+    return await startDeletionJob(ctx, user._id, "conversations");
+  },
+});
+
+// Mutation to delete the user's account: all conversations, then projects,
+// usage, spending limits, API keys, tags, file mappings and sign-in data
+export const deleteAccount = mutation({
+  args: {},
+  returns: v.id("deletionJobs"),
+  handler: async (ctx) => {
+    const user = await getLoggedInUser(ctx);
+    return await startDeletionJob(ctx, user._id, "account");
+  },
+});
+
+// Get the user's latest deletion job, for showing progress
+export const getDeletionJob = query({
+  args: {},
+  returns: v.union(deletionJobDoc, v.null()),
+  handler: async (ctx) => {
+    // The user may already be gone while their account is being deleted
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+    return await ctx.db
+      .query("deletionJobs")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .order("desc")
+      .first();
+  },
+});
+
+// Helper for the last step of deleting an account. Schedules the job again
+// while file cleanups are pending or rows are left.
+async function deleteAccountData(
+  ctx: MutationCtx,
+  job: Doc<"deletionJobs">,
+): Promise<void> {
+  const { userId } = job;
+  const cleanups = await ctx.db
+    .query("conversationCleanups")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+  if (
+    cleanups.some((cleanup) => cleanup.status === "pending") &&
+    Date.now() - job._creationTime < MAX_CLEANUP_WAIT_MS
+  ) {
+    await ctx.db.patch(job._id, { updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(
+      CLEANUP_POLL_INTERVAL_MS,
+      internal.accountQueriesAndMutations.runDeletionJob,
+      { jobId: job._id },
+    );
+    return;
+  }
+
+  // Usage records outlive deleted chats, so there can be many
+  const usageRecords = await ctx.db
+    .query("usageRecords")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .take(ROWS_PER_DELETION_RUN);
+  const fileMappings = await ctx.db
+    .query("fileMessageMappings")
+    .withIndex("by_uploadedBy", (q) => q.eq("uploadedBy", userId))
+    .take(ROWS_PER_DELETION_RUN);
+  for (const row of [...usageRecords, ...fileMappings]) {
+    await ctx.db.delete(row._id);
+  }
+  if (
+    usageRecords.length === ROWS_PER_DELETION_RUN ||
+    fileMappings.length === ROWS_PER_DELETION_RUN
+  ) {
+    await ctx.db.patch(job._id, { updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(
+      0,
+      internal.accountQueriesAndMutations.runDeletionJob,
+      { jobId: job._id },
+    );
+    return;
+  }
+
+  const rows = [
+    ...(await ctx.db
+      .query("spendingLimits")
+      .withIndex("by_userId_and_provider", (q) => q.eq("userId", userId))
+      .collect()),
+    ...(await ctx.db
+      .query("userApiKeys")
+      .withIndex("by_userId_and_provider", (q) => q.eq("userId", userId))
+      .collect()),
+    ...(await ctx.db
+      .query("sharedConversations")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect()),
+    ...(await ctx.db
+      .query("tags")
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .collect()),
+    ...(await getUserJobs(ctx, userId)),
+  ];
+  for (const row of rows) {
+    await ctx.db.delete(row._id);
+  }
+
+  // Sign-in data from @convex-dev/auth, which signs the user out everywhere
+  const sessions = await ctx.db
+    .query("authSessions")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .collect();
+  for (const session of sessions) {
+    const refreshTokens = await ctx.db
+      .query("authRefreshTokens")
+      .withIndex("sessionId", (q) => q.eq("sessionId", session._id))
+      .collect();
+    for (const refreshToken of refreshTokens) {
+      await ctx.db.delete(refreshToken._id);
+    }
+    await ctx.db.delete(session._id);
+  }
+  // Verifiers of unfinished OAuth sign-ins have no index on sessionId, but
+  // only live for a sign-in, so the table stays small
+  const sessionIds = new Set<string>(sessions.map((session) => session._id));
+  const verifiers = await ctx.db.query("authVerifiers").collect();
+  for (const verifier of verifiers) {
+    if (verifier.sessionId && sessionIds.has(verifier.sessionId)) {
+      await ctx.db.delete(verifier._id);
+    }
+  }
+  const accounts = await ctx.db
+    .query("authAccounts")
+    .withIndex("userIdAndProvider", (q) => q.eq("userId", userId))
+    .collect();
+  for (const account of accounts) {
+    const codes = await ctx.db
+      .query("authVerificationCodes")
+      .withIndex("accountId", (q) => q.eq("accountId", account._id))
+      .collect();
+    for (const code of codes) {
+      await ctx.db.delete(code._id);
+    }
+    // Failed sign-ins are counted by the email or phone number the account
+    // signs in with
+    const rateLimits = await ctx.db
+      .query("authRateLimits")
+      .withIndex("identifier", (q) =>
+        q.eq("identifier", account.providerAccountId),
+      )
+      .collect();
+    for (const rateLimit of rateLimits) {
+      await ctx.db.delete(rateLimit._id);
+    }
+    await ctx.db.delete(account._id);
+  }
+  // Cleanup records are kept as an audit of what was deleted
+  await ctx.db.delete(userId);
+}
+
+// Internal mutation running a deletion job, one batch of conversations at a
+// time. It schedules itself until nothing is left.
+export const runDeletionJob = internalMutation({
+  args: { jobId: v.id("deletionJobs") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || job.status !== "running") {
+      return null;
+    }
+
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_userId", (q) => q.eq("userId", job.userId))
+      .take(CONVERSATIONS_PER_DELETION_RUN);
+    if (conversations.length > 0) {
+      const deleted = await deleteConversationsData(ctx, conversations);
+      await ctx.db.patch(args.jobId, {
+        deleted: job.deleted + deleted,
+        updatedAt: Date.now(),
+      });
+      await ctx.scheduler.runAfter(
+        0,
+        internal.accountQueriesAndMutations.runDeletionJob,
+        { jobId: args.jobId },
+      );
+      return null;
+    }
+
+    if (job.kind === "account") {
+      // Projects go first so their file cleanups are waited for too
+      const projects = await ctx.db
+        .query("projects")
+        .withIndex("by_userId", (q) => q.eq("userId", job.userId))
+        .collect();
+      for (const project of projects) {
+        await deleteProjectData(ctx, project);
+      }
+      // The job itself is deleted with the account
+      await deleteAccountData(ctx, job);
+      return null;
+    }
+    await ctx.db.patch(args.jobId, {
+      status: "completed",
+      updatedAt: Date.now(),
+      completedAt: Date.now(),
+    });
+    return null;
+  },
+});
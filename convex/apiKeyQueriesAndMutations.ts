@@ -0,0 +1,151 @@
+// This file does NOT use "use node" and contains queries and mutations for the
+// API key vault. Encryption happens in the Node actions in apiKeys.ts; these
+// functions only ever see ciphertext.
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+} from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+
+export const apiKeyProviderValidator = v.union(
+  v.literal("openai"),
+  v.literal("openrouter"),
+);
+
+// Queries
+export const listApiKeys = query({
+  args: {},
+  returns: v.array(
+    v.object({
+      provider: apiKeyProviderValidator,
+      keyHint: v.string(),
+      updatedAt: v.number(),
+      quotaExhaustedAt: v.optional(v.number()),
+    }),
+  ),
+  handler: async (ctx) => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const keys = await ctx.db
+      .query("userApiKeys")
+      .withIndex("by_userId_and_provider", (q) => q.eq("userId", user._id))
+      .collect();
+
+    // Never return the ciphertext to the client
+    return keys.map((key) => ({
+      provider: key.provider,
+      keyHint: key.keyHint,
+      updatedAt: key.updatedAt,
+      quotaExhaustedAt: key.quotaExhaustedAt,
+    }));
+  },
+});
+
+export const getEncryptedApiKeys = internalQuery({
+  args: { userId: v.id("users") },
+  returns: v.array(
+    v.object({
+      provider: apiKeyProviderValidator,
+      encryptedKey: v.string(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const keys = await ctx.db
+      .query("userApiKeys")
+      .withIndex("by_userId_and_provider", (q) => q.eq("userId", args.userId))
+      .collect();
+    return keys.map((key) => ({
+      provider: key.provider,
+      encryptedKey: key.encryptedKey,
+    }));
+  },
+});
+
+// Mutations
+export const storeEncryptedApiKey = internalMutation({
+  args: {
+    userId: v.id("users"),
+    provider: apiKeyProviderValidator,
+    encryptedKey: v.string(),
+    keyHint: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("userApiKeys")
+      .withIndex("by_userId_and_provider", (q) =>
+        q.eq("userId", args.userId).eq("provider", args.provider),
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        encryptedKey: args.encryptedKey,
+        keyHint: args.keyHint,
+        updatedAt: Date.now(),
+        quotaExhaustedAt: undefined,
+      });
+    } else {
+      await ctx.db.insert("userApiKeys", {
+        userId: args.userId,
+        provider: args.provider,
+        encryptedKey: args.encryptedKey,
+        keyHint: args.keyHint,
+        updatedAt: Date.now(),
+      });
+    }
+    return null;
+  },
+});
+
+// Internal mutation for generateAiResponse recording whether the user's key
+// for a provider ran out of credits. Validating a key can't tell without
+// spending credits, so settings show what the last reply found.
+export const setApiKeyQuotaExhausted = internalMutation({
+  args: {
+    userId: v.id("users"),
+    provider: apiKeyProviderValidator,
+    exhausted: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("userApiKeys")
+      .withIndex("by_userId_and_provider", (q) =>
+        q.eq("userId", args.userId).eq("provider", args.provider),
+      )
+      .first();
+    if (
+      !existing ||
+      (existing.quotaExhaustedAt !== undefined) === args.exhausted
+    ) {
+      return null;
+    }
+    await ctx.db.patch(existing._id, {
+      quotaExhaustedAt: args.exhausted ? Date.now() : undefined,
+    });
+    return null;
+  },
+});
+
+export const revokeApiKey = mutation({
+  args: { provider: apiKeyProviderValidator },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const existing = await ctx.db
+      .query("userApiKeys")
+      .withIndex("by_userId_and_provider", (q) =>
+        q.eq("userId", user._id).eq("provider", args.provider),
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return null;
+  },
+});
@@ -0,0 +1,341 @@
+"use node"; // Explicitly mark as Node.js environment
+
+// Server-side API key vault. Keys are encrypted with AES-256-GCM using a key
+// derived from the API_KEY_ENCRYPTION_SECRET environment variable, so only
+// ciphertext is stored in the database and keys are never sent back to the
+// browser once saved.
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto";
+import OpenAI from "openai";
+import { internal } from "./_generated/api";
+import { action } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+import { apiKeyProviderValidator } from "./apiKeyQueriesAndMutations";
+import { SUPPORTED_MODELS, type ApiKeyProvider } from "./constants";
+
+const CIPHER_ALGORITHM = "aes-256-gcm";
+const CIPHERTEXT_VERSION = "v1";
+const IV_BYTES = 12;
+const KEY_HINT_LENGTH = 4;
+
+export interface UserApiKeys {
+  openaiApiKey?: string;
+  openrouterApiKey?: string;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.API_KEY_ENCRYPTION_SECRET;
+  if (!secret) {
+    throw new Error(
+      "API_KEY_ENCRYPTION_SECRET is not set. Set it with `npx convex env set API_KEY_ENCRYPTION_SECRET <secret>`",
+    );
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+// The user and provider are bound to the ciphertext as additional authenticated
+// data, so a stored key can't be copied to another user's row and decrypted there
+function getAssociatedData(userId: string, provider: ApiKeyProvider): Buffer {
+  return Buffer.from(`${userId}:${provider}`, "utf8");
+}
+
+// Format: v1:<iv>:<auth tag>:<ciphertext>, each part base64 encoded
+export function encryptApiKey(
+  apiKey: string,
+  userId: string,
+  provider: ApiKeyProvider,
+): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, getEncryptionKey(), iv);
+  cipher.setAAD(getAssociatedData(userId, provider));
+  const ciphertext = Buffer.concat([
+    cipher.update(apiKey, "utf8"),
+    cipher.final(),
+  ]);
+  return [
+    CIPHERTEXT_VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+export function decryptApiKey(
+  encryptedKey: string,
+  userId: string,
+  provider: ApiKeyProvider,
+): string {
+  const [version, iv, authTag, ciphertext] = encryptedKey.split(":");
+  if (version !== CIPHERTEXT_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error("Unsupported API key format");
+  }
+  const decipher = createDecipheriv(
+    CIPHER_ALGORITHM,
+    getEncryptionKey(),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAAD(getAssociatedData(userId, provider));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+export function getKeyHint(apiKey: string): string {
+  return apiKey.slice(-KEY_HINT_LENGTH);
+}
+
+// Loads and decrypts a user's stored keys for use in actions. Keys that can't
+// be decrypted (e.g. after the secret was rotated) are treated as missing.
+export async function getUserApiKeys(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+): Promise<UserApiKeys> {
+  const storedKeys = await ctx.runQuery(
+    internal.apiKeyQueriesAndMutations.getEncryptedApiKeys,
+    { userId },
+  );
+
+  const keys: UserApiKeys = {};
+  for (const storedKey of storedKeys) {
+    try {
+      const apiKey = decryptApiKey(
+        storedKey.encryptedKey,
+        userId,
+        storedKey.provider,
+      );
+      if (storedKey.provider === "openai") {
+        keys.openaiApiKey = apiKey;
+      } else {
+        keys.openrouterApiKey = apiKey;
+      }
+    } catch (error) {
+      console.error(`Failed to decrypt ${storedKey.provider} API key:`, error);
+    }
+  }
+  return keys;
+}
+
+export type ApiKeyStatus = "valid" | "invalid" | "quota_exhausted" | "error";
+
+export interface ApiKeyValidationResult {
+  status: ApiKeyStatus;
+  message: string;
+  reachableModels: string[]; // SUPPORTED_MODELS ids the key can use
+}
+
+const apiKeyValidationResultValidator = v.object({
+  status: v.union(
+    v.literal("valid"),
+    v.literal("invalid"),
+    v.literal("quota_exhausted"),
+    v.literal("error"),
+  ),
+  message: v.string(),
+  reachableModels: v.array(v.string()),
+});
+
+const STATUS_MESSAGES: Record<Exclude<ApiKeyStatus, "error">, string> = {
+  valid: "API key is valid",
+  invalid: "The provider rejected this API key",
+  quota_exhausted: "API key is valid but has no remaining credits or quota",
+};
+
+// Maps a failed provider request to a key status. OpenRouter answers 402 when
+// credits run out; OpenAI reports insufficient_quota in the error code.
+export function getStatusForProviderError(
+  httpStatus: number | undefined,
+  code?: string | null,
+): ApiKeyStatus {
+  if (httpStatus === 401 || httpStatus === 403 || code === "invalid_api_key") {
+    return "invalid";
+  }
+  if (httpStatus === 402 || code === "insufficient_quota") {
+    return "quota_exhausted";
+  }
+  return "error";
+}
+
+// The provider's SUPPORTED_MODELS entries that appear in its models list
+export function getReachableModels(
+  provider: ApiKeyProvider,
+  availableModelIds: Iterable<string>,
+): string[] {
+  const available = new Set(availableModelIds);
+  return SUPPORTED_MODELS.filter(
+    (model) =>
+      model.openRouter === (provider === "openrouter") &&
+      available.has(model.id),
+  ).map((model) => model.id);
+}
+
+function getResultForError(error: any): ApiKeyValidationResult {
+  const status = getStatusForProviderError(
+    error?.status,
+    error?.code ?? error?.error?.code,
+  );
+  return {
+    status,
+    message:
+      status === "error"
+        ? error?.message || "Failed to reach the provider"
+        : STATUS_MESSAGES[status],
+    reachableModels: [],
+  };
+}
+
+// Records on the user's saved key whether a reply found its credits used up.
+// Pass the error of a failed request, or nothing once a request went through;
+// other failures leave the recorded state alone.
+export async function recordApiKeyQuota(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  provider: ApiKeyProvider,
+  error?: any,
+): Promise<void> {
+  const exhausted = error !== undefined;
+  if (exhausted && getResultForError(error).status !== "quota_exhausted") {
+    return;
+  }
+  await ctx.runMutation(
+    internal.apiKeyQueriesAndMutations.setApiKeyQuotaExhausted,
+    { userId, provider, exhausted },
+  );
+}
+
+// Listing models is free, so it is used to check the key without spending
+// credits. It succeeds without credits too, so an exhausted quota is only
+// found by the first reply that fails, see setApiKeyQuotaExhausted.
+async function validateOpenAIKey(
+  apiKey: string,
+): Promise<ApiKeyValidationResult> {
+  const openai = new OpenAI({ apiKey });
+  const modelIds: string[] = [];
+  for await (const model of openai.models.list()) {
+    modelIds.push(model.id);
+  }
+  return {
+    status: "valid",
+    message: STATUS_MESSAGES.valid,
+    reachableModels: getReachableModels("openai", modelIds),
+  };
+}
+
+async function validateOpenRouterKey(
+  apiKey: string,
+): Promise<ApiKeyValidationResult> {
+  const headers = { Authorization: `Bearer ${apiKey}` };
+
+  // The models list is public, so the key endpoint is what checks the key
+  const keyResponse = await fetch("https://openrouter.ai/api/v1/key", {
+    headers,
+  });
+  if (!keyResponse.ok) {
+    return getResultForError({
+      status: keyResponse.status,
+      message: `OpenRouter returned HTTP ${keyResponse.status}`,
+    });
+  }
+  const { data: keyInfo } = (await keyResponse.json()) as {
+    data: { limit_remaining?: number | null };
+  };
+
+  const modelsResponse = await fetch("https://openrouter.ai/api/v1/models", {
+    headers,
+  });
+  if (!modelsResponse.ok) {
+    throw new Error(`OpenRouter returned HTTP ${modelsResponse.status}`);
+  }
+  const { data: models } = (await modelsResponse.json()) as {
+    data: { id: string }[];
+  };
+  const reachableModels = getReachableModels(
+    "openrouter",
+    models.map((model) => model.id),
+  );
+
+  // A null limit means the key has no credit limit
+  if (keyInfo.limit_remaining != null && keyInfo.limit_remaining <= 0) {
+    return {
+      status: "quota_exhausted",
+      message: STATUS_MESSAGES.quota_exhausted,
+      reachableModels,
+    };
+  }
+  return { status: "valid", message: STATUS_MESSAGES.valid, reachableModels };
+}
+
+async function checkApiKey(
+  provider: ApiKeyProvider,
+  apiKey: string,
+): Promise<ApiKeyValidationResult> {
+  try {
+    return provider === "openai"
+      ? await validateOpenAIKey(apiKey)
+      : await validateOpenRouterKey(apiKey);
+  } catch (error) {
+    console.error(`Error validating ${provider} API key:`, error);
+    return getResultForError(error);
+  }
+}
+
+export const setApiKey = action({
+  args: {
+    provider: apiKeyProviderValidator,
+    apiKey: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx);
+    const apiKey = args.apiKey.trim();
+    if (!apiKey) {
+      throw new Error("API key cannot be empty");
+    }
+
+    await ctx.runMutation(
+      internal.apiKeyQueriesAndMutations.storeEncryptedApiKey,
+      {
+        userId: user._id,
+        provider: args.provider,
+        encryptedKey: encryptApiKey(apiKey, user._id, args.provider),
+        keyHint: getKeyHint(apiKey),
+      },
+    );
+    return null;
+  },
+});
+
+// Checks a key against the provider's API. Validates the given key (e.g. before
+// saving it) or, without one, the key saved for the provider.
+export const validateApiKey = action({
+  args: {
+    provider: apiKeyProviderValidator,
+    apiKey: v.optional(v.string()),
+  },
+  returns: apiKeyValidationResultValidator,
+  handler: async (ctx, args): Promise<ApiKeyValidationResult> => {
+    const user = await getLoggedInUser(ctx);
+    let apiKey = args.apiKey?.trim();
+    if (!apiKey) {
+      const keys = await getUserApiKeys(ctx, user._id);
+      apiKey =
+        args.provider === "openai" ? keys.openaiApiKey : keys.openrouterApiKey;
+    }
+    if (!apiKey) {
+      return {
+        status: "invalid",
+        message: "No API key saved for this provider",
+        reachableModels: [],
+      };
+    }
+    return await checkApiKey(args.provider, apiKey);
+  },
+});
@@ -12,8 +12,13 @@ import { internalAction, action } from "./_generated/server";
 import { v } from "convex/values";
 import { Id, Doc } from "./_generated/dataModel";
 import { ActionCtx } from "./_generated/server";
-import { getLoggedInUser } from "./chatQueriesAndMutations";
-import { type CoreMessage } from "ai";
+import {
+  assertConversationNotTrashed,
+  assertSupportedModelChoice,
+  enforceSpendingLimit,
+  getLoggedInUser,
+} from "./chatQueriesAndMutations";
+import { getUserApiKeys, recordApiKeyQuota } from "./apiKeys";
 import {
   MAX_FILES,
   MAX_FILE_SIZE,
@@ -23,7 +28,25 @@ import {
   isThinkingModel,
   isOpenRouterModel,
   SYSTEM_PROMPT,
+  SUPPORTED_MODELS,
+  MAX_SUGGESTED_TAGS,
 } from "./constants";
+import { parseTitleAndTags } from "./tagQueriesAndMutations";
+import {
+  appendProjectInstructionsToSystemPrompt,
+  appendSummaryToSystemPrompt,
+  buildSummaryPrompt,
+  estimateTokens,
+  getHistoryTokenBudget,
+} from "./context";
+import {
+  addUsage,
+  estimateUsage,
+  fromChatCompletionUsage,
+  fromResponsesUsage,
+  type TokenUsage,
+} from "./usage";
+import { createStreamWriter, type StreamWriter } from "./streaming";
 
 // Type definitions for OpenAI response structures
 interface FileCitationAnnotation {
@@ -90,19 +113,122 @@ function getUserFriendlyErrorMessage(error: any): string {
   return "An unexpected error occurred. Please try again.";
 }
 
+// How often the streaming loops check whether the user stopped the reply
+const CANCELLATION_CHECK_INTERVAL_MS = 500;
+
+// Helper that returns a throttled check for a stop request on the AI message,
+// so streaming doesn't run a query for every chunk
+function createCancellationCheck(
+  ctx: ActionCtx,
+  messageId: Id<"messages">,
+): () => Promise<boolean> {
+  let lastCheckedAt = 0;
+  let cancelled = false;
+  return async () => {
+    const now = Date.now();
+    if (!cancelled && now - lastCheckedAt >= CANCELLATION_CHECK_INTERVAL_MS) {
+      lastCheckedAt = now;
+      cancelled = await ctx.runQuery(
+        internal.chatQueriesAndMutations.isGenerationCancelled,
+        { messageId },
+      );
+    }
+    return cancelled;
+  };
+}
+
+// Helper that writes a reply's streamed text and reasoning summary to its
+// message in batches instead of one mutation per delta
+function createMessageStreamWriter(
+  ctx: ActionCtx,
+  messageId: Id<"messages">,
+): StreamWriter {
+  return createStreamWriter(async ({ content, reasoningSummary }) => {
+    if (content) {
+      await ctx.runMutation(
+        internal.chatQueriesAndMutations.appendMessageContent,
+        { messageId, content },
+      );
+    }
+    if (reasoningSummary !== undefined) {
+      await ctx.runMutation(
+        internal.chatQueriesAndMutations.updateReasoningSummary,
+        { messageId, reasoningSummary },
+      );
+    }
+  });
+}
+
+// Helper to store the usage the provider reported for a reply. Failing to
+// record usage shouldn't turn a finished reply into an error.
+async function recordUsage(
+  ctx: ActionCtx,
+  messageId: Id<"messages">,
+  usage: TokenUsage | undefined,
+) {
+  if (!usage) {
+    return;
+  }
+  try {
+    await ctx.runMutation(
+      internal.usageQueriesAndMutations.recordMessageUsage,
+      { messageId, ...usage },
+    );
+  } catch (error) {
+    console.error("Failed to record usage:", error);
+  }
+}
+
+// Helper to join the text of a request's prompt, to estimate its tokens
+function formatSentPrompt(
+  sysPrompt: string,
+  history: Array<{ content: string }>,
+  inputText: string,
+): string {
+  return [
+    sysPrompt,
+    ...history.map((message) => message.content),
+    inputText,
+  ].join("\n");
+}
+
+// Helper to store the usage of a reply that was stopped or failed. Providers
+// report usage only when a stream finishes, but bill for the tokens produced
+// before it was cut off, so without a report the usage is estimated from the
+// prompt and the streamed text. Nothing is stored if no request was sent.
+async function recordPartialUsage(
+  ctx: ActionCtx,
+  messageId: Id<"messages">,
+  usage: TokenUsage | undefined,
+  sentPrompt: string | undefined,
+  streamWriter: StreamWriter,
+) {
+  if (sentPrompt === undefined) {
+    return;
+  }
+  await recordUsage(
+    ctx,
+    messageId,
+    usage ?? estimateUsage(sentPrompt, streamWriter.getStreamedText()),
+  );
+}
+
 // Action that uses OpenAI Responses API to generate AI responses with file search
 export const generateAiResponse = internalAction({
   args: {
     conversationId: v.id("conversations"),
-    openaiApiKey: v.optional(v.string()),
-    openrouterApiKey: v.optional(v.string()),
+    // Optional overrides used when regenerating a reply with another model
+    model: v.optional(v.string()),
+    thinkingIntensity: v.optional(
+      v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+    ),
   },
   handler: async (
     ctx: ActionCtx,
     args: {
       conversationId: Id<"conversations">;
-      openaiApiKey?: string;
-      openrouterApiKey?: string;
+      model?: string;
+      thinkingIntensity?: "low" | "medium" | "high";
     },
   ) => {
     try {
@@ -118,6 +244,11 @@ export const generateAiResponse = internalAction({
         console.error("Conversation not found:", args.conversationId);
         return;
       }
+      // Trashed after the reply was requested
+      if (conversation.deletedAt !== undefined) {
+        console.warn("Conversation is in the trash:", args.conversationId);
+        return;
+      }
 
       // Get the most recent user message as the input
       const lastMessage = await ctx.runQuery(
@@ -174,6 +305,16 @@ export const generateAiResponse = internalAction({
         vectorStoreIds.push(conversation.vectorStoreId);
       }
 
+      // Chats in a project also search the project's files
+      const project = conversation.projectId
+        ? await ctx.runQuery(internal.projectQueriesAndMutations.getProject, {
+            projectId: conversation.projectId,
+          })
+        : null;
+      if (project?.vectorStoreId) {
+        vectorStoreIds.push(project.vectorStoreId);
+      }
+
       // Add file search tool if we have vector stores
       if (vectorStoreIds.length > 0) {
         tools.push({
@@ -183,9 +324,11 @@ export const generateAiResponse = internalAction({
         });
       }
 
-      // Get the model and thinking intensity from the last user message (default to gpt-4.1)
-      let selectedModel = lastMessage.model || "gpt-4.1";
-      const thinkingIntensity = lastMessage.thinkingIntensity || "medium";
+      // Get the model and thinking intensity from the regenerate overrides or
+      // the last user message (default to gpt-4.1)
+      let selectedModel = args.model || lastMessage.model || "gpt-4.1";
+      const thinkingIntensity =
+        args.thinkingIntensity || lastMessage.thinkingIntensity || "medium";
 
       // Validate the model is supported
       if (!isSupportedModel(selectedModel)) {
@@ -202,9 +345,17 @@ export const generateAiResponse = internalAction({
           conversationId: args.conversationId,
           content: "",
           status: "typing",
+          replyToMessageId: lastMessage._id,
+          model: selectedModel,
+          thinkingIntensity: isThinkingModel(selectedModel)
+            ? thinkingIntensity
+            : undefined,
         },
       );
 
+      const isCancelled = createCancellationCheck(ctx, aiMessageId);
+      const streamWriter = createMessageStreamWriter(ctx, aiMessageId);
+
       // Use the timezone from the last user message if available; fallback to UTC
       const userTimezone =
         (lastMessage as { timezone?: string }).timezone || "UTC";
@@ -220,45 +371,72 @@ export const generateAiResponse = internalAction({
         "{user-time-with-timezone}",
         time_format,
       );
+      sysPrompt = appendProjectInstructionsToSystemPrompt(sysPrompt, project);
+
+      // OpenRouter models, and imported chats and chats continued from a
+      // share link until a reply starts their response chain, are sent the
+      // history with every request. Other OpenAI replies continue the
+      // response chain, which already holds the whole chat.
+      const rebuildsHistory =
+        isOpenRouterModel(selectedModel) ||
+        (conversation.importedFrom !== undefined &&
+          !conversation.lastResponseId);
+
+      if (rebuildsHistory) {
+        sysPrompt = appendSummaryToSystemPrompt(
+          sysPrompt,
+          conversation.summary,
+        );
+
+        // Fold older messages into the rolling summary in the background once
+        // the history gets long; the new summary is used from the next turn
+        const pendingSummary = await ctx.runQuery(
+          internal.chatQueriesAndMutations.getMessagesToSummarize,
+          { conversationId: args.conversationId },
+        );
+        if (pendingSummary) {
+          await ctx.scheduler.runAfter(0, internal.chat.summarizeConversation, {
+            conversationId: args.conversationId,
+            userId: conversation.userId,
+          });
+        }
+      }
+
+      // Keys come from the user's encrypted vault, never from the client
+      const { openaiApiKey, openrouterApiKey } = await getUserApiKeys(
+        ctx,
+        conversation.userId,
+      );
+
+      // The prompt once a request is sent, and the usage once the provider
+      // reports it, for recordPartialUsage
+      let sentPrompt: string | undefined;
+      let usage: TokenUsage | undefined;
 
       try {
         if (isOpenRouterModel(selectedModel)) {
           // Validate API key for OpenRouter models
-          if (!args.openrouterApiKey) {
+          if (!openrouterApiKey) {
             throw new Error("OpenRouter API key is required for this model");
           }
 
           // Use OpenAI SDK with OpenRouter base URL for unified handling
           const openrouterClient = new OpenAI({
             baseURL: "https://openrouter.ai/api/v1",
-            apiKey: args.openrouterApiKey,
+            apiKey: openrouterApiKey,
           });
 
-          // Get recent messages for conversation history
-          const recentMessages = (
-            await ctx.runQuery(
-              internal.chatQueriesAndMutations.getRecentMessages,
-              {
-                conversationId: args.conversationId,
-                userId: conversation.userId,
-              },
-            )
-          ).reverse();
-
-          const history: CoreMessage[] = recentMessages.map(
-            (message): CoreMessage => {
-              // @ts-expect-error: Intentional comparison between 'ai' and 'assistant'/'user' for mapping roles
-              if (message.author === "ai") {
-                return {
-                  role: "assistant",
-                  content: message.content,
-                };
-              } else {
-                return {
-                  role: "user",
-                  content: message.content,
-                };
-              }
+          // Build token-budgeted history from the messages before the current one
+          const history = await ctx.runQuery(
+            internal.chatQueriesAndMutations.getRecentMessages,
+            {
+              conversationId: args.conversationId,
+              userId: conversation.userId,
+              beforeMessageId: lastMessage._id,
+              maxTokens: getHistoryTokenBudget(
+                selectedModel,
+                estimateTokens(sysPrompt) + estimateTokens(inputText),
+              ),
             },
           );
 
@@ -293,37 +471,14 @@ export const generateAiResponse = internalAction({
 
             // Add conversation history with proper format
             for (const message of history) {
-              if (message.role === "assistant") {
-                // Extract text content from assistant message
-                const textContent =
-                  typeof message.content === "string"
-                    ? message.content
-                    : Array.isArray(message.content)
-                      ? message.content
-                          .map((part) => ("text" in part ? part.text : ""))
-                          .join("")
-                      : String(message.content);
-
-                messages.push({
-                  role: "assistant",
-                  content: textContent,
-                });
-              } else {
-                // Extract text content from user message
-                const textContent =
-                  typeof message.content === "string"
-                    ? message.content
-                    : Array.isArray(message.content)
-                      ? message.content
-                          .map((part) => ("text" in part ? part.text : ""))
-                          .join("")
-                      : String(message.content);
-
-                messages.push({
-                  role: "user",
-                  content: [{ type: "text", text: textContent }],
-                });
-              }
+              messages.push(
+                message.role === "assistant"
+                  ? { role: "assistant", content: message.content }
+                  : {
+                      role: "user",
+                      content: [{ type: "text", text: message.content }],
+                    },
+              );
             }
 
             // Add the current user message in the array format
@@ -338,6 +493,7 @@ export const generateAiResponse = internalAction({
                 messages:
                   messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
                 stream: true, // Enable streaming
+                stream_options: { include_usage: true }, // Usage in the last chunk
               };
 
             if (Object.keys(reasoningParams).length > 0) {
@@ -351,37 +507,57 @@ export const generateAiResponse = internalAction({
             });
 
             // Start streaming response for real-time content
+            sentPrompt = formatSentPrompt(sysPrompt, history, inputText);
             const responseStream =
               await openrouterClient.chat.completions.create(streamingParams);
+            await recordApiKeyQuota(ctx, conversation.userId, "openrouter");
 
             let reasoningSummary = "";
 
             for await (const chunk of responseStream) {
+              if (await isCancelled()) {
+                responseStream.controller.abort();
+                break;
+              }
+
+              if (chunk.usage) {
+                usage = fromChatCompletionUsage(chunk.usage);
+              }
+
               const delta = chunk.choices[0]?.delta;
               if (!delta) continue;
 
               if (delta.content) {
-                await ctx.runMutation(
-                  internal.chatQueriesAndMutations.appendMessageContent,
-                  {
-                    messageId: aiMessageId,
-                    content: delta.content,
-                  },
-                );
+                await streamWriter.appendContent(delta.content);
               }
 
               const reasoningDelta = (delta as any).reasoning;
               if (reasoningDelta) {
                 reasoningSummary += reasoningDelta;
-                await ctx.runMutation(
-                  internal.chatQueriesAndMutations.updateReasoningSummary,
-                  {
-                    messageId: aiMessageId,
-                    reasoningSummary: reasoningSummary,
-                  },
-                );
+                await streamWriter.setReasoningSummary(reasoningSummary);
               }
             }
+            await streamWriter.flush();
+
+            // Keep the partial reply and skip the citation lookup if stopped
+            if (await isCancelled()) {
+              await ctx.runMutation(
+                internal.chatQueriesAndMutations.markMessageComplete,
+                {
+                  messageId: aiMessageId,
+                  status: "cancelled",
+                  reasoningSummary: reasoningSummary.trim() || undefined,
+                },
+              );
+              await recordPartialUsage(
+                ctx,
+                aiMessageId,
+                usage,
+                sentPrompt,
+                streamWriter,
+              );
+              return;
+            }
 
             console.log("Streaming completed, now fetching citations...");
 
@@ -406,6 +582,10 @@ export const generateAiResponse = internalAction({
             try {
               const citationResponse =
                 await openrouterClient.chat.completions.create(citationParams);
+              usage = addUsage(
+                usage,
+                fromChatCompletionUsage(citationResponse.usage),
+              );
 
               const citations: Array<{
                 type: "url";
@@ -462,6 +642,7 @@ export const generateAiResponse = internalAction({
               );
             }
 
+            await recordUsage(ctx, aiMessageId, usage);
             return;
           }
 
@@ -471,17 +652,21 @@ export const generateAiResponse = internalAction({
               model: modelForApi,
               messages: [
                 { role: "system", content: sysPrompt },
-                ...(history as OpenAI.Chat.Completions.ChatCompletionMessageParam[]),
+                ...history,
+                { role: "user", content: inputText },
               ],
               stream: true,
+              stream_options: { include_usage: true }, // Usage in the last chunk
             };
 
           if (Object.keys(reasoningParams).length > 0) {
             (params as any).reasoning = reasoningParams;
           }
 
+          sentPrompt = formatSentPrompt(sysPrompt, history, inputText);
           const responseStream =
             await openrouterClient.chat.completions.create(params);
+          await recordApiKeyQuota(ctx, conversation.userId, "openrouter");
 
           let reasoningSummary = "";
           const citations: Array<{
@@ -490,30 +675,29 @@ export const generateAiResponse = internalAction({
             title: string;
           }> = [];
 
+          let cancelled = false;
           for await (const chunk of responseStream) {
+            if (await isCancelled()) {
+              cancelled = true;
+              responseStream.controller.abort();
+              break;
+            }
+
+            if (chunk.usage) {
+              usage = fromChatCompletionUsage(chunk.usage);
+            }
+
             const delta = chunk.choices[0]?.delta;
             if (!delta) continue;
 
             if (delta.content) {
-              await ctx.runMutation(
-                internal.chatQueriesAndMutations.appendMessageContent,
-                {
-                  messageId: aiMessageId,
-                  content: delta.content,
-                },
-              );
+              await streamWriter.appendContent(delta.content);
             }
 
             const reasoningDelta = (delta as any).reasoning;
             if (reasoningDelta) {
               reasoningSummary += reasoningDelta;
-              await ctx.runMutation(
-                internal.chatQueriesAndMutations.updateReasoningSummary,
-                {
-                  messageId: aiMessageId,
-                  reasoningSummary: reasoningSummary,
-                },
-              );
+              await streamWriter.setReasoningSummary(reasoningSummary);
             }
 
             // Handle final chunk with annotations
@@ -541,32 +725,68 @@ export const generateAiResponse = internalAction({
               }
             }
           }
+          await streamWriter.flush();
 
           await ctx.runMutation(
             internal.chatQueriesAndMutations.markMessageComplete,
             {
               messageId: aiMessageId,
+              status: cancelled ? "cancelled" : "completed",
               reasoningSummary: reasoningSummary.trim() || undefined,
               citations: citations.length > 0 ? citations : undefined,
             },
           );
+          if (cancelled) {
+            await recordPartialUsage(
+              ctx,
+              aiMessageId,
+              usage,
+              sentPrompt,
+              streamWriter,
+            );
+          } else {
+            await recordUsage(ctx, aiMessageId, usage);
+          }
           return;
         }
 
         // Validate API key for OpenAI models
-        if (!args.openaiApiKey) {
+        if (!openaiApiKey) {
           throw new Error("OpenAI API key is required for this model");
         }
 
         // Create OpenAI client with user's API key
         const openaiClient = new OpenAI({
-          apiKey: args.openaiApiKey,
+          apiKey: openaiApiKey,
         });
 
-        // Create the streaming response using the Responses API
+        // Imported chats and chats continued from a share link have no
+        // response chain yet, so their history is sent until a reply starts one
+        const importedHistory = rebuildsHistory
+          ? await ctx.runQuery(
+              internal.chatQueriesAndMutations.getRecentMessages,
+              {
+                conversationId: args.conversationId,
+                userId: conversation.userId,
+                beforeMessageId: lastMessage._id,
+                maxTokens: getHistoryTokenBudget(
+                  selectedModel,
+                  estimateTokens(sysPrompt) + estimateTokens(inputText),
+                ),
+              },
+            )
+          : [];
+
+        // Create the streaming response using the Responses API. The earlier
+        // turns of a response chain are billed too, but aren't counted in
+        // sentPrompt, so an estimate for a stopped reply is on the low side.
+        sentPrompt = formatSentPrompt(sysPrompt, importedHistory, inputText);
         const response = await openaiClient.responses.create({
           model: selectedModel,
-          input: inputText, // Simple string input
+          input:
+            importedHistory.length > 0
+              ? [...importedHistory, { role: "user", content: inputText }]
+              : inputText, // Simple string input
           previous_response_id: conversation.lastResponseId || undefined,
           instructions: sysPrompt,
           tools: tools.length > 0 ? tools : undefined,
@@ -581,6 +801,7 @@ export const generateAiResponse = internalAction({
           top_p: 1,
           stream: true, // Enable streaming
         });
+        await recordApiKeyQuota(ctx, conversation.userId, "openai");
 
         // Handle streaming response
         let fullContent = "";
@@ -599,7 +820,15 @@ export const generateAiResponse = internalAction({
             }
         > = [];
 
+        let cancelled = false;
+        let completed = false;
         for await (const event of response) {
+          if (await isCancelled()) {
+            cancelled = true;
+            response.controller.abort();
+            break;
+          }
+
           try {
             if (event.type === "response.created") {
               openaiResponseId = event.response.id;
@@ -607,36 +836,18 @@ export const generateAiResponse = internalAction({
               // Accumulate the content
               fullContent += event.delta;
 
-              // Immediately append each delta to the database for real-time streaming
-              await ctx.runMutation(
-                internal.chatQueriesAndMutations.appendMessageContent,
-                {
-                  messageId: aiMessageId,
-                  content: event.delta,
-                },
-              );
+              // Deltas are written in batches for real-time streaming
+              await streamWriter.appendContent(event.delta);
             } else if (event.type === "response.reasoning_summary_text.delta") {
               reasoningSummary += event.delta;
 
               // Stream reasoning summary updates in real-time
-              await ctx.runMutation(
-                internal.chatQueriesAndMutations.updateReasoningSummary,
-                {
-                  messageId: aiMessageId,
-                  reasoningSummary: reasoningSummary,
-                },
-              );
+              await streamWriter.setReasoningSummary(reasoningSummary);
             } else if (event.type === "response.reasoning_summary_text.done") {
               reasoningSummary += event.text;
 
               // Final reasoning summary update
-              await ctx.runMutation(
-                internal.chatQueriesAndMutations.updateReasoningSummary,
-                {
-                  messageId: aiMessageId,
-                  reasoningSummary: reasoningSummary,
-                },
-              );
+              await streamWriter.setReasoningSummary(reasoningSummary);
             } else if (event.type === "response.output_text.done") {
               // Handle file citations if present
               const outputItem = event as OutputItemWithAnnotations;
@@ -681,6 +892,7 @@ export const generateAiResponse = internalAction({
                 }
               }
             } else if (event.type === "response.completed") {
+              completed = true;
               // Extract any final citations from the completed response
               if (event.response.output && event.response.output.length > 0) {
                 for (const item of event.response.output as ResponseOutput[]) {
@@ -729,7 +941,11 @@ export const generateAiResponse = internalAction({
                 }
               }
 
+              usage = fromResponsesUsage(event.response.usage);
+              await recordUsage(ctx, aiMessageId, usage);
+
               // Mark the message as completed and add final data
+              await streamWriter.flush();
               await ctx.runMutation(
                 internal.chatQueriesAndMutations.markMessageComplete,
                 {
@@ -760,6 +976,35 @@ export const generateAiResponse = internalAction({
           }
         }
 
+        await streamWriter.flush();
+
+        // A stopped reply, or one whose stream ended before it completed, is
+        // still billed
+        if (cancelled || !completed) {
+          await recordPartialUsage(
+            ctx,
+            aiMessageId,
+            usage,
+            sentPrompt,
+            streamWriter,
+          );
+        }
+
+        // The aborted response is incomplete, so it isn't used to continue the
+        // conversation; the partial reply is kept as-is
+        if (cancelled) {
+          await ctx.runMutation(
+            internal.chatQueriesAndMutations.markMessageComplete,
+            {
+              messageId: aiMessageId,
+              status: "cancelled",
+              reasoningSummary: reasoningSummary.trim() || undefined,
+              citations: citations.length > 0 ? citations : undefined,
+            },
+          );
+          return;
+        }
+
         // Ensure we have some content, even if streaming failed partway
         if (!fullContent.trim()) {
           console.warn("No content generated in OpenAI response");
@@ -774,6 +1019,26 @@ export const generateAiResponse = internalAction({
       } catch (error) {
         console.error("Error during OpenAI response generation:", error);
         const errorMessage = getUserFriendlyErrorMessage(error);
+        // Show a used-up quota next to the key in settings
+        await recordApiKeyQuota(
+          ctx,
+          conversation.userId,
+          isOpenRouterModel(selectedModel) ? "openrouter" : "openai",
+          error,
+        ).catch((recordError) => {
+          console.error("Failed to record the key's quota:", recordError);
+        });
+        // Keep the part of the reply streamed before the error
+        await streamWriter.flush().catch((flushError) => {
+          console.error("Failed to write the streamed reply:", flushError);
+        });
+        await recordPartialUsage(
+          ctx,
+          aiMessageId,
+          usage,
+          sentPrompt,
+          streamWriter,
+        );
         // Update the existing AI message with error status and content
         // instead of creating a new message
         await ctx.runMutation(
@@ -824,12 +1089,11 @@ export const uploadFileAndSendMessage = action({
       v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
     ),
     timezone: v.optional(v.string()),
-    openaiApiKey: v.optional(v.string()),
-    openrouterApiKey: v.optional(v.string()),
   },
   returns: v.object({
     success: v.boolean(),
     errors: v.array(v.string()),
+    spendingWarning: v.optional(v.string()),
   }),
   handler: async (
     ctx: ActionCtx,
@@ -844,28 +1108,18 @@ export const uploadFileAndSendMessage = action({
       model?: string;
       thinkingIntensity?: "low" | "medium" | "high";
       timezone?: string;
-      openaiApiKey?: string;
-      openrouterApiKey?: string;
     },
-  ): Promise<{ success: boolean; errors: string[] }> => {
+  ): Promise<{
+    success: boolean;
+    errors: string[];
+    spendingWarning?: string;
+  }> => {
     const errors: string[] = [];
 
     // First, verify the user is authenticated
     const user = await getLoggedInUser(ctx);
 
-    // Validate model if provided
-    if (args.model) {
-      if (!isSupportedModel(args.model)) {
-        throw new Error(`Unsupported model: ${args.model}`);
-      }
-
-      // Validate thinking intensity is only provided for thinking models
-      if (args.thinkingIntensity && !isThinkingModel(args.model)) {
-        throw new Error(
-          "Thinking intensity can only be set for thinking models",
-        );
-      }
-    }
+    assertSupportedModelChoice(args.model, args.thinkingIntensity);
 
     const conversation: Doc<"conversations"> | null = await ctx.runQuery(
       internal.chatQueriesAndMutations.getConversation,
@@ -883,6 +1137,14 @@ export const uploadFileAndSendMessage = action({
     if (conversation.userId !== user._id) {
       throw new Error("Access denied: conversation does not belong to user");
     }
+    assertConversationNotTrashed(conversation);
+
+    // Refuse before uploading anything if the budget is used up
+    const spendingWarning = await enforceSpendingLimit(
+      ctx,
+      user._id,
+      args.model ?? SUPPORTED_MODELS[0].id,
+    );
 
     const uploadedOpenAIFileIds: string[] = [];
     const originalFileNames: string[] = [];
@@ -903,14 +1165,15 @@ export const uploadFileAndSendMessage = action({
     }
 
     // Validate API key if files need to be uploaded
-    if (args.uploadedConvexFiles.length > 0 && !args.openaiApiKey) {
+    const { openaiApiKey } = await getUserApiKeys(ctx, user._id);
+    if (args.uploadedConvexFiles.length > 0 && !openaiApiKey) {
       throw new Error("OpenAI API key is required to upload files");
     }
 
     // Create OpenAI client with user's API key if needed
-    const openaiClient = args.openaiApiKey
+    const openaiClient = openaiApiKey
       ? new OpenAI({
-          apiKey: args.openaiApiKey,
+          apiKey: openaiApiKey,
         })
       : null;
 
@@ -1111,8 +1374,6 @@ export const uploadFileAndSendMessage = action({
     // Schedule the AI response action
     await ctx.scheduler.runAfter(0, internal.chat.generateAiResponse, {
       conversationId: args.conversationId,
-      openaiApiKey: args.openaiApiKey,
-      openrouterApiKey: args.openrouterApiKey,
     });
 
     // Schedule title generation if this was the first user message with text content
@@ -1122,11 +1383,163 @@ export const uploadFileAndSendMessage = action({
         internal.chat.generateConversationTitleAction,
         {
           conversationId: args.conversationId,
-          openaiApiKey: args.openaiApiKey,
+          userId: user._id,
         },
       );
     }
-    return { success: true, errors };
+    return { success: true, errors, spendingWarning };
+  },
+});
+
+// Action to continue a shared conversation: copies it into a new conversation
+// owned by the user. Attachments are stored again and uploaded to a new vector
+// store, so the copy never uses the owner's vector store or response chain.
+export const continueSharedConversation = action({
+  args: { slug: v.string() },
+  returns: v.object({
+    conversationId: v.id("conversations"),
+    errors: v.array(v.string()),
+  }),
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{ conversationId: Id<"conversations">; errors: string[] }> => {
+    const user = await getLoggedInUser(ctx);
+    const { conversationId, files } = await ctx.runMutation(
+      internal.shareQueriesAndMutations.copySharedConversation,
+      { slug: args.slug, userId: user._id },
+    );
+    const errors: string[] = [];
+    if (files.length === 0) {
+      return { conversationId, errors };
+    }
+
+    const { openaiApiKey } = await getUserApiKeys(ctx, user._id);
+    const openaiClient = openaiApiKey
+      ? new OpenAI({
+          apiKey: openaiApiKey,
+        })
+      : null;
+    if (!openaiClient) {
+      errors.push(
+        "Add an OpenAI API key in Settings to search the attached files",
+      );
+    }
+
+    let vectorStoreId: string | undefined;
+    if (openaiClient) {
+      try {
+        const vectorStore = await openaiClient.vectorStores.create({
+          name: `conversation_${conversationId}`,
+        });
+        vectorStoreId = vectorStore.id;
+        await ctx.runMutation(
+          internal.chatQueriesAndMutations.updateConversationVectorStore,
+          { conversationId, vectorStoreId },
+        );
+      } catch (error) {
+        console.error("Failed to create vector store:", error);
+        errors.push("Failed to create vector store for file search");
+      }
+    }
+
+    const messages = new Map<
+      Id<"messages">,
+      {
+        fileIds: string[];
+        vectorStoreFileIds: string[];
+        uploadedFiles: Array<{
+          fileName: string;
+          storageId: Id<"_storage">;
+          fileType: string;
+          fileSize: number;
+        }>;
+      }
+    >();
+    const fileIdMap: Array<{ from: string; to: string }> = [];
+
+    for (const file of files) {
+      const fileContent = await ctx.storage.get(file.storageId);
+      if (!fileContent) {
+        errors.push(`File ${file.fileName} is no longer available. Skipping.`);
+        continue;
+      }
+      // Store a copy so the new conversation keeps its files if the owner
+      // deletes theirs
+      const storageId = await ctx.storage.store(fileContent);
+      const message = messages.get(file.messageId) ?? {
+        fileIds: [],
+        vectorStoreFileIds: [],
+        uploadedFiles: [],
+      };
+      messages.set(file.messageId, message);
+      message.uploadedFiles.push({
+        fileName: file.fileName,
+        storageId,
+        fileType: file.fileType,
+        fileSize: file.fileSize,
+      });
+
+      if (!openaiClient) {
+        continue;
+      }
+      try {
+        const openAIFile = await openaiClient.files.create({
+          file: await OpenAI.toFile(fileContent, file.fileName),
+          purpose: "assistants", // Required for vector stores
+        });
+        message.fileIds.push(openAIFile.id);
+        if (file.sourceFileId) {
+          fileIdMap.push({ from: file.sourceFileId, to: openAIFile.id });
+        }
+        await ctx.runMutation(
+          internal.chatQueriesAndMutations.createUserFileMappings,
+          {
+            uploadedBy: user._id,
+            conversationId,
+            messageId: file.messageId,
+            fileMappings: [
+              {
+                openaiFileId: openAIFile.id,
+                fileName: file.fileName,
+                storageId,
+                fileMimeType: file.fileType,
+                fileSize: file.fileSize,
+              },
+            ],
+          },
+        );
+
+        if (vectorStoreId) {
+          try {
+            await openaiClient.vectorStores.files.create(vectorStoreId, {
+              file_id: openAIFile.id,
+            });
+            message.vectorStoreFileIds.push(openAIFile.id);
+          } catch (error) {
+            console.error(
+              `Failed to add file ${openAIFile.id} to vector store:`,
+              error,
+            );
+            errors.push(`Failed to add file ${file.fileName} to search index`);
+          }
+        }
+      } catch (error) {
+        const errorMessage = `Failed to upload file ${file.fileName} to OpenAI: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(errorMessage);
+        errors.push(errorMessage);
+      }
+    }
+
+    await ctx.runMutation(internal.shareQueriesAndMutations.attachCopiedFiles, {
+      conversationId,
+      messages: Array.from(messages, ([messageId, message]) => ({
+        messageId,
+        ...message,
+      })),
+      fileIdMap,
+    });
+    return { conversationId, errors };
   },
 });
 
@@ -1134,13 +1547,13 @@ export const uploadFileAndSendMessage = action({
 export const generateConversationTitleAction = internalAction({
   args: {
     conversationId: v.id("conversations"),
-    openaiApiKey: v.optional(v.string()),
+    userId: v.id("users"),
   },
   handler: async (
     ctx: ActionCtx,
     args: {
       conversationId: Id<"conversations">;
-      openaiApiKey?: string;
+      userId: Id<"users">;
     },
   ): Promise<null> => {
     try {
@@ -1172,6 +1585,17 @@ export const generateConversationTitleAction = internalAction({
         promptContent += `\nFiles attached: [${fileNamesString}]`;
       }
 
+      // Users with tags also get some of them suggested for the chat
+      const tags = await ctx.runQuery(
+        internal.tagQueriesAndMutations.getUserTags,
+        { userId: args.userId },
+      );
+      if (tags.length > 0) {
+        promptContent = `Choose up to ${MAX_SUGGESTED_TAGS} of these tags that fit the conversation, if any: ${tags.map((tag) => tag.name).join(", ")}. Answer with the title on the first line and "Tags:" followed by the chosen tags, separated by commas, on the second line.
+
+${promptContent}`;
+      }
+
       const prompt = `Create a concise and descriptive title (under 8 words) for a chat conversation based on the user's *first message* and any attached files. The title should capture the main topic or intent, suitable for display in a chat list. Avoid generic phrases like "New chat".
 
 Examples:
@@ -1195,7 +1619,8 @@ ${promptContent}
 Title:`;
 
       // Use a default API key from environment for title generation if user key not provided
-      const apiKey = args.openaiApiKey || process.env.CONVEX_OPENAI_API_KEY;
+      const { openaiApiKey } = await getUserApiKeys(ctx, args.userId);
+      const apiKey = openaiApiKey || process.env.CONVEX_OPENAI_API_KEY;
       if (!apiKey) {
         console.warn("No OpenAI API key available for title generation");
         return null;
@@ -1212,7 +1637,11 @@ Title:`;
       });
 
       // Access the output text using the helper
-      const summary = response.output_text?.trim();
+      const output = response.output_text?.trim() ?? "";
+      const { title: summary, suggestedTagIds } =
+        tags.length > 0
+          ? parseTitleAndTags(output, tags)
+          : { title: output, suggestedTagIds: [] };
 
       if (summary && summary.length > 0) {
         // Update the conversation name with the generated summary using the internal mutation
@@ -1221,6 +1650,7 @@ Title:`;
           {
             conversationId: args.conversationId,
             newName: summary,
+            suggestedTagIds,
           },
         );
         console.log(
@@ -1241,3 +1671,82 @@ Title:`;
     return null;
   },
 });
+
+// Model used for rolling summaries when only an OpenRouter key is available
+const OPENROUTER_SUMMARY_MODEL = "google/gemini-2.5-flash-lite-preview-06-17";
+
+// Internal action to fold older messages into the conversation's rolling summary
+export const summarizeConversation = internalAction({
+  args: {
+    conversationId: v.id("conversations"),
+    userId: v.id("users"),
+  },
+  handler: async (
+    ctx: ActionCtx,
+    args: {
+      conversationId: Id<"conversations">;
+      userId: Id<"users">;
+    },
+  ): Promise<null> => {
+    try {
+      const pending = await ctx.runQuery(
+        internal.chatQueriesAndMutations.getMessagesToSummarize,
+        { conversationId: args.conversationId },
+      );
+      if (!pending) {
+        return null;
+      }
+
+      const prompt = buildSummaryPrompt(pending.summary, pending.transcript);
+
+      // Use the same OpenAI key fallback as title generation, then OpenRouter
+      const keys = await getUserApiKeys(ctx, args.userId);
+      const openaiApiKey =
+        keys.openaiApiKey || process.env.CONVEX_OPENAI_API_KEY;
+      let summary: string | undefined;
+      if (openaiApiKey) {
+        const openaiClient = new OpenAI({ apiKey: openaiApiKey });
+        const response = await openaiClient.responses.create({
+          model: "gpt-4.1-nano",
+          input: [{ role: "user", content: prompt }],
+          temperature: 0.2,
+        });
+        summary = response.output_text?.trim();
+      } else if (keys.openrouterApiKey) {
+        const openrouterClient = new OpenAI({
+          baseURL: "https://openrouter.ai/api/v1",
+          apiKey: keys.openrouterApiKey,
+        });
+        const response = await openrouterClient.chat.completions.create({
+          model: OPENROUTER_SUMMARY_MODEL,
+          messages: [{ role: "user", content: prompt }],
+          temperature: 0.2,
+        });
+        summary = response.choices[0]?.message?.content?.trim();
+      } else {
+        console.warn("No API key available for conversation summarization");
+        return null;
+      }
+
+      if (summary) {
+        await ctx.runMutation(
+          internal.chatQueriesAndMutations.storeConversationSummary,
+          {
+            conversationId: args.conversationId,
+            summary,
+            previousSummarizedThroughTime:
+              pending.previousSummarizedThroughTime,
+            summarizedThroughTime: pending.summarizedThroughTime,
+          },
+        );
+      }
+    } catch (error) {
+      // The next reply will schedule another attempt
+      console.error(
+        `Failed to summarize conversation ${args.conversationId}:`,
+        error,
+      );
+    }
+    return null;
+  },
+});
@@ -6,11 +6,43 @@ import {
   internalMutation,
   action,
 } from "./_generated/server";
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
+import type { Infer, Validator } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import type { PaginationOptions, PaginationResult } from "convex/server";
 import type { QueryCtx, MutationCtx, ActionCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { internal } from "./_generated/api"; // For calling generateAiResponse action
+import {
+  buildConversationHistory,
+  formatTranscript,
+  selectMessagesToSummarize,
+  type ChatTurn,
+} from "./context";
+import {
+  MAX_CONVERSATION_NAME_LENGTH,
+  STALE_REPLY_MS,
+  SUPPORTED_MODELS,
+  TRASH_RETENTION_MS,
+  isSupportedModel,
+  isThinkingModel,
+} from "./constants";
+import {
+  buildConversationExport,
+  getExportFile,
+  renderHtml,
+  renderJson,
+  renderMarkdown,
+} from "./conversationExport";
+import {
+  MAX_IMPORT_CHUNK_MESSAGES,
+  MAX_IMPORT_CHUNK_SIZE,
+  getImportedMessageSize,
+  normalizeImportedName,
+  truncateImportedMessage,
+} from "./conversationImport";
+import { scheduleConversationCleanup } from "./cleanupQueriesAndMutations";
 
 // Constants
 export const MAX_MESSAGE_SIZE = 50 * 1024; // 50KB
@@ -24,18 +56,44 @@ const conversationDoc = v.object({
   lastResponseId: v.optional(v.string()),
   vectorStoreId: v.optional(v.string()),
   updatedTime: v.optional(v.number()),
+  forkedFromConversationId: v.optional(v.id("conversations")),
+  forkedFromMessageId: v.optional(v.id("messages")),
+  summary: v.optional(v.string()),
+  summarizedThroughTime: v.optional(v.number()),
+  importedFrom: v.optional(
+    v.union(
+      v.literal("chatgpt"),
+      v.literal("claude"),
+      v.literal("app"),
+      v.literal("share"),
+    ),
+  ),
+  deletedAt: v.optional(v.number()),
+  pinnedAt: v.optional(v.number()),
+  archivedAt: v.optional(v.number()),
+  projectId: v.optional(v.id("projects")),
+  suggestedTagIds: v.optional(v.array(v.id("tags"))),
+  renamedByUser: v.optional(v.boolean()),
+  deletingForever: v.optional(v.boolean()),
 });
 
-const messageDoc = v.object({
+const messageFields = {
   _id: v.id("messages"),
   _creationTime: v.number(),
   conversationId: v.id("conversations"),
+  userId: v.optional(v.id("users")),
   author: v.union(v.literal("user"), v.literal("assistant")),
   content: v.string(),
   status: v.optional(
-    v.union(v.literal("typing"), v.literal("completed"), v.literal("error")),
+    v.union(
+      v.literal("typing"),
+      v.literal("completed"),
+      v.literal("error"),
+      v.literal("cancelled"),
+    ),
   ),
   errorDetails: v.optional(v.string()),
+  cancelRequested: v.optional(v.boolean()),
   fileIds: v.optional(v.array(v.string())),
   uploadedFileNames: v.optional(v.array(v.string())),
   uploadedFiles: v.optional(
@@ -73,8 +131,36 @@ const messageDoc = v.object({
   ),
   reasoningSummary: v.optional(v.string()),
   timezone: v.optional(v.string()),
+  replyToMessageId: v.optional(v.id("messages")),
+  inactiveVersion: v.optional(v.boolean()),
+  imported: v.optional(v.boolean()),
+  usage: v.optional(
+    v.object({
+      inputTokens: v.number(),
+      outputTokens: v.number(),
+      reasoningTokens: v.number(),
+      costUsd: v.optional(v.number()),
+    }),
+  ),
+};
+
+const messageDoc = v.object(messageFields);
+
+// Messages as shown in a conversation, with their sibling versions if regenerated
+const messageWithVersionsDoc = v.object({
+  ...messageFields,
+  versions: v.optional(
+    v.object({
+      index: v.number(), // Position of this message among its versions
+      messageIds: v.array(v.id("messages")), // All versions, oldest first
+    }),
+  ),
 });
 
+export type MessageWithVersions = Doc<"messages"> & {
+  versions?: { index: number; messageIds: Id<"messages">[] };
+};
+
 const userDoc = v.object({
   _id: v.id("users"),
   _creationTime: v.number(),
@@ -120,34 +206,258 @@ export async function getLoggedInUser(
   }
 }
 
+// Helper to get the owner of a conversation, stored on its messages so they
+// can be searched across conversations
+async function getConversationUserId(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+): Promise<Id<"users">> {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation) {
+    throw new Error("Conversation not found");
+  }
+  return conversation.userId;
+}
+
+// Helper to refuse generating a reply once the user's budget for the model's
+// provider is used up. Returns a warning to show when most of it is spent.
+// ConvexError keeps the message intact for the client.
+export async function enforceSpendingLimit(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  model: string,
+): Promise<string | undefined> {
+  const check = await ctx.runQuery(
+    internal.usageQueriesAndMutations.checkSpendingLimit,
+    { userId, model },
+  );
+  if (check.status === "exceeded") {
+    throw new ConvexError(check.message ?? "Spending limit reached");
+  }
+  return check.message;
+}
+
+// Result of the actions that start a reply
+const replyRequestResult = v.object({
+  spendingWarning: v.optional(v.string()),
+});
+
+// Result of a paginated query, as returned by .paginate()
+const paginationResult = <T extends Validator<any, "required", any>>(item: T) =>
+  v.object({
+    page: v.array(item),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+    splitCursor: v.optional(v.union(v.string(), v.null())),
+    pageStatus: v.optional(
+      v.union(
+        v.literal("SplitRecommended"),
+        v.literal("SplitRequired"),
+        v.null(),
+      ),
+    ),
+  });
+
+const emptyPage = { page: [], isDone: true, continueCursor: "" };
+
+// Helper to leave out inactive reply versions and add the versions of the
+// shown ones. Versions are looked up by the message they reply to, since they
+// can be on another page.
+async function withMessageVersions(
+  ctx: QueryCtx,
+  messages: Doc<"messages">[],
+): Promise<MessageWithVersions[]> {
+  return await Promise.all(
+    messages
+      .filter((message) => !message.inactiveVersion)
+      .map(async (message) => {
+        const replyToMessageId = message.replyToMessageId;
+        if (!replyToMessageId) {
+          return message;
+        }
+        const versions = await ctx.db
+          .query("messages")
+          .withIndex("by_replyToMessageId", (q) =>
+            q.eq("replyToMessageId", replyToMessageId),
+          )
+          .collect();
+        if (versions.length < 2) {
+          return message;
+        }
+        const messageIds = versions.map((version) => version._id);
+        return {
+          ...message,
+          versions: { index: messageIds.indexOf(message._id), messageIds },
+        };
+      }),
+  );
+}
+
 // Queries
+// Lists a page of the user's conversations, most recent activity first.
+// Trashed ones are left out, and so are pinned ones, see
+// listPinnedConversations, and those in a project. Pass a projectId for the
+// unpinned conversations of a project, archived: true for the archived ones,
+// most recently archived first, or a tagId for those with the tag, most
+// recently tagged first.
 export const listConversations = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    archived: v.optional(v.boolean()),
+    tagId: v.optional(v.id("tags")),
+    projectId: v.optional(v.id("projects")),
+  },
+  returns: paginationResult(conversationDoc),
+  handler: async (
+    ctx: QueryCtx,
+    args: {
+      paginationOpts: PaginationOptions;
+      archived?: boolean;
+      tagId?: Id<"tags">;
+      projectId?: Id<"projects">;
+    },
+  ): Promise<PaginationResult<Doc<"conversations">>> => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const archived = args.archived ?? false;
+
+    if (args.tagId) {
+      const tagId = args.tagId;
+      const tag = await ctx.db.get(tagId);
+      if (!tag || tag.userId !== user._id) {
+        return emptyPage;
+      }
+      const result = await ctx.db
+        .query("conversationTags")
+        .withIndex("by_tagId_and_deletedAt_and_archivedAt", (q) => {
+          const listed = q.eq("tagId", tagId).eq("deletedAt", undefined);
+          return archived
+            ? listed.gt("archivedAt", 0)
+            : listed.eq("archivedAt", undefined);
+        })
+        .order("desc")
+        .paginate(args.paginationOpts);
+      const conversations = await Promise.all(
+        result.page.map(({ conversationId }) => ctx.db.get(conversationId)),
+      );
+      return {
+        ...result,
+        page: conversations.filter(
+          (conversation): conversation is Doc<"conversations"> =>
+            conversation !== null,
+        ),
+      };
+    }
+
+    if (args.projectId) {
+      const projectId = args.projectId;
+      const project = await ctx.db.get(projectId);
+      if (!project || project.userId !== user._id) {
+        return emptyPage;
+      }
+      return await ctx.db
+        .query("conversations")
+        .withIndex(
+          "by_projectId_and_deletedAt_and_archivedAt_and_pinnedAt_and_updatedTime",
+          (q) => {
+            const listed = q
+              .eq("projectId", projectId)
+              .eq("deletedAt", undefined);
+            return archived
+              ? listed.gt("archivedAt", 0)
+              : listed.eq("archivedAt", undefined).eq("pinnedAt", undefined);
+          },
+        )
+        .order("desc")
+        .paginate(args.paginationOpts);
+    }
+
+    // Archived conversations are never pinned, and are listed together
+    // whether they are in a project or not
+    if (archived) {
+      return await ctx.db
+        .query("conversations")
+        .withIndex("by_userId_and_deletedAt_and_archivedAt", (q) =>
+          q
+            .eq("userId", user._id)
+            .eq("deletedAt", undefined)
+            .gt("archivedAt", 0),
+        )
+        .order("desc")
+        .paginate(args.paginationOpts);
+    }
+    return await ctx.db
+      .query("conversations")
+      .withIndex(
+        "by_userId_and_deletedAt_and_archivedAt_and_pinnedAt_and_projectId_and_updatedTime",
+        (q) =>
+          q
+            .eq("userId", user._id)
+            .eq("deletedAt", undefined)
+            .eq("archivedAt", undefined)
+            .eq("pinnedAt", undefined)
+            .eq("projectId", undefined),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+// Lists the user's pinned conversations, most recently pinned first
+export const listPinnedConversations = query({
   args: {},
   returns: v.array(conversationDoc),
   handler: async (ctx: QueryCtx): Promise<Doc<"conversations">[]> => {
-    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const user = await getLoggedInUser(ctx);
     const conversations = await ctx.db
       .query("conversations")
-      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .withIndex("by_userId_and_pinnedAt", (q) =>
+        q.eq("userId", user._id).gt("pinnedAt", 0),
+      )
+      .order("desc")
       .collect();
-
-    // Sort by updatedTime if available, otherwise fall back to _creationTime
-    // Both in descending order (most recent first)
-    return conversations.sort((a, b) => {
-      const timeA = a.updatedTime ?? a._creationTime;
-      const timeB = b.updatedTime ?? b._creationTime;
-      return timeB - timeA;
-    });
+    return conversations.filter(
+      (conversation) => conversation.deletedAt === undefined,
+    );
   },
 });
 
-export const listMessages = query({
+// Gets a conversation of the user that isn't in the trash, e.g. the one open
+// in the chat view, which might not be on a loaded page of listConversations
+export const getConversationById = query({
   args: { conversationId: v.id("conversations") },
-  returns: v.array(messageDoc),
+  returns: v.union(conversationDoc, v.null()),
   handler: async (
     ctx: QueryCtx,
     args: { conversationId: Id<"conversations"> },
-  ): Promise<Doc<"messages">[]> => {
+  ): Promise<Doc<"conversations"> | null> => {
+    const user = await getLoggedInUser(ctx);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (
+      !conversation ||
+      conversation.userId !== user._id ||
+      conversation.deletedAt !== undefined
+    ) {
+      return null;
+    }
+    return conversation;
+  },
+});
+
+// Lists a page of a conversation's messages, newest first, so the chat view
+// can load older ones as the user scrolls up
+export const listMessages = query({
+  args: {
+    conversationId: v.id("conversations"),
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResult(messageWithVersionsDoc),
+  handler: async (
+    ctx: QueryCtx,
+    args: {
+      conversationId: Id<"conversations">;
+      paginationOpts: PaginationOptions;
+    },
+  ): Promise<PaginationResult<MessageWithVersions>> => {
     const user = await getLoggedInUser(ctx);
     const conversation = await ctx.db.get(args.conversationId);
     if (!conversation || conversation.userId !== user._id) {
@@ -158,26 +468,61 @@ export const listMessages = query({
       );
       throw new Error("Not found");
     }
-    return await ctx.db
+    const result = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q.eq("conversationId", args.conversationId),
+      )
+      .order("desc")
+      .paginate(args.paginationOpts);
+    return { ...result, page: await withMessageVersions(ctx, result.page) };
+  },
+});
+
+// Internal query for exportConversation: all shown messages of a
+// conversation, oldest first
+export const getConversationMessages = internalQuery({
+  args: { conversationId: v.id("conversations") },
+  returns: v.array(messageWithVersionsDoc),
+  handler: async (
+    ctx: QueryCtx,
+    args: { conversationId: Id<"conversations"> },
+  ): Promise<MessageWithVersions[]> => {
+    const messages = await ctx.db
       .query("messages")
       .withIndex("by_conversationId", (q) =>
         q.eq("conversationId", args.conversationId),
       )
       .order("asc")
       .collect();
+    return await withMessageVersions(ctx, messages);
   },
 });
 
+// Internal query to build the history sent with a request, newest messages
+// first until the token budget is used up
 export const getRecentMessages = internalQuery({
   args: {
     conversationId: v.id("conversations"),
     userId: v.id("users"),
+    beforeMessageId: v.id("messages"), // The current user message, sent separately
+    maxTokens: v.number(),
   },
-  returns: v.array(messageDoc),
+  returns: v.array(
+    v.object({
+      role: v.union(v.literal("user"), v.literal("assistant")),
+      content: v.string(),
+    }),
+  ),
   handler: async (
     ctx: QueryCtx,
-    args: { conversationId: Id<"conversations">; userId: Id<"users"> },
-  ): Promise<Doc<"messages">[]> => {
+    args: {
+      conversationId: Id<"conversations">;
+      userId: Id<"users">;
+      beforeMessageId: Id<"messages">;
+      maxTokens: number;
+    },
+  ): Promise<ChatTurn[]> => {
     const conversation = await ctx.db.get(args.conversationId);
     if (!conversation || conversation.userId !== args.userId) {
       console.error(
@@ -187,161 +532,1155 @@ export const getRecentMessages = internalQuery({
       );
       throw new Error("Not found");
     }
-    return await ctx.db
+    const currentMessage = await ctx.db.get(args.beforeMessageId);
+    if (!currentMessage) {
+      throw new Error("Message not found");
+    }
+    const earlierMessages = ctx.db
       .query("messages")
       .withIndex("by_conversationId", (q) =>
-        q.eq("conversationId", args.conversationId),
+        q
+          .eq("conversationId", args.conversationId)
+          // Messages covered by the summary are sent as part of the system prompt
+          .gt("_creationTime", conversation.summarizedThroughTime ?? 0)
+          .lt("_creationTime", currentMessage._creationTime),
       )
-      .order("desc")
-      .take(20);
+      .filter((q) => q.neq(q.field("inactiveVersion"), true))
+      .order("desc");
+    return await buildConversationHistory(earlierMessages, args.maxTokens);
   },
 });
 
 // Mutations
 export const createConversation = mutation({
-  args: {},
+  args: { projectId: v.optional(v.id("projects")) },
   returns: v.id("conversations"),
-  handler: async (ctx: MutationCtx): Promise<Id<"conversations">> => {
+  handler: async (
+    ctx: MutationCtx,
+    args: { projectId?: Id<"projects"> },
+  ): Promise<Id<"conversations">> => {
     const user: Doc<"users"> = await getLoggedInUser(ctx);
 
+    if (args.projectId) {
+      const project = await ctx.db.get(args.projectId);
+      if (!project || project.userId !== user._id) {
+        throw new Error("Project not found or access denied");
+      }
+    }
+
     // Create a new conversation with the user ID and a default name
     const conversationId = await ctx.db.insert("conversations", {
       userId: user._id,
       name: "New Chat", // Set initial name to "New Chat"
+      projectId: args.projectId,
     });
 
     return conversationId;
   },
 });
 
-export const sendMessage = action({
+// Helper for the actions that add to a conversation. Chats in the trash,
+// including those being deleted forever, take no new messages or replies.
+export function assertConversationNotTrashed(
+  conversation: Doc<"conversations">,
+): void {
+  if (conversation.deletedAt !== undefined) {
+    throw new ConvexError("Restore this chat to continue it");
+  }
+}
+
+// Helper for the actions that request a reply with a chosen model
+export function assertSupportedModelChoice(
+  model: string | undefined,
+  thinkingIntensity: "low" | "medium" | "high" | undefined,
+): void {
+  if (!model) {
+    return;
+  }
+  if (!isSupportedModel(model)) {
+    throw new Error(`Unsupported model: ${model}`);
+  }
+  // Thinking intensity can only be set for thinking models
+  if (thinkingIntensity && !isThinkingModel(model)) {
+    throw new Error("Thinking intensity can only be set for thinking models");
+  }
+}
+
+export const sendMessage = action({
+  args: {
+    conversationId: v.id("conversations"),
+    content: v.string(),
+    webSearchEnabled: v.optional(v.boolean()),
+    model: v.optional(v.string()),
+    thinkingIntensity: v.optional(
+      v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+    ),
+    timezone: v.optional(v.string()),
+  },
+  returns: replyRequestResult,
+  handler: async (
+    ctx: ActionCtx,
+    args: {
+      conversationId: Id<"conversations">;
+      content: string;
+      webSearchEnabled?: boolean;
+      model?: string;
+      thinkingIntensity?: "low" | "medium" | "high";
+      timezone?: string;
+    },
+  ): Promise<{ spendingWarning?: string }> => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const conversation: Doc<"conversations"> | null = await ctx.runQuery(
+      internal.chatQueriesAndMutations.getConversation,
+      {
+        conversationId: args.conversationId,
+        userId: user._id,
+      },
+    );
+
+    if (!conversation || conversation.userId !== user._id) {
+      throw new Error("Conversation not found or access denied");
+    }
+    assertConversationNotTrashed(conversation);
+
+    assertSupportedModelChoice(args.model, args.thinkingIntensity);
+
+    // Refuse before storing the message if the budget is used up
+    const spendingWarning = await enforceSpendingLimit(
+      ctx,
+      user._id,
+      args.model ?? SUPPORTED_MODELS[0].id,
+    );
+
+    // Check if this is the first message in the conversation using getFirstMessage
+    const firstMessage = await ctx.runQuery(
+      internal.chatQueriesAndMutations.getFirstMessage,
+      {
+        conversationId: args.conversationId,
+      },
+    );
+
+    const isFirstMessage = firstMessage === null;
+
+    // Insert the user's message into the Convex database using runMutation
+    await ctx.runMutation(internal.chatQueriesAndMutations.storeUserMessage, {
+      conversationId: args.conversationId,
+      content: args.content,
+      webSearchEnabled: args.webSearchEnabled,
+      model: args.model,
+      thinkingIntensity: args.thinkingIntensity,
+      timezone: args.timezone,
+    });
+
+    // Schedule the AI response action
+    await ctx.scheduler.runAfter(0, internal.chat.generateAiResponse, {
+      conversationId: args.conversationId,
+    });
+
+    // If this is the first message, schedule the title generation action
+    if (isFirstMessage) {
+      // Schedule the title generation shortly after to allow the message and AI response to be processed
+      // A delay might be needed depending on the AI response time
+      await ctx.scheduler.runAfter(
+        5000,
+        internal.chat.generateConversationTitleAction,
+        {
+          // 5 second delay, adjust as needed
+          conversationId: args.conversationId,
+          userId: user._id,
+        },
+      );
+    }
+
+    return { spendingWarning };
+  },
+});
+
+// Action to edit a past user message and regenerate the conversation from that point
+export const editMessage = action({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+  },
+  returns: replyRequestResult,
+  handler: async (
+    ctx: ActionCtx,
+    args: {
+      messageId: Id<"messages">;
+      content: string;
+    },
+  ): Promise<{ spendingWarning?: string }> => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+
+    if (!args.content.trim()) {
+      throw new Error("Message content cannot be empty");
+    }
+
+    // The reply is regenerated with the model the message was sent with
+    const message: Doc<"messages"> | null = await ctx.runQuery(
+      internal.chatQueriesAndMutations.getMessageById,
+      { messageId: args.messageId },
+    );
+    const spendingWarning = await enforceSpendingLimit(
+      ctx,
+      user._id,
+      message?.model ?? SUPPORTED_MODELS[0].id,
+    );
+
+    // Rewrite the message and drop everything that came after it
+    const conversationId: Id<"conversations"> = await ctx.runMutation(
+      internal.chatQueriesAndMutations.rewriteUserMessage,
+      {
+        messageId: args.messageId,
+        userId: user._id,
+        content: args.content,
+      },
+    );
+
+    // Schedule a fresh AI response for the edited message
+    await ctx.scheduler.runAfter(0, internal.chat.generateAiResponse, {
+      conversationId,
+    });
+
+    return { spendingWarning };
+  },
+});
+
+// Helper to find the latest OpenAI response ID created before a point in time,
+// used to rewind the Responses API chain when the conversation is rewritten
+async function getResponseIdBefore(
+  ctx: QueryCtx | MutationCtx,
+  conversationId: Id<"conversations">,
+  beforeCreationTime: number,
+): Promise<string | undefined> {
+  const earlierMessages = ctx.db
+    .query("messages")
+    .withIndex("by_conversationId", (q) =>
+      q
+        .eq("conversationId", conversationId)
+        .lt("_creationTime", beforeCreationTime),
+    )
+    .order("desc");
+
+  for await (const message of earlierMessages) {
+    if (
+      message.author === "assistant" &&
+      !message.inactiveVersion &&
+      !message.imported &&
+      message.openaiResponseId
+    ) {
+      return message.openaiResponseId;
+    }
+  }
+  return undefined;
+}
+
+// Helper to delete the embeddings of messages that were deleted, edited or
+// hidden, so semantic search doesn't match text that is no longer shown
+async function deleteMessageEmbeddings(
+  ctx: MutationCtx,
+  messageIds: Id<"messages">[],
+): Promise<void> {
+  for (const messageId of messageIds) {
+    const embedding = await ctx.db
+      .query("messageEmbeddings")
+      .withIndex("by_messageId", (q) => q.eq("messageId", messageId))
+      .first();
+    if (embedding) {
+      await ctx.db.delete(embedding._id);
+    }
+  }
+}
+
+// New internal mutation to rewrite a user message and drop every later message
+export const rewriteUserMessage = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+    userId: v.id("users"),
+    content: v.string(),
+  },
+  returns: v.id("conversations"),
+  handler: async (
+    ctx: MutationCtx,
+    args: { messageId: Id<"messages">; userId: Id<"users">; content: string },
+  ): Promise<Id<"conversations">> => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+    const conversation = await ctx.db.get(message.conversationId);
+    if (!conversation || conversation.userId !== args.userId) {
+      throw new Error("Conversation not found or access denied");
+    }
+    assertConversationNotTrashed(conversation);
+    if (message.author !== "user") {
+      throw new Error("Only user messages can be edited");
+    }
+
+    const laterMessages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q
+          .eq("conversationId", message.conversationId)
+          .gt("_creationTime", message._creationTime),
+      )
+      .collect();
+
+    if (laterMessages.some((later) => later.status === "typing")) {
+      throw new Error(
+        "Cannot edit a message while a response is being generated",
+      );
+    }
+
+    for (const later of laterMessages) {
+      await ctx.db.delete(later._id);
+    }
+
+    await ctx.db.patch(args.messageId, { content: args.content });
+    // The edited message is embedded again with its new text once the new
+    // reply completes
+    await deleteMessageEmbeddings(ctx, [
+      args.messageId,
+      ...laterMessages.map((later) => later._id),
+    ]);
+
+    // A summary that covers the edited message is stale, so drop it and let
+    // it be rebuilt from the rewritten history
+    const summaryIsStale =
+      conversation.summarizedThroughTime !== undefined &&
+      message._creationTime <= conversation.summarizedThroughTime;
+
+    // Continue the OpenAI response chain from the reply that preceded the edit
+    await ctx.db.patch(message.conversationId, {
+      lastResponseId: await getResponseIdBefore(
+        ctx,
+        message.conversationId,
+        message._creationTime,
+      ),
+      updatedTime: Date.now(),
+      ...(summaryIsStale
+        ? { summary: undefined, summarizedThroughTime: undefined }
+        : {}),
+    });
+
+    return message.conversationId;
+  },
+});
+
+// Messages and embeddings deleted per transaction when deleting
+// conversations. Long chats are deleted over several transactions.
+export const CONVERSATION_ROWS_PER_RUN = 1000;
+
+// Helper to delete a conversation with its messages, embeddings, share links
+// and tags. Files and the vector store are deleted in the background. At most
+// `maxRows` messages and embeddings are deleted, and the conversation itself
+// only once none are left, so a long chat takes several calls in separate
+// transactions.
+// Helper to flag a conversation that is partly deleted, so it can no longer
+// be restored from the trash
+async function markDeletingForever(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+): Promise<void> {
+  if (!conversation.deletingForever) {
+    await ctx.db.patch(conversation._id, { deletingForever: true });
+  }
+}
+
+export async function deleteConversationData(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  maxRows: number = CONVERSATION_ROWS_PER_RUN,
+): Promise<{ rowsDeleted: number; isDeleted: boolean }> {
+  const embeddings = await ctx.db
+    .query("messageEmbeddings")
+    .withIndex("by_conversationId", (q) =>
+      q.eq("conversationId", conversation._id),
+    )
+    .take(maxRows);
+  for (const embedding of embeddings) {
+    await ctx.db.delete(embedding._id);
+  }
+  const maxMessages = maxRows - embeddings.length;
+  if (maxMessages === 0) {
+    await markDeletingForever(ctx, conversation);
+    return { rowsDeleted: embeddings.length, isDeleted: false };
+  }
+
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_conversationId", (q) =>
+      q.eq("conversationId", conversation._id),
+    )
+    .take(maxMessages);
+  const isLastBatch = messages.length < maxMessages;
+  await scheduleConversationCleanup(ctx, conversation, messages, isLastBatch);
+  for (const msg of messages) {
+    await ctx.db.delete(msg._id);
+  }
+  const rowsDeleted = embeddings.length + messages.length;
+  if (!isLastBatch) {
+    await markDeletingForever(ctx, conversation);
+    return { rowsDeleted, isDeleted: false };
+  }
+
+  // Share links stop working, snapshots included
+  const shares = await ctx.db
+    .query("sharedConversations")
+    .withIndex("by_conversationId", (q) =>
+      q.eq("conversationId", conversation._id),
+    )
+    .collect();
+  for (const share of shares) {
+    await ctx.db.delete(share._id);
+  }
+  const conversationTags = await ctx.db
+    .query("conversationTags")
+    .withIndex("by_conversationId", (q) =>
+      q.eq("conversationId", conversation._id),
+    )
+    .collect();
+  for (const conversationTag of conversationTags) {
+    await ctx.db.delete(conversationTag._id);
+  }
+  await ctx.db.delete(conversation._id);
+  return { rowsDeleted, isDeleted: true };
+}
+
+// Helper to delete conversations in one transaction, within the
+// CONVERSATION_ROWS_PER_RUN budget. Returns how many were deleted completely;
+// the caller schedules another run for the rest.
+export async function deleteConversationsData(
+  ctx: MutationCtx,
+  conversations: Doc<"conversations">[],
+): Promise<number> {
+  let rowsLeft = CONVERSATION_ROWS_PER_RUN;
+  let deleted = 0;
+  for (const conversation of conversations) {
+    const { rowsDeleted, isDeleted } = await deleteConversationData(
+      ctx,
+      conversation,
+      rowsLeft,
+    );
+    rowsLeft -= rowsDeleted;
+    if (!isDeleted) {
+      break;
+    }
+    deleted += 1;
+    if (rowsLeft === 0) {
+      break;
+    }
+  }
+  return deleted;
+}
+
+// Helper to get a conversation of the logged-in user
+async function getOwnConversation(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+): Promise<Doc<"conversations">> {
+  const user: Doc<"users"> = await getLoggedInUser(ctx);
+  const conversation: Doc<"conversations"> | null =
+    await ctx.db.get(conversationId);
+  if (!conversation || conversation.userId !== user._id) {
+    throw new Error("Conversation not found or access denied");
+  }
+  return conversation;
+}
+
+// Helper to copy a conversation's trash and archive state to its tag links
+// after it changed, see the conversationTags table
+async function syncConversationTags(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+): Promise<void> {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation) {
+    return;
+  }
+  const conversationTags = await ctx.db
+    .query("conversationTags")
+    .withIndex("by_conversationId", (q) =>
+      q.eq("conversationId", conversationId),
+    )
+    .collect();
+  for (const conversationTag of conversationTags) {
+    await ctx.db.patch(conversationTag._id, {
+      deletedAt: conversation.deletedAt,
+      archivedAt: conversation.archivedAt,
+    });
+  }
+}
+
+// Mutation to move a conversation to the trash. It can be restored for
+// TRASH_RETENTION_DAYS, then purgeExpiredConversations deletes it.
+export const deleteConversation = mutation({
+  args: { conversationId: v.id("conversations") },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations"> },
+  ): Promise<null> => {
+    const conversation = await getOwnConversation(ctx, args.conversationId);
+    if (conversation.deletedAt === undefined) {
+      await ctx.db.patch(args.conversationId, { deletedAt: Date.now() });
+      await syncConversationTags(ctx, args.conversationId);
+    }
+    return null;
+  },
+});
+
+// Mutation to rename a conversation
+export const renameConversation = mutation({
+  args: { conversationId: v.id("conversations"), name: v.string() },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations">; name: string },
+  ): Promise<null> => {
+    await getOwnConversation(ctx, args.conversationId);
+    const name = args.name.trim();
+    if (!name) {
+      throw new ConvexError("Chat name can't be empty");
+    }
+    if (name.length > MAX_CONVERSATION_NAME_LENGTH) {
+      throw new ConvexError(
+        `Chat name can be at most ${MAX_CONVERSATION_NAME_LENGTH} characters`,
+      );
+    }
+    await ctx.db.patch(args.conversationId, { name, renamedByUser: true });
+    return null;
+  },
+});
+
+// Mutation to pin a conversation to the top of the sidebar, or unpin it.
+// Pinning an archived conversation brings it back to the list.
+export const setConversationPinned = mutation({
+  args: { conversationId: v.id("conversations"), pinned: v.boolean() },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations">; pinned: boolean },
+  ): Promise<null> => {
+    await getOwnConversation(ctx, args.conversationId);
+    await ctx.db.patch(
+      args.conversationId,
+      args.pinned
+        ? { pinnedAt: Date.now(), archivedAt: undefined }
+        : { pinnedAt: undefined },
+    );
+    await syncConversationTags(ctx, args.conversationId);
+    return null;
+  },
+});
+
+// Mutation to archive a conversation, which hides it from the sidebar's list
+// and unpins it, or to unarchive it
+export const setConversationArchived = mutation({
+  args: { conversationId: v.id("conversations"), archived: v.boolean() },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations">; archived: boolean },
+  ): Promise<null> => {
+    await getOwnConversation(ctx, args.conversationId);
+    await ctx.db.patch(
+      args.conversationId,
+      args.archived
+        ? { archivedAt: Date.now(), pinnedAt: undefined }
+        : { archivedAt: undefined },
+    );
+    await syncConversationTags(ctx, args.conversationId);
+    return null;
+  },
+});
+
+// List the user's conversations in the trash, most recently deleted first
+export const listTrashedConversations = query({
+  args: {},
+  returns: v.array(conversationDoc),
+  handler: async (ctx: QueryCtx): Promise<Doc<"conversations">[]> => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+    return conversations
+      .filter(
+        (conversation) =>
+          conversation.deletedAt !== undefined && !conversation.deletingForever,
+      )
+      .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+  },
+});
+
+// Mutation to restore a conversation from the trash
+export const restoreConversation = mutation({
+  args: { conversationId: v.id("conversations") },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations"> },
+  ): Promise<null> => {
+    const conversation = await getOwnConversation(ctx, args.conversationId);
+    if (conversation.deletingForever) {
+      throw new ConvexError(
+        "This chat is being deleted forever and can't be restored",
+      );
+    }
+    await ctx.db.patch(args.conversationId, { deletedAt: undefined });
+    await syncConversationTags(ctx, args.conversationId);
+    return null;
+  },
+});
+
+// Mutation to delete a conversation in the trash right away
+export const deleteConversationForever = mutation({
+  args: { conversationId: v.id("conversations") },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations"> },
+  ): Promise<null> => {
+    const conversation = await getOwnConversation(ctx, args.conversationId);
+    if (conversation.deletedAt === undefined) {
+      throw new Error("Only conversations in the trash can be deleted forever");
+    }
+    const { isDeleted } = await deleteConversationData(ctx, conversation);
+    if (!isDeleted) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.chatQueriesAndMutations.finishDeletingConversation,
+        { conversationId: args.conversationId },
+      );
+    }
+    return null;
+  },
+});
+
+// Internal mutation continuing deleteConversationForever for a long chat. It
+// schedules itself until the conversation is gone.
+export const finishDeletingConversation = internalMutation({
+  args: { conversationId: v.id("conversations") },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations"> },
+  ): Promise<null> => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) {
+      return null;
+    }
+    const { isDeleted } = await deleteConversationData(ctx, conversation);
+    if (!isDeleted) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.chatQueriesAndMutations.finishDeletingConversation,
+        args,
+      );
+    }
+    return null;
+  },
+});
+
+// Conversations purged per run. Each run is one transaction, so a long
+// backlog, or a long chat, is purged over several runs.
+export const PURGE_BATCH_SIZE = 10;
+
+// Internal mutation run daily by convex/crons.ts. Deletes conversations that
+// have been in the trash longer than TRASH_RETENTION_DAYS, with their files
+// and vector stores.
+export const purgeExpiredConversations = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx: MutationCtx): Promise<null> => {
+    const expired = await ctx.db
+      .query("conversations")
+      .withIndex("by_deletedAt", (q) =>
+        q.gt("deletedAt", 0).lte("deletedAt", Date.now() - TRASH_RETENTION_MS),
+      )
+      .take(PURGE_BATCH_SIZE);
+    const purged = await deleteConversationsData(ctx, expired);
+    if (expired.length === PURGE_BATCH_SIZE || purged < expired.length) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.chatQueriesAndMutations.purgeExpiredConversations,
+        {},
+      );
+    }
+    return null;
+  },
+});
+
+// Mutation to fork a conversation from an assistant message into a new conversation
+export const forkConversation = mutation({
+  args: { messageId: v.id("messages") },
+  returns: v.id("conversations"),
+  handler: async (
+    ctx: MutationCtx,
+    args: { messageId: Id<"messages"> },
+  ): Promise<Id<"conversations">> => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const forkMessage = await ctx.db.get(args.messageId);
+    if (!forkMessage) {
+      throw new Error("Message not found");
+    }
+    const conversation = await ctx.db.get(forkMessage.conversationId);
+    if (!conversation || conversation.userId !== user._id) {
+      throw new Error("Conversation not found or access denied");
+    }
+    if (forkMessage.author !== "assistant" || forkMessage.status === "typing") {
+      throw new Error("Conversations can only be forked from a finished reply");
+    }
+
+    const history = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q
+          .eq("conversationId", forkMessage.conversationId)
+          .lte("_creationTime", forkMessage._creationTime),
+      )
+      .order("asc")
+      .collect();
+    // Skip replies that are still streaming and versions that are not selected
+    const messagesToCopy = history.filter(
+      (message) => message.status !== "typing" && !message.inactiveVersion,
+    );
+
+    // Continue the OpenAI response chain from the last reply in the fork
+    let lastResponseId: string | undefined;
+    for (const message of messagesToCopy) {
+      if (!message.imported) {
+        lastResponseId = message.openaiResponseId ?? lastResponseId;
+      }
+    }
+
+    // The fork shares the parent's vector store so file search keeps working
+    const newConversationId = await ctx.db.insert("conversations", {
+      userId: user._id,
+      name: conversation.name,
+      lastResponseId,
+      vectorStoreId: conversation.vectorStoreId,
+      updatedTime: Date.now(),
+      forkedFromConversationId: conversation._id,
+      forkedFromMessageId: forkMessage._id,
+      importedFrom: conversation.importedFrom,
+      projectId: conversation.projectId,
+    });
+
+    const copiedMessageIds = new Map<Id<"messages">, Id<"messages">>();
+    for (const {
+      _id,
+      _creationTime,
+      conversationId: _conversationId,
+      replyToMessageId,
+      ...messageFields
+    } of messagesToCopy) {
+      const copiedId = await ctx.db.insert("messages", {
+        ...messageFields,
+        conversationId: newConversationId,
+        userId: user._id,
+        replyToMessageId:
+          replyToMessageId && copiedMessageIds.get(replyToMessageId),
+      });
+      copiedMessageIds.set(_id, copiedId);
+    }
+
+    // Copy file mappings so citations in the fork resolve to the copied messages
+    const fileMappings = await ctx.db
+      .query("fileMessageMappings")
+      .withIndex("by_conversationId", (q) =>
+        q.eq("firstUsedInConversationId", conversation._id),
+      )
+      .collect();
+    for (const { _id, _creationTime, ...mappingFields } of fileMappings) {
+      const copiedMessageId =
+        mappingFields.firstUsedInMessageId &&
+        copiedMessageIds.get(mappingFields.firstUsedInMessageId);
+      if (!copiedMessageId) {
+        continue;
+      }
+      await ctx.db.insert("fileMessageMappings", {
+        ...mappingFields,
+        firstUsedInConversationId: newConversationId,
+        firstUsedInMessageId: copiedMessageId,
+      });
+    }
+
+    return newConversationId;
+  },
+});
+
+// Action to export the visible messages of a conversation as a file, with
+// timestamps shown in the reader's time zone. PDFs are printed from the HTML.
+export const exportConversation = action({
+  args: {
+    conversationId: v.id("conversations"),
+    format: v.union(
+      v.literal("markdown"),
+      v.literal("json"),
+      v.literal("html"),
+    ),
+    timeZone: v.optional(v.string()),
+  },
+  returns: v.object({
+    fileName: v.string(),
+    mimeType: v.string(),
+    content: v.string(),
+  }),
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{ fileName: string; mimeType: string; content: string }> => {
+    const user = await getLoggedInUser(ctx);
+    const conversation = await ctx.runQuery(
+      internal.chatQueriesAndMutations.getConversation,
+      { conversationId: args.conversationId, userId: user._id },
+    );
+    if (!conversation) {
+      throw new Error("Not found");
+    }
+    const messages = await ctx.runQuery(
+      internal.chatQueriesAndMutations.getConversationMessages,
+      { conversationId: args.conversationId },
+    );
+
+    const exportData = buildConversationExport(
+      conversation,
+      messages,
+      Date.now(),
+    );
+    const content =
+      args.format === "json"
+        ? renderJson(exportData)
+        : args.format === "markdown"
+          ? renderMarkdown(exportData, args.timeZone)
+          : renderHtml(exportData, args.timeZone);
+    return { ...getExportFile(exportData, args.format), content };
+  },
+});
+
+const importedMessageValidator = v.object({
+  author: v.union(v.literal("user"), v.literal("assistant")),
+  content: v.string(),
+  model: v.optional(v.string()),
+  thinkingIntensity: v.optional(
+    v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+  ),
+  reasoningSummary: v.optional(v.string()),
+  citations: v.optional(
+    v.array(
+      v.object({
+        type: v.literal("url"),
+        url: v.string(),
+        title: v.string(),
+      }),
+    ),
+  ),
+});
+
+// Helper to store a chunk of imported messages, see chunkImportedMessages
+async function insertImportedMessages(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+  userId: Id<"users">,
+  messages: Infer<typeof importedMessageValidator>[],
+): Promise<void> {
+  const truncated = messages.map(truncateImportedMessage);
+  if (
+    truncated.length > MAX_IMPORT_CHUNK_MESSAGES ||
+    truncated.reduce(
+      (size, message) => size + getImportedMessageSize(message),
+      0,
+    ) > MAX_IMPORT_CHUNK_SIZE
+  ) {
+    throw new ConvexError("Too many messages to import at once");
+  }
+  for (const message of truncated) {
+    await ctx.db.insert("messages", {
+      conversationId,
+      userId,
+      author: message.author,
+      content: message.content,
+      status: message.author === "assistant" ? "completed" : undefined,
+      model: message.model,
+      thinkingIntensity: message.thinkingIntensity,
+      reasoningSummary: message.reasoningSummary,
+      citations: message.citations,
+      imported: true,
+    });
+  }
+}
+
+// Mutation to store one conversation parsed from an export file by
+// parseImportFile, with the first chunk of its messages from
+// chunkImportedMessages; importMessages adds the rest. Files are parsed in the
+// browser since they can be too large to send at once. Imported messages never
+// carry OpenAI response IDs, so the first reply sends their history instead of
+// continuing a response chain.
+export const importConversation = mutation({
+  args: {
+    source: v.union(
+      v.literal("chatgpt"),
+      v.literal("claude"),
+      v.literal("app"),
+    ),
+    name: v.string(),
+    updatedAt: v.number(),
+    messages: v.array(importedMessageValidator), // The first chunk
+  },
+  returns: v.id("conversations"),
+  handler: async (ctx, args): Promise<Id<"conversations">> => {
+    const user = await getLoggedInUser(ctx);
+    if (args.messages.length === 0) {
+      throw new ConvexError("This chat has no messages to import");
+    }
+
+    // Keep the original last activity so imported chats sort among older ones
+    const conversationId = await ctx.db.insert("conversations", {
+      userId: user._id,
+      name: normalizeImportedName(args.name),
+      updatedTime: Math.min(Math.max(args.updatedAt, 0), Date.now()),
+      importedFrom: args.source,
+    });
+    await insertImportedMessages(ctx, conversationId, user._id, args.messages);
+
+    return conversationId;
+  },
+});
+
+// Mutation to add the next chunk of messages to a chat being imported
+export const importMessages = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    messages: v.array(importedMessageValidator),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const conversation = await getOwnConversation(ctx, args.conversationId);
+    if (!conversation.importedFrom) {
+      throw new Error("Only imported conversations can get imported messages");
+    }
+    await insertImportedMessages(
+      ctx,
+      conversation._id,
+      conversation.userId,
+      args.messages,
+    );
+    return null;
+  },
+});
+
+// Action to regenerate the latest assistant reply, optionally with another model.
+// Earlier attempts are kept as sibling versions of the same user turn.
+export const regenerateResponse = action({
   args: {
-    conversationId: v.id("conversations"),
-    content: v.string(),
-    webSearchEnabled: v.optional(v.boolean()),
+    messageId: v.id("messages"),
     model: v.optional(v.string()),
     thinkingIntensity: v.optional(
       v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
     ),
-    timezone: v.optional(v.string()),
-    openaiApiKey: v.optional(v.string()),
-    openrouterApiKey: v.optional(v.string()),
   },
-  returns: v.null(),
+  returns: replyRequestResult,
   handler: async (
     ctx: ActionCtx,
     args: {
-      conversationId: Id<"conversations">;
-      content: string;
-      webSearchEnabled?: boolean;
+      messageId: Id<"messages">;
       model?: string;
       thinkingIntensity?: "low" | "medium" | "high";
-      timezone?: string;
-      openaiApiKey?: string;
-      openrouterApiKey?: string;
     },
-  ): Promise<null> => {
+  ): Promise<{ spendingWarning?: string }> => {
     const user: Doc<"users"> = await getLoggedInUser(ctx);
-    const conversation: Doc<"conversations"> | null = await ctx.runQuery(
-      internal.chatQueriesAndMutations.getConversation,
+    assertSupportedModelChoice(args.model, args.thinkingIntensity);
+
+    const reply: Doc<"messages"> | null = await ctx.runQuery(
+      internal.chatQueriesAndMutations.getMessageById,
+      { messageId: args.messageId },
+    );
+    const spendingWarning = await enforceSpendingLimit(
+      ctx,
+      user._id,
+      args.model ?? reply?.model ?? SUPPORTED_MODELS[0].id,
+    );
+
+    // Hide the current reply and rewind the response chain to the user turn
+    const conversationId: Id<"conversations"> = await ctx.runMutation(
+      internal.chatQueriesAndMutations.prepareRegeneration,
       {
-        conversationId: args.conversationId,
+        messageId: args.messageId,
         userId: user._id,
       },
     );
 
-    if (!conversation || conversation.userId !== user._id) {
-      throw new Error("Conversation not found or access denied");
-    }
+    await ctx.scheduler.runAfter(0, internal.chat.generateAiResponse, {
+      conversationId,
+      model: args.model,
+      thinkingIntensity: args.thinkingIntensity,
+    });
 
-    // Validate model if provided
-    if (args.model) {
-      const { isSupportedModel, isThinkingModel } = await import("./constants");
-      if (!isSupportedModel(args.model)) {
-        throw new Error(`Unsupported model: ${args.model}`);
-      }
+    return { spendingWarning };
+  },
+});
 
-      // Validate thinking intensity is only provided for thinking models
-      if (args.thinkingIntensity && !isThinkingModel(args.model)) {
-        throw new Error(
-          "Thinking intensity can only be set for thinking models",
-        );
-      }
+// Helper to find the user message an assistant reply answers, for replies
+// stored before replyToMessageId was recorded
+async function getUserTurnForReply(
+  ctx: QueryCtx | MutationCtx,
+  reply: Doc<"messages">,
+): Promise<Doc<"messages"> | null> {
+  if (reply.replyToMessageId) {
+    return await ctx.db.get(reply.replyToMessageId);
+  }
+  const earlierMessages = ctx.db
+    .query("messages")
+    .withIndex("by_conversationId", (q) =>
+      q
+        .eq("conversationId", reply.conversationId)
+        .lt("_creationTime", reply._creationTime),
+    )
+    .order("desc");
+  for await (const message of earlierMessages) {
+    if (message.author === "user") {
+      return message;
     }
+  }
+  return null;
+}
 
-    // Check if this is the first message in the conversation using getFirstMessage
-    const firstMessage = await ctx.runQuery(
-      internal.chatQueriesAndMutations.getFirstMessage,
-      {
-        conversationId: args.conversationId,
-      },
-    );
+// Helper to load the replies to the latest user turn, throwing if the turn
+// has been followed by another user message
+async function getLatestTurnReplies(
+  ctx: QueryCtx | MutationCtx,
+  userMessage: Doc<"messages">,
+): Promise<Doc<"messages">[]> {
+  const laterMessages = await ctx.db
+    .query("messages")
+    .withIndex("by_conversationId", (q) =>
+      q
+        .eq("conversationId", userMessage.conversationId)
+        .gt("_creationTime", userMessage._creationTime),
+    )
+    .collect();
+  const isReplyToTurn = (message: Doc<"messages">) =>
+    message.author === "assistant" &&
+    (!message.replyToMessageId || message.replyToMessageId === userMessage._id);
+  if (!laterMessages.every(isReplyToTurn)) {
+    throw new Error("Only the latest reply can be regenerated or switched");
+  }
+  if (laterMessages.some((message) => message.status === "typing")) {
+    throw new Error("A response is still being generated");
+  }
+  return laterMessages;
+}
 
-    const isFirstMessage = firstMessage === null;
+// New internal mutation to hide the current reply versions before regenerating
+export const prepareRegeneration = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+    userId: v.id("users"),
+  },
+  returns: v.id("conversations"),
+  handler: async (
+    ctx: MutationCtx,
+    args: { messageId: Id<"messages">; userId: Id<"users"> },
+  ): Promise<Id<"conversations">> => {
+    const reply = await ctx.db.get(args.messageId);
+    if (!reply) {
+      throw new Error("Message not found");
+    }
+    const conversation = await ctx.db.get(reply.conversationId);
+    if (!conversation || conversation.userId !== args.userId) {
+      throw new Error("Conversation not found or access denied");
+    }
+    assertConversationNotTrashed(conversation);
+    if (reply.author !== "assistant") {
+      throw new Error("Only assistant replies can be regenerated");
+    }
+    const userMessage = await getUserTurnForReply(ctx, reply);
+    if (!userMessage) {
+      throw new Error("No user message found for this reply");
+    }
 
-    // Insert the user's message into the Convex database using runMutation
-    await ctx.runMutation(internal.chatQueriesAndMutations.storeUserMessage, {
-      conversationId: args.conversationId,
-      content: args.content,
-      webSearchEnabled: args.webSearchEnabled,
-      model: args.model,
-      thinkingIntensity: args.thinkingIntensity,
-      timezone: args.timezone,
-    });
+    // Keep every existing reply as a hidden sibling of the new version
+    const siblings = await getLatestTurnReplies(ctx, userMessage);
+    for (const sibling of siblings) {
+      await ctx.db.patch(sibling._id, {
+        replyToMessageId: userMessage._id,
+        inactiveVersion: true,
+      });
+    }
+    await deleteMessageEmbeddings(
+      ctx,
+      siblings.map((sibling) => sibling._id),
+    );
 
-    // Schedule the AI response action
-    await ctx.scheduler.runAfter(0, internal.chat.generateAiResponse, {
-      conversationId: args.conversationId,
-      openaiApiKey: args.openaiApiKey,
-      openrouterApiKey: args.openrouterApiKey,
+    await ctx.db.patch(conversation._id, {
+      lastResponseId: await getResponseIdBefore(
+        ctx,
+        conversation._id,
+        userMessage._creationTime,
+      ),
+      updatedTime: Date.now(),
     });
 
-    // If this is the first message, schedule the title generation action
-    if (isFirstMessage) {
-      // Schedule the title generation shortly after to allow the message and AI response to be processed
-      // A delay might be needed depending on the AI response time
-      await ctx.scheduler.runAfter(
-        5000,
-        internal.chat.generateConversationTitleAction,
-        {
-          // 5 second delay, adjust as needed
-          conversationId: args.conversationId,
-          openaiApiKey: args.openaiApiKey,
-        },
-      );
-    }
-
-    return null;
+    return conversation._id;
   },
 });
 
-// Mutation to delete a conversation and its messages
-export const deleteConversation = mutation({
-  args: { conversationId: v.id("conversations") },
+// Mutation to choose which version of the latest reply is shown and continued from
+export const selectMessageVersion = mutation({
+  args: { messageId: v.id("messages") },
   returns: v.null(),
   handler: async (
     ctx: MutationCtx,
-    args: { conversationId: Id<"conversations"> },
+    args: { messageId: Id<"messages"> },
   ): Promise<null> => {
     const user: Doc<"users"> = await getLoggedInUser(ctx);
-    const conversation: Doc<"conversations"> | null = await ctx.db.get(
-      args.conversationId,
-    );
+    const version = await ctx.db.get(args.messageId);
+    if (!version) {
+      throw new Error("Message not found");
+    }
+    const conversation = await ctx.db.get(version.conversationId);
     if (!conversation || conversation.userId !== user._id) {
       throw new Error("Conversation not found or access denied");
     }
-    // Delete all messages in this conversation
-    const messages = await ctx.db
-      .query("messages")
-      .withIndex("by_conversationId", (q) =>
-        q.eq("conversationId", args.conversationId),
-      )
-      .collect();
-    for (const msg of messages) {
-      await ctx.db.delete(msg._id);
+    const userMessage = version.replyToMessageId
+      ? await ctx.db.get(version.replyToMessageId)
+      : null;
+    if (!userMessage) {
+      throw new Error("This reply has no other versions");
+    }
+
+    const siblings = await getLatestTurnReplies(ctx, userMessage);
+    for (const sibling of siblings) {
+      await ctx.db.patch(sibling._id, {
+        inactiveVersion: sibling._id === version._id ? undefined : true,
+      });
+    }
+    // Only the shown version is searchable
+    await deleteMessageEmbeddings(
+      ctx,
+      siblings
+        .filter((sibling) => sibling._id !== version._id)
+        .map((sibling) => sibling._id),
+    );
+    if (version.inactiveVersion) {
+      await ctx.scheduler.runAfter(0, internal.semanticSearch.embedMessages, {
+        messageIds: [version._id],
+      });
     }
-    // Delete the conversation itself
-    await ctx.db.delete(args.conversationId);
+
+    // Continue the OpenAI response chain from the selected version
+    await ctx.db.patch(conversation._id, {
+      lastResponseId:
+        version.openaiResponseId ??
+        (await getResponseIdBefore(
+          ctx,
+          conversation._id,
+          userMessage._creationTime,
+        )),
+    });
+
     return null;
   },
 });
@@ -356,6 +1695,11 @@ export const storeAiMessage = internalMutation({
     errorDetails: v.optional(v.string()),
     openaiResponseId: v.optional(v.string()),
     reasoningSummary: v.optional(v.string()),
+    replyToMessageId: v.optional(v.id("messages")),
+    model: v.optional(v.string()),
+    thinkingIntensity: v.optional(
+      v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+    ),
     citations: v.optional(
       v.array(
         v.union(
@@ -397,10 +1741,14 @@ export const storeAiMessage = internalMutation({
       >;
       reasoningSummary?: string;
       timezone?: string;
+      replyToMessageId?: Id<"messages">;
+      model?: string;
+      thinkingIntensity?: "low" | "medium" | "high";
     },
   ): Promise<Id<"messages">> => {
     const messageId = await ctx.db.insert("messages", {
       conversationId: args.conversationId,
+      userId: await getConversationUserId(ctx, args.conversationId),
       author: "assistant" as const,
       content: args.content,
       status: args.status,
@@ -409,6 +1757,9 @@ export const storeAiMessage = internalMutation({
       reasoningSummary: args.reasoningSummary,
       citations: args.citations,
       timezone: args.timezone,
+      replyToMessageId: args.replyToMessageId,
+      model: args.model,
+      thinkingIntensity: args.thinkingIntensity,
     });
 
     // Update conversation activity time only for completed messages
@@ -519,6 +1870,7 @@ export const storeUserMessage = internalMutation({
   ): Promise<null> => {
     await ctx.db.insert("messages", {
       conversationId: args.conversationId,
+      userId: await getConversationUserId(ctx, args.conversationId),
       author: "user" as const,
       content: args.content,
       fileIds: args.fileIds,
@@ -585,6 +1937,8 @@ export const appendMessageContent = internalMutation({
 export const markMessageComplete = internalMutation({
   args: {
     messageId: v.id("messages"),
+    // "cancelled" keeps the partial content of a reply the user stopped
+    status: v.optional(v.union(v.literal("completed"), v.literal("cancelled"))),
     openaiResponseId: v.optional(v.string()),
     reasoningSummary: v.optional(v.string()),
     citations: v.optional(
@@ -610,6 +1964,7 @@ export const markMessageComplete = internalMutation({
     ctx: MutationCtx,
     args: {
       messageId: Id<"messages">;
+      status?: "completed" | "cancelled";
       openaiResponseId?: string;
       reasoningSummary?: string;
       citations?: Array<
@@ -637,7 +1992,7 @@ export const markMessageComplete = internalMutation({
 
     // Build update object with status and optional fields
     const updateData: {
-      status: "completed";
+      status: "completed" | "cancelled";
       openaiResponseId?: string;
       reasoningSummary?: string;
       citations?: Array<
@@ -653,7 +2008,7 @@ export const markMessageComplete = internalMutation({
           }
       >;
     } = {
-      status: "completed",
+      status: args.status ?? "completed",
     };
     if (args.openaiResponseId !== undefined) {
       updateData.openaiResponseId = args.openaiResponseId;
@@ -666,6 +2021,16 @@ export const markMessageComplete = internalMutation({
     }
 
     await ctx.db.patch(args.messageId, updateData);
+
+    // Embed the finished turn for semantic search in the background
+    if (updateData.status === "completed") {
+      const userMessage = await getUserTurnForReply(ctx, message);
+      await ctx.scheduler.runAfter(0, internal.semanticSearch.embedMessages, {
+        messageIds: userMessage
+          ? [userMessage._id, args.messageId]
+          : [args.messageId],
+      });
+    }
     return null;
   },
 });
@@ -696,6 +2061,92 @@ export const markMessageError = internalMutation({
   },
 });
 
+// Replies marked as failed per run, like PURGE_BATCH_SIZE
+export const STALE_REPLY_BATCH_SIZE = 50;
+
+// Internal mutation run by convex/crons.ts. Marks replies that have been
+// "typing" for longer than STALE_REPLY_MS as failed, since the action that was
+// writing them timed out or crashed. Otherwise they would keep the composer
+// locked; the user can retry them like any failed reply.
+export const failStaleReplies = internalMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx: MutationCtx): Promise<null> => {
+    const staleReplies = await ctx.db
+      .query("messages")
+      .withIndex("by_status", (q) =>
+        q
+          .eq("status", "typing")
+          .lt("_creationTime", Date.now() - STALE_REPLY_MS),
+      )
+      .take(STALE_REPLY_BATCH_SIZE);
+    for (const reply of staleReplies) {
+      // Keep whatever was streamed before the action stopped
+      await ctx.db.patch(reply._id, {
+        status: "error",
+        content:
+          reply.content ||
+          "Sorry, I encountered an error while generating a response.",
+        errorDetails:
+          "The response took too long and was stopped. Please try again.",
+      });
+    }
+    if (staleReplies.length === STALE_REPLY_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.chatQueriesAndMutations.failStaleReplies,
+        {},
+      );
+    }
+    return null;
+  },
+});
+
+// Mutation to stop the reply that is currently being generated in a conversation.
+// The streaming action picks up the flag, aborts the stream and keeps the partial reply.
+export const cancelGeneration = mutation({
+  args: { conversationId: v.id("conversations") },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations"> },
+  ): Promise<null> => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== user._id) {
+      throw new Error("Conversation not found or access denied");
+    }
+
+    const typingMessages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q.eq("conversationId", args.conversationId),
+      )
+      .filter((q) => q.eq(q.field("status"), "typing"))
+      .collect();
+    for (const message of typingMessages) {
+      if (message.author === "assistant") {
+        await ctx.db.patch(message._id, { cancelRequested: true });
+      }
+    }
+    return null;
+  },
+});
+
+// New internal query used by the streaming loops to check for a stop request
+export const isGenerationCancelled = internalQuery({
+  args: { messageId: v.id("messages") },
+  returns: v.boolean(),
+  handler: async (
+    ctx: QueryCtx,
+    args: { messageId: Id<"messages"> },
+  ): Promise<boolean> => {
+    const message = await ctx.db.get(args.messageId);
+    // A deleted reply (e.g. its conversation was removed) should stop streaming too
+    return !message || message.cancelRequested === true;
+  },
+});
+
 // New internal mutation to update reasoning summary in real-time
 export const updateReasoningSummary = internalMutation({
   args: {
@@ -721,6 +2172,122 @@ export const updateReasoningSummary = internalMutation({
   },
 });
 
+// New internal query to get the messages to fold into the rolling summary,
+// or null if the history isn't long enough to need summarizing yet
+export const getMessagesToSummarize = internalQuery({
+  args: { conversationId: v.id("conversations") },
+  returns: v.union(
+    v.object({
+      summary: v.optional(v.string()),
+      previousSummarizedThroughTime: v.optional(v.number()),
+      summarizedThroughTime: v.number(),
+      transcript: v.string(),
+    }),
+    v.null(),
+  ),
+  handler: async (
+    ctx: QueryCtx,
+    args: { conversationId: Id<"conversations"> },
+  ): Promise<{
+    summary?: string;
+    previousSummarizedThroughTime?: number;
+    summarizedThroughTime: number;
+    transcript: string;
+  } | null> => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) {
+      return null;
+    }
+    const unsummarizedMessages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q
+          .eq("conversationId", args.conversationId)
+          .gt("_creationTime", conversation.summarizedThroughTime ?? 0),
+      )
+      .filter((q) => q.neq(q.field("inactiveVersion"), true))
+      .order("asc")
+      .collect();
+
+    const messagesToSummarize = selectMessagesToSummarize(unsummarizedMessages);
+    if (messagesToSummarize.length === 0) {
+      return null;
+    }
+    return {
+      summary: conversation.summary,
+      previousSummarizedThroughTime: conversation.summarizedThroughTime,
+      summarizedThroughTime:
+        messagesToSummarize[messagesToSummarize.length - 1]._creationTime,
+      transcript: formatTranscript(messagesToSummarize),
+    };
+  },
+});
+
+// New internal mutation to store a generated summary. Skipped if the summary
+// changed while it was being generated (another run, or the user cleared it).
+export const storeConversationSummary = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    summary: v.string(),
+    previousSummarizedThroughTime: v.optional(v.number()),
+    summarizedThroughTime: v.number(),
+  },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: {
+      conversationId: Id<"conversations">;
+      summary: string;
+      previousSummarizedThroughTime?: number;
+      summarizedThroughTime: number;
+    },
+  ): Promise<null> => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (
+      !conversation ||
+      conversation.summarizedThroughTime !== args.previousSummarizedThroughTime
+    ) {
+      return null;
+    }
+    await ctx.db.patch(args.conversationId, {
+      summary: args.summary,
+      summarizedThroughTime: args.summarizedThroughTime,
+    });
+    return null;
+  },
+});
+
+// Mutation for the user to edit the conversation summary. Clearing it sends
+// the full (token-budgeted) history again.
+export const updateConversationSummary = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    summary: v.string(),
+  },
+  returns: v.null(),
+  handler: async (
+    ctx: MutationCtx,
+    args: { conversationId: Id<"conversations">; summary: string },
+  ): Promise<null> => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== user._id) {
+      throw new Error("Conversation not found or access denied");
+    }
+
+    const summary = args.summary.trim();
+    if (!summary) {
+      await ctx.db.patch(args.conversationId, {
+        summary: undefined,
+        summarizedThroughTime: undefined,
+      });
+    } else {
+      await ctx.db.patch(args.conversationId, { summary });
+    }
+    return null;
+  },
+});
+
 // New internal query to get the first message of a conversation
 export const getFirstMessage = internalQuery({
   args: {
@@ -749,11 +2316,16 @@ export const updateConversationName = internalMutation({
   args: {
     conversationId: v.id("conversations"),
     newName: v.string(),
+    suggestedTagIds: v.optional(v.array(v.id("tags"))),
   },
   returns: v.null(),
   handler: async (
     ctx: MutationCtx,
-    args: { conversationId: Id<"conversations">; newName: string },
+    args: {
+      conversationId: Id<"conversations">;
+      newName: string;
+      suggestedTagIds?: Id<"tags">[];
+    },
   ): Promise<null> => {
     // Get the conversation document by ID
     const conversation = await ctx.db.get(args.conversationId);
@@ -763,8 +2335,14 @@ export const updateConversationName = internalMutation({
       throw new Error(`Conversation not found with ID: ${args.conversationId}`);
     }
 
-    // Update the conversation's name
-    await ctx.db.patch(args.conversationId, { name: args.newName });
+    // Update the conversation's name, unless the user renamed it while the
+    // title was generated, and the tags suggested with it
+    await ctx.db.patch(args.conversationId, {
+      ...(conversation.renamedByUser ? {} : { name: args.newName }),
+      ...(args.suggestedTagIds?.length
+        ? { suggestedTagIds: args.suggestedTagIds }
+        : {}),
+    });
 
     return null;
   },
@@ -915,6 +2493,7 @@ export const storeUserMessageWithVectorStore = internalMutation({
   ): Promise<Id<"messages">> => {
     const messageId = await ctx.db.insert("messages", {
       conversationId: args.conversationId,
+      userId: await getConversationUserId(ctx, args.conversationId),
       author: "user" as const,
       content: args.content,
       fileIds: args.fileIds,
@@ -980,7 +2559,7 @@ export const createUserFileMapping = internalMutation({
       .withIndex("by_openaiFileId", (q) =>
         q.eq("openaiFileId", args.openaiFileId),
       )
-      .unique();
+      .first();
 
     if (!existingMapping) {
       await ctx.db.insert("fileMessageMappings", {
@@ -1073,13 +2652,13 @@ export const findFileByOpenAIId = query({
   handler: async (ctx: QueryCtx, args: { openaiFileId: string }) => {
     const user = await getLoggedInUser(ctx);
 
-    // Efficient lookup using the dedicated index
+    // Efficient lookup using the dedicated index (forks share the same file)
     const fileMapping = await ctx.db
       .query("fileMessageMappings")
       .withIndex("by_openaiFileId", (q) =>
         q.eq("openaiFileId", args.openaiFileId),
       )
-      .unique();
+      .first();
 
     if (!fileMapping) {
       return null;
@@ -1119,23 +2698,22 @@ export async function findUserMessageByFileIdImpl(
     throw new Error("Access denied: conversation does not belong to user");
   }
 
-  // Use the new efficient lookup method
-  const fileMapping = await ctx.db
+  // Use the new efficient lookup method. Forked conversations get their own
+  // mapping for the same OpenAI file, so there may be more than one.
+  const fileMappings = await ctx.db
     .query("fileMessageMappings")
     .withIndex("by_openaiFileId", (q) =>
       q.eq("openaiFileId", args.openaiFileId),
     )
-    .unique();
-
-  if (!fileMapping) {
-    return null;
-  }
+    .collect();
 
   // Ensure the file belongs to the requested conversation
-  if (
-    fileMapping.firstUsedInConversationId &&
-    fileMapping.firstUsedInConversationId !== args.conversationId
-  ) {
+  const fileMapping = fileMappings.find(
+    (mapping) =>
+      !mapping.firstUsedInConversationId ||
+      mapping.firstUsedInConversationId === args.conversationId,
+  );
+  if (!fileMapping) {
     return null;
   }
 
@@ -0,0 +1,76 @@
+"use node"; // Explicitly mark as Node.js environment
+
+// Action deleting the OpenAI files and vector stores of deleted conversations
+// and projects.
+import OpenAI from "openai";
+import { internal } from "./_generated/api";
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+import { getUserApiKeys } from "./apiKeys";
+
+// Helper to delete an OpenAI resource. Resources that are already gone count
+// as deleted, so retried cleanups can repeat every deletion.
+async function deleteOpenAIResource(
+  remove: () => Promise<unknown>,
+  label: string,
+  errors: string[],
+): Promise<void> {
+  try {
+    await remove();
+  } catch (error) {
+    if (error instanceof OpenAI.NotFoundError) {
+      return;
+    }
+    errors.push(
+      `Failed to delete ${label}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+// Internal action scheduled by scheduleResourceCleanup. Deletes the
+// OpenAI resources with the owner's key, then recordCleanupAttempt deletes the
+// stored uploads and retries if anything failed.
+export const cleanupConversationResources = internalAction({
+  args: { cleanupId: v.id("conversationCleanups") },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const cleanup = await ctx.runQuery(
+      internal.cleanupQueriesAndMutations.getCleanup,
+      { cleanupId: args.cleanupId },
+    );
+    if (!cleanup || cleanup.status !== "pending") {
+      return null;
+    }
+
+    const errors: string[] = [];
+    if (cleanup.vectorStoreId || cleanup.openaiFileIds.length > 0) {
+      const { openaiApiKey } = await getUserApiKeys(ctx, cleanup.userId);
+      if (!openaiApiKey) {
+        errors.push("No OpenAI API key to delete the files with");
+      } else {
+        const openaiClient = new OpenAI({ apiKey: openaiApiKey });
+        const { vectorStoreId } = cleanup;
+        if (vectorStoreId) {
+          await deleteOpenAIResource(
+            () => openaiClient.vectorStores.delete(vectorStoreId),
+            `vector store ${vectorStoreId}`,
+            errors,
+          );
+        }
+        for (const fileId of cleanup.openaiFileIds) {
+          await deleteOpenAIResource(
+            () => openaiClient.files.delete(fileId),
+            `file ${fileId}`,
+            errors,
+          );
+        }
+      }
+    }
+
+    await ctx.runMutation(
+      internal.cleanupQueriesAndMutations.recordCleanupAttempt,
+      { cleanupId: args.cleanupId, errors },
+    );
+    return null;
+  },
+});
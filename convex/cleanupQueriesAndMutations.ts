@@ -0,0 +1,232 @@
+// This file does NOT use "use node" and contains queries and mutations for
+// cleaning up the files and vector stores of deleted conversations and
+// projects.
+import { internalQuery, internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+// Cleanups that still fail after this many attempts are marked as failed
+export const MAX_CLEANUP_ATTEMPTS = 5;
+const CLEANUP_RETRY_BASE_DELAY_MS = 60 * 1000;
+
+// Delay before retrying after the given number of failed attempts: 1, 2, 4
+// and 8 minutes
+export function getCleanupRetryDelay(attempts: number): number {
+  return CLEANUP_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+const cleanupDoc = v.object({
+  _id: v.id("conversationCleanups"),
+  _creationTime: v.number(),
+  userId: v.id("users"),
+  conversationId: v.optional(v.id("conversations")),
+  projectId: v.optional(v.id("projects")),
+  vectorStoreId: v.optional(v.string()),
+  openaiFileIds: v.array(v.string()),
+  storageIds: v.array(v.id("_storage")),
+  status: v.union(
+    v.literal("pending"),
+    v.literal("completed"),
+    v.literal("failed"),
+  ),
+  attempts: v.number(),
+  lastError: v.optional(v.string()),
+  completedAt: v.optional(v.number()),
+});
+
+// Helper to record OpenAI resources and uploads to delete and schedule
+// cleanupConversationResources for them. Does nothing if there is nothing to
+// delete.
+export async function scheduleResourceCleanup(
+  ctx: MutationCtx,
+  resources: {
+    userId: Id<"users">;
+    conversationId?: Id<"conversations">;
+    projectId?: Id<"projects">;
+    vectorStoreId?: string;
+    openaiFileIds: string[];
+    storageIds: Id<"_storage">[];
+  },
+): Promise<Id<"conversationCleanups"> | null> {
+  if (
+    !resources.vectorStoreId &&
+    resources.openaiFileIds.length === 0 &&
+    resources.storageIds.length === 0
+  ) {
+    return null;
+  }
+  const cleanupId = await ctx.db.insert("conversationCleanups", {
+    ...resources,
+    status: "pending",
+    attempts: 0,
+  });
+  await ctx.scheduler.runAfter(
+    0,
+    internal.cleanup.cleanupConversationResources,
+    { cleanupId },
+  );
+  return cleanupId;
+}
+
+// Helper for deleting a conversation: schedules cleanupConversationResources
+// for the OpenAI files, vector store and uploads no other conversation uses.
+// Forks share their parent's vector store and files, so those are kept while
+// a fork still needs them. Long conversations are deleted in batches, so call
+// it for each batch of messages before deleting them. The last batch also
+// deletes the file mappings and covers their files and the vector store;
+// until then the mappings keep mapped files out of the earlier batches.
+export async function scheduleConversationCleanup(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  messages: Doc<"messages">[],
+  isLastBatch: boolean,
+): Promise<Id<"conversationCleanups"> | null> {
+  const mappings = isLastBatch
+    ? await ctx.db
+        .query("fileMessageMappings")
+        .withIndex("by_conversationId", (q) =>
+          q.eq("firstUsedInConversationId", conversation._id),
+        )
+        .collect()
+    : [];
+  for (const mapping of mappings) {
+    await ctx.db.delete(mapping._id);
+  }
+
+  const openaiFileIds = new Set<string>();
+  const storageIds = new Set<Id<"_storage">>();
+  for (const message of messages) {
+    message.fileIds?.forEach((fileId) => openaiFileIds.add(fileId));
+    message.uploadedFiles?.forEach((file) => storageIds.add(file.storageId));
+  }
+  const mappedFileIds = new Set<string>();
+  const mappedStorageIds = new Set<Id<"_storage">>();
+  for (const mapping of mappings) {
+    openaiFileIds.add(mapping.openaiFileId);
+    mappedFileIds.add(mapping.openaiFileId);
+    if (mapping.storageId) {
+      storageIds.add(mapping.storageId);
+      mappedStorageIds.add(mapping.storageId);
+    }
+  }
+
+  // Files without a mapping can't be traced to forks, so they are kept if
+  // the conversation is a fork or has been forked
+  const isInForkFamily =
+    conversation.forkedFromConversationId !== undefined ||
+    (await ctx.db
+      .query("conversations")
+      .withIndex("by_forkedFromConversationId", (q) =>
+        q.eq("forkedFromConversationId", conversation._id),
+      )
+      .first()) !== null;
+
+  const unusedFileIds: string[] = [];
+  for (const fileId of openaiFileIds) {
+    const otherMapping = await ctx.db
+      .query("fileMessageMappings")
+      .withIndex("by_openaiFileId", (q) => q.eq("openaiFileId", fileId))
+      .first();
+    if (!otherMapping && (mappedFileIds.has(fileId) || !isInForkFamily)) {
+      unusedFileIds.push(fileId);
+    }
+  }
+  const unusedStorageIds: Id<"_storage">[] = [];
+  for (const storageId of storageIds) {
+    const otherMapping = await ctx.db
+      .query("fileMessageMappings")
+      .withIndex("by_storageId", (q) => q.eq("storageId", storageId))
+      .first();
+    if (!otherMapping && (mappedStorageIds.has(storageId) || !isInForkFamily)) {
+      unusedStorageIds.push(storageId);
+    }
+  }
+
+  let vectorStoreId: string | undefined;
+  if (isLastBatch && conversation.vectorStoreId) {
+    const sharingConversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_vectorStoreId", (q) =>
+        q.eq("vectorStoreId", conversation.vectorStoreId),
+      )
+      .take(2);
+    if (sharingConversations.every(({ _id }) => _id === conversation._id)) {
+      vectorStoreId = conversation.vectorStoreId;
+    }
+  }
+
+  return await scheduleResourceCleanup(ctx, {
+    userId: conversation.userId,
+    conversationId: conversation._id,
+    vectorStoreId,
+    openaiFileIds: unusedFileIds,
+    storageIds: unusedStorageIds,
+  });
+}
+
+// Internal query for cleanupConversationResources
+export const getCleanup = internalQuery({
+  args: { cleanupId: v.id("conversationCleanups") },
+  returns: v.union(cleanupDoc, v.null()),
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.cleanupId);
+  },
+});
+
+// Internal mutation for cleanupConversationResources: deletes the stored
+// uploads and records the attempt. Failed attempts are retried with backoff
+// until MAX_CLEANUP_ATTEMPTS.
+export const recordCleanupAttempt = internalMutation({
+  args: {
+    cleanupId: v.id("conversationCleanups"),
+    errors: v.array(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const cleanup = await ctx.db.get(args.cleanupId);
+    if (!cleanup || cleanup.status !== "pending") {
+      return null;
+    }
+
+    // Deleting is repeated on every attempt, so skip uploads already gone
+    for (const storageId of cleanup.storageIds) {
+      if (await ctx.db.system.get(storageId)) {
+        await ctx.storage.delete(storageId);
+      }
+    }
+
+    const attempts = cleanup.attempts + 1;
+    if (args.errors.length === 0) {
+      await ctx.db.patch(args.cleanupId, {
+        status: "completed",
+        attempts,
+        lastError: undefined,
+        completedAt: Date.now(),
+      });
+      return null;
+    }
+
+    const lastError = args.errors.join("; ");
+    if (attempts >= MAX_CLEANUP_ATTEMPTS) {
+      const owner = cleanup.conversationId
+        ? `conversation ${cleanup.conversationId}`
+        : `project ${cleanup.projectId}`;
+      console.error(`Giving up cleaning up ${owner}: ${lastError}`);
+      await ctx.db.patch(args.cleanupId, {
+        status: "failed",
+        attempts,
+        lastError,
+      });
+      return null;
+    }
+    await ctx.db.patch(args.cleanupId, { attempts, lastError });
+    await ctx.scheduler.runAfter(
+      getCleanupRetryDelay(attempts),
+      internal.cleanup.cleanupConversationResources,
+      { cleanupId: args.cleanupId },
+    );
+    return null;
+  },
+});
@@ -12,6 +12,7 @@ export const SUPPORTED_MODELS = [
     webSearch: true,
     fileSearch: true,
     openRouter: false,
+    contextWindow: 1_047_576, // Tokens
   },
   {
     name: "OpenAI o4 Mini",
@@ -21,6 +22,7 @@ export const SUPPORTED_MODELS = [
     webSearch: false,
     fileSearch: true,
     openRouter: false,
+    contextWindow: 200_000, // Tokens
   },
   {
     name: "OpenAI o3",
@@ -30,6 +32,7 @@ export const SUPPORTED_MODELS = [
     webSearch: false,
     fileSearch: true,
     openRouter: false,
+    contextWindow: 200_000, // Tokens
   },
   {
     name: "OpenAI o3 Pro",
@@ -40,6 +43,7 @@ export const SUPPORTED_MODELS = [
     webSearch: false,
     fileSearch: true,
     openRouter: false,
+    contextWindow: 200_000, // Tokens
   },
   {
     name: "Google Gemini 2.0 Flash",
@@ -49,6 +53,7 @@ export const SUPPORTED_MODELS = [
     webSearch: true,
     fileSearch: false,
     openRouter: true,
+    contextWindow: 1_048_576, // Tokens
   },
   {
     name: "Google Gemini 2.5 Flash Lite",
@@ -58,6 +63,7 @@ export const SUPPORTED_MODELS = [
     webSearch: false,
     fileSearch: false,
     openRouter: true,
+    contextWindow: 1_048_576, // Tokens
   },
   {
     name: "Google Gemini 2.5 Flash Reasoning",
@@ -67,6 +73,7 @@ export const SUPPORTED_MODELS = [
     webSearch: true,
     fileSearch: false,
     openRouter: true,
+    contextWindow: 1_048_576, // Tokens
   },
   {
     name: "Anthropic: Claude Sonnet 4",
@@ -76,6 +83,7 @@ export const SUPPORTED_MODELS = [
     webSearch: false,
     fileSearch: false,
     openRouter: true,
+    contextWindow: 200_000, // Tokens
   },
   {
     name: "Grok 3 Mini",
@@ -85,9 +93,27 @@ export const SUPPORTED_MODELS = [
     webSearch: true,
     fileSearch: false,
     openRouter: true,
+    contextWindow: 131_072, // Tokens
   },
 ] as const;
 
+// Estimated prices in USD per million tokens, used for usage cost estimates.
+// Reasoning tokens are billed as output tokens.
+export const MODEL_PRICES: Record<
+  (typeof SUPPORTED_MODELS)[number]["id"],
+  { input: number; output: number }
+> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  o3: { input: 2, output: 8 },
+  "o3-pro": { input: 20, output: 80 },
+  "google/gemini-2.0-flash-001": { input: 0.1, output: 0.4 },
+  "google/gemini-2.5-flash-lite-preview-06-17": { input: 0.1, output: 0.4 },
+  "google/gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "anthropic/claude-sonnet-4": { input: 3, output: 15 },
+  "x-ai/grok-3-mini-beta": { input: 0.3, output: 0.5 },
+};
+
 export const WEB_SEARCH_MODELS = SUPPORTED_MODELS.filter(
   (model): model is Extract<typeof model, { webSearch: true }> =>
     model.webSearch,
@@ -113,6 +139,11 @@ export const isOpenRouterModel = (
   return (OPENROUTER_MODELS as readonly string[]).includes(model);
 };
 
+// Provider whose API key (and budget) a model uses
+export const getModelProvider = (model: string): ApiKeyProvider => {
+  return isOpenRouterModel(model) ? "openrouter" : "openai";
+};
+
 export const SYSTEM_PROMPT = `
 You are T3 Chat Clone, an AI assistant powered by the {model-name}. My role is to assist and engage in conversation while being helpful, respectful, and engaging.
 - If you are specifically asked about the model you are using, you may mention that you use the {model-name} model. If you are not asked specifically about the model you are using, you do not need to mention it.
@@ -135,6 +166,45 @@ You are T3 Chat Clone, an AI assistant powered by the {model-name}. My role is t
 export const THINKING_INTENSITY_LEVELS = ["high", "medium", "low"] as const;
 export type ThinkingIntensity = (typeof THINKING_INTENSITY_LEVELS)[number];
 
+// Providers whose API keys users can store in their key vault
+export const API_KEY_PROVIDERS = ["openai", "openrouter"] as const;
+export type ApiKeyProvider = (typeof API_KEY_PROVIDERS)[number];
+
+// Days a deleted conversation stays in the trash before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// Minutes a reply can stay "typing" before the watchdog marks it as failed.
+// Convex stops actions after 10 minutes, so a reply still typing a minute
+// past that has lost the action that was writing it.
+export const STALE_REPLY_MINUTES = 11;
+export const STALE_REPLY_MS = STALE_REPLY_MINUTES * 60 * 1000;
+
+// Longest name a user can give a conversation
+export const MAX_CONVERSATION_NAME_LENGTH = 100;
+
+// Longest name and custom instructions a project can have
+export const MAX_PROJECT_NAME_LENGTH = 100;
+export const MAX_PROJECT_INSTRUCTIONS_LENGTH = 8000;
+
+// Colors a tag can have, shown as colored chips
+export const TAG_COLORS = [
+  "gray",
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "blue",
+  "purple",
+  "pink",
+] as const;
+export type TagColor = (typeof TAG_COLORS)[number];
+export const MAX_TAG_NAME_LENGTH = 30;
+// Most tags the title generator suggests for a new conversation
+export const MAX_SUGGESTED_TAGS = 3;
+// Most conversations listConversationTags reads the tags of in one call
+export const MAX_LISTED_CONVERSATION_TAGS = 100;
+
 // Helper function to check if a model is supported
 export const isSupportedModel = (
   model: string,
@@ -0,0 +1,194 @@
+// Token-budgeted conversation history for providers that don't keep server-side
+// state (OpenRouter). Pure helpers so they can be unit tested without Convex.
+import { SUPPORTED_MODELS } from "./constants";
+
+// Rough estimate used for budgeting; most tokenizers average ~4 chars per token
+export const CHARS_PER_TOKEN = 4;
+
+// Tokens kept free for the model's reply (including reasoning tokens)
+export const RESERVED_OUTPUT_TOKENS = 16_384;
+
+// Upper bound on history sent per request, even for 1M-token models, to keep
+// request cost and the amount of data read by the query reasonable
+export const MAX_HISTORY_TOKENS = 64_000;
+
+// The most recent messages are always sent in full (if they fit); older ones
+// are truncated to this many tokens each
+export const FULL_LENGTH_RECENT_MESSAGES = 4;
+export const MAX_OLDER_MESSAGE_TOKENS = 2_000;
+
+// Messages shorter than this aren't worth truncating to fill the last of the budget
+const MIN_TRUNCATED_MESSAGE_TOKENS = 100;
+
+const TRUNCATION_MARKER = "[…earlier part of this message omitted]\n\n";
+
+const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+export interface ContextMessage {
+  author: "user" | "assistant";
+  content: string;
+  status?: "typing" | "completed" | "error" | "cancelled";
+}
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Token budget for history, given the model's context window and the tokens
+// already used by the system prompt and the current user input
+export function getHistoryTokenBudget(
+  model: string,
+  promptTokens: number,
+): number {
+  const contextWindow =
+    SUPPORTED_MODELS.find((m) => m.id === model)?.contextWindow ??
+    DEFAULT_CONTEXT_WINDOW;
+  const available = contextWindow - RESERVED_OUTPUT_TOKENS - promptTokens;
+  return Math.max(0, Math.min(available, MAX_HISTORY_TOKENS));
+}
+
+// Keep the end of a message, which usually holds the conclusion or the question
+export function truncateToTokens(content: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (content.length <= maxChars) {
+    return content;
+  }
+  const keptChars = Math.max(0, maxChars - TRUNCATION_MARKER.length);
+  return TRUNCATION_MARKER + content.slice(content.length - keptChars);
+}
+
+// Builds chronological history from messages given newest first. Messages that
+// are still streaming or failed are skipped, older messages are truncated, and
+// iteration stops once the token budget is used up.
+export async function buildConversationHistory(
+  messagesNewestFirst: Iterable<ContextMessage> | AsyncIterable<ContextMessage>,
+  maxTokens: number,
+): Promise<ChatTurn[]> {
+  const turns: ChatTurn[] = [];
+  let remainingTokens = maxTokens;
+
+  for await (const message of messagesNewestFirst) {
+    if (message.status === "typing" || message.status === "error") {
+      continue;
+    }
+    if (!message.content.trim()) {
+      continue;
+    }
+
+    let content =
+      turns.length < FULL_LENGTH_RECENT_MESSAGES
+        ? message.content
+        : truncateToTokens(message.content, MAX_OLDER_MESSAGE_TOKENS);
+    const tokens = estimateTokens(content);
+
+    if (tokens > remainingTokens) {
+      if (remainingTokens >= MIN_TRUNCATED_MESSAGE_TOKENS) {
+        content = truncateToTokens(content, remainingTokens);
+        turns.push({ role: message.author, content });
+      }
+      break;
+    }
+
+    turns.push({ role: message.author, content });
+    remainingTokens -= tokens;
+  }
+
+  return turns.reverse();
+}
+
+// Rolling summary: once the history that isn't summarized yet passes this many
+// tokens, older messages are folded into the conversation's summary
+export const SUMMARIZE_AFTER_TOKENS = 24_000;
+
+// Messages kept verbatim after summarizing so recent turns aren't paraphrased
+export const SUMMARY_KEEP_RECENT_MESSAGES = 6;
+
+// Picks the oldest messages (given oldest first) to fold into the summary, or
+// none if the history is still short. Never summarizes past a reply that is
+// still being generated.
+export function selectMessagesToSummarize<T extends ContextMessage>(
+  messagesOldestFirst: T[],
+): T[] {
+  const totalTokens = messagesOldestFirst.reduce(
+    (sum, message) => sum + estimateTokens(message.content),
+    0,
+  );
+  if (totalTokens <= SUMMARIZE_AFTER_TOKENS) {
+    return [];
+  }
+
+  const candidates = messagesOldestFirst.slice(
+    0,
+    Math.max(0, messagesOldestFirst.length - SUMMARY_KEEP_RECENT_MESSAGES),
+  );
+  const typingIndex = candidates.findIndex(
+    (message) => message.status === "typing",
+  );
+  return typingIndex === -1 ? candidates : candidates.slice(0, typingIndex);
+}
+
+// Plain-text transcript of the messages being summarized
+export function formatTranscript(messages: ContextMessage[]): string {
+  return messages
+    .filter((message) => message.status !== "error" && message.content.trim())
+    .map(
+      (message) =>
+        `${message.author === "user" ? "User" : "Assistant"}: ${truncateToTokens(
+          message.content,
+          MAX_OLDER_MESSAGE_TOKENS,
+        )}`,
+    )
+    .join("\n\n");
+}
+
+export function buildSummaryPrompt(
+  previousSummary: string | undefined,
+  transcript: string,
+): string {
+  return `You maintain a running summary of a chat between a user and an AI assistant. The summary is given to the assistant in place of the older messages, so keep every fact, decision, preference, open question and piece of code the assistant would need to continue the conversation. Write it as concise bullet points, under 400 words.
+
+${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ""}New messages to fold into the summary:
+${transcript}
+
+Updated summary:`;
+}
+
+// Adds the custom instructions of the conversation's project to the system
+// prompt
+export function appendProjectInstructionsToSystemPrompt(
+  systemPrompt: string,
+  project: { name: string; instructions?: string } | null,
+): string {
+  if (!project?.instructions?.trim()) {
+    return systemPrompt;
+  }
+  return `${systemPrompt}
+
+# Project instructions
+
+This conversation is part of the project "${project.name}". Follow these instructions from the user for all conversations in the project.
+
+${project.instructions.trim()}`;
+}
+
+// Adds the conversation's summary to the system prompt as extra context
+export function appendSummaryToSystemPrompt(
+  systemPrompt: string,
+  summary: string | undefined,
+): string {
+  if (!summary?.trim()) {
+    return systemPrompt;
+  }
+  return `${systemPrompt}
+
+# Summary of the earlier conversation
+
+Older messages in this conversation have been summarized below. Treat the summary as part of the conversation history.
+
+${summary.trim()}`;
+}
@@ -0,0 +1,307 @@
+// Renders conversations to Markdown, JSON and printable HTML for export.
+// Pure helpers so they can be unit tested without Convex.
+import { Marked } from "marked";
+import type { Doc } from "./_generated/dataModel";
+import { SUPPORTED_MODELS } from "./constants";
+
+// Bump when the shape of ConversationExport changes
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const EXPORT_FORMATS = ["markdown", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXPORT_FILE_TYPES: Record<
+  ExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  json: { extension: "json", mimeType: "application/json" },
+  html: { extension: "html", mimeType: "text/html" },
+};
+
+type Citation = NonNullable<Doc<"messages">["citations"]>[number];
+
+export interface ExportedMessage {
+  id: string;
+  author: "user" | "assistant";
+  content: string;
+  createdAt: string; // ISO 8601
+  status?: "typing" | "completed" | "error" | "cancelled";
+  model?: string;
+  thinkingIntensity?: "low" | "medium" | "high";
+  webSearchEnabled?: boolean;
+  reasoningSummary?: string;
+  citations?: Citation[];
+  attachments?: string[]; // File names
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    reasoningTokens: number;
+    costUsd?: number;
+  };
+}
+
+export interface ConversationExport {
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: string; // ISO 8601
+  conversation: {
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt?: string;
+    summary?: string;
+    forkedFromConversationId?: string;
+  };
+  messages: ExportedMessage[];
+}
+
+const toIsoString = (timestamp: number) => new Date(timestamp).toISOString();
+
+// Generated titles may be wrapped in quotes
+const getTitle = (name: string) => name.replace(/^"|"$/g, "") || "Untitled";
+
+export function buildConversationExport(
+  conversation: Doc<"conversations">,
+  messages: Doc<"messages">[],
+  exportedAt: number,
+): ConversationExport {
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: toIsoString(exportedAt),
+    conversation: {
+      id: conversation._id,
+      name: getTitle(conversation.name),
+      createdAt: toIsoString(conversation._creationTime),
+      updatedAt:
+        conversation.updatedTime !== undefined
+          ? toIsoString(conversation.updatedTime)
+          : undefined,
+      summary: conversation.summary,
+      forkedFromConversationId: conversation.forkedFromConversationId,
+    },
+    messages: messages.map((message) => ({
+      id: message._id,
+      author: message.author,
+      content: message.content,
+      createdAt: toIsoString(message._creationTime),
+      status: message.status,
+      model: message.model,
+      thinkingIntensity: message.thinkingIntensity,
+      webSearchEnabled: message.webSearchEnabled,
+      reasoningSummary: message.reasoningSummary,
+      citations: message.citations?.length ? message.citations : undefined,
+      attachments: message.uploadedFileNames?.length
+        ? message.uploadedFileNames
+        : undefined,
+      usage: message.usage,
+    })),
+  };
+}
+
+export function getExportFile(
+  exportData: ConversationExport,
+  format: ExportFormat,
+): { fileName: string; mimeType: string } {
+  const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+  const baseName =
+    exportData.conversation.name
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "conversation";
+  return { fileName: `${baseName}.${extension}`, mimeType };
+}
+
+// Date and time in the reader's time zone, falling back to UTC
+export function formatTimestamp(isoString: string, timeZone?: string): string {
+  const date = new Date(isoString);
+  try {
+    return date.toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone: timeZone ?? "UTC",
+      timeZoneName: "short",
+    });
+  } catch {
+    return date.toISOString();
+  }
+}
+
+function getModelName(modelId: string): string {
+  return (
+    SUPPORTED_MODELS.find((model) => model.id === modelId)?.name ?? modelId
+  );
+}
+
+// "Assistant (OpenAI o3, high thinking)" or "You"
+function describeAuthor(message: ExportedMessage): string {
+  if (message.author === "user") {
+    return "You";
+  }
+  if (!message.model) {
+    return "Assistant";
+  }
+  const details = [getModelName(message.model)];
+  if (message.thinkingIntensity) {
+    details.push(`${message.thinkingIntensity} thinking`);
+  }
+  return `Assistant (${details.join(", ")})`;
+}
+
+function describeCitation(citation: Citation): {
+  label: string;
+  url?: string;
+} {
+  return citation.type === "url"
+    ? { label: citation.title || citation.url, url: citation.url }
+    : { label: citation.fileName };
+}
+
+export function renderJson(exportData: ConversationExport): string {
+  return JSON.stringify(exportData, null, 2);
+}
+
+export function renderMarkdown(
+  exportData: ConversationExport,
+  timeZone?: string,
+): string {
+  const lines = [
+    `# ${exportData.conversation.name}`,
+    "",
+    `_Exported ${formatTimestamp(exportData.exportedAt, timeZone)} · ${exportData.messages.length} messages_`,
+  ];
+
+  for (const message of exportData.messages) {
+    lines.push(
+      "",
+      "---",
+      "",
+      `## ${describeAuthor(message)} · ${formatTimestamp(message.createdAt, timeZone)}`,
+      "",
+    );
+    if (message.attachments) {
+      lines.push(`_Attachments: ${message.attachments.join(", ")}_`, "");
+    }
+    if (message.reasoningSummary) {
+      lines.push(
+        "<details>",
+        "<summary>Reasoning</summary>",
+        "",
+        message.reasoningSummary.trim(),
+        "",
+        "</details>",
+        "",
+      );
+    }
+    lines.push(message.content.trim() || "_No content_");
+    if (message.citations) {
+      lines.push("", "**Sources**", "");
+      message.citations.forEach((citation, i) => {
+        const { label, url } = describeCitation(citation);
+        lines.push(url ? `${i + 1}. [${label}](${url})` : `${i + 1}. ${label}`);
+      });
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url.trim());
+
+// Messages are rendered as Markdown, but raw HTML is shown as text and only
+// web and mail links are kept, since the file is opened in the browser
+const exportMarked = new Marked({
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, tokens }) {
+      return isSafeUrl(href) ? false : this.parser.parseInline(tokens);
+    },
+    image({ href, text }) {
+      return isSafeUrl(href) ? false : escapeHtml(text);
+    },
+  },
+});
+
+function renderMessageHtml(markdown: string): string {
+  return exportMarked.parse(markdown, { async: false });
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; line-height: 1.6; color: #111; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  header { border-bottom: 1px solid #ddd; margin-bottom: 1.5rem; }
+  .meta { color: #666; font-size: 0.85rem; }
+  article { border: 1px solid #e5e5e5; border-radius: 0.5rem; padding: 0.75rem 1rem; margin-bottom: 1rem; break-inside: avoid-page; }
+  article.user { background: #f5f5f5; }
+  article h2 { font-size: 0.9rem; margin: 0 0 0.5rem; }
+  details { color: #555; border-left: 3px solid #ddd; padding-left: 0.75rem; margin-bottom: 0.75rem; }
+  pre { background: #f3f3f3; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+export function renderHtml(
+  exportData: ConversationExport,
+  timeZone?: string,
+): string {
+  const title = escapeHtml(exportData.conversation.name);
+  const articles = exportData.messages.map((message) => {
+    const parts = [
+      `<h2>${escapeHtml(describeAuthor(message))} <span class="meta">· ${escapeHtml(formatTimestamp(message.createdAt, timeZone))}</span></h2>`,
+    ];
+    if (message.attachments) {
+      parts.push(
+        `<p class="meta">Attachments: ${escapeHtml(message.attachments.join(", "))}</p>`,
+      );
+    }
+    if (message.reasoningSummary) {
+      parts.push(
+        `<details open><summary>Reasoning</summary>${renderMessageHtml(message.reasoningSummary)}</details>`,
+      );
+    }
+    parts.push(renderMessageHtml(message.content));
+    if (message.citations) {
+      const items = message.citations.map((citation) => {
+        const { label, url } = describeCitation(citation);
+        return url && isSafeUrl(url)
+          ? `<li><a href="${escapeHtml(url)}">${escapeHtml(label)}</a></li>`
+          : `<li>${escapeHtml(label)}</li>`;
+      });
+      parts.push(
+        `<p class="meta"><strong>Sources</strong></p><ol class="meta">${items.join("")}</ol>`,
+      );
+    }
+    return `<article class="${message.author}">\n${parts.join("\n")}\n</article>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<p class="meta">Exported ${escapeHtml(formatTimestamp(exportData.exportedAt, timeZone))} · ${exportData.messages.length} messages</p>
+</header>
+${articles.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,357 @@
+// Parses conversation exports from ChatGPT, Claude and this app into one shape
+// for importConversation. Pure so it runs in the browser, where large export
+// files are read, and in tests.
+import {
+  EXPORT_SCHEMA_VERSION,
+  type ConversationExport,
+} from "./conversationExport";
+
+export const IMPORT_SOURCES = ["chatgpt", "claude", "app"] as const;
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export const IMPORT_SOURCE_NAMES: Record<ImportSource, string> = {
+  chatgpt: "ChatGPT",
+  claude: "Claude",
+  app: "this app",
+};
+
+// Limits checked again by importConversation and importMessages
+export const MAX_IMPORTED_MESSAGES = 2000; // Per conversation
+export const MAX_IMPORTED_MESSAGE_SIZE = 100 * 1024; // Longer messages are cut
+export const MAX_IMPORTED_NAME_LENGTH = 200;
+// A conversation is sent in chunks, one mutation each. Convex limits the
+// arguments and writes of a mutation to a few MiB, so a chunk holds at most
+// this many characters (up to 3 bytes each) and messages.
+export const MAX_IMPORT_CHUNK_SIZE = 1024 * 1024;
+export const MAX_IMPORT_CHUNK_MESSAGES = 200;
+
+export interface ImportedMessage {
+  author: "user" | "assistant";
+  content: string;
+  model?: string;
+  thinkingIntensity?: "low" | "medium" | "high";
+  reasoningSummary?: string;
+  citations?: { type: "url"; url: string; title: string }[];
+}
+
+export interface ImportedConversation {
+  name: string;
+  updatedAt: number; // Unix ms, becomes updatedTime
+  messages: ImportedMessage[];
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  conversations: ImportedConversation[];
+  skipped: number; // Conversations without any text messages
+}
+
+// ChatGPT conversations.json: a tree of message nodes per conversation, the
+// shown branch ending at current_node
+interface ChatGptNode {
+  message?: {
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[] };
+    create_time?: number | null;
+    metadata?: {
+      model_slug?: string;
+      is_visually_hidden_from_conversation?: boolean;
+    };
+  } | null;
+  parent?: string | null;
+}
+
+interface ChatGptConversation {
+  title?: string | null;
+  create_time?: number | null; // Unix seconds
+  update_time?: number | null;
+  mapping: Record<string, ChatGptNode>;
+  current_node?: string | null;
+}
+
+// Claude conversations.json: a flat list of messages per conversation
+interface ClaudeConversation {
+  name?: string | null;
+  created_at?: string; // ISO 8601
+  updated_at?: string;
+  chat_messages: {
+    sender?: string;
+    text?: string;
+    content?: { type?: string; text?: string }[];
+  }[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function toTime(value: unknown, fallback: number): number {
+  const time =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? Date.parse(value)
+        : NaN;
+  return Number.isFinite(time) ? time : fallback;
+}
+
+// Consecutive messages from the same author (e.g. ChatGPT tool steps) are
+// joined so turns alternate like in chats started here
+function mergeTurns(messages: ImportedMessage[]): ImportedMessage[] {
+  const turns: ImportedMessage[] = [];
+  for (const message of messages) {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.author === message.author) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+      previous.model ??= message.model;
+    } else {
+      turns.push({ ...message });
+    }
+  }
+  return turns;
+}
+
+function parseChatGptConversation(
+  conversation: ChatGptConversation,
+): ImportedConversation {
+  const { mapping } = conversation;
+  // Walk up from the shown branch's last node, guarding against cycles
+  const branch: ChatGptNode[] = [];
+  const visited = new Set<string>();
+  const nodeIds = Object.keys(mapping);
+  let nodeId: string | undefined =
+    conversation.current_node ?? nodeIds[nodeIds.length - 1];
+  while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    branch.unshift(mapping[nodeId]);
+    nodeId = mapping[nodeId].parent ?? undefined;
+  }
+
+  const messages: ImportedMessage[] = [];
+  for (const { message } of branch) {
+    const role = message?.author?.role;
+    if (
+      !message ||
+      (role !== "user" && role !== "assistant") ||
+      message.metadata?.is_visually_hidden_from_conversation
+    ) {
+      continue;
+    }
+    const contentType = message.content?.content_type;
+    if (contentType !== "text" && contentType !== "multimodal_text") {
+      continue; // Code, tool output and browsing steps
+    }
+    const content = (message.content?.parts ?? [])
+      .filter((part): part is string => typeof part === "string")
+      .join("\n")
+      .trim();
+    if (content) {
+      messages.push({
+        author: role,
+        content,
+        model: role === "assistant" ? message.metadata?.model_slug : undefined,
+      });
+    }
+  }
+
+  const createdAt = toTime((conversation.create_time ?? NaN) * 1000, 0);
+  return {
+    name: conversation.title ?? "",
+    updatedAt: toTime((conversation.update_time ?? NaN) * 1000, createdAt),
+    messages: mergeTurns(messages),
+  };
+}
+
+function parseClaudeConversation(
+  conversation: ClaudeConversation,
+): ImportedConversation {
+  const messages: ImportedMessage[] = [];
+  for (const message of conversation.chat_messages) {
+    const author =
+      message.sender === "human"
+        ? "user"
+        : message.sender === "assistant"
+          ? "assistant"
+          : null;
+    if (!author) {
+      continue;
+    }
+    // Newer exports split messages into content blocks, older ones only have text
+    const blocks = (message.content ?? [])
+      .filter((block) => block.type === "text" && block.text)
+      .map((block) => block.text);
+    const content = (
+      blocks.length > 0 ? blocks.join("\n\n") : (message.text ?? "")
+    ).trim();
+    if (content) {
+      messages.push({ author, content });
+    }
+  }
+
+  const createdAt = toTime(conversation.created_at, 0);
+  return {
+    name: conversation.name ?? "",
+    updatedAt: toTime(conversation.updated_at, createdAt),
+    messages: mergeTurns(messages),
+  };
+}
+
+function parseAppExport(exportData: ConversationExport): ImportedConversation {
+  if (exportData.schemaVersion > EXPORT_SCHEMA_VERSION) {
+    throw new Error(
+      "This export is from a newer version of the app. Update it to import this file.",
+    );
+  }
+  const createdAt = toTime(exportData.conversation.createdAt, 0);
+  return {
+    name: exportData.conversation.name,
+    updatedAt: toTime(exportData.conversation.updatedAt, createdAt),
+    messages: exportData.messages
+      .filter((message) => message.content.trim())
+      .map((message) => {
+        // File citations point at another deployment's files, so only links are kept
+        const citations = message.citations?.flatMap((citation) =>
+          citation.type === "url" ? [citation] : [],
+        );
+        return {
+          author: message.author,
+          content: message.content,
+          model: message.model,
+          thinkingIntensity: message.thinkingIntensity,
+          reasoningSummary: message.reasoningSummary,
+          citations: citations?.length ? citations : undefined,
+        };
+      }),
+  };
+}
+
+function detectSource(data: unknown): ImportSource | null {
+  if (isObject(data)) {
+    return typeof data.schemaVersion === "number" &&
+      isObject(data.conversation) &&
+      Array.isArray(data.messages)
+      ? "app"
+      : null;
+  }
+  if (Array.isArray(data) && isObject(data[0])) {
+    if (isObject(data[0].mapping)) {
+      return "chatgpt";
+    }
+    if (Array.isArray(data[0].chat_messages)) {
+      return "claude";
+    }
+  }
+  return null;
+}
+
+// Parses the text of an export file, throwing errors meant for the user
+export function parseImportFile(text: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON");
+  }
+  if (Array.isArray(data) && data.length === 0) {
+    throw new Error("This file doesn't contain any conversations");
+  }
+
+  const source = detectSource(data);
+  let parsed: ImportedConversation[];
+  switch (source) {
+    case "chatgpt":
+      parsed = (data as ChatGptConversation[])
+        .filter((conversation) => isObject(conversation.mapping))
+        .map(parseChatGptConversation);
+      break;
+    case "claude":
+      parsed = (data as ClaudeConversation[])
+        .filter((conversation) => Array.isArray(conversation.chat_messages))
+        .map(parseClaudeConversation);
+      break;
+    case "app":
+      parsed = [parseAppExport(data as ConversationExport)];
+      break;
+    default:
+      throw new Error(
+        "Unrecognized file. Choose conversations.json from a ChatGPT or Claude export, or a JSON export from this app.",
+      );
+  }
+
+  const conversations = parsed
+    .filter((conversation) => conversation.messages.length > 0)
+    .map((conversation) => ({
+      ...conversation,
+      name: normalizeImportedName(conversation.name),
+    }));
+  return {
+    source,
+    conversations,
+    skipped: parsed.length - conversations.length,
+  };
+}
+
+export function normalizeImportedName(name: string): string {
+  return (
+    name.replace(/\s+/g, " ").trim().slice(0, MAX_IMPORTED_NAME_LENGTH) ||
+    "Imported chat"
+  );
+}
+
+// Helper to cut a message's text to MAX_IMPORTED_MESSAGE_SIZE
+export function truncateImportedMessage(
+  message: ImportedMessage,
+): ImportedMessage {
+  return {
+    ...message,
+    content: message.content.slice(0, MAX_IMPORTED_MESSAGE_SIZE),
+    reasoningSummary: message.reasoningSummary?.slice(
+      0,
+      MAX_IMPORTED_MESSAGE_SIZE,
+    ),
+  };
+}
+
+// Characters of text in a message, counted against MAX_IMPORT_CHUNK_SIZE
+export function getImportedMessageSize(message: ImportedMessage): number {
+  return (
+    message.content.length +
+    (message.reasoningSummary?.length ?? 0) +
+    (message.citations ?? []).reduce(
+      (size, citation) => size + citation.url.length + citation.title.length,
+      0,
+    )
+  );
+}
+
+// Splits a conversation's messages into the chunks importConversation and
+// importMessages accept, cutting long messages first. Throws an error meant
+// for the user if the conversation is too long to import.
+export function chunkImportedMessages(
+  messages: ImportedMessage[],
+): ImportedMessage[][] {
+  if (messages.length > MAX_IMPORTED_MESSAGES) {
+    throw new Error(
+      `Chats with more than ${MAX_IMPORTED_MESSAGES} messages can't be imported`,
+    );
+  }
+  const chunks: ImportedMessage[][] = [];
+  let chunk: ImportedMessage[] = [];
+  let chunkSize = 0;
+  for (const message of messages.map(truncateImportedMessage)) {
+    const size = getImportedMessageSize(message);
+    if (
+      chunk.length === MAX_IMPORT_CHUNK_MESSAGES ||
+      (chunk.length > 0 && chunkSize + size > MAX_IMPORT_CHUNK_SIZE)
+    ) {
+      chunks.push(chunk);
+      chunk = [];
+      chunkSize = 0;
+    }
+    chunk.push(message);
+    chunkSize += size;
+  }
+  if (chunk.length > 0) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
@@ -0,0 +1,23 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Delete conversations that have been in the trash for TRASH_RETENTION_DAYS
+crons.daily(
+  "purge expired trash",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.chatQueriesAndMutations.purgeExpiredConversations,
+  {},
+);
+
+// Fail replies whose action timed out or crashed while they were typing.
+// Runs every minute so a dead reply shows Retry soon after STALE_REPLY_MINUTES
+crons.interval(
+  "fail stale replies",
+  { minutes: 1 },
+  internal.chatQueriesAndMutations.failStaleReplies,
+  {},
+);
+
+export default crons;
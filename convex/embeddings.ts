@@ -0,0 +1,75 @@
+// Embeddings of messages for semantic search. Providers sit behind an
+// interface so tests can use the deterministic stub instead of an API.
+import type OpenAI from "openai";
+import { getSearchTerms } from "./search";
+
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+export const EMBEDDING_DIMENSIONS = 1536; // Must match the vector index in the schema
+
+// Characters of a message that are embedded, well under the model's token limit
+export const MAX_EMBEDDING_INPUT_CHARS = 8000;
+
+export interface EmbeddingProvider {
+  model: string; // Stored with each embedding
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export function createOpenAIEmbeddingProvider(
+  client: OpenAI,
+): EmbeddingProvider {
+  return {
+    model: EMBEDDING_MODEL,
+    embed: async (texts) => {
+      const response = await client.embeddings.create({
+        model: EMBEDDING_MODEL,
+        input: texts,
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
+
+// FNV-1a, so the stub gives the same vectors on every run
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Normalized bag-of-words vector: texts sharing words are similar, but
+// paraphrases aren't. Only meant for tests and local development.
+export function stubEmbedding(
+  text: string,
+  dimensions: number = EMBEDDING_DIMENSIONS,
+): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const word of getSearchTerms(text)) {
+    vector[hashWord(word) % dimensions] += 1;
+  }
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length > 0 ? vector.map((x) => x / length) : vector;
+}
+
+export function createStubEmbeddingProvider(
+  dimensions: number = EMBEDDING_DIMENSIONS,
+): EmbeddingProvider {
+  return {
+    model: "stub",
+    embed: async (texts) =>
+      texts.map((text) => stubEmbedding(text, dimensions)),
+  };
+}
+
+// Text sent to the provider for a message
+export function getEmbeddingInput(content: string): string {
+  return content
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_EMBEDDING_INPUT_CHARS);
+}
@@ -14,6 +14,45 @@ type FilePreviewResult = {
   content: string | null;
 } | null;
 
+// Helper to build the preview of an uploaded file from Convex storage
+async function buildFilePreview(
+  ctx: ActionCtx,
+  uploadedFile: {
+    fileName: string;
+    storageId: Id<"_storage">;
+    fileType: string;
+    fileSize: number;
+  },
+): Promise<FilePreviewResult> {
+  // Get the download URL from Convex storage
+  const downloadUrl = await ctx.storage.getUrl(uploadedFile.storageId);
+
+  // For text files, get the actual content
+  let content: string | null = null;
+  if (
+    uploadedFile.fileType === "text/plain" ||
+    uploadedFile.fileName.toLowerCase().endsWith(".txt")
+  ) {
+    try {
+      const blob = await ctx.storage.get(uploadedFile.storageId);
+      if (blob) {
+        content = await blob.text();
+      }
+    } catch (error) {
+      console.error("Failed to read file content:", error);
+      // Don't throw error, just leave content as null
+    }
+  }
+
+  return {
+    fileName: uploadedFile.fileName,
+    fileType: uploadedFile.fileType,
+    fileSize: uploadedFile.fileSize,
+    downloadUrl: downloadUrl,
+    content: content,
+  };
+}
+
 // Action to get file content for preview
 export const getFileForPreview = action({
   args: {
@@ -75,32 +114,38 @@ export const getFileForPreview = action({
       throw new Error("File not found in message");
     }
 
-    // Get the download URL from Convex storage
-    const downloadUrl = await ctx.storage.getUrl(uploadedFile.storageId);
+    return await buildFilePreview(ctx, uploadedFile);
+  },
+});
 
-    // For text files, get the actual content
-    let content: string | null = null;
-    if (
-      uploadedFile.fileType === "text/plain" ||
-      uploadedFile.fileName.toLowerCase().endsWith(".txt")
-    ) {
-      try {
-        const blob = await ctx.storage.get(uploadedFile.storageId);
-        if (blob) {
-          content = await blob.text();
-        }
-      } catch (error) {
-        console.error("Failed to read file content:", error);
-        // Don't throw error, just leave content as null
-      }
+// Public action to preview a file on a share page, if the share includes files
+export const getSharedFileForPreview = action({
+  args: {
+    slug: v.string(),
+    messageId: v.id("messages"),
+    fileName: v.string(),
+  },
+  returns: v.union(
+    v.object({
+      fileName: v.string(),
+      fileType: v.string(),
+      fileSize: v.number(),
+      downloadUrl: v.union(v.string(), v.null()),
+      content: v.union(v.string(), v.null()),
+    }),
+    v.null(),
+  ),
+  handler: async (
+    ctx: ActionCtx,
+    args: { slug: string; messageId: Id<"messages">; fileName: string },
+  ): Promise<FilePreviewResult> => {
+    const uploadedFile = await ctx.runQuery(
+      internal.shareQueriesAndMutations.getSharedFile,
+      args,
+    );
+    if (!uploadedFile) {
+      throw new Error("File not found or not shared");
     }
-
-    return {
-      fileName: uploadedFile.fileName,
-      fileType: uploadedFile.fileType,
-      fileSize: uploadedFile.fileSize,
-      downloadUrl: downloadUrl,
-      content: content,
-    };
+    return await buildFilePreview(ctx, uploadedFile);
   },
 });
@@ -0,0 +1,280 @@
+// This file does NOT use "use node" and contains queries and mutations for
+// projects, which group conversations with shared custom instructions and
+// files. Files are uploaded by convex/projects.ts.
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+} from "./_generated/server";
+import type { QueryCtx, MutationCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+import { scheduleResourceCleanup } from "./cleanupQueriesAndMutations";
+import {
+  MAX_PROJECT_INSTRUCTIONS_LENGTH,
+  MAX_PROJECT_NAME_LENGTH,
+} from "./constants";
+
+const projectDoc = v.object({
+  _id: v.id("projects"),
+  _creationTime: v.number(),
+  userId: v.id("users"),
+  name: v.string(),
+  instructions: v.optional(v.string()),
+  vectorStoreId: v.optional(v.string()),
+});
+
+const projectFileDoc = v.object({
+  _id: v.id("projectFiles"),
+  _creationTime: v.number(),
+  projectId: v.id("projects"),
+  userId: v.id("users"),
+  fileName: v.string(),
+  openaiFileId: v.string(),
+  storageId: v.id("_storage"),
+  fileType: v.string(),
+  fileSize: v.number(),
+});
+
+// Helper to get a project of the logged-in user
+async function getOwnProject(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"projects">,
+): Promise<Doc<"projects">> {
+  const user = await getLoggedInUser(ctx);
+  const project = await ctx.db.get(projectId);
+  if (!project || project.userId !== user._id) {
+    throw new Error("Project not found or access denied");
+  }
+  return project;
+}
+
+// Helper to trim and check a project name
+function validateProjectName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ConvexError("Project name can't be empty");
+  }
+  if (trimmed.length > MAX_PROJECT_NAME_LENGTH) {
+    throw new ConvexError(
+      `Project name can be at most ${MAX_PROJECT_NAME_LENGTH} characters`,
+    );
+  }
+  return trimmed;
+}
+
+// Helper to trim and check custom instructions. Empty ones are removed.
+function validateInstructions(instructions: string): string | undefined {
+  const trimmed = instructions.trim();
+  if (trimmed.length > MAX_PROJECT_INSTRUCTIONS_LENGTH) {
+    throw new ConvexError(
+      `Instructions can be at most ${MAX_PROJECT_INSTRUCTIONS_LENGTH} characters`,
+    );
+  }
+  return trimmed || undefined;
+}
+
+// Helper for deleting a project: moves its conversations out of it, deletes
+// its file records and schedules deleting its OpenAI files, vector store and
+// uploads. The conversations themselves are kept.
+export async function deleteProjectData(
+  ctx: MutationCtx,
+  project: Doc<"projects">,
+): Promise<void> {
+  const conversations = await ctx.db
+    .query("conversations")
+    .withIndex("by_projectId_and_updatedTime", (q) =>
+      q.eq("projectId", project._id),
+    )
+    .collect();
+  for (const conversation of conversations) {
+    await ctx.db.patch(conversation._id, { projectId: undefined });
+  }
+
+  const files = await ctx.db
+    .query("projectFiles")
+    .withIndex("by_projectId", (q) => q.eq("projectId", project._id))
+    .collect();
+  for (const file of files) {
+    await ctx.db.delete(file._id);
+  }
+  await scheduleResourceCleanup(ctx, {
+    userId: project.userId,
+    projectId: project._id,
+    vectorStoreId: project.vectorStoreId,
+    openaiFileIds: files.map((file) => file.openaiFileId),
+    storageIds: files.map((file) => file.storageId),
+  });
+  await ctx.db.delete(project._id);
+}
+
+// List the user's projects by name
+export const listProjects = query({
+  args: {},
+  returns: v.array(projectDoc),
+  handler: async (ctx) => {
+    const user = await getLoggedInUser(ctx);
+    const projects = await ctx.db
+      .query("projects")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+    return projects.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// List the files of a project, oldest first
+export const listProjectFiles = query({
+  args: { projectId: v.id("projects") },
+  returns: v.array(projectFileDoc),
+  handler: async (ctx, args) => {
+    await getOwnProject(ctx, args.projectId);
+    return await ctx.db
+      .query("projectFiles")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+  },
+});
+
+export const createProject = mutation({
+  args: { name: v.string(), instructions: v.string() },
+  returns: v.id("projects"),
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx);
+    return await ctx.db.insert("projects", {
+      userId: user._id,
+      name: validateProjectName(args.name),
+      instructions: validateInstructions(args.instructions),
+    });
+  },
+});
+
+// Mutation to rename a project and change its custom instructions
+export const updateProject = mutation({
+  args: {
+    projectId: v.id("projects"),
+    name: v.string(),
+    instructions: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await getOwnProject(ctx, args.projectId);
+    await ctx.db.patch(args.projectId, {
+      name: validateProjectName(args.name),
+      instructions: validateInstructions(args.instructions),
+    });
+    return null;
+  },
+});
+
+export const deleteProject = mutation({
+  args: { projectId: v.id("projects") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const project = await getOwnProject(ctx, args.projectId);
+    await deleteProjectData(ctx, project);
+    return null;
+  },
+});
+
+// Mutation to move a conversation into a project, or out of it with null
+export const setConversationProject = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    projectId: v.union(v.id("projects"), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== user._id) {
+      throw new Error("Conversation not found or access denied");
+    }
+    if (args.projectId) {
+      await getOwnProject(ctx, args.projectId);
+    }
+    await ctx.db.patch(args.conversationId, {
+      projectId: args.projectId ?? undefined,
+    });
+    return null;
+  },
+});
+
+// Mutation to remove a file from a project. The OpenAI file and upload are
+// deleted in the background.
+export const removeProjectFile = mutation({
+  args: { fileId: v.id("projectFiles") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const file = await ctx.db.get(args.fileId);
+    if (!file) {
+      throw new Error("File not found");
+    }
+    await getOwnProject(ctx, file.projectId);
+    await ctx.db.delete(args.fileId);
+    await scheduleResourceCleanup(ctx, {
+      userId: file.userId,
+      projectId: file.projectId,
+      openaiFileIds: [file.openaiFileId],
+      storageIds: [file.storageId],
+    });
+    return null;
+  },
+});
+
+// Internal query for generateAiResponse and uploadProjectFiles
+export const getProject = internalQuery({
+  args: { projectId: v.id("projects") },
+  returns: v.union(projectDoc, v.null()),
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.projectId);
+  },
+});
+
+// Internal mutation storing the vector store created for a project's files.
+// Returns the project's store, which is another one if an upload running at
+// the same time stored its store first, or null if the project was deleted.
+export const claimProjectVectorStore = internalMutation({
+  args: { projectId: v.id("projects"), vectorStoreId: v.string() },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, args) => {
+    const project = await ctx.db.get(args.projectId);
+    if (!project) {
+      return null;
+    }
+    if (project.vectorStoreId) {
+      return project.vectorStoreId;
+    }
+    await ctx.db.patch(args.projectId, { vectorStoreId: args.vectorStoreId });
+    return args.vectorStoreId;
+  },
+});
+
+// Internal mutation recording a file uploaded to a project. If the project
+// was deleted during the upload, the file is cleaned up instead.
+export const addProjectFile = internalMutation({
+  args: {
+    projectId: v.id("projects"),
+    userId: v.id("users"),
+    fileName: v.string(),
+    openaiFileId: v.string(),
+    storageId: v.id("_storage"),
+    fileType: v.string(),
+    fileSize: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (!(await ctx.db.get(args.projectId))) {
+      await scheduleResourceCleanup(ctx, {
+        userId: args.userId,
+        projectId: args.projectId,
+        openaiFileIds: [args.openaiFileId],
+        storageIds: [args.storageId],
+      });
+      return null;
+    }
+    await ctx.db.insert("projectFiles", args);
+    return null;
+  },
+});
@@ -0,0 +1,142 @@
+"use node"; // Explicitly mark as Node.js environment
+
+// Action uploading files to a project's vector store, which every chat in the
+// project searches with the file_search tool.
+import OpenAI from "openai";
+import { internal } from "./_generated/api";
+import { action } from "./_generated/server";
+import { v } from "convex/values";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+import { getUserApiKeys } from "./apiKeys";
+import {
+  MAX_FILES,
+  MAX_FILE_SIZE,
+  getMimeType,
+  isSupportedFileExtension,
+} from "./constants";
+
+export const uploadProjectFiles = action({
+  args: {
+    projectId: v.id("projects"),
+    uploadedConvexFiles: v.array(
+      v.object({
+        storageId: v.id("_storage"),
+        fileName: v.string(),
+      }),
+    ),
+  },
+  returns: v.object({ errors: v.array(v.string()) }),
+  handler: async (ctx, args): Promise<{ errors: string[] }> => {
+    const user = await getLoggedInUser(ctx);
+    const project = await ctx.runQuery(
+      internal.projectQueriesAndMutations.getProject,
+      { projectId: args.projectId },
+    );
+    if (!project || project.userId !== user._id) {
+      throw new Error("Project not found or access denied");
+    }
+    if (args.uploadedConvexFiles.length > MAX_FILES) {
+      throw new Error(
+        `Too many files uploaded. Maximum allowed: ${MAX_FILES}, received: ${args.uploadedConvexFiles.length}`,
+      );
+    }
+
+    const { openaiApiKey } = await getUserApiKeys(ctx, user._id);
+    if (!openaiApiKey) {
+      throw new Error("OpenAI API key is required to upload files");
+    }
+    const openaiClient = new OpenAI({
+      apiKey: openaiApiKey,
+    });
+
+    let vectorStoreId = project.vectorStoreId;
+    if (!vectorStoreId) {
+      const vectorStore = await openaiClient.vectorStores.create({
+        name: `project_${args.projectId}`,
+      });
+      const claimedId = await ctx.runMutation(
+        internal.projectQueriesAndMutations.claimProjectVectorStore,
+        { projectId: args.projectId, vectorStoreId: vectorStore.id },
+      );
+      // Another upload may have stored its store first, so ours is unused
+      if (claimedId !== vectorStore.id) {
+        await openaiClient.vectorStores
+          .delete(vectorStore.id)
+          .catch((error) => {
+            console.error(
+              `Failed to delete vector store ${vectorStore.id}:`,
+              error,
+            );
+          });
+      }
+      if (!claimedId) {
+        throw new Error("Project not found or access denied");
+      }
+      vectorStoreId = claimedId;
+    }
+
+    const errors: string[] = [];
+    for (const uploadedFile of args.uploadedConvexFiles) {
+      const fileExtension = uploadedFile.fileName
+        .split(".")
+        .pop()
+        ?.toLowerCase();
+      if (!fileExtension || !isSupportedFileExtension(fileExtension)) {
+        errors.push(
+          `File ${uploadedFile.fileName} has unsupported type: ${fileExtension}. Skipping.`,
+        );
+        continue;
+      }
+
+      const fileContent = await ctx.storage.get(uploadedFile.storageId);
+      if (!fileContent) {
+        errors.push(`File ${uploadedFile.fileName} not found. Skipping.`);
+        continue;
+      }
+      if (fileContent.size > MAX_FILE_SIZE) {
+        errors.push(
+          `File ${uploadedFile.fileName} is too large: ${fileContent.size} bytes (max: ${MAX_FILE_SIZE} bytes). Skipping.`,
+        );
+        continue;
+      }
+
+      let openaiFileId: string | undefined;
+      try {
+        const openAIFile = await openaiClient.files.create({
+          file: await OpenAI.toFile(fileContent, uploadedFile.fileName),
+          purpose: "assistants", // Required for vector stores
+        });
+        openaiFileId = openAIFile.id;
+        await openaiClient.vectorStores.files.create(vectorStoreId, {
+          file_id: openaiFileId,
+        });
+      } catch (error) {
+        const errorMessage = `Failed to add file ${uploadedFile.fileName} to the project: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(errorMessage);
+        errors.push(errorMessage);
+        // A file that isn't searchable is of no use to the project. Its
+        // upload is left alone, since nothing shows the caller made it.
+        if (openaiFileId) {
+          await openaiClient.files.delete(openaiFileId).catch((error) => {
+            console.error(`Failed to delete file ${openaiFileId}:`, error);
+          });
+        }
+        continue;
+      }
+
+      await ctx.runMutation(
+        internal.projectQueriesAndMutations.addProjectFile,
+        {
+          projectId: args.projectId,
+          userId: user._id,
+          fileName: uploadedFile.fileName,
+          openaiFileId,
+          storageId: uploadedFile.storageId,
+          fileType: getMimeType(uploadedFile.fileName, fileExtension),
+          fileSize: fileContent.size,
+        },
+      );
+    }
+    return { errors };
+  },
+});
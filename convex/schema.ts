@@ -1,6 +1,7 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import { EMBEDDING_DIMENSIONS } from "./embeddings";
 
 const applicationTables = {
   conversations: defineTable({
@@ -9,20 +10,129 @@ const applicationTables = {
     lastResponseId: v.optional(v.string()), // OpenAI Response ID for multi-turn conversations
     vectorStoreId: v.optional(v.string()), // OpenAI Vector Store ID for file search
     updatedTime: v.optional(v.number()), // Track last activity time for sorting
+    forkedFromConversationId: v.optional(v.id("conversations")), // Conversation this one was forked from
+    forkedFromMessageId: v.optional(v.id("messages")), // Message the fork was taken at
+    summary: v.optional(v.string()), // Rolling summary of older messages, sent as system context
+    summarizedThroughTime: v.optional(v.number()), // _creationTime of the last message covered by the summary
+    importedFrom: v.optional(
+      v.union(
+        v.literal("chatgpt"),
+        v.literal("claude"),
+        v.literal("app"),
+        v.literal("share"),
+      ),
+    ), // Tool the conversation was imported from (see convex/conversationImport.ts), or "share" when continued from a share link
+    deletedAt: v.optional(v.number()), // In the trash since, purged after TRASH_RETENTION_DAYS
+    pinnedAt: v.optional(v.number()), // Pinned to the top of the sidebar since
+    archivedAt: v.optional(v.number()), // Hidden from the sidebar's chat list since
+    projectId: v.optional(v.id("projects")), // Project whose instructions and files the chat uses
+    suggestedTagIds: v.optional(v.array(v.id("tags"))), // Tags the title generator suggested, see convex/tagQueriesAndMutations.ts
+    renamedByUser: v.optional(v.boolean()), // Named by the user, so the title generator keeps the name
+    deletingForever: v.optional(v.boolean()), // Partly deleted over several runs, so it can't be restored
     // We can add a title or other metadata later if needed
   })
     .index("by_userId", ["userId"])
+    .index("by_deletedAt", ["deletedAt"])
     .index("by_lastResponseId", ["lastResponseId"])
-    .index("by_userId_and_updatedTime", ["userId", "updatedTime"]),
+    .index("by_vectorStoreId", ["vectorStoreId"])
+    .index("by_forkedFromConversationId", ["forkedFromConversationId"])
+    .index("by_projectId_and_updatedTime", ["projectId", "updatedTime"])
+    .index("by_userId_and_updatedTime", ["userId", "updatedTime"])
+    .index("by_userId_and_pinnedAt", ["userId", "pinnedAt"])
+    // Indexes for listConversations, so each page only reads listed chats
+    .index("by_userId_and_deletedAt_and_archivedAt", [
+      "userId",
+      "deletedAt",
+      "archivedAt",
+    ])
+    .index(
+      "by_userId_and_deletedAt_and_archivedAt_and_pinnedAt_and_projectId_and_updatedTime",
+      [
+        "userId",
+        "deletedAt",
+        "archivedAt",
+        "pinnedAt",
+        "projectId",
+        "updatedTime",
+      ],
+    )
+    .index(
+      "by_projectId_and_deletedAt_and_archivedAt_and_pinnedAt_and_updatedTime",
+      ["projectId", "deletedAt", "archivedAt", "pinnedAt", "updatedTime"],
+    )
+    .searchIndex("search_name", {
+      searchField: "name",
+      filterFields: ["userId"],
+    }),
+
+  // User-defined labels for conversations, attached through conversationTags
+  tags: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    color: v.union(
+      v.literal("gray"),
+      v.literal("red"),
+      v.literal("orange"),
+      v.literal("yellow"),
+      v.literal("green"),
+      v.literal("blue"),
+      v.literal("purple"),
+      v.literal("pink"),
+    ),
+  }).index("by_userId", ["userId"]),
+
+  conversationTags: defineTable({
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    tagId: v.id("tags"),
+    // Copies of the conversation's fields, kept in sync so a tag's listed
+    // chats can be paged by index
+    deletedAt: v.optional(v.number()),
+    archivedAt: v.optional(v.number()),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_conversationId", ["conversationId"])
+    .index("by_tagId", ["tagId"])
+    .index("by_tagId_and_deletedAt_and_archivedAt", [
+      "tagId",
+      "deletedAt",
+      "archivedAt",
+    ]),
+
+  // Groups of conversations sharing custom instructions and a document set,
+  // see convex/projectQueriesAndMutations.ts
+  projects: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    instructions: v.optional(v.string()), // Added to the system prompt of every chat in the project
+    vectorStoreId: v.optional(v.string()), // OpenAI Vector Store with the project's files
+  }).index("by_userId", ["userId"]),
+
+  projectFiles: defineTable({
+    projectId: v.id("projects"),
+    userId: v.id("users"),
+    fileName: v.string(),
+    openaiFileId: v.string(),
+    storageId: v.id("_storage"),
+    fileType: v.string(),
+    fileSize: v.number(),
+  }).index("by_projectId", ["projectId"]),
 
   messages: defineTable({
     conversationId: v.id("conversations"),
+    userId: v.optional(v.id("users")), // Owner of the conversation, for searching across conversations
     author: v.union(v.literal("user"), v.literal("assistant")),
     content: v.string(),
     status: v.optional(
-      v.union(v.literal("typing"), v.literal("completed"), v.literal("error")),
+      v.union(
+        v.literal("typing"),
+        v.literal("completed"),
+        v.literal("error"),
+        v.literal("cancelled"),
+      ),
     ),
     errorDetails: v.optional(v.string()), // Store specific error details for error status
+    cancelRequested: v.optional(v.boolean()), // Set by the user to stop an in-flight reply
     fileIds: v.optional(v.array(v.string())), // OpenAI File IDs
     uploadedFileNames: v.optional(v.array(v.string())),
     // Add storage mapping for file previews
@@ -62,7 +172,112 @@ const applicationTables = {
     reasoningSummary: v.optional(v.string()),
     // Store the sender's timezone for each message
     timezone: v.optional(v.string()),
-  }).index("by_conversationId", ["conversationId"]),
+    // Regenerated replies are kept as sibling versions of the same user turn
+    replyToMessageId: v.optional(v.id("messages")), // User message an assistant reply answers
+    inactiveVersion: v.optional(v.boolean()), // Hidden sibling version that is not currently selected
+    imported: v.optional(v.boolean()), // Imported from another tool, so not part of any OpenAI response chain
+    // Token usage reported by the provider for assistant replies
+    usage: v.optional(
+      v.object({
+        inputTokens: v.number(),
+        outputTokens: v.number(), // Includes reasoning tokens
+        reasoningTokens: v.number(),
+        costUsd: v.optional(v.number()), // Estimate from MODEL_PRICES
+      }),
+    ),
+  })
+    .index("by_conversationId", ["conversationId"])
+    .index("by_replyToMessageId", ["replyToMessageId"])
+    .index("by_status", ["status"])
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["userId"],
+    }),
+
+  // Embeddings of completed messages for semantic search, see convex/embeddings.ts
+  messageEmbeddings: defineTable({
+    messageId: v.id("messages"),
+    conversationId: v.id("conversations"),
+    userId: v.id("users"),
+    model: v.string(), // Embedding model, "stub" in tests
+    embedding: v.array(v.float64()),
+  })
+    .index("by_messageId", ["messageId"])
+    .index("by_conversationId", ["conversationId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["userId"],
+    }),
+
+  // Public read-only links to conversations, see convex/shareQueriesAndMutations.ts
+  sharedConversations: defineTable({
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    slug: v.string(), // Unguessable, used in /share/$slug
+    mode: v.union(v.literal("snapshot"), v.literal("live")),
+    includeFiles: v.boolean(), // Show attachments, file previews and citations
+    name: v.string(), // Conversation name when shared
+    // Messages copied when shared, for snapshots only
+    snapshot: v.optional(
+      v.array(
+        v.object({
+          _id: v.id("messages"),
+          _creationTime: v.number(),
+          author: v.union(v.literal("user"), v.literal("assistant")),
+          content: v.string(),
+          model: v.optional(v.string()),
+          thinkingIntensity: v.optional(
+            v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+          ),
+          reasoningSummary: v.optional(v.string()),
+          uploadedFileNames: v.optional(v.array(v.string())),
+          citations: v.optional(
+            v.array(
+              v.union(
+                v.object({
+                  type: v.literal("file"),
+                  fileId: v.string(),
+                  fileName: v.string(),
+                }),
+                v.object({
+                  type: v.literal("url"),
+                  url: v.string(),
+                  title: v.string(),
+                }),
+              ),
+            ),
+          ),
+        }),
+      ),
+    ),
+  })
+    .index("by_slug", ["slug"])
+    .index("by_userId", ["userId"])
+    .index("by_conversationId", ["conversationId"]),
+
+  // One row per assistant reply with usage, kept when conversations are
+  // deleted so spending totals stay accurate
+  usageRecords: defineTable({
+    userId: v.id("users"),
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    model: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(), // Includes reasoning tokens
+    reasoningTokens: v.number(),
+    costUsd: v.optional(v.number()), // Estimate from MODEL_PRICES
+  })
+    .index("by_userId", ["userId"])
+    .index("by_conversationId", ["conversationId"]),
+
+  // Budget per provider, checked before replies are generated
+  spendingLimits: defineTable({
+    userId: v.id("users"),
+    provider: v.union(v.literal("openai"), v.literal("openrouter")),
+    period: v.union(v.literal("daily"), v.literal("monthly")),
+    limitUsd: v.number(),
+  }).index("by_userId_and_provider", ["userId", "provider"]),
 
   // New table for efficient file citation lookups
   fileMessageMappings: defineTable({
@@ -86,7 +301,51 @@ const applicationTables = {
     .index("by_openaiFileId", ["openaiFileId"]) // Primary lookup by file ID
     .index("by_uploadedBy", ["uploadedBy"]) // Find files uploaded by user
     .index("by_fileType", ["fileType"]) // Find files by type
-    .index("by_conversationId", ["firstUsedInConversationId"]), // Optional: context lookup
+    .index("by_conversationId", ["firstUsedInConversationId"]) // Optional: context lookup
+    .index("by_storageId", ["storageId"]), // Check if an upload is still used before deleting it
+
+  // OpenAI files, vector stores and uploads of deleted conversations and
+  // projects, deleted in the background by convex/cleanup.ts and kept as an
+  // audit record
+  conversationCleanups: defineTable({
+    userId: v.id("users"),
+    conversationId: v.optional(v.id("conversations")), // The deleted conversation
+    projectId: v.optional(v.id("projects")), // The deleted project, or the one a file was removed from
+    vectorStoreId: v.optional(v.string()),
+    openaiFileIds: v.array(v.string()),
+    storageIds: v.array(v.id("_storage")),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("completed"),
+      v.literal("failed"),
+    ),
+    attempts: v.number(),
+    lastError: v.optional(v.string()),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_status", ["status"])
+    .index("by_userId", ["userId"]),
+
+  // Background jobs deleting all of a user's chats, or their whole account,
+  // see convex/accountQueriesAndMutations.ts
+  deletionJobs: defineTable({
+    userId: v.id("users"),
+    kind: v.union(v.literal("conversations"), v.literal("account")),
+    status: v.union(v.literal("running"), v.literal("completed")),
+    total: v.number(), // Conversations when the job started
+    deleted: v.number(),
+    updatedAt: v.number(), // Last progress, used to resume stalled jobs
+    completedAt: v.optional(v.number()),
+  }).index("by_userId", ["userId"]),
+
+  userApiKeys: defineTable({
+    userId: v.id("users"),
+    provider: v.union(v.literal("openai"), v.literal("openrouter")),
+    encryptedKey: v.string(), // AES-256-GCM ciphertext, see convex/apiKeys.ts
+    keyHint: v.string(), // Last characters of the key, shown in settings
+    updatedAt: v.number(),
+    quotaExhaustedAt: v.optional(v.number()), // A reply failed for lack of credits, until one succeeds or the key is replaced
+  }).index("by_userId_and_provider", ["userId", "provider"]),
 };
 
 export default defineSchema({
@@ -0,0 +1,94 @@
+// Snippets for full-text search results. Pure helpers so they can be unit
+// tested without Convex.
+
+// Maximum length of a snippet, not counting the ellipses
+export const SNIPPET_LENGTH = 160;
+
+// How far into the snippet the first match is placed when content is cut
+const SNIPPET_LEAD = 40;
+
+export interface Highlight {
+  start: number;
+  end: number; // Exclusive
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: Highlight[];
+}
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+// Lowercase terms of a search query, without duplicates
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+  return Array.from(new Set(terms));
+}
+
+// Ranges of words in `text` starting with one of the terms, sorted and
+// merged. Search indexes match the last term as a prefix, so every term is
+// highlighted that way.
+export function findMatches(text: string, terms: string[]): Highlight[] {
+  const lowerText = text.toLowerCase();
+  const matches: Highlight[] = [];
+  for (const term of terms) {
+    let index = lowerText.indexOf(term);
+    while (index !== -1) {
+      if (index === 0 || !WORD_CHARACTER.test(lowerText[index - 1])) {
+        matches.push({ start: index, end: index + term.length });
+      }
+      index = lowerText.indexOf(term, index + term.length);
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start);
+  const merged: Highlight[] = [];
+  for (const match of matches) {
+    const last = merged[merged.length - 1];
+    if (last && match.start <= last.end) {
+      last.end = Math.max(last.end, match.end);
+    } else {
+      merged.push({ ...match });
+    }
+  }
+  return merged;
+}
+
+// Single-line excerpt of `content` around the first match of the query, with
+// the ranges to highlight relative to the returned text
+export function buildSnippet(
+  content: string,
+  query: string,
+  maxLength: number = SNIPPET_LENGTH,
+): SearchSnippet {
+  const text = content.replace(/\s+/g, " ").trim();
+  const matches = findMatches(text, getSearchTerms(query));
+
+  let start = 0;
+  if (text.length > maxLength && matches.length > 0) {
+    start = Math.max(0, matches[0].start - SNIPPET_LEAD);
+    start = Math.min(start, text.length - maxLength);
+    // Don't start in the middle of a word
+    const nextSpace = text.indexOf(" ", start);
+    if (start > 0 && nextSpace !== -1 && nextSpace < matches[0].start) {
+      start = nextSpace + 1;
+    }
+  }
+  const end = Math.min(text.length, start + maxLength);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const offset = prefix.length - start;
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    highlights: matches
+      .filter((match) => match.start < end && match.end > start)
+      .map((match) => ({
+        start: Math.max(match.start, start) + offset,
+        end: Math.min(match.end, end) + offset,
+      })),
+  };
+}
@@ -0,0 +1,276 @@
+// This file does NOT use "use node" and contains queries and mutations for
+// searching conversations and messages.
+import { query, internalQuery, internalMutation } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+import { buildSnippet } from "./search";
+
+// Maximum number of matching messages and conversation names returned
+export const MESSAGE_RESULT_LIMIT = 20;
+export const CONVERSATION_RESULT_LIMIT = 5;
+
+// Longer queries are cut, search indexes only use the first terms anyway
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Messages patched per run of the backfill
+const BACKFILL_BATCH_SIZE = 200;
+
+export const searchResultDoc = v.object({
+  conversationId: v.id("conversations"),
+  conversationName: v.string(),
+  messageId: v.optional(v.id("messages")), // Unset when the conversation name matched
+  author: v.optional(v.union(v.literal("user"), v.literal("assistant"))),
+  snippet: v.string(),
+  highlights: v.array(v.object({ start: v.number(), end: v.number() })),
+  time: v.number(),
+  score: v.optional(v.number()), // Similarity of semantic search results
+});
+
+// Query to search the names of the user's conversations and the content of
+// their messages. Results are ordered by relevance, conversations first.
+export const searchMessages = query({
+  args: { query: v.string() },
+  returns: v.array(searchResultDoc),
+  handler: async (ctx, args) => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const searchText = args.query.trim().slice(0, MAX_SEARCH_QUERY_LENGTH);
+    if (!searchText) {
+      return [];
+    }
+
+    // Conversations in the trash are left out
+    const conversations = (
+      await ctx.db
+        .query("conversations")
+        .withSearchIndex("search_name", (q) =>
+          q.search("name", searchText).eq("userId", user._id),
+        )
+        .take(CONVERSATION_RESULT_LIMIT)
+    ).filter((conversation) => conversation.deletedAt === undefined);
+
+    // Hidden versions of regenerated replies can't be jumped to
+    const messages = await ctx.db
+      .query("messages")
+      .withSearchIndex("search_content", (q) =>
+        q.search("content", searchText).eq("userId", user._id),
+      )
+      .filter((q) => q.neq(q.field("inactiveVersion"), true))
+      .take(MESSAGE_RESULT_LIMIT);
+
+    const conversationNames = new Map<Id<"conversations">, string>(
+      conversations.map((conversation) => [
+        conversation._id,
+        conversation.name,
+      ]),
+    );
+    const getConversationName = async (conversationId: Id<"conversations">) => {
+      if (!conversationNames.has(conversationId)) {
+        const conversation = await ctx.db.get(conversationId);
+        if (
+          conversation &&
+          conversation.userId === user._id &&
+          conversation.deletedAt === undefined
+        ) {
+          conversationNames.set(conversationId, conversation.name);
+        }
+      }
+      return conversationNames.get(conversationId);
+    };
+
+    const results: Infer<typeof searchResultDoc>[] = conversations.map(
+      (conversation) => {
+        // Generated titles may be wrapped in quotes
+        const { text, highlights } = buildSnippet(
+          conversation.name.replace(/^"|"$/g, ""),
+          searchText,
+        );
+        return {
+          conversationId: conversation._id,
+          conversationName: conversation.name,
+          snippet: text,
+          highlights,
+          time: conversation.updatedTime ?? conversation._creationTime,
+        };
+      },
+    );
+    for (const message of messages) {
+      const conversationName = await getConversationName(
+        message.conversationId,
+      );
+      if (conversationName === undefined) {
+        continue;
+      }
+      const { text, highlights } = buildSnippet(message.content, searchText);
+      results.push({
+        conversationId: message.conversationId,
+        conversationName,
+        messageId: message._id,
+        author: message.author,
+        snippet: text,
+        highlights,
+        time: message._creationTime,
+      });
+    }
+    return results;
+  },
+});
+
+// Internal mutation to store the owner on messages created before messages
+// had one, so they show up in search. Processes a batch and schedules itself
+// for the next one:
+//   npx convex run searchQueriesAndMutations:backfillMessageUserIds
+export const backfillMessageUserIds = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("messages")
+      .paginate({ cursor: args.cursor ?? null, numItems: BACKFILL_BATCH_SIZE });
+
+    const userIds = new Map<Id<"conversations">, Id<"users"> | null>();
+    for (const message of page) {
+      if (message.userId) {
+        continue;
+      }
+      if (!userIds.has(message.conversationId)) {
+        const conversation = await ctx.db.get(message.conversationId);
+        userIds.set(message.conversationId, conversation?.userId ?? null);
+      }
+      const userId = userIds.get(message.conversationId);
+      if (userId) {
+        await ctx.db.patch(message._id, { userId });
+      }
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.searchQueriesAndMutations.backfillMessageUserIds,
+        { cursor: continueCursor },
+      );
+    }
+    return null;
+  },
+});
+
+// Semantic search
+
+// Internal query to load the completed messages to embed, with their owner
+export const getMessagesToEmbed = internalQuery({
+  args: { messageIds: v.array(v.id("messages")) },
+  returns: v.array(
+    v.object({
+      messageId: v.id("messages"),
+      userId: v.id("users"),
+      content: v.string(),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const messages = [];
+    for (const messageId of args.messageIds) {
+      const message = await ctx.db.get(messageId);
+      if (
+        !message ||
+        !message.content.trim() ||
+        (message.author === "assistant" && message.status !== "completed")
+      ) {
+        continue;
+      }
+      const conversation = await ctx.db.get(message.conversationId);
+      if (!conversation) {
+        continue;
+      }
+      messages.push({
+        messageId,
+        userId: conversation.userId,
+        content: message.content,
+      });
+    }
+    return messages;
+  },
+});
+
+// Internal mutation to store message embeddings, replacing earlier ones
+export const storeMessageEmbeddings = internalMutation({
+  args: {
+    model: v.string(),
+    embeddings: v.array(
+      v.object({
+        messageId: v.id("messages"),
+        embedding: v.array(v.float64()),
+      }),
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    for (const { messageId, embedding } of args.embeddings) {
+      const message = await ctx.db.get(messageId);
+      const conversation =
+        message && (await ctx.db.get(message.conversationId));
+      if (!message || !conversation || message.inactiveVersion) {
+        continue; // Deleted or hidden while the embedding was computed
+      }
+
+      const existing = await ctx.db
+        .query("messageEmbeddings")
+        .withIndex("by_messageId", (q) => q.eq("messageId", messageId))
+        .first();
+      if (existing) {
+        await ctx.db.patch(existing._id, { model: args.model, embedding });
+      } else {
+        await ctx.db.insert("messageEmbeddings", {
+          messageId,
+          conversationId: message.conversationId,
+          userId: conversation.userId,
+          model: args.model,
+          embedding,
+        });
+      }
+    }
+    return null;
+  },
+});
+
+// Internal query to turn vector search matches into results, best first.
+// Matches of hidden reply versions and other users are dropped.
+export const getSemanticSearchResults = internalQuery({
+  args: {
+    userId: v.id("users"),
+    matches: v.array(
+      v.object({ _id: v.id("messageEmbeddings"), _score: v.number() }),
+    ),
+  },
+  returns: v.array(searchResultDoc),
+  handler: async (ctx, args) => {
+    const results: Infer<typeof searchResultDoc>[] = [];
+    for (const match of args.matches) {
+      const embedding = await ctx.db.get(match._id);
+      const message = embedding && (await ctx.db.get(embedding.messageId));
+      if (!message || message.inactiveVersion) {
+        continue;
+      }
+      const conversation = await ctx.db.get(message.conversationId);
+      if (
+        !conversation ||
+        conversation.userId !== args.userId ||
+        conversation.deletedAt !== undefined
+      ) {
+        continue;
+      }
+      const { text } = buildSnippet(message.content, "");
+      results.push({
+        conversationId: conversation._id,
+        conversationName: conversation.name,
+        messageId: message._id,
+        author: message.author,
+        snippet: text,
+        highlights: [],
+        time: message._creationTime,
+        score: match._score,
+      });
+    }
+    return results;
+  },
+});
@@ -0,0 +1,120 @@
+"use node"; // Explicitly mark as Node.js environment
+
+// Actions computing message embeddings and searching them by meaning.
+import OpenAI from "openai";
+import { internal } from "./_generated/api";
+import { action, internalAction } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { ConvexError, v, type Infer } from "convex/values";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+import { getUserApiKeys } from "./apiKeys";
+import {
+  createOpenAIEmbeddingProvider,
+  createStubEmbeddingProvider,
+  getEmbeddingInput,
+  type EmbeddingProvider,
+} from "./embeddings";
+import {
+  MAX_SEARCH_QUERY_LENGTH,
+  searchResultDoc,
+} from "./searchQueriesAndMutations";
+
+export const DEFAULT_SEMANTIC_RESULT_LIMIT = 10;
+export const MAX_SEMANTIC_RESULT_LIMIT = 50;
+
+// Embedding provider for a user: the stub when EMBEDDING_PROVIDER is "stub",
+// otherwise OpenAI with the same key fallback as title generation. Null
+// without a key.
+export async function getEmbeddingProvider(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+): Promise<EmbeddingProvider | null> {
+  if (process.env.EMBEDDING_PROVIDER === "stub") {
+    return createStubEmbeddingProvider();
+  }
+  const { openaiApiKey } = await getUserApiKeys(ctx, userId);
+  const apiKey = openaiApiKey || process.env.CONVEX_OPENAI_API_KEY;
+  return apiKey ? createOpenAIEmbeddingProvider(new OpenAI({ apiKey })) : null;
+}
+
+// Internal action scheduled when a reply completes, embedding it and the
+// user message it answers. Failures are logged, search simply misses them.
+export const embedMessages = internalAction({
+  args: { messageIds: v.array(v.id("messages")) },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    try {
+      const messages = await ctx.runQuery(
+        internal.searchQueriesAndMutations.getMessagesToEmbed,
+        { messageIds: args.messageIds },
+      );
+      if (messages.length === 0) {
+        return null;
+      }
+
+      const provider = await getEmbeddingProvider(ctx, messages[0].userId);
+      if (!provider) {
+        console.warn("No OpenAI API key available for message embeddings");
+        return null;
+      }
+
+      const embeddings = await provider.embed(
+        messages.map((message) => getEmbeddingInput(message.content)),
+      );
+      await ctx.runMutation(
+        internal.searchQueriesAndMutations.storeMessageEmbeddings,
+        {
+          model: provider.model,
+          embeddings: messages.map((message, i) => ({
+            messageId: message.messageId,
+            embedding: embeddings[i],
+          })),
+        },
+      );
+    } catch (error) {
+      console.error("Failed to embed messages:", error);
+    }
+    return null;
+  },
+});
+
+// Action to find the user's messages closest in meaning to a question, e.g.
+// "where did we discuss rate limiting", across all conversations
+export const semanticSearch = action({
+  args: { query: v.string(), limit: v.optional(v.number()) },
+  returns: v.array(searchResultDoc),
+  handler: async (ctx, args): Promise<Infer<typeof searchResultDoc>[]> => {
+    const user = await getLoggedInUser(ctx);
+    const searchText = args.query.trim().slice(0, MAX_SEARCH_QUERY_LENGTH);
+    if (!searchText) {
+      return [];
+    }
+
+    const provider = await getEmbeddingProvider(ctx, user._id);
+    if (!provider) {
+      throw new ConvexError(
+        "Add an OpenAI API key in Settings to search by meaning",
+      );
+    }
+
+    const [vector] = await provider.embed([searchText]);
+    const limit = Math.min(
+      Math.max(1, Math.floor(args.limit ?? DEFAULT_SEMANTIC_RESULT_LIMIT)),
+      MAX_SEMANTIC_RESULT_LIMIT,
+    );
+    const matches = await ctx.vectorSearch(
+      "messageEmbeddings",
+      "by_embedding",
+      {
+        vector,
+        limit,
+        filter: (q) => q.eq("userId", user._id),
+      },
+    );
+    return await ctx.runQuery(
+      internal.searchQueriesAndMutations.getSemanticSearchResults,
+      { userId: user._id, matches },
+    );
+  },
+});
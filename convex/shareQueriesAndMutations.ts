@@ -0,0 +1,520 @@
+// This file does NOT use "use node" and contains queries and mutations for
+// public read-only share links to conversations.
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+} from "./_generated/server";
+import { ConvexError, v, type Infer } from "convex/values";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+
+// 128 random bits, hex encoded in the link
+export const SHARE_SLUG_BYTES = 16;
+// Snapshots are stored in the share document, which Convex limits to 1MB
+export const MAX_SNAPSHOT_SIZE = 800 * 1024;
+
+const shareModeValidator = v.union(v.literal("snapshot"), v.literal("live"));
+
+const sharedMessageFields = {
+  _id: v.id("messages"),
+  _creationTime: v.number(),
+  author: v.union(v.literal("user"), v.literal("assistant")),
+  content: v.string(),
+  model: v.optional(v.string()),
+  thinkingIntensity: v.optional(
+    v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+  ),
+  reasoningSummary: v.optional(v.string()),
+  uploadedFileNames: v.optional(v.array(v.string())),
+  citations: v.optional(
+    v.array(
+      v.union(
+        v.object({
+          type: v.literal("file"),
+          fileId: v.string(),
+          fileName: v.string(),
+        }),
+        v.object({
+          type: v.literal("url"),
+          url: v.string(),
+          title: v.string(),
+        }),
+      ),
+    ),
+  ),
+};
+
+// Shared messages as shown on the share page and stored in snapshots, without
+// private fields such as the conversation, OpenAI IDs and usage
+const sharedMessageDoc = v.object(sharedMessageFields);
+
+type SharedMessage = Infer<typeof sharedMessageDoc>;
+
+const shareDoc = v.object({
+  _id: v.id("sharedConversations"),
+  _creationTime: v.number(),
+  conversationId: v.id("conversations"),
+  slug: v.string(),
+  mode: shareModeValidator,
+  includeFiles: v.boolean(),
+  name: v.string(),
+});
+
+function generateShareSlug(): string {
+  const bytes = new Uint8Array(SHARE_SLUG_BYTES);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+function toSharedMessage(message: Doc<"messages">): SharedMessage {
+  return {
+    _id: message._id,
+    _creationTime: message._creationTime,
+    author: message.author,
+    content: message.content,
+    model: message.model,
+    thinkingIntensity: message.thinkingIntensity,
+    reasoningSummary: message.reasoningSummary,
+    uploadedFileNames: message.uploadedFileNames,
+    citations: message.citations,
+  };
+}
+
+// Helper to load the messages shown in a share: the selected versions of
+// finished messages, so live shares don't show replies mid-stream
+async function getShareableMessages(
+  ctx: QueryCtx,
+  conversationId: Id<"conversations">,
+): Promise<Doc<"messages">[]> {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_conversationId", (q) =>
+      q.eq("conversationId", conversationId),
+    )
+    .order("asc")
+    .collect();
+  return messages.filter(
+    (message) =>
+      !message.inactiveVersion &&
+      message.status !== "typing" &&
+      message.status !== "error",
+  );
+}
+
+async function getShareBySlug(
+  ctx: QueryCtx,
+  slug: string,
+): Promise<Doc<"sharedConversations"> | null> {
+  return await ctx.db
+    .query("sharedConversations")
+    .withIndex("by_slug", (q) => q.eq("slug", slug))
+    .unique();
+}
+
+// Helper to load the name and messages a share currently shows, or null if
+// the conversation is in the trash
+async function getSharedContent(
+  ctx: QueryCtx,
+  share: Doc<"sharedConversations">,
+): Promise<{ name: string; messages: SharedMessage[] } | null> {
+  const conversation = await ctx.db.get(share.conversationId);
+  if (!conversation || conversation.deletedAt !== undefined) {
+    return null;
+  }
+  if (share.mode === "snapshot") {
+    return { name: share.name, messages: share.snapshot ?? [] };
+  }
+  return {
+    name: conversation.name,
+    messages: (await getShareableMessages(ctx, share.conversationId)).map(
+      toSharedMessage,
+    ),
+  };
+}
+
+// Mutation to create a share link. Snapshots copy the messages as they are
+// now, live links always show the current conversation.
+export const createShare = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    mode: shareModeValidator,
+    includeFiles: v.boolean(),
+  },
+  returns: v.object({
+    shareId: v.id("sharedConversations"),
+    slug: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== user._id) {
+      throw new Error("Conversation not found or access denied");
+    }
+
+    let snapshot: SharedMessage[] | undefined;
+    if (args.mode === "snapshot") {
+      snapshot = (await getShareableMessages(ctx, args.conversationId)).map(
+        toSharedMessage,
+      );
+      if (snapshot.length === 0) {
+        throw new ConvexError("There are no messages to share yet");
+      }
+      if (JSON.stringify(snapshot).length > MAX_SNAPSHOT_SIZE) {
+        throw new ConvexError(
+          "This chat is too long for a snapshot. Share a live link instead.",
+        );
+      }
+    }
+
+    const slug = generateShareSlug();
+    const shareId = await ctx.db.insert("sharedConversations", {
+      userId: user._id,
+      conversationId: args.conversationId,
+      slug,
+      mode: args.mode,
+      includeFiles: args.includeFiles,
+      name: conversation.name,
+      snapshot,
+    });
+    return { shareId, slug };
+  },
+});
+
+// List the user's share links, optionally for one conversation
+export const listShares = query({
+  args: { conversationId: v.optional(v.id("conversations")) },
+  returns: v.array(shareDoc),
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx);
+    const shares = await ctx.db
+      .query("sharedConversations")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+    // Links to conversations in the trash don't work, so they aren't listed
+    const trashed = new Set<Id<"conversations">>();
+    for (const share of shares) {
+      const conversation = await ctx.db.get(share.conversationId);
+      if (!conversation || conversation.deletedAt !== undefined) {
+        trashed.add(share.conversationId);
+      }
+    }
+    return shares
+      .filter(
+        (share) =>
+          (!args.conversationId ||
+            share.conversationId === args.conversationId) &&
+          !trashed.has(share.conversationId),
+      )
+      .map(
+        ({
+          _id,
+          _creationTime,
+          conversationId,
+          slug,
+          mode,
+          includeFiles,
+          name,
+        }) => ({
+          _id,
+          _creationTime,
+          conversationId,
+          slug,
+          mode,
+          includeFiles,
+          name,
+        }),
+      );
+  },
+});
+
+// Mutation to revoke a share link. The link stops working immediately.
+export const revokeShare = mutation({
+  args: { shareId: v.id("sharedConversations") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx);
+    const share = await ctx.db.get(args.shareId);
+    if (!share || share.userId !== user._id) {
+      throw new Error("Share link not found");
+    }
+    await ctx.db.delete(args.shareId);
+    return null;
+  },
+});
+
+// Public query for the share page. Needs no sign-in, the slug is the secret.
+// Attachments and citations are left out unless the share includes files.
+export const getSharedConversation = query({
+  args: { slug: v.string() },
+  returns: v.union(
+    v.object({
+      name: v.string(),
+      mode: shareModeValidator,
+      includeFiles: v.boolean(),
+      sharedAt: v.number(),
+      messages: v.array(sharedMessageDoc),
+    }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const share = await getShareBySlug(ctx, args.slug);
+    if (!share) {
+      return null;
+    }
+
+    const content = await getSharedContent(ctx, share);
+    if (!content) {
+      return null;
+    }
+
+    return {
+      name: content.name.replace(/^"|"$/g, ""),
+      mode: share.mode,
+      includeFiles: share.includeFiles,
+      sharedAt: share._creationTime,
+      messages: content.messages.map((message) => ({
+        ...message,
+        uploadedFileNames: share.includeFiles
+          ? message.uploadedFileNames
+          : undefined,
+        citations: share.includeFiles ? message.citations : undefined,
+      })),
+    };
+  },
+});
+
+// Helper to check that a message is part of a share that includes files
+async function getSharedFileMessage(
+  ctx: QueryCtx,
+  slug: string,
+  messageId: Id<"messages">,
+): Promise<Doc<"messages"> | null> {
+  const share = await getShareBySlug(ctx, slug);
+  if (!share || !share.includeFiles) {
+    return null;
+  }
+  const conversation = await ctx.db.get(share.conversationId);
+  const message = await ctx.db.get(messageId);
+  if (
+    !conversation ||
+    conversation.deletedAt !== undefined ||
+    !message ||
+    message.conversationId !== share.conversationId ||
+    message.inactiveVersion
+  ) {
+    return null;
+  }
+  if (
+    share.mode === "snapshot" &&
+    !share.snapshot?.some((shared) => shared._id === messageId)
+  ) {
+    return null;
+  }
+  return message;
+}
+
+// Public query to find the attachment a file citation on a share page refers to
+export const findSharedFileByOpenAIId = query({
+  args: { slug: v.string(), openaiFileId: v.string() },
+  returns: v.union(
+    v.object({ messageId: v.id("messages"), fileName: v.string() }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const share = await getShareBySlug(ctx, args.slug);
+    if (!share || !share.includeFiles) {
+      return null;
+    }
+    const fileMappings = await ctx.db
+      .query("fileMessageMappings")
+      .withIndex("by_openaiFileId", (q) =>
+        q.eq("openaiFileId", args.openaiFileId),
+      )
+      .collect();
+    const fileMapping = fileMappings.find(
+      (mapping) =>
+        mapping.firstUsedInConversationId === share.conversationId &&
+        mapping.firstUsedInMessageId,
+    );
+    if (!fileMapping?.firstUsedInMessageId) {
+      return null;
+    }
+    const message = await getSharedFileMessage(
+      ctx,
+      args.slug,
+      fileMapping.firstUsedInMessageId,
+    );
+    return message
+      ? { messageId: message._id, fileName: fileMapping.fileName }
+      : null;
+  },
+});
+
+// Internal query for getSharedFileForPreview, returning the stored upload if
+// the share includes files
+export const getSharedFile = internalQuery({
+  args: {
+    slug: v.string(),
+    messageId: v.id("messages"),
+    fileName: v.string(),
+  },
+  returns: v.union(
+    v.object({
+      fileName: v.string(),
+      storageId: v.id("_storage"),
+      fileType: v.string(),
+      fileSize: v.number(),
+    }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const message = await getSharedFileMessage(ctx, args.slug, args.messageId);
+    return (
+      message?.uploadedFiles?.find((file) => file.fileName === args.fileName) ??
+      null
+    );
+  },
+});
+
+const copiedFileValidator = v.object({
+  messageId: v.id("messages"),
+  fileName: v.string(),
+  storageId: v.id("_storage"),
+  fileType: v.string(),
+  fileSize: v.number(),
+  sourceFileId: v.optional(v.string()),
+});
+
+// Internal mutation for continueSharedConversation: copies a share into a new
+// conversation owned by the user. The copy starts without the owner's vector
+// store and response chain, and returns the attachments to upload again.
+export const copySharedConversation = internalMutation({
+  args: { slug: v.string(), userId: v.id("users") },
+  returns: v.object({
+    conversationId: v.id("conversations"),
+    files: v.array(copiedFileValidator),
+  }),
+  handler: async (ctx, args) => {
+    const share = await getShareBySlug(ctx, args.slug);
+    const content = share ? await getSharedContent(ctx, share) : null;
+    if (!share || !content) {
+      throw new ConvexError("This share link doesn't exist or was revoked");
+    }
+    if (content.messages.length === 0) {
+      throw new ConvexError("There are no messages to continue from");
+    }
+
+    const conversationId = await ctx.db.insert("conversations", {
+      userId: args.userId,
+      name: content.name,
+      updatedTime: Date.now(),
+      importedFrom: "share",
+    });
+
+    const files: Infer<typeof copiedFileValidator>[] = [];
+    for (const message of content.messages) {
+      const messageId = await ctx.db.insert("messages", {
+        conversationId,
+        userId: args.userId,
+        author: message.author,
+        content: message.content,
+        status: message.author === "assistant" ? "completed" : undefined,
+        model: message.model,
+        thinkingIntensity: message.thinkingIntensity,
+        reasoningSummary: message.reasoningSummary,
+        uploadedFileNames: share.includeFiles
+          ? message.uploadedFileNames
+          : undefined,
+        citations: share.includeFiles ? message.citations : undefined,
+        imported: true,
+      });
+
+      if (!share.includeFiles || !message.uploadedFileNames?.length) {
+        continue;
+      }
+      // Uploads are read from the original message, which snapshots don't copy
+      const original = await ctx.db.get(message._id);
+      const uploadedFiles = original?.uploadedFiles ?? [];
+      // OpenAI file IDs line up with the uploads when every upload succeeded
+      const sourceFileIds =
+        original?.fileIds?.length === uploadedFiles.length
+          ? original.fileIds
+          : [];
+      uploadedFiles.forEach((file, index) => {
+        files.push({
+          messageId,
+          ...file,
+          sourceFileId: sourceFileIds[index],
+        });
+      });
+    }
+
+    return { conversationId, files };
+  },
+});
+
+// Internal mutation for continueSharedConversation: attaches the uploaded
+// copies to the new messages and points file citations at them
+export const attachCopiedFiles = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    messages: v.array(
+      v.object({
+        messageId: v.id("messages"),
+        fileIds: v.array(v.string()),
+        vectorStoreFileIds: v.array(v.string()),
+        uploadedFiles: v.array(
+          v.object({
+            fileName: v.string(),
+            storageId: v.id("_storage"),
+            fileType: v.string(),
+            fileSize: v.number(),
+          }),
+        ),
+      }),
+    ),
+    fileIdMap: v.array(v.object({ from: v.string(), to: v.string() })),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    for (const { messageId, ...files } of args.messages) {
+      await ctx.db.patch(messageId, files);
+    }
+
+    const newFileIds = new Map(
+      args.fileIdMap.map(({ from, to }) => [from, to]),
+    );
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversationId", (q) =>
+        q.eq("conversationId", args.conversationId),
+      )
+      .collect();
+    for (const message of messages) {
+      if (!message.citations?.some((citation) => citation.type === "file")) {
+        continue;
+      }
+      // Citations to files that weren't copied can't be opened, so drop them
+      const citations = message.citations
+        .filter(
+          (citation) =>
+            citation.type !== "file" || newFileIds.has(citation.fileId),
+        )
+        .map((citation) =>
+          citation.type === "file"
+            ? { ...citation, fileId: newFileIds.get(citation.fileId)! }
+            : citation,
+        );
+      await ctx.db.patch(message._id, {
+        citations: citations.length > 0 ? citations : undefined,
+      });
+    }
+    return null;
+  },
+});
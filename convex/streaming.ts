@@ -0,0 +1,73 @@
+// Helpers for writing a streamed reply to its message in batches. Writing
+// every delta would run hundreds of mutations per reply, and each one sends
+// the whole message to every subscriber again.
+
+// Pending text is written at most this often, or sooner once this many
+// characters have piled up. The first delta is written right away.
+export const STREAM_FLUSH_INTERVAL_MS = 250;
+export const STREAM_FLUSH_MAX_CHARS = 2000;
+
+export interface StreamBatch {
+  content: string; // Reply text since the last write, may be empty
+  reasoningSummary?: string; // The whole reasoning summary, if it changed
+}
+
+export interface StreamWriter {
+  appendContent: (delta: string) => Promise<void>;
+  setReasoningSummary: (reasoningSummary: string) => Promise<void>;
+  // Writes whatever is pending. Must be called before the message is marked
+  // complete, cancelled or failed.
+  flush: () => Promise<void>;
+  // All the reply text and the latest reasoning summary passed in so far,
+  // written or not
+  getStreamedText: () => string;
+}
+
+// Pending text is only checked when a delta arrives, so a pause in the
+// stream holds it back until the next delta or the final flush
+export function createStreamWriter(
+  write: (batch: StreamBatch) => Promise<void>,
+  now: () => number = Date.now,
+): StreamWriter {
+  let content = "";
+  let reasoningSummary: string | undefined;
+  let lastWrittenAt: number | undefined;
+  let streamedContent = "";
+  let latestReasoningSummary = "";
+
+  const flush = async () => {
+    if (!content && reasoningSummary === undefined) {
+      return;
+    }
+    const batch = { content, reasoningSummary };
+    content = "";
+    reasoningSummary = undefined;
+    lastWrittenAt = now();
+    await write(batch);
+  };
+
+  const flushIfDue = async () => {
+    if (
+      lastWrittenAt === undefined ||
+      now() - lastWrittenAt >= STREAM_FLUSH_INTERVAL_MS ||
+      content.length >= STREAM_FLUSH_MAX_CHARS
+    ) {
+      await flush();
+    }
+  };
+
+  return {
+    appendContent: async (delta) => {
+      content += delta;
+      streamedContent += delta;
+      await flushIfDue();
+    },
+    setReasoningSummary: async (summary) => {
+      reasoningSummary = summary;
+      latestReasoningSummary = summary;
+      await flushIfDue();
+    },
+    flush,
+    getStreamedText: () => latestReasoningSummary + streamedContent,
+  };
+}
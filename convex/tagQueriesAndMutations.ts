@@ -0,0 +1,264 @@
+// This file does NOT use "use node" and contains queries and mutations for
+// tags, which users attach to conversations to label and filter them.
+import { query, mutation, internalQuery } from "./_generated/server";
+import type { QueryCtx, MutationCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+import {
+  MAX_LISTED_CONVERSATION_TAGS,
+  MAX_SUGGESTED_TAGS,
+  MAX_TAG_NAME_LENGTH,
+} from "./constants";
+
+export const tagColorValidator = v.union(
+  v.literal("gray"),
+  v.literal("red"),
+  v.literal("orange"),
+  v.literal("yellow"),
+  v.literal("green"),
+  v.literal("blue"),
+  v.literal("purple"),
+  v.literal("pink"),
+);
+
+const tagDoc = v.object({
+  _id: v.id("tags"),
+  _creationTime: v.number(),
+  userId: v.id("users"),
+  name: v.string(),
+  color: tagColorValidator,
+});
+
+// Helper to get a tag of the logged-in user
+async function getOwnTag(
+  ctx: QueryCtx | MutationCtx,
+  tagId: Id<"tags">,
+): Promise<Doc<"tags">> {
+  const user = await getLoggedInUser(ctx);
+  const tag = await ctx.db.get(tagId);
+  if (!tag || tag.userId !== user._id) {
+    throw new Error("Tag not found or access denied");
+  }
+  return tag;
+}
+
+// Helper to trim and check a tag name. Names are unique per user, ignoring
+// case.
+async function validateTagName(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  name: string,
+  tagId?: Id<"tags">,
+): Promise<string> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new ConvexError("Tag name can't be empty");
+  }
+  if (trimmed.length > MAX_TAG_NAME_LENGTH) {
+    throw new ConvexError(
+      `Tag name can be at most ${MAX_TAG_NAME_LENGTH} characters`,
+    );
+  }
+  const tags = await ctx.db
+    .query("tags")
+    .withIndex("by_userId", (q) => q.eq("userId", userId))
+    .collect();
+  if (
+    tags.some(
+      (tag) =>
+        tag._id !== tagId && tag.name.toLowerCase() === trimmed.toLowerCase(),
+    )
+  ) {
+    throw new ConvexError(`You already have a tag named "${trimmed}"`);
+  }
+  return trimmed;
+}
+
+// Helper for the title generator: picks the user's tags named in the model's
+// answer. The answer has the title on the first line and a line like
+// "Tags: Work, Travel" after it; names are matched ignoring case.
+export function parseTitleAndTags(
+  output: string,
+  tags: Array<{ _id: Id<"tags">; name: string }>,
+): { title: string; suggestedTagIds: Id<"tags">[] } {
+  const lines = output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const tagsLine = lines.find((line) => /^tags:/i.test(line));
+  const title = (lines.find((line) => line !== tagsLine) ?? "").replace(
+    /^title:\s*/i,
+    "",
+  );
+  const names = (tagsLine?.replace(/^tags:/i, "") ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase());
+  const suggestedTagIds = tags
+    .filter((tag) => names.includes(tag.name.toLowerCase()))
+    .slice(0, MAX_SUGGESTED_TAGS)
+    .map((tag) => tag._id);
+  return { title, suggestedTagIds };
+}
+
+// List the user's tags by name
+export const listTags = query({
+  args: {},
+  returns: v.array(tagDoc),
+  handler: async (ctx) => {
+    const user = await getLoggedInUser(ctx);
+    const tags = await ctx.db
+      .query("tags")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+    return tags.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// List which tags the given conversations of the user have
+export const listConversationTags = query({
+  args: { conversationIds: v.array(v.id("conversations")) },
+  returns: v.array(
+    v.object({ conversationId: v.id("conversations"), tagId: v.id("tags") }),
+  ),
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx);
+    if (args.conversationIds.length > MAX_LISTED_CONVERSATION_TAGS) {
+      throw new ConvexError(
+        `Tags can be listed for at most ${MAX_LISTED_CONVERSATION_TAGS} conversations at once`,
+      );
+    }
+    const conversationTags = (
+      await Promise.all(
+        args.conversationIds.map((conversationId) =>
+          ctx.db
+            .query("conversationTags")
+            .withIndex("by_conversationId", (q) =>
+              q.eq("conversationId", conversationId),
+            )
+            .collect(),
+        ),
+      )
+    ).flat();
+    return conversationTags
+      .filter(({ userId }) => userId === user._id)
+      .map(({ conversationId, tagId }) => ({ conversationId, tagId }));
+  },
+});
+
+export const createTag = mutation({
+  args: { name: v.string(), color: tagColorValidator },
+  returns: v.id("tags"),
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx);
+    return await ctx.db.insert("tags", {
+      userId: user._id,
+      name: await validateTagName(ctx, user._id, args.name),
+      color: args.color,
+    });
+  },
+});
+
+export const updateTag = mutation({
+  args: { tagId: v.id("tags"), name: v.string(), color: tagColorValidator },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const tag = await getOwnTag(ctx, args.tagId);
+    await ctx.db.patch(args.tagId, {
+      name: await validateTagName(ctx, tag.userId, args.name, args.tagId),
+      color: args.color,
+    });
+    return null;
+  },
+});
+
+// Mutation to delete a tag and remove it from its conversations
+export const deleteTag = mutation({
+  args: { tagId: v.id("tags") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const tag = await getOwnTag(ctx, args.tagId);
+    const conversationTags = await ctx.db
+      .query("conversationTags")
+      .withIndex("by_tagId", (q) => q.eq("tagId", args.tagId))
+      .collect();
+    for (const conversationTag of conversationTags) {
+      await ctx.db.delete(conversationTag._id);
+    }
+    // Suggestions are stored on the conversations, which aren't tagged yet
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_userId", (q) => q.eq("userId", tag.userId))
+      .collect();
+    for (const conversation of conversations) {
+      if (conversation.suggestedTagIds?.includes(args.tagId)) {
+        await ctx.db.patch(conversation._id, {
+          suggestedTagIds: conversation.suggestedTagIds.filter(
+            (tagId) => tagId !== args.tagId,
+          ),
+        });
+      }
+    }
+    await ctx.db.delete(args.tagId);
+    return null;
+  },
+});
+
+// Mutation to add a tag to a conversation or remove it. Either way the tag
+// is no longer suggested for the conversation.
+export const setConversationTag = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    tagId: v.id("tags"),
+    tagged: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const tag = await getOwnTag(ctx, args.tagId);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== tag.userId) {
+      throw new Error("Conversation not found or access denied");
+    }
+
+    const existing = (
+      await ctx.db
+        .query("conversationTags")
+        .withIndex("by_conversationId", (q) =>
+          q.eq("conversationId", args.conversationId),
+        )
+        .collect()
+    ).find((conversationTag) => conversationTag.tagId === args.tagId);
+    if (args.tagged && !existing) {
+      await ctx.db.insert("conversationTags", {
+        userId: tag.userId,
+        conversationId: args.conversationId,
+        tagId: args.tagId,
+        deletedAt: conversation.deletedAt,
+        archivedAt: conversation.archivedAt,
+      });
+    } else if (!args.tagged && existing) {
+      await ctx.db.delete(existing._id);
+    }
+
+    if (conversation.suggestedTagIds?.includes(args.tagId)) {
+      await ctx.db.patch(args.conversationId, {
+        suggestedTagIds: conversation.suggestedTagIds.filter(
+          (tagId) => tagId !== args.tagId,
+        ),
+      });
+    }
+    return null;
+  },
+});
+
+// Internal query for generateConversationTitleAction
+export const getUserTags = internalQuery({
+  args: { userId: v.id("users") },
+  returns: v.array(tagDoc),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("tags")
+      .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+      .collect();
+  },
+});
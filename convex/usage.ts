@@ -0,0 +1,212 @@
+// Token usage and cost estimates for assistant replies. Pure helpers so they
+// can be unit tested without Convex.
+import { MODEL_PRICES } from "./constants";
+import { estimateTokens } from "./context";
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // Includes reasoning tokens
+  reasoningTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  costUsd: number;
+  replies: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  model: string;
+  costUsd?: number;
+  _creationTime: number;
+}
+
+// Usage as reported by the OpenAI Responses API
+export function fromResponsesUsage(
+  usage:
+    | {
+        input_tokens: number;
+        output_tokens: number;
+        output_tokens_details?: { reasoning_tokens?: number } | null;
+      }
+    | null
+    | undefined,
+): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    reasoningTokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+  };
+}
+
+// Usage as reported by chat completions (OpenRouter)
+export function fromChatCompletionUsage(
+  usage:
+    | {
+        prompt_tokens: number;
+        completion_tokens: number;
+        completion_tokens_details?: { reasoning_tokens?: number } | null;
+      }
+    | null
+    | undefined,
+): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+  };
+}
+
+// Usage estimated from the text sent and streamed, for replies that were
+// stopped or failed before the provider reported their usage
+export function estimateUsage(prompt: string, output: string): TokenUsage {
+  return {
+    inputTokens: estimateTokens(prompt),
+    outputTokens: estimateTokens(output),
+    reasoningTokens: 0,
+  };
+}
+
+export function addUsage(
+  a: TokenUsage | undefined,
+  b: TokenUsage | undefined,
+): TokenUsage | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+  };
+}
+
+// Estimated cost from MODEL_PRICES; undefined for models without a price
+export function estimateCostUsd(
+  model: string,
+  usage: TokenUsage,
+): number | undefined {
+  const prices = MODEL_PRICES[model as keyof typeof MODEL_PRICES];
+  if (!prices) {
+    return undefined;
+  }
+  return (
+    (usage.inputTokens * prices.input + usage.outputTokens * prices.output) /
+    TOKENS_PER_PRICE_UNIT
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    costUsd: 0,
+    replies: 0,
+  };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord) {
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.reasoningTokens += record.reasoningTokens;
+  totals.costUsd += record.costUsd ?? 0;
+  totals.replies += 1;
+}
+
+// Calendar day (YYYY-MM-DD) in the user's time zone. The offset follows
+// Date.getTimezoneOffset(), i.e. minutes behind UTC.
+export function getUsageDate(
+  timestamp: number,
+  timezoneOffsetMinutes: number,
+): string {
+  return new Date(timestamp - timezoneOffsetMinutes * 60_000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function totalUsage(records: UsageRecord[]): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) {
+    addToTotals(totals, record);
+  }
+  return totals;
+}
+
+// Overall, daily (oldest first) and per-model (most expensive first) totals
+export function summarizeUsage(
+  records: UsageRecord[],
+  timezoneOffsetMinutes: number,
+): {
+  totals: UsageTotals;
+  daily: Array<UsageTotals & { date: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+} {
+  const daily = new Map<string, UsageTotals & { date: string }>();
+  const byModel = new Map<string, UsageTotals & { model: string }>();
+
+  for (const record of records) {
+    const date = getUsageDate(record._creationTime, timezoneOffsetMinutes);
+    let day = daily.get(date);
+    if (!day) {
+      day = { date, ...emptyTotals() };
+      daily.set(date, day);
+    }
+    addToTotals(day, record);
+
+    let model = byModel.get(record.model);
+    if (!model) {
+      model = { model: record.model, ...emptyTotals() };
+      byModel.set(record.model, model);
+    }
+    addToTotals(model, record);
+  }
+
+  return {
+    totals: totalUsage(records),
+    daily: Array.from(daily.values()).sort((a, b) =>
+      a.date.localeCompare(b.date),
+    ),
+    byModel: Array.from(byModel.values()).sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
+
+// Spending limits are checked before a reply is generated. The budget of a
+// period is compared with the estimated cost of the replies in that period.
+export type SpendingPeriod = "daily" | "monthly";
+export type SpendingStatus = "ok" | "warning" | "exceeded";
+
+// Share of the budget after which users are warned
+export const SPENDING_WARNING_RATIO = 0.8;
+
+// Fixed allowance for anonymous (guest) users, per provider per day
+export const ANONYMOUS_DAILY_ALLOWANCE_USD = 0.05;
+
+// Start of the current budget period. Periods follow UTC so the server and
+// every device agree on when a budget resets.
+export function getPeriodStart(period: SpendingPeriod, now: number): number {
+  const date = new Date(now);
+  return period === "daily"
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+export function getSpendingStatus(
+  spentUsd: number,
+  limitUsd: number,
+): SpendingStatus {
+  if (spentUsd >= limitUsd) {
+    return "exceeded";
+  }
+  if (spentUsd >= limitUsd * SPENDING_WARNING_RATIO) {
+    return "warning";
+  }
+  return "ok";
+}
@@ -0,0 +1,346 @@
+// This file does NOT use "use node" and contains queries and mutations for
+// token usage, cost tracking and spending limits.
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+} from "./_generated/server";
+import { v } from "convex/values";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getLoggedInUser } from "./chatQueriesAndMutations";
+import { apiKeyProviderValidator } from "./apiKeyQueriesAndMutations";
+import {
+  API_KEY_PROVIDERS,
+  getModelProvider,
+  type ApiKeyProvider,
+} from "./constants";
+import {
+  ANONYMOUS_DAILY_ALLOWANCE_USD,
+  estimateCostUsd,
+  getPeriodStart,
+  getSpendingStatus,
+  summarizeUsage,
+  totalUsage,
+  type SpendingPeriod,
+  type SpendingStatus,
+} from "./usage";
+
+// Usage summaries cover at most this many days
+export const MAX_USAGE_SUMMARY_DAYS = 90;
+
+const usageTotalsFields = {
+  inputTokens: v.number(),
+  outputTokens: v.number(),
+  reasoningTokens: v.number(),
+  costUsd: v.number(),
+  replies: v.number(),
+};
+
+const usageTotalsDoc = v.object(usageTotalsFields);
+
+// Internal mutation to store the usage reported for an assistant reply, on the
+// message and in the user's usage records. Usage is stored once per reply.
+export const recordMessageUsage = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    reasoningTokens: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      console.warn(`Message ${args.messageId} not found for recording usage.`);
+      return null;
+    }
+    if (message.usage) {
+      return null;
+    }
+    const conversation = await ctx.db.get(message.conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    const model = message.model ?? "unknown";
+    const usage = {
+      inputTokens: args.inputTokens,
+      outputTokens: args.outputTokens,
+      reasoningTokens: args.reasoningTokens,
+    };
+    const costUsd = estimateCostUsd(model, usage);
+
+    await ctx.db.patch(args.messageId, { usage: { ...usage, costUsd } });
+    await ctx.db.insert("usageRecords", {
+      userId: conversation.userId,
+      conversationId: conversation._id,
+      messageId: args.messageId,
+      model,
+      ...usage,
+      costUsd,
+    });
+    return null;
+  },
+});
+
+// Query to get the total usage of a conversation
+export const getConversationUsage = query({
+  args: { conversationId: v.id("conversations") },
+  returns: usageTotalsDoc,
+  handler: async (ctx, args) => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== user._id) {
+      throw new Error("Conversation not found or access denied");
+    }
+
+    const records = await ctx.db
+      .query("usageRecords")
+      .withIndex("by_conversationId", (q) =>
+        q.eq("conversationId", args.conversationId),
+      )
+      .collect();
+    return totalUsage(records);
+  },
+});
+
+// Query to get the user's usage over the last `days` days, with daily and
+// per-model totals. Days are bucketed in the user's time zone.
+export const getUsageSummary = query({
+  args: {
+    days: v.number(),
+    timezoneOffsetMinutes: v.number(), // As returned by Date.getTimezoneOffset()
+  },
+  returns: v.object({
+    totals: usageTotalsDoc,
+    daily: v.array(v.object({ date: v.string(), ...usageTotalsFields })),
+    byModel: v.array(v.object({ model: v.string(), ...usageTotalsFields })),
+  }),
+  handler: async (ctx, args) => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const days = Math.min(
+      Math.max(1, Math.floor(args.days)),
+      MAX_USAGE_SUMMARY_DAYS,
+    );
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+
+    const records = await ctx.db
+      .query("usageRecords")
+      .withIndex("by_userId", (q) =>
+        q.eq("userId", user._id).gte("_creationTime", since),
+      )
+      .collect();
+    return summarizeUsage(records, args.timezoneOffsetMinutes);
+  },
+});
+
+// Spending limits
+const spendingPeriodValidator = v.union(
+  v.literal("daily"),
+  v.literal("monthly"),
+);
+
+const spendingLimitDoc = v.object({
+  provider: apiKeyProviderValidator,
+  period: spendingPeriodValidator,
+  limitUsd: v.number(),
+  spentUsd: v.number(), // Estimated spend in the current period
+  status: v.union(v.literal("ok"), v.literal("warning"), v.literal("exceeded")),
+  isGuestAllowance: v.boolean(), // Fixed allowance of anonymous users
+});
+
+interface SpendingLimitStatus {
+  provider: ApiKeyProvider;
+  period: SpendingPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  status: SpendingStatus;
+  isGuestAllowance: boolean;
+}
+
+const PROVIDER_NAMES: Record<ApiKeyProvider, string> = {
+  openai: "OpenAI",
+  openrouter: "OpenRouter",
+};
+
+const formatUsd = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Helper to total the estimated spend with a provider since a point in time
+async function getSpentUsd(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  provider: ApiKeyProvider,
+  since: number,
+): Promise<number> {
+  let spentUsd = 0;
+  const records = ctx.db
+    .query("usageRecords")
+    .withIndex("by_userId", (q) =>
+      q.eq("userId", userId).gte("_creationTime", since),
+    );
+  for await (const record of records) {
+    if (getModelProvider(record.model) === provider) {
+      spentUsd += record.costUsd ?? 0;
+    }
+  }
+  return spentUsd;
+}
+
+// Helper to get the budget that applies to a user and provider with the spend
+// so far, or null without a budget. Anonymous users always get the guest allowance.
+async function getSpendingLimitStatus(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  provider: ApiKeyProvider,
+): Promise<SpendingLimitStatus | null> {
+  let limit: { period: SpendingPeriod; limitUsd: number } | null;
+  if (user.isAnonymous) {
+    limit = { period: "daily", limitUsd: ANONYMOUS_DAILY_ALLOWANCE_USD };
+  } else {
+    limit = await ctx.db
+      .query("spendingLimits")
+      .withIndex("by_userId_and_provider", (q) =>
+        q.eq("userId", user._id).eq("provider", provider),
+      )
+      .first();
+  }
+  if (!limit) {
+    return null;
+  }
+
+  const spentUsd = await getSpentUsd(
+    ctx,
+    user._id,
+    provider,
+    getPeriodStart(limit.period, Date.now()),
+  );
+  return {
+    provider,
+    period: limit.period,
+    limitUsd: limit.limitUsd,
+    spentUsd,
+    status: getSpendingStatus(spentUsd, limit.limitUsd),
+    isGuestAllowance: user.isAnonymous === true,
+  };
+}
+
+function getSpendingMessage(limit: SpendingLimitStatus): string | undefined {
+  const providerName = PROVIDER_NAMES[limit.provider];
+  if (limit.status === "exceeded") {
+    if (limit.isGuestAllowance) {
+      return `Guest accounts can spend up to ${formatUsd(limit.limitUsd)} per day with each provider, and today's ${providerName} allowance is used up. Create an account to set your own budget.`;
+    }
+    return `You've reached your ${limit.period} ${providerName} budget of ${formatUsd(limit.limitUsd)}. Raise it in Settings or wait until it resets.`;
+  }
+  if (limit.status === "warning") {
+    const percentUsed = Math.floor((limit.spentUsd / limit.limitUsd) * 100);
+    return `You've used ${percentUsed}% of your ${limit.period} ${providerName} budget (${formatUsd(limit.spentUsd)} of ${formatUsd(limit.limitUsd)}).`;
+  }
+  return undefined;
+}
+
+// Query to list the user's budgets with the spend in the current period
+export const listSpendingLimits = query({
+  args: {},
+  returns: v.array(spendingLimitDoc),
+  handler: async (ctx) => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const limits: SpendingLimitStatus[] = [];
+    for (const provider of API_KEY_PROVIDERS) {
+      const limit = await getSpendingLimitStatus(ctx, user, provider);
+      if (limit) {
+        limits.push(limit);
+      }
+    }
+    return limits;
+  },
+});
+
+// Mutation to set the daily or monthly budget for a provider
+export const setSpendingLimit = mutation({
+  args: {
+    provider: apiKeyProviderValidator,
+    period: spendingPeriodValidator,
+    limitUsd: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    if (user.isAnonymous) {
+      throw new Error("Guest accounts have a fixed allowance");
+    }
+    if (!Number.isFinite(args.limitUsd) || args.limitUsd <= 0) {
+      throw new Error("Budget must be a positive amount");
+    }
+
+    const existing = await ctx.db
+      .query("spendingLimits")
+      .withIndex("by_userId_and_provider", (q) =>
+        q.eq("userId", user._id).eq("provider", args.provider),
+      )
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        period: args.period,
+        limitUsd: args.limitUsd,
+      });
+    } else {
+      await ctx.db.insert("spendingLimits", {
+        userId: user._id,
+        provider: args.provider,
+        period: args.period,
+        limitUsd: args.limitUsd,
+      });
+    }
+    return null;
+  },
+});
+
+export const removeSpendingLimit = mutation({
+  args: { provider: apiKeyProviderValidator },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user: Doc<"users"> = await getLoggedInUser(ctx);
+    const existing = await ctx.db
+      .query("spendingLimits")
+      .withIndex("by_userId_and_provider", (q) =>
+        q.eq("userId", user._id).eq("provider", args.provider),
+      )
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return null;
+  },
+});
+
+// Internal query used before a reply is generated: whether the budget for the
+// model's provider allows it, with a message when it's exceeded or nearly so
+export const checkSpendingLimit = internalQuery({
+  args: { userId: v.id("users"), model: v.string() },
+  returns: v.object({
+    status: v.union(
+      v.literal("ok"),
+      v.literal("warning"),
+      v.literal("exceeded"),
+    ),
+    message: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    const limit = await getSpendingLimitStatus(
+      ctx,
+      user,
+      getModelProvider(args.model),
+    );
+    if (!limit) {
+      return { status: "ok" as const };
+    }
+    return { status: limit.status, message: getSpendingMessage(limit) };
+  },
+});
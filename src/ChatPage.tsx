@@ -1,5 +1,7 @@
 import MessageComponent from "@/components/chat/Message";
 import ChatSidebar from "@/components/chat/ChatSidebar";
+import ChatHeader from "@/components/chat/ChatHeader";
+import { SearchPalette } from "@/components/chat/SearchPalette";
 import { useChat } from "@/components/chat/useChat";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -19,6 +21,7 @@ import {
   X,
   Globe,
   ArrowUp,
+  Square,
 } from "lucide-react";
 import {
   SUPPORTED_FILE_TYPES,
@@ -39,17 +42,36 @@ export default function ChatPage() {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const dragCounterRef = useRef(0);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const {
     conversations,
+    pinnedConversations,
+    projects,
+    archivedConversations,
+    showArchived,
+    setShowArchived,
+    tags,
+    selectedTagId,
+    setSelectedTagId,
+    taggedConversations,
     selectedConversationId,
+    selectedConversation,
     isLoadingConversation,
     messagesForSelectedConversation,
+    olderMessagesRef,
+    isLoadingOlderMessages,
     truncateFileName,
     handleFilePreview,
     messagesEndRef,
+    highlightedMessageId,
     selectedFiles,
     removeSelectedFile,
     handleSubmit,
+    handleEditMessage,
+    handleForkConversation,
+    handleRegenerateResponse,
+    handleSelectMessageVersion,
+    handleStopGeneration,
     handleAttachmentClick,
     handleFileChange,
     isAITyping,
@@ -58,6 +80,9 @@ export default function ChatPage() {
     handleConversationSelect,
     handleCreateConversation,
     handleDeleteConversation,
+    handleRenameConversation,
+    handlePinConversation,
+    handleArchiveConversation,
     filePreviewModal,
     closeFilePreview,
     webSearchEnabled,
@@ -88,8 +113,9 @@ export default function ChatPage() {
   const isFileSearch = isFileSearchModel(selectedModel);
 
   const tooltipText = useMemo(() => {
+    if (isAITyping) return "Stop generating";
     return !messageValue.trim() ? "Message requires text" : "Send message";
-  }, [messageValue]);
+  }, [messageValue, isAITyping]);
 
   // Drag and drop handlers
   const handleDragEnter = useCallback((e: React.DragEvent) => {
@@ -152,10 +178,29 @@ export default function ChatPage() {
       >
         <ChatSidebar
           conversations={conversations}
+          pinnedConversations={pinnedConversations}
+          projects={projects}
+          archivedConversations={archivedConversations}
+          showArchived={showArchived}
+          setShowArchived={setShowArchived}
+          tags={tags}
+          selectedTagId={selectedTagId}
+          setSelectedTagId={setSelectedTagId}
+          taggedConversations={taggedConversations}
           selectedConversationId={selectedConversationId}
           onConversationSelect={handleConversationSelect}
-          onCreateConversation={() => void handleCreateConversation()}
+          onCreateConversation={(projectId) =>
+            void handleCreateConversation(projectId)
+          }
           onDeleteConversation={(id) => void handleDeleteConversation(id)}
+          onRenameConversation={handleRenameConversation}
+          onPinConversation={(id, pinned) =>
+            void handlePinConversation(id, pinned)
+          }
+          onArchiveConversation={(id, archived) =>
+            void handleArchiveConversation(id, archived)
+          }
+          onOpenSearch={() => setIsSearchOpen(true)}
           isOpen={isOpen}
           setIsOpen={setIsOpen}
         />
@@ -165,6 +210,9 @@ export default function ChatPage() {
             isOpen ? "md:ml-64" : "md:ml-0"
           }`}
         >
+          {selectedConversation && (
+            <ChatHeader conversation={selectedConversation} />
+          )}
           <ScrollArea className="flex-1 p-2 md:p-4">
             {!selectedConversationId ? (
               <div className="h-full flex flex-col items-center justify-center text-center space-y-4 px-4">
@@ -189,6 +237,11 @@ export default function ChatPage() {
               </div>
             ) : (
               <div className="max-w-3xl mx-auto space-y-4 md:space-y-6">
+                <div ref={olderMessagesRef} className="flex justify-center">
+                  {isLoadingOlderMessages && (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  )}
+                </div>
                 {messagesForSelectedConversation.map((message, idx) => (
                   <MessageComponent
                     key={message._id ?? idx}
@@ -196,6 +249,15 @@ export default function ChatPage() {
                     truncateFileName={truncateFileName}
                     handleFilePreview={handleFilePreview}
                     handleCitationClick={handleCitationClick}
+                    onEditMessage={handleEditMessage}
+                    canEdit={!isAITyping}
+                    onForkMessage={handleForkConversation}
+                    onRegenerateMessage={handleRegenerateResponse}
+                    onSelectVersion={handleSelectMessageVersion}
+                    isLatestReply={
+                      idx === messagesForSelectedConversation.length - 1
+                    }
+                    isHighlighted={message._id === highlightedMessageId}
                   />
                 ))}
                 <div ref={messagesEndRef} />
@@ -395,19 +457,29 @@ export default function ChatPage() {
                       <Tooltip>
                         <TooltipTrigger asChild>
                           <span className="inline-block">
-                            <Button
-                              type="submit"
-                              size="icon"
-                              disabled={
-                                isAITyping ||
-                                isUploadingFiles ||
-                                !messageValue.trim()
-                              }
-                              className="rounded-lg h-10 w-10 flex items-center justify-center bg-primary text-white hover:bg-primary/90 shadow-md"
-                              aria-label="Send message"
-                            >
-                              <ArrowUp className="h-5 w-5" />
-                            </Button>
+                            {isAITyping ? (
+                              <Button
+                                type="button"
+                                size="icon"
+                                onClick={() => void handleStopGeneration()}
+                                className="rounded-lg h-10 w-10 flex items-center justify-center bg-primary text-white hover:bg-primary/90 shadow-md"
+                                aria-label="Stop generating"
+                              >
+                                <Square className="h-4 w-4 fill-current" />
+                              </Button>
+                            ) : (
+                              <Button
+                                type="submit"
+                                size="icon"
+                                disabled={
+                                  isUploadingFiles || !messageValue.trim()
+                                }
+                                className="rounded-lg h-10 w-10 flex items-center justify-center bg-primary text-white hover:bg-primary/90 shadow-md"
+                                aria-label="Send message"
+                              >
+                                <ArrowUp className="h-5 w-5" />
+                              </Button>
+                            )}
                           </span>
                         </TooltipTrigger>
                         <TooltipContent>
@@ -422,6 +494,8 @@ export default function ChatPage() {
           </div>
         </div>
 
+        <SearchPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
+
         {filePreviewModal.isOpen && filePreviewModal.messageId && (
           <FilePreviewModal
             isOpen={filePreviewModal.isOpen}
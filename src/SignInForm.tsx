@@ -5,7 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useNavigate } from "@tanstack/react-router";
 
-export function SignInForm() {
+// Goes to the home page after signing in unless onSignedIn is given, which
+// lets pages such as shared chats keep the visitor where they are
+export function SignInForm({ onSignedIn }: { onSignedIn?: () => void }) {
   const { signIn } = useAuthActions();
   const [flow, setFlow] = useState<"signIn" | "signUp">("signIn");
   const [submitting, setSubmitting] = useState(false);
@@ -19,7 +21,11 @@ export function SignInForm() {
       formData.set("flow", flow);
       try {
         await signIn("password", formData);
-        void navigate({ to: "/" });
+        if (onSignedIn) {
+          onSignedIn();
+        } else {
+          void navigate({ to: "/" });
+        }
       } catch (error: any) {
         let toastTitle = "";
         if (error.message.includes("Invalid password")) {
@@ -34,20 +40,24 @@ export function SignInForm() {
         setSubmitting(false);
       }
     },
-    [flow, navigate, signIn],
+    [flow, navigate, onSignedIn, signIn],
   );
 
   const handleAnonymousSignIn = useCallback(async () => {
     setSubmitting(true);
     try {
       await signIn("anonymous");
-      void navigate({ to: "/" });
+      if (onSignedIn) {
+        onSignedIn();
+      } else {
+        void navigate({ to: "/" });
+      }
     } catch (error) {
       toast.error("Could not sign in anonymously, please try again.");
       setSubmitting(false);
       console.error(error);
     }
-  }, [navigate, signIn]);
+  }, [navigate, onSignedIn, signIn]);
 
   return (
     <div className="w-full">
@@ -29,6 +29,8 @@ interface FilePreviewModalProps {
   onClose: () => void;
   messageId: Id<"messages">;
   fileName: string;
+  // Set on share pages, where files are loaded through the share link
+  shareSlug?: string;
 }
 
 // Function to determine file type based on extension
@@ -115,6 +117,7 @@ export function FilePreviewModal({
   onClose,
   messageId,
   fileName,
+  shareSlug,
 }: FilePreviewModalProps) {
   const [isDownloading, setIsDownloading] = useState(false);
   const [fileData, setFileData] = useState<{
@@ -141,6 +144,9 @@ export function FilePreviewModal({
   const isMobile = useMemo(() => isMobileDevice(), []);
 
   const getFileForPreview = useAction(api.filePreview.getFileForPreview);
+  const getSharedFileForPreview = useAction(
+    api.filePreview.getSharedFileForPreview,
+  );
 
   // Memoize PDF.js options to prevent unnecessary reloads (only for mobile)
   const pdfOptions = useMemo(
@@ -160,7 +166,13 @@ export function FilePreviewModal({
     setPdfLoadingError(null);
 
     try {
-      const data = await getFileForPreview({ messageId, fileName });
+      const data = shareSlug
+        ? await getSharedFileForPreview({
+            slug: shareSlug,
+            messageId,
+            fileName,
+          })
+        : await getFileForPreview({ messageId, fileName });
       if (data) {
         setFileData(data);
       } else {
@@ -169,7 +181,13 @@ export function FilePreviewModal({
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load file");
     }
-  }, [getFileForPreview, messageId, fileName]);
+  }, [
+    getFileForPreview,
+    getSharedFileForPreview,
+    shareSlug,
+    messageId,
+    fileName,
+  ]);
 
   const handleClose = useCallback(() => {
     // Reset all state when closing
@@ -7,10 +7,12 @@ import { Loader2, Sun, Moon, Laptop } from "lucide-react";
 import { useTheme } from "@/components/use-theme";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "@tanstack/react-router";
+import { useMigrateLocalApiKeys } from "@/hooks/useMigrateLocalApiKeys";
 import React from "react";
 
 function Content({ children }: { children: React.ReactNode }) {
   const loggedInUser = useQuery(api.auth.loggedInUser);
+  useMigrateLocalApiKeys(Boolean(loggedInUser));
 
   if (loggedInUser === undefined) {
     return (
@@ -60,6 +62,8 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
 
   // Check if we're on the settings page
   const isSettingsPage = location.pathname === "/settings";
+  // Share pages are public, so they skip the sign-in gate
+  const isSharePage = location.pathname.startsWith("/share/");
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
@@ -88,7 +92,7 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
         </header>
       )}
       <main className="flex-1 flex flex-col">
-        <Content>{children}</Content>
+        {isSharePage ? children : <Content>{children}</Content>}
       </main>
       <Toaster position="top-center" />
     </div>
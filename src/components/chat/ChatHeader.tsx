@@ -0,0 +1,338 @@
+import { memo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@backend/_generated/api";
+import type { Doc, Id } from "@backend/_generated/dataModel";
+import { Check, Folder, ScrollText, Share2, Tag, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { describeUsage, formatCost } from "@/lib/usage";
+import { ExportMenu } from "./ExportMenu";
+import { ShareDialog } from "./ShareDialog";
+import { TagChip, TagDot } from "./TagsDialog";
+
+export interface ChatHeaderProps {
+  conversation: Doc<"conversations">;
+}
+
+const ChatHeader = memo(({ conversation }: ChatHeaderProps) => {
+  const updateConversationSummary = useMutation(
+    api.chatQueriesAndMutations.updateConversationSummary,
+  );
+  const usage = useQuery(api.usageQueriesAndMutations.getConversationUsage, {
+    conversationId: conversation._id,
+  });
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isProjectOpen, setIsProjectOpen] = useState(false);
+  const projects = useQuery(api.projectQueriesAndMutations.listProjects);
+  const setConversationProject = useMutation(
+    api.projectQueriesAndMutations.setConversationProject,
+  );
+  const project = projects?.find(({ _id }) => _id === conversation.projectId);
+  const [isTagsOpen, setIsTagsOpen] = useState(false);
+  const tags = useQuery(api.tagQueriesAndMutations.listTags);
+  const conversationTags = useQuery(
+    api.tagQueriesAndMutations.listConversationTags,
+    { conversationIds: [conversation._id] },
+  );
+  const setConversationTag = useMutation(
+    api.tagQueriesAndMutations.setConversationTag,
+  );
+  const taggedIds = new Set(conversationTags?.map(({ tagId }) => tagId));
+  const appliedTags = tags?.filter(({ _id }) => taggedIds.has(_id)) ?? [];
+  // Tags the title generator picked that haven't been added or dismissed yet
+  const suggestedTags =
+    tags?.filter(
+      ({ _id }) =>
+        conversation.suggestedTagIds?.includes(_id) && !taggedIds.has(_id),
+    ) ?? [];
+  const [summaryDraft, setSummaryDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const conversationTitle = conversation.name.replace(/^"|"$/g, "");
+
+  const openSummary = () => {
+    setSummaryDraft(conversation.summary ?? "");
+    setIsSummaryOpen(true);
+  };
+
+  const saveSummary = async (summary: string) => {
+    setIsSaving(true);
+    try {
+      await updateConversationSummary({
+        conversationId: conversation._id,
+        summary,
+      });
+      setIsSummaryOpen(false);
+      toast.success(summary.trim() ? "Summary saved" : "Summary cleared");
+    } catch (error) {
+      console.error("Failed to update summary:", error);
+      toast.error("Failed to update summary. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const moveToProject = async (projectId: Id<"projects"> | null) => {
+    try {
+      await setConversationProject({
+        conversationId: conversation._id,
+        projectId,
+      });
+      setIsProjectOpen(false);
+      toast.success(projectId ? "Moved to project" : "Removed from project");
+    } catch (error) {
+      console.error("Failed to move chat to project:", error);
+      toast.error("Failed to move the chat. Please try again.");
+    }
+  };
+
+  const setTagged = async (tagId: Id<"tags">, tagged: boolean) => {
+    try {
+      await setConversationTag({
+        conversationId: conversation._id,
+        tagId,
+        tagged,
+      });
+    } catch (error) {
+      console.error("Failed to update chat tags:", error);
+      toast.error("Failed to update the tags. Please try again.");
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 border-b border-border px-4 py-2">
+      <div className="flex min-w-0 items-center gap-2">
+        <h2 className="truncate text-sm font-medium text-foreground">
+          {conversationTitle}
+        </h2>
+        <div className="hidden shrink-0 items-center gap-1 md:flex">
+          {appliedTags.map((tag) => (
+            <TagChip
+              key={tag._id}
+              name={tag.name}
+              color={tag.color}
+              onClick={() => setIsTagsOpen(true)}
+              title="Edit the tags of this chat"
+            />
+          ))}
+          {suggestedTags.map((tag) => (
+            <TagChip
+              key={tag._id}
+              name={tag.name}
+              color={tag.color}
+              isSuggested
+              onClick={() => void setTagged(tag._id, true)}
+              title={`Suggested tag. Click to tag this chat ${tag.name}.`}
+            />
+          ))}
+        </div>
+      </div>
+      <div className="flex shrink-0 items-center gap-1">
+        {usage && usage.replies > 0 && (
+          <span
+            className="text-xs tabular-nums text-muted-foreground"
+            title={`Estimated cost of this chat. ${describeUsage(usage)}`}
+          >
+            {formatCost(usage.costUsd)}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="shrink-0 text-muted-foreground"
+          onClick={openSummary}
+          title="View or edit the conversation summary"
+        >
+          <ScrollText className="h-4 w-4" />
+          <span className="hidden md:inline">Summary</span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="shrink-0 text-muted-foreground"
+          onClick={() => setIsProjectOpen(true)}
+          title="Move this chat to a project"
+        >
+          <Folder className="h-4 w-4" />
+          <span className="hidden max-w-32 truncate md:inline">
+            {project?.name ?? "Project"}
+          </span>
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="shrink-0 text-muted-foreground"
+          onClick={() => setIsTagsOpen(true)}
+          title="Tag this chat"
+        >
+          <Tag className="h-4 w-4" />
+          <span className="hidden md:inline">Tags</span>
+        </Button>
+        <ExportMenu conversationId={conversation._id} />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="shrink-0 text-muted-foreground"
+          onClick={() => setIsShareOpen(true)}
+          title="Share a read-only link to this chat"
+        >
+          <Share2 className="h-4 w-4" />
+          <span className="hidden md:inline">Share</span>
+        </Button>
+      </div>
+
+      <ShareDialog
+        conversationId={conversation._id}
+        open={isShareOpen}
+        onOpenChange={setIsShareOpen}
+      />
+
+      <Dialog open={isProjectOpen} onOpenChange={setIsProjectOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Move to project</DialogTitle>
+            <DialogDescription>
+              Chats in a project follow its instructions and can search its
+              files. Create projects in the sidebar.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-1">
+            {[null, ...(projects ?? [])].map((option) => {
+              const isCurrent =
+                (option?._id ?? undefined) === conversation.projectId;
+              return (
+                <Button
+                  key={option?._id ?? "none"}
+                  variant="ghost"
+                  className="justify-start"
+                  onClick={() => void moveToProject(option?._id ?? null)}
+                  disabled={isCurrent}
+                >
+                  <Folder className="h-4 w-4" />
+                  <span className="truncate">
+                    {option?.name ?? "No project"}
+                  </span>
+                  {isCurrent && <Check className="ml-auto h-4 w-4" />}
+                </Button>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isTagsOpen} onOpenChange={setIsTagsOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Tags</DialogTitle>
+            <DialogDescription>
+              Filter your chats by tag in the sidebar, where you can also create
+              and edit tags.
+            </DialogDescription>
+          </DialogHeader>
+          {suggestedTags.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">
+                Suggested
+              </p>
+              {suggestedTags.map((tag) => (
+                <div key={tag._id} className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    className="flex-1 justify-start"
+                    onClick={() => void setTagged(tag._id, true)}
+                  >
+                    <TagDot color={tag.color} />
+                    <span className="truncate">{tag.name}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => void setTagged(tag._id, false)}
+                    title="Dismiss suggestion"
+                  >
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Dismiss suggestion</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-col gap-1">
+            {tags?.length === 0 && (
+              <p className="text-sm text-muted-foreground">No tags yet.</p>
+            )}
+            {tags?.map((tag) => {
+              const isTagged = taggedIds.has(tag._id);
+              return (
+                <Button
+                  key={tag._id}
+                  variant="ghost"
+                  className="justify-start"
+                  onClick={() => void setTagged(tag._id, !isTagged)}
+                  aria-pressed={isTagged}
+                >
+                  <TagDot color={tag.color} />
+                  <span className="truncate">{tag.name}</span>
+                  {isTagged && <Check className="ml-auto h-4 w-4" />}
+                </Button>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isSummaryOpen} onOpenChange={setIsSummaryOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Conversation summary</DialogTitle>
+            <DialogDescription>
+              Older messages in long chats are summarized automatically and the
+              summary is sent to OpenRouter models instead. OpenAI models keep
+              the whole chat. Edit it to correct or add context, or clear it to
+              send the full history again.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={summaryDraft}
+            onChange={(e) => setSummaryDraft(e.target.value)}
+            placeholder="No summary yet. It is created once the chat gets long."
+            className="min-h-48 resize-y"
+          />
+          <DialogFooter>
+            {conversation.summary && (
+              <Button
+                variant="outline"
+                onClick={() => void saveSummary("")}
+                disabled={isSaving}
+              >
+                Clear
+              </Button>
+            )}
+            <Button
+              onClick={() => void saveSummary(summaryDraft)}
+              disabled={
+                isSaving ||
+                summaryDraft.trim() === (conversation.summary ?? "").trim()
+              }
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+});
+
+ChatHeader.displayName = "ChatHeader";
+export default ChatHeader;
@@ -1,11 +1,43 @@
-import { memo, useMemo } from "react";
+import { memo, useCallback, useMemo, useState } from "react";
 import { Sidebar, SidebarItem } from "@/components/ui/sidebar/sidebar";
 import { Button } from "@/components/ui/button";
-import { Plus, Trash, Settings } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Plus,
+  Trash,
+  Settings,
+  GitBranch,
+  Search,
+  Pin,
+  PinOff,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  FolderPlus,
+  Loader2,
+  Tags,
+} from "lucide-react";
 import { useNavigate } from "@tanstack/react-router";
+import {
+  usePaginatedQuery,
+  useQuery,
+  type UsePaginatedQueryReturnType,
+} from "convex/react";
+import { api } from "@backend/_generated/api";
 import type { Id, Doc } from "@backend/_generated/dataModel";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { useLocalStorageState } from "@/hooks/useLocalStorageState";
+import { CONVERSATIONS_PAGE_SIZE } from "@/lib/constants";
+import { ProjectDialog } from "./ProjectDialog";
+import { TagChip, TagsDialog } from "./TagsDialog";
 
 type Conversation = Doc<"conversations">;
+type PaginatedConversations = UsePaginatedQueryReturnType<
+  typeof api.chatQueriesAndMutations.listConversations
+>;
 
 function getTimeGroup(creationTime: number, updatedTime?: number) {
   const activityTime = updatedTime ?? creationTime;
@@ -35,8 +67,11 @@ function getTimeGroup(creationTime: number, updatedTime?: number) {
   }
 }
 
+// Pinned conversations get their own group at the top, the rest are grouped
+// by their last activity
 function groupConversationsByTime(conversations: Conversation[]) {
   const groups: Record<string, Conversation[]> = {
+    Pinned: [],
     Today: [],
     Yesterday: [],
     "Last 7 Days": [],
@@ -45,19 +80,222 @@ function groupConversationsByTime(conversations: Conversation[]) {
   };
 
   conversations.forEach((conv) => {
-    const group = getTimeGroup(conv._creationTime, conv.updatedTime);
+    const group =
+      conv.pinnedAt !== undefined
+        ? "Pinned"
+        : getTimeGroup(conv._creationTime, conv.updatedTime);
     groups[group].push(conv);
   });
 
   return Object.entries(groups).filter(([_, convs]) => convs.length > 0);
 }
 
+const getActivityTime = (conv: Conversation) =>
+  conv.updatedTime ?? conv._creationTime;
+
+const getConversationTitle = (conv: Conversation) =>
+  conv.name ? conv.name.replace(/^"|"$/g, "") : "Unnamed Chat";
+
+interface ConversationItemProps {
+  conversation: Conversation;
+  isSelected: boolean;
+  onConversationSelect: (id: Id<"conversations">) => void;
+  onDeleteConversation: (id: Id<"conversations">) => void;
+  onRenameConversation: (
+    id: Id<"conversations">,
+    name: string,
+  ) => Promise<boolean>;
+  onPinConversation: (id: Id<"conversations">, pinned: boolean) => void;
+  onArchiveConversation: (id: Id<"conversations">, archived: boolean) => void;
+}
+
+function ConversationItem({
+  conversation: conv,
+  isSelected,
+  onConversationSelect,
+  onDeleteConversation,
+  onRenameConversation,
+  onPinConversation,
+  onArchiveConversation,
+}: ConversationItemProps) {
+  const conversationTitle = getConversationTitle(conv);
+  const [editedName, setEditedName] = useState<string | null>(null);
+  const isPinned = conv.pinnedAt !== undefined;
+  const isArchived = conv.archivedAt !== undefined;
+  // The chat this one was forked from is linked while it is selected
+  const forkedFrom = useQuery(
+    api.chatQueriesAndMutations.getConversationById,
+    isSelected && conv.forkedFromConversationId
+      ? { conversationId: conv.forkedFromConversationId }
+      : "skip",
+  );
+
+  const saveName = async () => {
+    if (editedName === null) return;
+    const name = editedName.trim();
+    if (!name || name === conversationTitle) {
+      setEditedName(null);
+      return;
+    }
+    if (await onRenameConversation(conv._id, name)) {
+      setEditedName(null);
+    }
+  };
+
+  if (editedName !== null) {
+    return (
+      <div className="px-1 py-0.5">
+        <Input
+          autoFocus
+          aria-label="Chat name"
+          className="h-8"
+          value={editedName}
+          onChange={(e) => setEditedName(e.target.value)}
+          onFocus={(e) => e.target.select()}
+          onBlur={() => void saveName()}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              void saveName();
+            } else if (e.key === "Escape") {
+              setEditedName(null);
+            }
+          }}
+        />
+      </div>
+    );
+  }
+
+  const actions = [
+    {
+      title: isPinned ? "Unpin chat" : "Pin chat",
+      icon: isPinned ? PinOff : Pin,
+      onClick: () => onPinConversation(conv._id, !isPinned),
+    },
+    {
+      title: "Rename chat",
+      icon: Pencil,
+      onClick: () => setEditedName(conversationTitle),
+    },
+    {
+      title: isArchived ? "Unarchive chat" : "Archive chat",
+      icon: isArchived ? ArchiveRestore : Archive,
+      onClick: () => onArchiveConversation(conv._id, !isArchived),
+    },
+  ];
+
+  return (
+    <div className="group relative">
+      <SidebarItem
+        title={conversationTitle}
+        isActive={isSelected}
+        onClick={() => onConversationSelect(conv._id)}
+        onDoubleClick={() => setEditedName(conversationTitle)}
+        icon={
+          conv.forkedFromConversationId && (
+            <GitBranch className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          )
+        }
+      >
+        <div className="absolute right-2 flex rounded bg-background opacity-0 group-hover:opacity-100 transition-none">
+          {actions.map(({ title, icon: Icon, onClick }) => (
+            <button
+              key={title}
+              className="p-1 rounded hover:bg-accent"
+              onClick={(e) => {
+                e.stopPropagation();
+                onClick();
+              }}
+              title={title}
+            >
+              <Icon className="h-4 w-4 text-muted-foreground" />
+            </button>
+          ))}
+          <button
+            className="p-1 rounded hover:bg-destructive/10"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDeleteConversation(conv._id);
+            }}
+            title="Move to trash"
+          >
+            <Trash className="h-4 w-4 text-destructive" />
+          </button>
+        </div>
+      </SidebarItem>
+      {isSelected && forkedFrom && (
+        <button
+          className="w-full truncate px-3 pb-1 text-left text-xs text-muted-foreground hover:text-foreground hover:underline"
+          onClick={() => onConversationSelect(forkedFrom._id)}
+          title="Open the chat this one was forked from"
+        >
+          Forked from {getConversationTitle(forkedFrom)}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Chats of an expanded project, a page at a time
+function ProjectConversations({
+  projectId,
+  renderConversation,
+}: {
+  projectId: Id<"projects">;
+  renderConversation: (conv: Conversation) => React.ReactNode;
+}) {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.chatQueriesAndMutations.listConversations,
+    { projectId },
+    { initialNumItems: CONVERSATIONS_PAGE_SIZE },
+  );
+
+  return (
+    <div className="ml-3 space-y-1 border-l border-border pl-1">
+      {results.map(renderConversation)}
+      {status === "Exhausted" && results.length === 0 && (
+        <div className="px-3 py-1 text-xs text-muted-foreground">
+          No chats yet.
+        </div>
+      )}
+      {status === "CanLoadMore" && (
+        <button
+          className="px-3 py-1 text-xs text-muted-foreground hover:text-foreground hover:underline"
+          onClick={() => loadMore(CONVERSATIONS_PAGE_SIZE)}
+        >
+          Show more
+        </button>
+      )}
+    </div>
+  );
+}
+
 export interface ChatSidebarProps {
-  conversations: Conversation[] | undefined;
+  // Chats that are neither pinned nor in a project, a page at a time
+  conversations: PaginatedConversations;
+  pinnedConversations: Conversation[] | undefined;
+  projects: Doc<"projects">[] | undefined;
+  // Only loaded while the Archived filter is on
+  archivedConversations: PaginatedConversations;
+  showArchived: boolean;
+  setShowArchived: React.Dispatch<React.SetStateAction<boolean>>;
+  tags: Doc<"tags">[] | undefined;
+  selectedTagId: Id<"tags"> | null;
+  setSelectedTagId: React.Dispatch<React.SetStateAction<Id<"tags"> | null>>;
+  // Only loaded while a tag is selected in the filter bar
+  taggedConversations: PaginatedConversations;
   selectedConversationId: Id<"conversations"> | null;
   onConversationSelect: (id: Id<"conversations">) => void;
-  onCreateConversation: () => void;
+  // Creates a chat, inside the given project if any
+  onCreateConversation: (projectId?: Id<"projects">) => void;
   onDeleteConversation: (id: Id<"conversations">) => void;
+  onRenameConversation: (
+    id: Id<"conversations">,
+    name: string,
+  ) => Promise<boolean>;
+  onPinConversation: (id: Id<"conversations">, pinned: boolean) => void;
+  onArchiveConversation: (id: Id<"conversations">, archived: boolean) => void;
+  onOpenSearch: () => void;
   isOpen: boolean;
   setIsOpen: React.Dispatch<React.SetStateAction<boolean>>;
 }
@@ -65,18 +303,105 @@ export interface ChatSidebarProps {
 const ChatSidebar = memo(
   ({
     conversations,
+    pinnedConversations,
+    projects,
+    archivedConversations,
+    showArchived,
+    setShowArchived,
+    tags,
+    selectedTagId,
+    setSelectedTagId,
+    taggedConversations,
     selectedConversationId,
     onConversationSelect,
     onCreateConversation,
     onDeleteConversation,
+    onRenameConversation,
+    onPinConversation,
+    onArchiveConversation,
+    onOpenSearch,
     isOpen,
     setIsOpen,
   }: ChatSidebarProps) => {
     const navigate = useNavigate();
+    const [collapsedProjectIds, setCollapsedProjectIds] = useLocalStorageState<
+      Id<"projects">[]
+    >("collapsedProjects", []);
+    // Project being edited in the dialog, or null for a new one
+    const [projectDialog, setProjectDialog] = useState<{
+      open: boolean;
+      projectId: Id<"projects"> | null;
+    }>({ open: false, projectId: null });
+    const [isTagsDialogOpen, setIsTagsDialogOpen] = useState(false);
+    // A deleted tag no longer filters the list
+    const selectedTag = tags?.find(({ _id }) => _id === selectedTagId);
+
+    // The list shown below the projects, loaded further as it is scrolled
+    const visibleConversations = selectedTag
+      ? taggedConversations
+      : showArchived
+        ? archivedConversations
+        : conversations;
+    const loadMoreConversations = useCallback(
+      () => visibleConversations.loadMore(CONVERSATIONS_PAGE_SIZE),
+      [visibleConversations],
+    );
+    const moreConversationsRef = useInfiniteScroll(
+      visibleConversations.status === "CanLoadMore",
+      loadMoreConversations,
+    );
+
     const groupedConversations = useMemo(() => {
-      if (!conversations || conversations.length === 0) return [];
-      return groupConversationsByTime(conversations);
-    }, [conversations]);
+      // Filtering by tag lists the matching chats by time, projects included.
+      // They come most recently tagged first.
+      if (selectedTag) {
+        const tagged = [...taggedConversations.results].sort(
+          (a, b) => getActivityTime(b) - getActivityTime(a),
+        );
+        return showArchived
+          ? tagged.length > 0
+            ? [["Archived", tagged] as const]
+            : []
+          : groupConversationsByTime(tagged);
+      }
+      if (showArchived) {
+        return archivedConversations.results.length > 0
+          ? [["Archived", archivedConversations.results] as const]
+          : [];
+      }
+      // Pinned chats in a project are listed under it
+      return groupConversationsByTime([
+        ...(pinnedConversations ?? []).filter((conv) => !conv.projectId),
+        ...conversations.results,
+      ]);
+    }, [
+      conversations.results,
+      pinnedConversations,
+      archivedConversations.results,
+      taggedConversations.results,
+      selectedTag,
+      showArchived,
+    ]);
+
+    const toggleProject = (projectId: Id<"projects">) =>
+      setCollapsedProjectIds((ids) =>
+        ids.includes(projectId)
+          ? ids.filter((id) => id !== projectId)
+          : [...ids, projectId],
+      );
+
+    const renderConversation = (conv: Conversation) => (
+      <ConversationItem
+        key={conv._id}
+        conversation={conv}
+        isSelected={selectedConversationId === conv._id}
+        onConversationSelect={onConversationSelect}
+        onDeleteConversation={onDeleteConversation}
+        onRenameConversation={onRenameConversation}
+        onPinConversation={onPinConversation}
+        onArchiveConversation={onArchiveConversation}
+      />
+    );
 
     return (
       <Sidebar
@@ -88,15 +413,130 @@ const ChatSidebar = memo(
           <Button
             variant="outline"
             className="w-full justify-start text-muted-foreground"
-            onClick={onCreateConversation}
+            onClick={() => onCreateConversation()}
           >
             <Plus className="h-4 w-4 mr-2" />
             New chat
           </Button>
+          <Button
+            variant="ghost"
+            className="mt-1 w-full justify-start text-muted-foreground"
+            onClick={onOpenSearch}
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Search
+            <kbd className="ml-auto rounded border px-1.5 text-[10px] font-medium">
+              Ctrl K
+            </kbd>
+          </Button>
+          <Button
+            variant={showArchived ? "secondary" : "ghost"}
+            className="mt-1 w-full justify-start text-muted-foreground"
+            onClick={() => setShowArchived((show) => !show)}
+            aria-pressed={showArchived}
+          >
+            <Archive className="h-4 w-4 mr-2" />
+            {showArchived ? "Back to chats" : "Archived"}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1 border-b px-3 py-2">
+          {tags?.map((tag) => (
+            <TagChip
+              key={tag._id}
+              name={tag.name}
+              color={tag.color}
+              isActive={tag._id === selectedTag?._id}
+              onClick={() =>
+                setSelectedTagId((id) => (id === tag._id ? null : tag._id))
+              }
+              title={
+                tag._id === selectedTag?._id
+                  ? "Show all chats"
+                  : `Show chats tagged ${tag.name}`
+              }
+            />
+          ))}
+          <button
+            className="inline-flex items-center gap-1 rounded p-1 text-xs text-muted-foreground hover:bg-accent"
+            onClick={() => setIsTagsDialogOpen(true)}
+            title="Manage tags"
+          >
+            <Tags className="h-4 w-4" />
+            {!tags?.length && "Tags"}
+          </button>
         </div>
 
         <div className="flex-1 overflow-y-auto p-2">
-          {groupedConversations.length > 0 ? (
+          {!showArchived && !selectedTag && (
+            <div className="mb-4 space-y-1">
+              <div className="flex items-center justify-between px-2">
+                <h3 className="text-xs font-medium text-muted-foreground">
+                  Projects
+                </h3>
+                <button
+                  className="p-1 rounded text-muted-foreground hover:bg-accent"
+                  onClick={() =>
+                    setProjectDialog({ open: true, projectId: null })
+                  }
+                  title="New project"
+                >
+                  <FolderPlus className="h-4 w-4" />
+                </button>
+              </div>
+              {projects?.map((project) => {
+                const isCollapsed = collapsedProjectIds.includes(project._id);
+                return (
+                  <div key={project._id}>
+                    <div className="group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm hover:bg-accent/50">
+                      <button
+                        className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                        onClick={() => toggleProject(project._id)}
+                        aria-expanded={!isCollapsed}
+                      >
+                        {isCollapsed ? (
+                          <ChevronRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        ) : (
+                          <ChevronDown className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        )}
+                        <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{project.name}</span>
+                      </button>
+                      <div className="flex opacity-0 group-hover:opacity-100 transition-none">
+                        <button
+                          className="p-1 rounded hover:bg-accent"
+                          onClick={() => onCreateConversation(project._id)}
+                          title="New chat in project"
+                        >
+                          <Plus className="h-4 w-4 text-muted-foreground" />
+                        </button>
+                        <button
+                          className="p-1 rounded hover:bg-accent"
+                          onClick={() =>
+                            setProjectDialog({
+                              open: true,
+                              projectId: project._id,
+                            })
+                          }
+                          title="Project instructions and files"
+                        >
+                          <Settings className="h-4 w-4 text-muted-foreground" />
+                        </button>
+                      </div>
+                    </div>
+                    {!isCollapsed && (
+                      <ProjectConversations
+                        projectId={project._id}
+                        renderConversation={renderConversation}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {groupedConversations.length > 0 && (
             <div className="space-y-4">
               {groupedConversations.map(([groupName, groupConversations]) => (
                 <div key={groupName} className="space-y-1">
@@ -104,48 +544,49 @@ const ChatSidebar = memo(
                     {groupName}
                   </h3>
                   <div className="space-y-1">
-                    {groupConversations.map((conv) => {
-                      const isSelected = selectedConversationId === conv._id;
-                      const conversationTitle = conv.name
-                        ? conv.name.replace(/^"|"$/g, "")
-                        : "Unnamed Chat";
-                      return (
-                        <div key={conv._id} className="group relative">
-                          <SidebarItem
-                            title={conversationTitle}
-                            isActive={isSelected}
-                            onClick={() => onConversationSelect(conv._id)}
-                          >
-                            <button
-                              className="absolute right-2 opacity-0 group-hover:opacity-100 transition-none p-1 rounded hover:bg-destructive/10"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                onDeleteConversation(conv._id);
-                              }}
-                              title="Delete chat"
-                            >
-                              <Trash className="h-4 w-4 text-destructive" />
-                            </button>
-                          </SidebarItem>
-                        </div>
-                      );
-                    })}
+                    {groupConversations.map(renderConversation)}
                   </div>
                 </div>
               ))}
             </div>
-          ) : (
-            <div className="mb-4">
-              <h3 className="text-xs font-medium text-muted-foreground mb-2 px-2">
-                Chats
-              </h3>
-              <div className="text-xs text-muted-foreground px-2">
-                No chats yet.
-              </div>
-            </div>
           )}
+          <div ref={moreConversationsRef} className="flex justify-center">
+            {visibleConversations.status === "LoadingMore" && (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+          {groupedConversations.length === 0 &&
+            visibleConversations.status === "Exhausted" && (
+              <div className="mb-4">
+                <h3 className="text-xs font-medium text-muted-foreground mb-2 px-2">
+                  {showArchived ? "Archived" : "Chats"}
+                </h3>
+                <div className="text-xs text-muted-foreground px-2">
+                  {selectedTag
+                    ? `No ${showArchived ? "archived " : ""}chats tagged ${selectedTag.name}.`
+                    : showArchived
+                      ? "No archived chats."
+                      : "No chats yet."}
+                </div>
+              </div>
+            )}
         </div>
 
+        <ProjectDialog
+          project={
+            projects?.find(({ _id }) => _id === projectDialog.projectId) ?? null
+          }
+          open={projectDialog.open}
+          onOpenChange={(open) =>
+            setProjectDialog((dialog) => ({ ...dialog, open }))
+          }
+        />
+
+        <TagsDialog
+          open={isTagsDialogOpen}
+          onOpenChange={setIsTagsDialogOpen}
+        />
+
         {/* Settings Footer */}
         <div className="p-3 border-t border-border mt-auto">
           <Button
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "@backend/_generated/api";
+import type { Id } from "@backend/_generated/dataModel";
+import type { ExportFormat } from "@backend/conversationExport";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+type ExportOption = "markdown" | "json" | "html" | "pdf";
+
+const EXPORT_OPTIONS: { option: ExportOption; label: string }[] = [
+  { option: "markdown", label: "Markdown (.md)" },
+  { option: "json", label: "JSON (.json)" },
+  { option: "html", label: "Web page (.html)" },
+  { option: "pdf", label: "PDF (print)" },
+];
+
+function downloadFile(fileName: string, mimeType: string, content: string) {
+  const url = URL.createObjectURL(
+    new Blob([content], { type: `${mimeType};charset=utf-8` }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface ExportMenuProps {
+  conversationId: Id<"conversations">;
+}
+
+export function ExportMenu({ conversationId }: ExportMenuProps) {
+  const exportConversation = useAction(
+    api.chatQueriesAndMutations.exportConversation,
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = menuRef.current;
+    if (!node || !isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!node.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const runExport = async (option: ExportOption) => {
+    setIsOpen(false);
+    // The print window has to be opened before awaiting, or it is blocked
+    const printWindow = option === "pdf" ? window.open("", "_blank") : null;
+    if (option === "pdf" && !printWindow) {
+      toast.error("Allow pop-ups for this site to export as PDF");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const format: ExportFormat = option === "pdf" ? "html" : option;
+      const file = await exportConversation({
+        conversationId,
+        format,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      if (printWindow) {
+        printWindow.document.open();
+        printWindow.document.write(file.content);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      } else {
+        downloadFile(file.fileName, file.mimeType, file.content);
+      }
+    } catch (error) {
+      console.error("Failed to export conversation:", error);
+      printWindow?.close();
+      toast.error("Failed to export the chat. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="relative"
+      ref={menuRef}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") setIsOpen(false);
+      }}
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        className="shrink-0 text-muted-foreground"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Export this chat"
+      >
+        <Download className="h-4 w-4" />
+        <span className="hidden md:inline">Export</span>
+      </Button>
+
+      {isOpen && (
+        <div
+          className="absolute top-full right-0 mt-1 min-w-44 bg-background border border-border rounded-md shadow-lg z-50 py-1"
+          role="menu"
+          aria-label="Export format"
+        >
+          {EXPORT_OPTIONS.map(({ option, label }) => (
+            <button
+              key={option}
+              role="menuitem"
+              onClick={() => void runExport(option)}
+              className="w-full px-3 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
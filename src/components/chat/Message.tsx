@@ -1,9 +1,23 @@
 import { memo, useMemo, useState } from "react";
-import { FileText, ChevronDown, ChevronRight } from "lucide-react";
+import {
+  FileText,
+  ChevronDown,
+  ChevronRight,
+  Pencil,
+  GitBranch,
+  ChevronLeft,
+  RotateCcw,
+} from "lucide-react";
 import { marked } from "marked";
 import DOMPurify from "dompurify";
-import type { Id, Doc } from "@backend/_generated/dataModel";
+import type { Id } from "@backend/_generated/dataModel";
+import type { MessageWithVersions } from "@backend/chatQueriesAndMutations";
+import { SUPPORTED_MODELS } from "@backend/constants";
 import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { describeUsage, formatCost, formatTokens } from "@/lib/usage";
+import { RegenerateMenu, type RegenerateOptions } from "./RegenerateMenu";
 
 type Citation =
   | {
@@ -17,7 +31,8 @@ type Citation =
       title: string;
     };
 
-type Message = Doc<"messages"> & {
+// Shared messages come without their conversation, which stays private
+type Message = Omit<MessageWithVersions, "conversationId"> & {
   citations?: Citation[];
 };
 
@@ -25,10 +40,22 @@ export interface MessageProps {
   message: Message;
   truncateFileName: (fileName: string, isCitation?: boolean) => string;
   handleFilePreview: (messageId: Id<"messages">, fileName: string) => void;
-  handleCitationClick?: (
-    conversationId: Id<"conversations">,
-    openaiFileId: string,
-  ) => void;
+  handleCitationClick?: (openaiFileId: string) => void;
+  onEditMessage?: (
+    messageId: Id<"messages">,
+    content: string,
+  ) => Promise<void> | void;
+  canEdit?: boolean;
+  onForkMessage?: (messageId: Id<"messages">) => Promise<void> | void;
+  onRegenerateMessage?: (
+    messageId: Id<"messages">,
+    options?: RegenerateOptions,
+  ) => Promise<void> | void;
+  onSelectVersion?: (messageId: Id<"messages">) => Promise<void> | void;
+  // Only the latest reply can be regenerated or switched between versions
+  isLatestReply?: boolean;
+  // Briefly outlined after jumping to the message from search
+  isHighlighted?: boolean;
 }
 
 const MessageComponent = memo(
@@ -37,8 +64,48 @@ const MessageComponent = memo(
     truncateFileName,
     handleFilePreview,
     handleCitationClick,
+    onEditMessage,
+    canEdit,
+    onForkMessage,
+    onRegenerateMessage,
+    onSelectVersion,
+    isLatestReply,
+    isHighlighted,
   }: MessageProps) => {
     const [isReasoningExpanded, setIsReasoningExpanded] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [editedContent, setEditedContent] = useState(message.content);
+
+    const isEditable = message.author === "user" && onEditMessage && canEdit;
+    const isFinishedReply =
+      message.author === "assistant" && message.status !== "typing";
+    const canRegenerate = isFinishedReply && isLatestReply;
+    const versions = message.versions;
+    const modelName = SUPPORTED_MODELS.find(
+      (model) => model.id === message.model,
+    )?.name;
+
+    const showVersion = (offset: number) => {
+      if (!versions || !onSelectVersion) return;
+      const versionId = versions.messageIds[versions.index + offset];
+      if (versionId) {
+        void onSelectVersion(versionId);
+      }
+    };
+
+    const startEditing = () => {
+      setEditedContent(message.content);
+      setIsEditing(true);
+    };
+
+    const saveEdit = () => {
+      const trimmed = editedContent.trim();
+      if (!trimmed || !onEditMessage) return;
+      setIsEditing(false);
+      if (trimmed !== message.content) {
+        void onEditMessage(message._id, trimmed);
+      }
+    };
 
     const parsedContent = useMemo(() => {
       if (!message.content || message.content.trim() === "") return "";
@@ -65,7 +132,8 @@ const MessageComponent = memo(
 
     return (
       <div
-        className={`flex ${message.author === "user" ? "justify-end" : "justify-start"}`}
+        id={`message-${message._id}`}
+        className={`group flex scroll-mt-4 ${message.author === "user" ? "justify-end" : "justify-start"}`}
       >
         <div
           className={`flex items-start gap-2 md:gap-3 ${
@@ -77,8 +145,22 @@ const MessageComponent = memo(
               : "max-w-[95%] sm:max-w-[95%] md:max-w-[85%]"
           }`}
         >
+          {isEditable && !isEditing && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+              onClick={startEditing}
+              title="Edit message"
+            >
+              <Pencil className="h-4 w-4 text-muted-foreground" />
+              <span className="sr-only">Edit message</span>
+            </Button>
+          )}
           <div
-            className={`rounded-lg px-3 py-2 md:px-4 md:py-2 min-w-0 flex-1 ${
+            className={`rounded-lg px-3 py-2 md:px-4 md:py-2 min-w-0 flex-1 transition-shadow ${
+              isHighlighted ? "ring-2 ring-amber-400 ring-offset-2" : ""
+            } ${
               message.author === "user"
                 ? "bg-primary text-primary-foreground"
                 : ""
@@ -134,11 +216,48 @@ const MessageComponent = memo(
             )}
 
             {/* Main Message Content */}
-            {parsedContent && (
-              <div
-                dangerouslySetInnerHTML={{ __html: parsedContent }}
-                className={`prose prose-sm max-w-none dark:prose-invert break-words overflow-wrap-anywhere [&>p]:my-0 ${message.author === "assistant" ? "text-lg" : ""}`}
-              />
+            {isEditing ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={editedContent}
+                  onChange={(e) => setEditedContent(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                      e.preventDefault();
+                      saveEdit();
+                    } else if (e.key === "Escape") {
+                      setIsEditing(false);
+                    }
+                  }}
+                  className="min-w-[16rem] resize-none bg-background text-foreground"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-primary-foreground hover:text-foreground"
+                    onClick={() => setIsEditing(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={saveEdit}
+                    disabled={!editedContent.trim()}
+                  >
+                    Send
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              parsedContent && (
+                <div
+                  dangerouslySetInnerHTML={{ __html: parsedContent }}
+                  className={`prose prose-sm max-w-none dark:prose-invert break-words overflow-wrap-anywhere [&>p]:my-0 ${message.author === "assistant" ? "text-lg" : ""}`}
+                />
+              )
             )}
             {message.author === "assistant" &&
               message.citations &&
@@ -156,12 +275,7 @@ const MessageComponent = memo(
                         <button
                           key={citationIdx}
                           className="p-2 border border-border rounded-md bg-background/50 flex items-center gap-2 min-w-0 w-full hover:bg-background/70 transition-colors cursor-pointer"
-                          onClick={() =>
-                            handleCitationClick(
-                              message.conversationId,
-                              citation.fileId,
-                            )
-                          }
+                          onClick={() => handleCitationClick(citation.fileId)}
                         >
                           <FileText className="h-4 w-4 md:h-5 md:w-5 text-muted-foreground dark:text-gray-300 shrink-0" />
                           <span className="text-xs md:text-sm text-foreground dark:text-white truncate min-w-0 flex-1">
@@ -199,6 +313,102 @@ const MessageComponent = memo(
                   )}
                 </div>
               )}
+            {isFinishedReply && (
+              <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                {/* Older turns keep their shown version, since switching
+                    it would cut the response chain after it */}
+                {versions && canRegenerate && (
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => showVersion(-1)}
+                      disabled={versions.index === 0}
+                      title="Previous version"
+                    >
+                      <ChevronLeft className="h-3.5 w-3.5" />
+                      <span className="sr-only">Previous version</span>
+                    </Button>
+                    <span className="tabular-nums">
+                      {versions.index + 1}/{versions.messageIds.length}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => showVersion(1)}
+                      disabled={
+                        versions.index === versions.messageIds.length - 1
+                      }
+                      title="Next version"
+                    >
+                      <ChevronRight className="h-3.5 w-3.5" />
+                      <span className="sr-only">Next version</span>
+                    </Button>
+                  </div>
+                )}
+                {modelName && (versions || canRegenerate) && (
+                  <span className="px-1">{modelName}</span>
+                )}
+                {message.status === "cancelled" && (
+                  <span className="px-1 italic">Stopped</span>
+                )}
+                {message.status === "error" && (
+                  <span className="px-1 italic text-destructive">Failed</span>
+                )}
+                {/* Failed replies show their retry button without hovering */}
+                {message.status === "error" &&
+                  canRegenerate &&
+                  onRegenerateMessage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-muted-foreground"
+                      onClick={() => void onRegenerateMessage(message._id)}
+                      title="Try generating this reply again"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      Retry
+                    </Button>
+                  )}
+                {message.usage && (
+                  <span
+                    className="px-1 tabular-nums"
+                    title={describeUsage(message.usage)}
+                  >
+                    {formatTokens(
+                      message.usage.inputTokens + message.usage.outputTokens,
+                    )}{" "}
+                    tokens
+                    {message.usage.costUsd !== undefined &&
+                      ` · ${formatCost(message.usage.costUsd)}`}
+                  </span>
+                )}
+                <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                  {canRegenerate && onRegenerateMessage && (
+                    <RegenerateMenu
+                      currentModel={message.model}
+                      onRegenerate={(options) =>
+                        void onRegenerateMessage(message._id, options)
+                      }
+                    />
+                  )}
+                  {onForkMessage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-muted-foreground"
+                      onClick={() => void onForkMessage(message._id)}
+                      title="Fork into a new chat from this reply"
+                    >
+                      <GitBranch className="h-3.5 w-3.5" />
+                      Fork
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
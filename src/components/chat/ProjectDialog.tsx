@@ -0,0 +1,297 @@
+import { useId, useRef, useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "@backend/_generated/api";
+import type { Doc, Id } from "@backend/_generated/dataModel";
+import {
+  MAX_FILES,
+  MAX_PROJECT_INSTRUCTIONS_LENGTH,
+  MAX_PROJECT_NAME_LENGTH,
+  SUPPORTED_FILE_TYPES,
+} from "@backend/constants";
+import { FileText, Loader2, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { getErrorMessage } from "@/lib/utils";
+
+// Files of an existing project, with upload and remove buttons
+function ProjectFiles({ projectId }: { projectId: Id<"projects"> }) {
+  const files = useQuery(api.projectQueriesAndMutations.listProjectFiles, {
+    projectId,
+  });
+  const generateUploadUrl = useMutation(
+    api.chatQueriesAndMutations.generateUploadUrl,
+  );
+  const uploadProjectFiles = useAction(api.projects.uploadProjectFiles);
+  const removeProjectFile = useMutation(
+    api.projectQueriesAndMutations.removeProjectFile,
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const upload = async (fileList: FileList) => {
+    const selected = Array.from(fileList);
+    if (selected.length > MAX_FILES) {
+      toast.error(`You can upload at most ${MAX_FILES} files at a time`);
+      return;
+    }
+    setIsUploading(true);
+    try {
+      const uploadedConvexFiles = await Promise.all(
+        selected.map(async (file) => {
+          const result = await fetch(await generateUploadUrl(), {
+            method: "POST",
+            headers: { "Content-Type": file.type },
+            body: file,
+          });
+          const { storageId } = (await result.json()) as {
+            storageId: Id<"_storage">;
+          };
+          return { storageId, fileName: file.name };
+        }),
+      );
+      const { errors } = await uploadProjectFiles({
+        projectId,
+        uploadedConvexFiles,
+      });
+      errors.forEach((error) => toast.error(error));
+      if (errors.length < selected.length) {
+        toast.success("Files added to the project");
+      }
+    } catch (error) {
+      console.error("Failed to upload project files:", error);
+      toast.error(
+        getErrorMessage(error, "Failed to upload the files. Please try again."),
+      );
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const remove = async (fileId: Id<"projectFiles">) => {
+    try {
+      await removeProjectFile({ fileId });
+    } catch (error) {
+      console.error("Failed to remove project file:", error);
+      toast.error("Failed to remove the file. Please try again.");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Files</Label>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+        >
+          {isUploading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4" />
+          )}
+          Add files
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          accept={SUPPORTED_FILE_TYPES.map((type) => `.${type}`).join(",")}
+          onChange={(e) => {
+            if (e.target.files?.length) void upload(e.target.files);
+          }}
+        />
+      </div>
+      {files === undefined ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : files.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No files yet. Every chat in the project can search the files you add
+          here.
+        </p>
+      ) : (
+        <ul className="max-h-48 divide-y divide-border overflow-y-auto rounded-md border border-border">
+          {files.map((file) => (
+            <li key={file._id} className="flex items-center gap-2 px-3 py-2">
+              <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="min-w-0 flex-1 truncate text-sm">
+                {file.fileName}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive"
+                onClick={() => void remove(file._id)}
+                title="Remove file"
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove file</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface ProjectDialogProps {
+  // The project to edit, or null to create a new one
+  project: Doc<"projects"> | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ProjectDialog({
+  project,
+  open,
+  onOpenChange,
+}: ProjectDialogProps) {
+  const createProject = useMutation(
+    api.projectQueriesAndMutations.createProject,
+  );
+  const updateProject = useMutation(
+    api.projectQueriesAndMutations.updateProject,
+  );
+  const deleteProject = useMutation(
+    api.projectQueriesAndMutations.deleteProject,
+  );
+  const [name, setName] = useState("");
+  const [instructions, setInstructions] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  // Deleting takes a second click, since the project's files go with it
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  // A project created in this dialog stays open so files can be added
+  const [createdProjectId, setCreatedProjectId] =
+    useState<Id<"projects"> | null>(null);
+  const nameId = useId();
+  const instructionsId = useId();
+  const projectId = project?._id ?? createdProjectId;
+
+  // Start from the saved values each time the dialog opens, without
+  // resetting drafts when the project updates while it is open
+  const [wasOpen, setWasOpen] = useState(false);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setName(project?.name ?? "");
+      setInstructions(project?.instructions ?? "");
+      setCreatedProjectId(null);
+      setIsConfirmingDelete(false);
+    }
+  }
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      if (projectId) {
+        await updateProject({ projectId, name, instructions });
+        onOpenChange(false);
+        toast.success("Project saved");
+      } else {
+        setCreatedProjectId(await createProject({ name, instructions }));
+        toast.success("Project created. Add files to share with its chats.");
+      }
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      toast.error(
+        getErrorMessage(error, "Failed to save the project. Please try again."),
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!projectId) return;
+    if (!isConfirmingDelete) {
+      setIsConfirmingDelete(true);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await deleteProject({ projectId });
+      onOpenChange(false);
+      toast.success("Project deleted. Its chats were kept.");
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      toast.error("Failed to delete the project. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{projectId ? "Project" : "New project"}</DialogTitle>
+          <DialogDescription>
+            Chats in a project follow its instructions and can search its files.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={nameId}>Name</Label>
+            <Input
+              id={nameId}
+              value={name}
+              maxLength={MAX_PROJECT_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Thesis"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={instructionsId}>Instructions</Label>
+            <Textarea
+              id={instructionsId}
+              value={instructions}
+              maxLength={MAX_PROJECT_INSTRUCTIONS_LENGTH}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder="e.g. Answer in British English and cite the papers by author and year."
+              className="min-h-32 resize-y"
+            />
+          </div>
+          {projectId && <ProjectFiles projectId={projectId} />}
+        </div>
+        <DialogFooter>
+          {projectId && (
+            <Button
+              variant={isConfirmingDelete ? "destructive" : "outline"}
+              className={
+                isConfirmingDelete ? "mr-auto" : "mr-auto text-destructive"
+              }
+              onClick={() => void remove()}
+              disabled={isSaving}
+            >
+              <Trash2 className="h-4 w-4" />
+              {isConfirmingDelete
+                ? "Delete project and files"
+                : "Delete project"}
+            </Button>
+          )}
+          <Button
+            onClick={() => void save()}
+            disabled={isSaving || !name.trim()}
+          >
+            {projectId ? "Save" : "Create project"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown, RefreshCw } from "lucide-react";
+import {
+  SUPPORTED_MODELS,
+  THINKING_INTENSITY_LEVELS,
+  type ThinkingIntensity,
+} from "@backend/constants";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+export interface RegenerateOptions {
+  model?: string;
+  thinkingIntensity?: ThinkingIntensity;
+}
+
+interface RegenerateMenuProps {
+  currentModel?: string;
+  onRegenerate: (options?: RegenerateOptions) => void;
+  disabled?: boolean;
+}
+
+export function RegenerateMenu({
+  currentModel,
+  onRegenerate,
+  disabled,
+}: RegenerateMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const node = menuRef.current;
+    if (!node || !isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!node.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const regenerate = (options?: RegenerateOptions) => {
+    setIsOpen(false);
+    onRegenerate(options);
+  };
+
+  return (
+    <div
+      className="relative flex items-center"
+      ref={menuRef}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") setIsOpen(false);
+      }}
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 text-xs text-muted-foreground"
+        onClick={() => regenerate()}
+        disabled={disabled}
+        title="Regenerate this reply"
+      >
+        <RefreshCw className="h-3.5 w-3.5" />
+        Regenerate
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-1 text-muted-foreground"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        title="Regenerate with a different model"
+      >
+        <ChevronDown
+          className={cn(
+            "h-3.5 w-3.5 transition-transform",
+            isOpen && "rotate-180",
+          )}
+        />
+      </Button>
+
+      {isOpen && (
+        <div
+          className="absolute top-full left-0 mt-1 min-w-56 bg-background border border-border rounded-md shadow-lg z-50 py-1"
+          role="listbox"
+          aria-label="Regenerate with model"
+        >
+          {SUPPORTED_MODELS.map((model) => (
+            <div
+              key={model.id}
+              className="flex items-center justify-between gap-2 px-1"
+            >
+              <button
+                role="option"
+                aria-selected={model.id === currentModel}
+                onClick={() => regenerate({ model: model.id })}
+                className={cn(
+                  "flex-1 rounded px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground",
+                  model.id === currentModel && "font-medium",
+                )}
+              >
+                {model.name}
+              </button>
+              {model.thinking && (
+                <div className="flex gap-0.5">
+                  {THINKING_INTENSITY_LEVELS.map((intensity) => (
+                    <button
+                      key={intensity}
+                      onClick={() =>
+                        regenerate({
+                          model: model.id,
+                          thinkingIntensity: intensity,
+                        })
+                      }
+                      className="rounded px-1.5 py-0.5 text-xs capitalize text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                      title={`${model.name} with ${intensity} thinking`}
+                    >
+                      {intensity}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useEffect, useRef, useState } from "react";
+import { useAction, useQuery } from "convex/react";
+import { useNavigate } from "@tanstack/react-router";
+import type { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import { api } from "@backend/_generated/api";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, MessageSquare, Search, User, Bot } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn, getErrorMessage } from "@/lib/utils";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+// Keywords search as you type, meaning searches on Enter since every search
+// calls the embedding provider
+type SearchMode = "keywords" | "meaning";
+
+const SEARCH_MODES: { id: SearchMode; label: string }[] = [
+  { id: "keywords", label: "Keywords" },
+  { id: "meaning", label: "Meaning" },
+];
+
+type SearchResult = FunctionReturnType<
+  typeof api.searchQueriesAndMutations.searchMessages
+>[number];
+
+function HighlightedSnippet({
+  text,
+  highlights,
+}: Pick<SearchResult, "highlights"> & { text: string }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const { start, end } of highlights) {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-amber-200 px-0.5 text-foreground dark:bg-amber-500/40"
+      >
+        {text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
+
+function ResultIcon({ result }: { result: SearchResult }) {
+  const className = "h-4 w-4 shrink-0 text-muted-foreground";
+  if (!result.messageId) {
+    return <MessageSquare className={className} />;
+  }
+  return result.author === "user" ? (
+    <User className={className} />
+  ) : (
+    <Bot className={className} />
+  );
+}
+
+export interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Command palette for searching all chats, opened with Ctrl/Cmd+K
+export function SearchPalette({ open, onOpenChange }: SearchPaletteProps) {
+  const navigate = useNavigate();
+  const [mode, setMode] = useState<SearchMode>("keywords");
+  const [searchText, setSearchText] = useState("");
+  const [debouncedSearchText, setDebouncedSearchText] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const semanticSearch = useAction(api.semanticSearch.semanticSearch);
+  const [semanticSearchText, setSemanticSearchText] = useState("");
+  const [semanticResults, setSemanticResults] = useState<SearchResult[]>();
+  const [isSemanticSearching, setIsSemanticSearching] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setDebouncedSearchText(searchText.trim()),
+      SEARCH_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const keywordResults = useQuery(
+    api.searchQueriesAndMutations.searchMessages,
+    open && mode === "keywords" && debouncedSearchText
+      ? { query: debouncedSearchText }
+      : "skip",
+  );
+
+  const trimmedSearchText = searchText.trim();
+  const isSemanticResultCurrent =
+    semanticSearchText !== "" && semanticSearchText === trimmedSearchText;
+  const results =
+    mode === "keywords"
+      ? keywordResults
+      : isSemanticResultCurrent
+        ? semanticResults
+        : undefined;
+  const isSearching =
+    mode === "keywords"
+      ? trimmedSearchText !== "" &&
+        (keywordResults === undefined ||
+          trimmedSearchText !== debouncedSearchText)
+      : isSemanticSearching;
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setSearchText("");
+      setDebouncedSearchText("");
+      setSemanticSearchText("");
+      setSemanticResults(undefined);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const openResult = (result: SearchResult) => {
+    handleOpenChange(false);
+    void navigate({
+      to: "/c/$conversationId",
+      params: { conversationId: result.conversationId },
+      search: result.messageId ? { messageId: result.messageId } : {},
+    });
+  };
+
+  const runSemanticSearch = async (text: string) => {
+    setIsSemanticSearching(true);
+    try {
+      const found = await semanticSearch({ query: text });
+      setSemanticSearchText(text);
+      setSemanticResults(found);
+    } catch (error) {
+      console.error("Semantic search failed:", error);
+      toast.error(getErrorMessage(error, "Search failed. Please try again."));
+    } finally {
+      setIsSemanticSearching(false);
+    }
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (
+      e.key === "Enter" &&
+      mode === "meaning" &&
+      trimmedSearchText &&
+      !isSemanticResultCurrent
+    ) {
+      e.preventDefault();
+      if (!isSemanticSearching) {
+        void runSemanticSearch(trimmedSearchText);
+      }
+      return;
+    }
+    if (!results || results.length === 0) {
+      return;
+    }
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % results.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    }
+  };
+
+  const emptyText =
+    mode === "keywords"
+      ? !debouncedSearchText
+        ? "Type to search all your chats"
+        : keywordResults?.length === 0
+          ? `No matches for \u201c${debouncedSearchText}\u201d`
+          : undefined
+      : !isSemanticResultCurrent
+        ? trimmedSearchText
+          ? "Press Enter to search by meaning"
+          : "Ask something like \u201cwhere did we discuss rate limiting\u201d"
+        : semanticResults?.length === 0
+          ? "No related messages found"
+          : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="top-[20%] max-w-xl translate-y-0 gap-0 overflow-hidden p-0 data-[state=closed]:slide-out-to-top-[20%] data-[state=open]:slide-in-from-top-[20%]">
+        <DialogTitle className="sr-only">Search chats</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search the names and messages of all your chats
+        </DialogDescription>
+        <div className="flex items-center gap-2 border-b px-4">
+          {isSearching ? (
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+          ) : (
+            <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          )}
+          <input
+            ref={inputRef}
+            autoFocus
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            onKeyDown={handleInputKeyDown}
+            placeholder={
+              mode === "keywords"
+                ? "Search chats and messages..."
+                : "Describe what you're looking for..."
+            }
+            className="h-12 min-w-0 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            role="combobox"
+            aria-expanded={Boolean(results?.length)}
+            aria-controls="search-results"
+          />
+          <div className="mr-6 flex shrink-0 gap-1">
+            {SEARCH_MODES.map((option) => (
+              <Button
+                key={option.id}
+                type="button"
+                variant={option.id === mode ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => {
+                  setMode(option.id);
+                  inputRef.current?.focus();
+                }}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div
+          ref={listRef}
+          id="search-results"
+          role="listbox"
+          className="max-h-96 overflow-y-auto p-2"
+        >
+          {emptyText ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+              {emptyText}
+            </p>
+          ) : (
+            results?.map((result, index) => (
+              <button
+                key={result.messageId ?? result.conversationId}
+                data-index={index}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn(
+                  "flex w-full items-start gap-3 rounded-md px-3 py-2 text-left",
+                  index === activeIndex && "bg-accent",
+                )}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => openResult(result)}
+              >
+                <span className="mt-0.5">
+                  <ResultIcon result={result} />
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-xs text-muted-foreground">
+                    {result.messageId
+                      ? result.conversationName.replace(/^"|"$/g, "")
+                      : "Chat"}
+                    {" · "}
+                    {new Date(result.time).toLocaleDateString()}
+                  </span>
+                  <span className="line-clamp-2 text-sm">
+                    <HighlightedSnippet
+                      text={result.snippet}
+                      highlights={result.highlights}
+                    />
+                  </span>
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "@backend/_generated/api";
+import type { Id } from "@backend/_generated/dataModel";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { getErrorMessage } from "@/lib/utils";
+
+type Share = FunctionReturnType<
+  typeof api.shareQueriesAndMutations.listShares
+>[number];
+type ShareMode = Share["mode"];
+
+const SHARE_MODES: { id: ShareMode; label: string; description: string }[] = [
+  {
+    id: "snapshot",
+    label: "Snapshot",
+    description: "Shows the chat as it is now",
+  },
+  {
+    id: "live",
+    label: "Live",
+    description: "Shows new messages as the chat continues",
+  },
+];
+
+const getShareUrl = (slug: string) => `${window.location.origin}/share/${slug}`;
+
+// Share links with copy and revoke buttons, in the dialog and in Settings
+export function ShareLinkList({
+  shares,
+  showNames,
+}: {
+  shares: Share[];
+  showNames?: boolean;
+}) {
+  const revokeShare = useMutation(api.shareQueriesAndMutations.revokeShare);
+
+  const copyLink = async (slug: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(slug));
+      toast.success("Link copied");
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+      toast.error("Failed to copy the link");
+    }
+  };
+
+  const revoke = async (shareId: Id<"sharedConversations">) => {
+    try {
+      await revokeShare({ shareId });
+      toast.success("Link revoked");
+    } catch (error) {
+      console.error("Failed to revoke link:", error);
+      toast.error("Failed to revoke the link. Please try again.");
+    }
+  };
+
+  return (
+    <ul className="divide-y divide-border rounded-md border border-border">
+      {shares.map((share) => (
+        <li key={share._id} className="flex items-center gap-2 px-3 py-2">
+          <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="min-w-0 flex-1 text-sm">
+            {showNames && (
+              <p className="truncate font-medium">
+                {share.name.replace(/^"|"$/g, "")}
+              </p>
+            )}
+            <p className="truncate text-xs text-muted-foreground">
+              {share.mode === "live" ? "Live" : "Snapshot"}
+              {share.includeFiles ? " with files" : ""} · created{" "}
+              {new Date(share._creationTime).toLocaleDateString()}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => void copyLink(share.slug)}
+            title="Copy link"
+          >
+            <Copy className="h-4 w-4" />
+            <span className="sr-only">Copy link</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive"
+            onClick={() => void revoke(share._id)}
+            title="Revoke link"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Revoke link</span>
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ShareDialogProps {
+  conversationId: Id<"conversations">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShareDialog({
+  conversationId,
+  open,
+  onOpenChange,
+}: ShareDialogProps) {
+  const createShare = useMutation(api.shareQueriesAndMutations.createShare);
+  const shares = useQuery(
+    api.shareQueriesAndMutations.listShares,
+    open ? { conversationId } : "skip",
+  );
+  const [mode, setMode] = useState<ShareMode>("snapshot");
+  const [includeFiles, setIncludeFiles] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const create = async () => {
+    setIsCreating(true);
+    try {
+      const { slug } = await createShare({
+        conversationId,
+        mode,
+        includeFiles,
+      });
+      try {
+        await navigator.clipboard.writeText(getShareUrl(slug));
+        toast.success("Link created and copied");
+      } catch {
+        toast.success("Link created");
+      }
+    } catch (error) {
+      console.error("Failed to create share link:", error);
+      toast.error(getErrorMessage(error, "Failed to create the link"));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share chat</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read this chat without signing in. Revoke
+            links here or in Settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {SHARE_MODES.map((option) => (
+              <Button
+                key={option.id}
+                type="button"
+                variant={option.id === mode ? "default" : "outline"}
+                className="h-auto flex-col items-start gap-0.5 whitespace-normal py-2 text-left"
+                onClick={() => setMode(option.id)}
+              >
+                <span>{option.label}</span>
+                <span className="text-xs font-normal opacity-80">
+                  {option.description}
+                </span>
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-start gap-2">
+            <input
+              id="share-include-files"
+              type="checkbox"
+              className="mt-1"
+              checked={includeFiles}
+              onChange={(e) => setIncludeFiles(e.target.checked)}
+            />
+            <Label htmlFor="share-include-files" className="leading-snug">
+              Include attachments and sources, so viewers can open your uploaded
+              files
+            </Label>
+          </div>
+          <Button
+            onClick={() => void create()}
+            disabled={isCreating}
+            className="w-full"
+          >
+            Create link
+          </Button>
+
+          {shares && shares.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Links to this chat</p>
+              <ShareLinkList shares={shares} />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,254 @@
+import { useId, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@backend/_generated/api";
+import type { Id } from "@backend/_generated/dataModel";
+import {
+  MAX_TAG_NAME_LENGTH,
+  TAG_COLORS,
+  type TagColor,
+} from "@backend/constants";
+import { Check, Pencil, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn, getErrorMessage } from "@/lib/utils";
+
+// Full class names, so that Tailwind keeps them
+const TAG_DOT_CLASSES: Record<TagColor, string> = {
+  gray: "bg-gray-400",
+  red: "bg-red-500",
+  orange: "bg-orange-500",
+  yellow: "bg-yellow-400",
+  green: "bg-green-500",
+  blue: "bg-blue-500",
+  purple: "bg-purple-500",
+  pink: "bg-pink-500",
+};
+
+export function TagDot({
+  color,
+  className,
+}: {
+  color: TagColor;
+  className?: string;
+}) {
+  return (
+    <span
+      className={cn(
+        "inline-block h-2 w-2 shrink-0 rounded-full",
+        TAG_DOT_CLASSES[color],
+        className,
+      )}
+    />
+  );
+}
+
+interface TagChipProps {
+  name: string;
+  color: TagColor;
+  isActive?: boolean;
+  // Suggested tags are drawn with a dashed border
+  isSuggested?: boolean;
+  onClick?: () => void;
+  title?: string;
+}
+
+export function TagChip({
+  name,
+  color,
+  isActive = false,
+  isSuggested = false,
+  onClick,
+  title,
+}: TagChipProps) {
+  return (
+    <button
+      type="button"
+      className={cn(
+        "inline-flex max-w-40 items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:bg-accent",
+        isActive && "border-foreground bg-accent text-foreground",
+        isSuggested && "border-dashed",
+      )}
+      onClick={onClick}
+      aria-pressed={onClick ? isActive : undefined}
+      title={title}
+    >
+      <TagDot color={color} />
+      <span className="truncate">{name}</span>
+    </button>
+  );
+}
+
+interface TagsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Dialog to create, rename, recolor and delete tags
+export function TagsDialog({ open, onOpenChange }: TagsDialogProps) {
+  const tags = useQuery(api.tagQueriesAndMutations.listTags);
+  const createTag = useMutation(api.tagQueriesAndMutations.createTag);
+  const updateTag = useMutation(api.tagQueriesAndMutations.updateTag);
+  const deleteTag = useMutation(api.tagQueriesAndMutations.deleteTag);
+  // Tag being edited in the form, or null to create a new one
+  const [editedTagId, setEditedTagId] = useState<Id<"tags"> | null>(null);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<TagColor>("blue");
+  const [isSaving, setIsSaving] = useState(false);
+  const nameId = useId();
+
+  const resetForm = () => {
+    setEditedTagId(null);
+    setName("");
+    setColor("blue");
+  };
+
+  // Start with an empty form each time the dialog opens
+  const [wasOpen, setWasOpen] = useState(false);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) resetForm();
+  }
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      if (editedTagId) {
+        await updateTag({ tagId: editedTagId, name, color });
+        toast.success("Tag saved");
+      } else {
+        await createTag({ name, color });
+        toast.success("Tag created");
+      }
+      resetForm();
+    } catch (error) {
+      console.error("Failed to save tag:", error);
+      toast.error(
+        getErrorMessage(error, "Failed to save the tag. Please try again."),
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (tagId: Id<"tags">) => {
+    try {
+      await deleteTag({ tagId });
+      if (editedTagId === tagId) resetForm();
+      toast.success("Tag deleted. Its chats were kept.");
+    } catch (error) {
+      console.error("Failed to delete tag:", error);
+      toast.error("Failed to delete the tag. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+          <DialogDescription>
+            Tag chats to find them again with the filter in the sidebar. New
+            chats get matching tags suggested.
+          </DialogDescription>
+        </DialogHeader>
+        {tags && tags.length > 0 && (
+          <ul className="max-h-56 divide-y divide-border overflow-y-auto rounded-md border border-border">
+            {tags.map((tag) => (
+              <li key={tag._id} className="flex items-center gap-2 px-3 py-1">
+                <TagDot color={tag.color} />
+                <span className="min-w-0 flex-1 truncate text-sm">
+                  {tag.name}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => {
+                    setEditedTagId(tag._id);
+                    setName(tag.name);
+                    setColor(tag.color);
+                  }}
+                  title="Edit tag"
+                >
+                  <Pencil className="h-4 w-4" />
+                  <span className="sr-only">Edit tag</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => void remove(tag._id)}
+                  title="Delete tag"
+                >
+                  <X className="h-4 w-4" />
+                  <span className="sr-only">Delete tag</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor={nameId}>{editedTagId ? "Edit tag" : "New tag"}</Label>
+          <Input
+            id={nameId}
+            value={name}
+            maxLength={MAX_TAG_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && name.trim()) {
+                e.preventDefault();
+                void save();
+              }
+            }}
+            placeholder="e.g. Work"
+          />
+          <div className="flex gap-1" role="radiogroup" aria-label="Color">
+            {TAG_COLORS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={color === option}
+                className="flex h-7 w-7 items-center justify-center rounded-full hover:bg-accent"
+                onClick={() => setColor(option)}
+                title={option}
+              >
+                <TagDot
+                  color={option}
+                  className={cn(
+                    "h-4 w-4",
+                    color === option && "ring-2 ring-foreground ring-offset-1",
+                  )}
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+        <DialogFooter>
+          {editedTagId && (
+            <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={() => void save()}
+            disabled={isSaving || !name.trim()}
+          >
+            <Check className="h-4 w-4" />
+            {editedTagId ? "Save" : "Add tag"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,18 @@
-import { useState, useEffect, useRef, useMemo, useCallback } from "react";
-import { useNavigate, useParams } from "@tanstack/react-router";
-import { useQuery, useMutation, useAction } from "convex/react";
+import {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useMemo,
+  useCallback,
+} from "react";
+import { useNavigate, useParams, useSearch } from "@tanstack/react-router";
+import {
+  useQuery,
+  useMutation,
+  useAction,
+  usePaginatedQuery,
+} from "convex/react";
 import { api } from "@backend/_generated/api";
 import type { Id } from "@backend/_generated/dataModel";
 import { toast } from "sonner";
@@ -13,13 +25,18 @@ import {
   isThinkingModel,
   supportsThinkingAndWebSearch,
   isOpenRouterModel,
+  type ApiKeyProvider,
   type ThinkingIntensity,
 } from "@backend/constants";
 import { useLocalStorageState } from "@/hooks/useLocalStorageState";
-import { loadApiKeysFromStorage, hasApiKey } from "@/lib/api-keys";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { CONVERSATIONS_PAGE_SIZE, MESSAGES_PAGE_SIZE } from "@/lib/constants";
+import { getErrorMessage } from "@/lib/utils";
+import type { RegenerateOptions } from "./RegenerateMenu";
 
 const MOBILE_FILENAME_TRUNCATION_THRESHOLD = 15;
 const DESKTOP_FILENAME_TRUNCATION_THRESHOLD = 30;
+const MESSAGE_HIGHLIGHT_DURATION_MS = 2000;
 
 export interface SelectedFileState {
   uuid: string;
@@ -35,11 +52,46 @@ export interface FilePreviewModalState {
   fileName: string;
 }
 
+// Check that the API key required by the model is saved, showing a toast if not.
+// While the saved keys are still loading the server performs the check instead.
+function ensureApiKeyForModel(
+  model: string,
+  savedProviders: ApiKeyProvider[] | undefined,
+): boolean {
+  if (!savedProviders) {
+    return true;
+  }
+  if (isOpenRouterModel(model)) {
+    if (!savedProviders.includes("openrouter")) {
+      toast.error(
+        "OpenRouter API key is required for this model. Please add it in Settings.",
+      );
+      return false;
+    }
+  } else if (!savedProviders.includes("openai")) {
+    toast.error(
+      "OpenAI API key is required for this model. Please add it in Settings.",
+    );
+    return false;
+  }
+  return true;
+}
+
+// Warns when most of the budget for the model's provider has been spent
+function showSpendingWarning(result: { spendingWarning?: string }) {
+  if (result.spendingWarning) {
+    toast.warning(result.spendingWarning);
+  }
+}
+
 export function useChat() {
   const navigate = useNavigate();
   const params = useParams({ strict: false });
   const urlConversationId =
     (params?.conversationId as Id<"conversations"> | undefined) ?? null;
+  const search = useSearch({ strict: false });
+  const urlMessageId =
+    (search?.messageId as Id<"messages"> | undefined) ?? null;
 
   const [selectedConversationId, setSelectedConversationId] =
     useState<Id<"conversations"> | null>(urlConversationId);
@@ -58,7 +110,35 @@ export function useChat() {
   const createConversation = useMutation(
     api.chatQueriesAndMutations.createConversation,
   );
-  const conversations = useQuery(api.chatQueriesAndMutations.listConversations);
+  // The sidebar loads more pages as it is scrolled
+  const conversations = usePaginatedQuery(
+    api.chatQueriesAndMutations.listConversations,
+    {},
+    { initialNumItems: CONVERSATIONS_PAGE_SIZE },
+  );
+  const pinnedConversations = useQuery(
+    api.chatQueriesAndMutations.listPinnedConversations,
+  );
+  const projects = useQuery(api.projectQueriesAndMutations.listProjects);
+  const [showArchived, setShowArchived] = useState(false);
+  const archivedConversations = usePaginatedQuery(
+    api.chatQueriesAndMutations.listConversations,
+    showArchived ? { archived: true } : "skip",
+    { initialNumItems: CONVERSATIONS_PAGE_SIZE },
+  );
+  const tags = useQuery(api.tagQueriesAndMutations.listTags);
+  // Tag picked in the sidebar's filter bar, if any
+  const [selectedTagId, setSelectedTagId] = useState<Id<"tags"> | null>(null);
+  const taggedConversations = usePaginatedQuery(
+    api.chatQueriesAndMutations.listConversations,
+    selectedTagId ? { tagId: selectedTagId, archived: showArchived } : "skip",
+    { initialNumItems: CONVERSATIONS_PAGE_SIZE },
+  );
+  const savedApiKeys = useQuery(api.apiKeyQueriesAndMutations.listApiKeys);
+  const savedProviders = useMemo(
+    () => savedApiKeys?.map((key) => key.provider),
+    [savedApiKeys],
+  );
   const sendMessageAction = useAction(api.chatQueriesAndMutations.sendMessage);
   const uploadFileAndSendMessageAction = useAction(
     api.chat.uploadFileAndSendMessage,
@@ -66,6 +146,31 @@ export function useChat() {
   const deleteConversation = useMutation(
     api.chatQueriesAndMutations.deleteConversation,
   );
+  const restoreConversation = useMutation(
+    api.chatQueriesAndMutations.restoreConversation,
+  );
+  const renameConversation = useMutation(
+    api.chatQueriesAndMutations.renameConversation,
+  );
+  const setConversationPinned = useMutation(
+    api.chatQueriesAndMutations.setConversationPinned,
+  );
+  const setConversationArchived = useMutation(
+    api.chatQueriesAndMutations.setConversationArchived,
+  );
+  const editMessageAction = useAction(api.chatQueriesAndMutations.editMessage);
+  const forkConversation = useMutation(
+    api.chatQueriesAndMutations.forkConversation,
+  );
+  const regenerateResponseAction = useAction(
+    api.chatQueriesAndMutations.regenerateResponse,
+  );
+  const selectMessageVersion = useMutation(
+    api.chatQueriesAndMutations.selectMessageVersion,
+  );
+  const cancelGeneration = useMutation(
+    api.chatQueriesAndMutations.cancelGeneration,
+  );
 
   const generateUploadUrl = useMutation(
     api.chatQueriesAndMutations.generateUploadUrl,
@@ -89,6 +194,8 @@ export function useChat() {
     });
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [highlightedMessageId, setHighlightedMessageId] =
+    useState<Id<"messages"> | null>(null);
 
   const [isMobile, setIsMobile] = useState(false);
   useEffect(() => {
@@ -137,11 +244,71 @@ export function useChat() {
     [isMobile],
   );
 
-  const messagesForSelectedConversation = useQuery(
+  const selectedConversation = useQuery(
+    api.chatQueriesAndMutations.getConversationById,
+    selectedConversationId
+      ? { conversationId: selectedConversationId }
+      : "skip",
+  );
+
+  // Messages come newest first, a page at a time, and are shown oldest first
+  const {
+    results: latestMessages,
+    status: messagesStatus,
+    loadMore: loadMoreMessages,
+  } = usePaginatedQuery(
     api.chatQueriesAndMutations.listMessages,
     selectedConversationId
       ? { conversationId: selectedConversationId }
       : "skip",
+    { initialNumItems: MESSAGES_PAGE_SIZE },
+  );
+  const messagesForSelectedConversation = useMemo(
+    () =>
+      messagesStatus === "LoadingFirstPage"
+        ? undefined
+        : [...latestMessages].reverse(),
+    [latestMessages, messagesStatus],
+  );
+
+  // Where the chat was scrolled to, from the bottom, before loading older
+  // messages, so the view stays in place when they are added above
+  const olderMessagesScrollRef = useRef<{
+    firstMessageId: Id<"messages">;
+    distanceFromBottom: number;
+  } | null>(null);
+  const getMessagesViewport = () =>
+    messagesEndRef.current?.closest("[data-radix-scroll-area-viewport]");
+
+  const loadOlderMessages = useCallback(() => {
+    const viewport = getMessagesViewport();
+    const firstMessage = messagesForSelectedConversation?.[0];
+    if (viewport && firstMessage) {
+      olderMessagesScrollRef.current = {
+        firstMessageId: firstMessage._id,
+        distanceFromBottom: viewport.scrollHeight - viewport.scrollTop,
+      };
+    }
+    loadMoreMessages(MESSAGES_PAGE_SIZE);
+  }, [messagesForSelectedConversation, loadMoreMessages]);
+
+  useLayoutEffect(() => {
+    const saved = olderMessagesScrollRef.current;
+    const firstMessage = messagesForSelectedConversation?.[0];
+    if (!saved || !firstMessage || firstMessage._id === saved.firstMessageId) {
+      return;
+    }
+    olderMessagesScrollRef.current = null;
+    const viewport = getMessagesViewport();
+    if (viewport) {
+      viewport.scrollTop = viewport.scrollHeight - saved.distanceFromBottom;
+    }
+  }, [messagesForSelectedConversation]);
+
+  // Goes above the first message shown
+  const olderMessagesRef = useInfiniteScroll(
+    messagesStatus === "CanLoadMore",
+    loadOlderMessages,
   );
 
   // Get conversation model settings to restore when switching conversations
@@ -159,6 +326,7 @@ export function useChat() {
     ) {
       setIsLoadingConversation(true);
       shouldAutoScrollRef.current = true;
+      olderMessagesScrollRef.current = null;
       previousConversationIdRef.current = selectedConversationId;
     }
     if (messagesForSelectedConversation !== undefined) {
@@ -228,24 +396,84 @@ export function useChat() {
     isLoadingConversation,
   ]);
 
+  // Scroll to the message given in the URL (e.g. a search result) once it's
+  // shown, then drop it from the URL so later updates don't scroll back to it
+  useEffect(() => {
+    if (
+      !urlMessageId ||
+      !selectedConversationId ||
+      messagesForSelectedConversation === undefined ||
+      isLoadingConversation
+    ) {
+      return;
+    }
+    const isShown = messagesForSelectedConversation.some(
+      (message) => message._id === urlMessageId,
+    );
+    // Older messages are loaded until the message turns up
+    if (!isShown && messagesStatus !== "Exhausted") {
+      if (messagesStatus === "CanLoadMore") {
+        loadMoreMessages(MESSAGES_PAGE_SIZE);
+      }
+      return;
+    }
+    if (isShown) {
+      document
+        .getElementById(`message-${urlMessageId}`)
+        ?.scrollIntoView({ behavior: "auto", block: "center" });
+      shouldAutoScrollRef.current = false;
+      setHighlightedMessageId(urlMessageId);
+    } else {
+      toast.error("That message is no longer in this chat");
+    }
+    void navigate({
+      to: "/c/$conversationId",
+      params: { conversationId: selectedConversationId },
+      search: {},
+      replace: true,
+    });
+  }, [
+    urlMessageId,
+    selectedConversationId,
+    messagesForSelectedConversation,
+    messagesStatus,
+    loadMoreMessages,
+    isLoadingConversation,
+    navigate,
+  ]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) {
+      return;
+    }
+    const timeout = setTimeout(
+      () => setHighlightedMessageId(null),
+      MESSAGE_HIGHLIGHT_DURATION_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
   const isUploadingFiles = useMemo(
     () => selectedFiles.some((f) => f.status === "uploading"),
     [selectedFiles],
   );
 
-  const handleCreateConversation = useCallback(async () => {
-    try {
-      const newConversationId = await createConversation({});
-      setSelectedConversationId(newConversationId);
-      void navigate({
-        to: "/c/$conversationId",
-        params: { conversationId: newConversationId },
-      });
-    } catch (error) {
-      console.error("Failed to create conversation:", error);
-      toast.error("Failed to create new chat. Please try again.");
-    }
-  }, [createConversation, navigate]);
+  const handleCreateConversation = useCallback(
+    async (projectId?: Id<"projects">) => {
+      try {
+        const newConversationId = await createConversation({ projectId });
+        setSelectedConversationId(newConversationId);
+        void navigate({
+          to: "/c/$conversationId",
+          params: { conversationId: newConversationId },
+        });
+      } catch (error) {
+        console.error("Failed to create conversation:", error);
+        toast.error("Failed to create new chat. Please try again.");
+      }
+    },
+    [createConversation, navigate],
+  );
 
   const handleConversationSelect = useCallback(
     (id: Id<"conversations">) => {
@@ -267,12 +495,91 @@ export function useChat() {
           void navigate({ to: "/" });
         }
         await result;
+        toast.success("Chat moved to trash", {
+          action: {
+            label: "Undo",
+            onClick: () => {
+              restoreConversation({ conversationId: id }).catch((err) => {
+                console.error("Failed to restore conversation", err);
+                toast.error("Failed to restore chat. Please try again.");
+              });
+            },
+          },
+        });
       } catch (err) {
         console.error("Failed to delete conversation", err);
         toast.error("Failed to delete chat. Please try again.");
       }
     },
-    [deleteConversation, selectedConversationId, navigate],
+    [deleteConversation, restoreConversation, selectedConversationId, navigate],
+  );
+
+  // Returns whether the rename worked, so the sidebar can keep editing if not
+  const handleRenameConversation = useCallback(
+    async (id: Id<"conversations">, name: string) => {
+      try {
+        await renameConversation({ conversationId: id, name });
+        return true;
+      } catch (error) {
+        console.error("Failed to rename conversation:", error);
+        toast.error(
+          getErrorMessage(error, "Failed to rename chat. Please try again."),
+        );
+        return false;
+      }
+    },
+    [renameConversation],
+  );
+
+  const handlePinConversation = useCallback(
+    async (id: Id<"conversations">, pinned: boolean) => {
+      try {
+        await setConversationPinned({ conversationId: id, pinned });
+      } catch (error) {
+        console.error("Failed to pin conversation:", error);
+        toast.error(
+          pinned
+            ? "Failed to pin chat. Please try again."
+            : "Failed to unpin chat. Please try again.",
+        );
+      }
+    },
+    [setConversationPinned],
+  );
+
+  const handleArchiveConversation = useCallback(
+    async (id: Id<"conversations">, archived: boolean) => {
+      try {
+        await setConversationArchived({ conversationId: id, archived });
+        toast.success(archived ? "Chat archived" : "Chat unarchived");
+      } catch (error) {
+        console.error("Failed to archive conversation:", error);
+        toast.error(
+          archived
+            ? "Failed to archive chat. Please try again."
+            : "Failed to unarchive chat. Please try again.",
+        );
+      }
+    },
+    [setConversationArchived],
+  );
+
+  const handleForkConversation = useCallback(
+    async (messageId: Id<"messages">) => {
+      try {
+        const forkedConversationId = await forkConversation({ messageId });
+        setSelectedConversationId(forkedConversationId);
+        void navigate({
+          to: "/c/$conversationId",
+          params: { conversationId: forkedConversationId },
+        });
+        toast.success("Forked into a new chat");
+      } catch (error) {
+        console.error("Failed to fork conversation:", error);
+        toast.error("Failed to fork chat. Please try again.");
+      }
+    },
+    [forkConversation, navigate],
   );
 
   const handleFileChange = useCallback(
@@ -416,10 +723,15 @@ export function useChat() {
   }, [citationLookup, citationUserMessage]);
 
   const handleCitationClick = useCallback(
-    (conversationId: Id<"conversations">, openaiFileId: string) => {
-      setCitationLookup({ conversationId, openaiFileId });
+    (openaiFileId: string) => {
+      if (selectedConversationId) {
+        setCitationLookup({
+          conversationId: selectedConversationId,
+          openaiFileId,
+        });
+      }
     },
-    [],
+    [selectedConversationId],
   );
 
   const handleSubmit = useCallback(
@@ -434,24 +746,9 @@ export function useChat() {
         return;
       }
 
-      // Load API keys from localStorage
-      const apiKeys = loadApiKeysFromStorage();
-
       // Validate API key based on selected model
-      if (isOpenRouterModel(selectedModel)) {
-        if (!hasApiKey("openrouter")) {
-          toast.error(
-            "OpenRouter API key is required for this model. Please add it in Settings.",
-          );
-          return;
-        }
-      } else {
-        if (!hasApiKey("openai")) {
-          toast.error(
-            "OpenAI API key is required for this model. Please add it in Settings.",
-          );
-          return;
-        }
+      if (!ensureApiKeyForModel(selectedModel, savedProviders)) {
+        return;
       }
 
       try {
@@ -489,18 +786,17 @@ export function useChat() {
               ? thinkingIntensity
               : undefined,
             timezone,
-            openaiApiKey: apiKeys.openai || undefined,
-            openrouterApiKey: apiKeys.openrouter || undefined,
           });
           if (result.errors && result.errors.length > 0) {
             result.errors.forEach((error) => {
               toast.error(error);
             });
           }
+          showSpendingWarning(result);
         } else {
           // Detect user's IANA timezone
           const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-          await sendMessageAction({
+          const result = await sendMessageAction({
             conversationId: conversationIdToUse,
             content: textContent,
             webSearchEnabled: webSearchEnabled,
@@ -509,14 +805,15 @@ export function useChat() {
               ? thinkingIntensity
               : undefined,
             timezone,
-            openaiApiKey: apiKeys.openai || undefined,
-            openrouterApiKey: apiKeys.openrouter || undefined,
           });
+          showSpendingWarning(result);
         }
         setSelectedFiles([]);
       } catch (error) {
         console.error("Failed to send message:", error);
-        toast.error("Failed to send message. Please try again.");
+        toast.error(
+          getErrorMessage(error, "Failed to send message. Please try again."),
+        );
       }
     },
     [
@@ -527,12 +824,115 @@ export function useChat() {
       webSearchEnabled,
       selectedModel,
       thinkingIntensity,
+      savedProviders,
       uploadFileAndSendMessageAction,
       sendMessageAction,
       navigate,
     ],
   );
 
+  const handleEditMessage = useCallback(
+    async (messageId: Id<"messages">, content: string) => {
+      const editedContent = content.trim();
+      if (!editedContent) {
+        toast.error("Please type a message.");
+        return;
+      }
+
+      // Regenerate with the model the edited message was originally sent with
+      const editedMessage = messagesForSelectedConversation?.find(
+        (message) => message._id === messageId,
+      );
+      if (
+        !ensureApiKeyForModel(
+          editedMessage?.model ?? SUPPORTED_MODELS[0].id,
+          savedProviders,
+        )
+      ) {
+        return;
+      }
+
+      try {
+        shouldAutoScrollRef.current = true;
+        const result = await editMessageAction({
+          messageId,
+          content: editedContent,
+        });
+        showSpendingWarning(result);
+      } catch (error) {
+        console.error("Failed to edit message:", error);
+        toast.error(
+          getErrorMessage(error, "Failed to edit message. Please try again."),
+        );
+      }
+    },
+    [messagesForSelectedConversation, savedProviders, editMessageAction],
+  );
+
+  const handleRegenerateResponse = useCallback(
+    async (messageId: Id<"messages">, options?: RegenerateOptions) => {
+      // Default to the model the reply was generated with
+      const reply = messagesForSelectedConversation?.find(
+        (message) => message._id === messageId,
+      );
+      const model = options?.model ?? reply?.model ?? selectedModel;
+      if (!ensureApiKeyForModel(model, savedProviders)) {
+        return;
+      }
+
+      try {
+        shouldAutoScrollRef.current = true;
+        const result = await regenerateResponseAction({
+          messageId,
+          model,
+          thinkingIntensity: isThinkingModel(model)
+            ? (options?.thinkingIntensity ??
+              reply?.thinkingIntensity ??
+              thinkingIntensity)
+            : undefined,
+        });
+        showSpendingWarning(result);
+      } catch (error) {
+        console.error("Failed to regenerate response:", error);
+        toast.error(
+          getErrorMessage(
+            error,
+            "Failed to regenerate response. Please try again.",
+          ),
+        );
+      }
+    },
+    [
+      messagesForSelectedConversation,
+      regenerateResponseAction,
+      selectedModel,
+      thinkingIntensity,
+      savedProviders,
+    ],
+  );
+
+  const handleSelectMessageVersion = useCallback(
+    async (messageId: Id<"messages">) => {
+      try {
+        await selectMessageVersion({ messageId });
+      } catch (error) {
+        console.error("Failed to switch response version:", error);
+        toast.error("Failed to switch response version. Please try again.");
+      }
+    },
+    [selectMessageVersion],
+  );
+
+  const handleStopGeneration = useCallback(async () => {
+    if (!selectedConversationId) return;
+    try {
+      await cancelGeneration({ conversationId: selectedConversationId });
+    } catch (error) {
+      console.error("Failed to stop generation:", error);
+      toast.error("Failed to stop the response. Please try again.");
+    }
+  }, [cancelGeneration, selectedConversationId]);
+
   // Effect to watch for new error messages and show toasts with specific error details
   useEffect(() => {
     if (messagesForSelectedConversation) {
@@ -562,10 +962,22 @@ export function useChat() {
 
   return {
     conversations,
+    pinnedConversations,
+    projects,
+    archivedConversations,
+    showArchived,
+    setShowArchived,
+    tags,
+    selectedTagId,
+    setSelectedTagId,
+    taggedConversations,
     selectedConversationId,
     setSelectedConversationId,
+    selectedConversation,
     isLoadingConversation,
     messagesForSelectedConversation,
+    olderMessagesRef,
+    isLoadingOlderMessages: messagesStatus === "LoadingMore",
     isAITyping,
     isUploadingFiles,
     selectedFiles,
@@ -574,9 +986,17 @@ export function useChat() {
     handleAttachmentClick,
     handleFileChange,
     handleSubmit,
+    handleEditMessage,
+    handleForkConversation,
+    handleRegenerateResponse,
+    handleSelectMessageVersion,
+    handleStopGeneration,
     handleConversationSelect,
     handleCreateConversation,
     handleDeleteConversation,
+    handleRenameConversation,
+    handlePinConversation,
+    handleArchiveConversation,
     truncateFileName,
     handleFilePreview,
     filePreviewModal,
@@ -590,6 +1010,7 @@ export function useChat() {
     isOpen,
     setIsOpen,
     messagesEndRef,
+    highlightedMessageId,
     handleCitationClick,
   } as const;
 }
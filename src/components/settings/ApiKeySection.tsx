@@ -1,4 +1,8 @@
 import { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "@backend/_generated/api";
+import { SUPPORTED_MODELS, type ApiKeyProvider } from "@backend/constants";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -9,60 +13,233 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Eye, EyeOff, Key, Save, Trash2 } from "lucide-react";
-import { toast } from "sonner";
 import {
-  loadApiKeysFromStorage,
-  saveApiKeysToStorage,
-  clearApiKeysFromStorage,
-  type ApiKeys,
-} from "@/lib/api-keys";
+  AlertTriangle,
+  CheckCircle2,
+  Eye,
+  EyeOff,
+  Key,
+  Save,
+  ShieldCheck,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
 
-export function ApiKeySection() {
-  const [apiKeys, setApiKeys] = useState<ApiKeys>(loadApiKeysFromStorage);
-  const [showKeys, setShowKeys] = useState<{
-    openai: boolean;
-    openrouter: boolean;
-  }>({
-    openai: false,
-    openrouter: false,
-  });
-  const [unsavedChanges, setUnsavedChanges] = useState(false);
+const PROVIDERS: {
+  id: ApiKeyProvider;
+  name: string;
+  placeholder: string;
+}[] = [
+  { id: "openai", name: "OpenAI", placeholder: "sk-..." },
+  { id: "openrouter", name: "OpenRouter", placeholder: "sk-or-..." },
+];
 
-  const handleKeyChange = (provider: keyof ApiKeys, value: string) => {
-    setApiKeys((prev) => ({ ...prev, [provider]: value }));
-    setUnsavedChanges(true);
-  };
+interface SavedApiKey {
+  provider: ApiKeyProvider;
+  keyHint: string;
+  updatedAt: number;
+  quotaExhaustedAt?: number;
+}
+
+type ValidationResult = FunctionReturnType<typeof api.apiKeys.validateApiKey>;
+
+function ValidationStatus({ result }: { result: ValidationResult }) {
+  const Icon =
+    result.status === "valid"
+      ? CheckCircle2
+      : result.status === "quota_exhausted"
+        ? AlertTriangle
+        : XCircle;
+  const reachableModelNames = SUPPORTED_MODELS.filter((model) =>
+    result.reachableModels.includes(model.id),
+  ).map((model) => model.name);
 
-  const saveApiKeys = () => {
-    if (saveApiKeysToStorage(apiKeys)) {
-      setUnsavedChanges(false);
-      toast.success("API keys saved successfully");
-    } else {
-      toast.error("Failed to save API keys");
+  return (
+    <div className="space-y-1 text-xs">
+      <p
+        className={cn(
+          "flex items-center gap-1.5",
+          result.status === "valid" && "text-green-600 dark:text-green-400",
+          result.status === "quota_exhausted" &&
+            "text-amber-600 dark:text-amber-400",
+          (result.status === "invalid" || result.status === "error") &&
+            "text-destructive",
+        )}
+      >
+        <Icon className="h-3.5 w-3.5 shrink-0" />
+        {result.message}
+      </p>
+      {(result.status === "valid" || result.status === "quota_exhausted") && (
+        <p className="text-muted-foreground">
+          {reachableModelNames.length > 0
+            ? `Available models: ${reachableModelNames.join(", ")}`
+            : "None of the app's models are available with this key"}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ProviderKeyRow({
+  provider,
+  savedKey,
+}: {
+  provider: (typeof PROVIDERS)[number];
+  savedKey: SavedApiKey | undefined;
+}) {
+  const setApiKey = useAction(api.apiKeys.setApiKey);
+  const validateApiKey = useAction(api.apiKeys.validateApiKey);
+  const revokeApiKey = useMutation(api.apiKeyQueriesAndMutations.revokeApiKey);
+  const [draft, setDraft] = useState("");
+  const [showKey, setShowKey] = useState(false);
+  const [pendingAction, setPendingAction] = useState<
+    "save" | "test" | "revoke" | null
+  >(null);
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+
+  const saveKey = async () => {
+    setPendingAction("save");
+    try {
+      // Check the key first so typos are caught before they're saved
+      const result = await validateApiKey({
+        provider: provider.id,
+        apiKey: draft,
+      });
+      setValidation(result);
+      if (result.status === "invalid") {
+        return;
+      }
+
+      await setApiKey({ provider: provider.id, apiKey: draft });
+      setDraft("");
+      setShowKey(false);
+      toast.success(`${provider.name} API key saved`);
+    } catch (error) {
+      console.error("Failed to save API key:", error);
+      toast.error(`Failed to save ${provider.name} API key`);
+    } finally {
+      setPendingAction(null);
     }
   };
 
-  const clearApiKey = (provider: keyof ApiKeys) => {
-    setApiKeys((prev) => ({ ...prev, [provider]: "" }));
-    setUnsavedChanges(true);
+  const testKey = async () => {
+    setPendingAction("test");
+    try {
+      setValidation(await validateApiKey({ provider: provider.id }));
+    } catch (error) {
+      console.error("Failed to test API key:", error);
+      toast.error(`Failed to test ${provider.name} API key`);
+    } finally {
+      setPendingAction(null);
+    }
   };
 
-  const clearAllApiKeys = () => {
-    setApiKeys({ openai: "", openrouter: "" });
-    clearApiKeysFromStorage();
-    setUnsavedChanges(false);
-    toast.success("All API keys cleared");
+  const revokeKey = async () => {
+    setPendingAction("revoke");
+    try {
+      await revokeApiKey({ provider: provider.id });
+      setValidation(null);
+      toast.success(`${provider.name} API key removed`);
+    } catch (error) {
+      console.error("Failed to revoke API key:", error);
+      toast.error(`Failed to remove ${provider.name} API key`);
+    } finally {
+      setPendingAction(null);
+    }
   };
 
-  const toggleShowKey = (provider: keyof ApiKeys) => {
-    setShowKeys((prev) => ({ ...prev, [provider]: !prev[provider] }));
-  };
+  const inputId = `${provider.id}-key`;
 
-  const maskKey = (key: string) => {
-    if (key.length <= 8) return key;
-    return `${key.slice(0, 4)}${"*".repeat(4)}${key.slice(-4)}`;
-  };
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={inputId}>{provider.name} API Key</Label>
+      <p className="text-xs text-muted-foreground">
+        {savedKey
+          ? `Saved key ending in ${savedKey.keyHint}, updated ${new Date(
+              savedKey.updatedAt,
+            ).toLocaleDateString()}`
+          : "No key saved"}
+      </p>
+      {savedKey?.quotaExhaustedAt !== undefined && (
+        <p className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          {`A reply failed on ${new Date(
+            savedKey.quotaExhaustedAt,
+          ).toLocaleDateString()} because this key has no credits left`}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Input
+            id={inputId}
+            type={showKey ? "text" : "password"}
+            placeholder={
+              savedKey ? "Enter a new key to replace it" : provider.placeholder
+            }
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && draft.trim()) void saveKey();
+            }}
+            autoComplete="off"
+            className="pr-10"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="absolute right-2 top-1/2 -translate-y-1/2 h-6 w-6"
+            onClick={() => setShowKey(!showKey)}
+          >
+            {showKey ? (
+              <EyeOff className="h-3 w-3" />
+            ) : (
+              <Eye className="h-3 w-3" />
+            )}
+          </Button>
+        </div>
+        <Button
+          onClick={() => void saveKey()}
+          disabled={!draft.trim() || pendingAction !== null}
+          className="gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {pendingAction === "save" ? "Checking..." : "Save"}
+        </Button>
+      </div>
+      {savedKey && (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => void testKey()}
+            disabled={pendingAction !== null}
+            className="gap-2"
+          >
+            <ShieldCheck className="h-4 w-4" />
+            {pendingAction === "test" ? "Testing..." : "Test"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => void revokeKey()}
+            disabled={pendingAction !== null}
+            className="gap-2"
+          >
+            <Trash2 className="h-4 w-4" />
+            Revoke
+          </Button>
+        </div>
+      )}
+      {validation && <ValidationStatus result={validation} />}
+    </div>
+  );
+}
+
+export function ApiKeySection() {
+  const savedApiKeys = useQuery(api.apiKeyQueriesAndMutations.listApiKeys);
 
   return (
     <Card>
@@ -72,8 +249,8 @@ export function ApiKeySection() {
           API Keys
         </CardTitle>
         <CardDescription>
-          Manage your OpenAI and OpenRouter API keys. These are stored locally
-          in your browser for security.
+          Manage your OpenAI and OpenRouter API keys. Keys are encrypted and
+          stored with your account, so they work on all your devices.
           <br />
           <br />
           <p className="text-xs text-muted-foreground">
@@ -83,130 +260,21 @@ export function ApiKeySection() {
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* OpenAI API Key */}
-        <div className="space-y-2">
-          <Label htmlFor="openai-key">OpenAI API Key</Label>
-          <div className="flex gap-2">
-            <div className="relative flex-1">
-              <Input
-                id="openai-key"
-                type={showKeys.openai ? "text" : "password"}
-                placeholder="sk-..."
-                value={apiKeys.openai}
-                onChange={(e) => handleKeyChange("openai", e.target.value)}
-                className="pr-20"
-              />
-              <div className="absolute right-2 top-1/2 -translate-y-1/2 flex gap-1">
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6"
-                  onClick={() => toggleShowKey("openai")}
-                >
-                  {showKeys.openai ? (
-                    <EyeOff className="h-3 w-3" />
-                  ) : (
-                    <Eye className="h-3 w-3" />
-                  )}
-                </Button>
-                {apiKeys.openai && (
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    className="h-6 w-6"
-                    onClick={() => clearApiKey("openai")}
-                  >
-                    <Trash2 className="h-3 w-3" />
-                  </Button>
-                )}
-              </div>
-            </div>
-          </div>
-          {apiKeys.openai && !showKeys.openai && (
-            <p className="text-xs text-muted-foreground">
-              Current key: {maskKey(apiKeys.openai)}
-            </p>
-          )}
-        </div>
-
-        {/* OpenRouter API Key */}
-        <div className="space-y-2">
-          <Label htmlFor="openrouter-key">OpenRouter API Key</Label>
-          <div className="flex gap-2">
-            <div className="relative flex-1">
-              <Input
-                id="openrouter-key"
-                type={showKeys.openrouter ? "text" : "password"}
-                placeholder="sk-or-..."
-                value={apiKeys.openrouter}
-                onChange={(e) => handleKeyChange("openrouter", e.target.value)}
-                className="pr-20"
-              />
-              <div className="absolute right-2 top-1/2 -translate-y-1/2 flex gap-1">
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6"
-                  onClick={() => toggleShowKey("openrouter")}
-                >
-                  {showKeys.openrouter ? (
-                    <EyeOff className="h-3 w-3" />
-                  ) : (
-                    <Eye className="h-3 w-3" />
-                  )}
-                </Button>
-                {apiKeys.openrouter && (
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    className="h-6 w-6"
-                    onClick={() => clearApiKey("openrouter")}
-                  >
-                    <Trash2 className="h-3 w-3" />
-                  </Button>
-                )}
-              </div>
-            </div>
-          </div>
-          {apiKeys.openrouter && !showKeys.openrouter && (
-            <p className="text-xs text-muted-foreground">
-              Current key: {maskKey(apiKeys.openrouter)}
-            </p>
-          )}
-        </div>
-
-        {/* Action Buttons */}
-        <div className="flex justify-between pt-4 border-t">
-          <Button
-            variant="outline"
-            onClick={clearAllApiKeys}
-            className="gap-2"
-            disabled={!apiKeys.openai && !apiKeys.openrouter}
-          >
-            <Trash2 className="h-4 w-4" />
-            Clear All Keys
-          </Button>
-          <Button
-            onClick={saveApiKeys}
-            disabled={!unsavedChanges}
-            className="gap-2"
-          >
-            <Save className="h-4 w-4" />
-            Save Changes
-            {unsavedChanges && <span className="ml-1 text-xs">(unsaved)</span>}
-          </Button>
-        </div>
+        {PROVIDERS.map((provider) => (
+          <ProviderKeyRow
+            key={provider.id}
+            provider={provider}
+            savedKey={savedApiKeys?.find((key) => key.provider === provider.id)}
+          />
+        ))}
 
         {/* Help Text */}
         <div className="text-xs text-muted-foreground space-y-1 pt-2 border-t">
           <p>
-            • Your API keys are stored locally in your browser and never
-            stored/logged in our servers. Don&apos;t trust this website with
-            your keys? Use your own self-hosted version:{" "}
+            • Your API keys are encrypted on the server and only decrypted to
+            make requests for you. Once saved, a key is never sent back to your
+            browser. Don&apos;t trust this website with your keys? Use your own
+            self-hosted version:{" "}
             <a
               href="https://github.com/heymaaz/t3.chat.cloneathon?tab=readme-ov-file#%EF%B8%8F-self-hosting"
               target="_blank"
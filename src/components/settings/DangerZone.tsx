@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useId, useState } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "@backend/_generated/api";
 import { Button } from "@/components/ui/button";
@@ -19,44 +19,151 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { AlertTriangle, Trash2 } from "lucide-react";
+import { AlertTriangle, Loader2, Trash2, UserX } from "lucide-react";
 import { toast } from "sonner";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { useNavigate } from "@tanstack/react-router";
+import { getErrorMessage } from "@/lib/utils";
 
-export function DangerZone() {
+const DELETE_CHATS_PHRASE = "DELETE ALL CHATS";
+const DELETE_ACCOUNT_PHRASE = "DELETE MY ACCOUNT";
+
+interface ConfirmDeleteDialogProps {
+  title: string;
+  description: string;
+  confirmationPhrase: string;
+  buttonLabel: string;
+  icon: React.ReactNode;
+  disabled?: boolean;
+  // Resolves to whether the deletion started, which closes the dialog
+  onConfirm: () => Promise<boolean>;
+}
+
+// Dialog asking to type a phrase before something is deleted for good
+function ConfirmDeleteDialog({
+  title,
+  description,
+  confirmationPhrase,
+  buttonLabel,
+  icon,
+  disabled,
+  onConfirm,
+}: ConfirmDeleteDialogProps) {
   const [confirmationText, setConfirmationText] = useState("");
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-
-  const loggedInUser = useQuery(api.auth.loggedInUser);
-  const conversations = useQuery(api.chatQueriesAndMutations.listConversations);
-  const deleteConversation = useMutation(
-    api.chatQueriesAndMutations.deleteConversation,
-  );
-
-  const conversationCount = conversations?.length || 0;
-  const confirmationPhrase = "DELETE ALL CHATS";
   const isConfirmationValid = confirmationText === confirmationPhrase;
+  const inputId = useId();
 
-  const handleDeleteAllChats = async () => {
-    if (!isConfirmationValid || !conversations) return;
+  const close = () => {
+    setIsDialogOpen(false);
+    setConfirmationText("");
+  };
 
+  const confirm = async () => {
     setIsDeleting(true);
     try {
-      // Delete all conversations one by one
-      const deletePromises = conversations.map((conversation) =>
-        deleteConversation({ conversationId: conversation._id }),
-      );
+      if (await onConfirm()) {
+        close();
+      }
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive" className="gap-2" disabled={disabled}>
+          {icon}
+          {buttonLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-5 w-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription className="space-y-2">
+            <p>{description}</p>
+            <p className="font-medium">
+              To confirm, type "{confirmationPhrase}" below:
+            </p>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor={inputId}>Confirmation</Label>
+            <Input
+              id={inputId}
+              value={confirmationText}
+              onChange={(e) => setConfirmationText(e.target.value)}
+              placeholder={confirmationPhrase}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={close} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => void confirm()}
+              disabled={!isConfirmationValid || isDeleting}
+              className="gap-2"
+            >
+              {icon}
+              {isDeleting ? "Deleting..." : buttonLabel}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function DangerZone() {
+  const loggedInUser = useQuery(api.auth.loggedInUser);
+  const conversationCount =
+    useQuery(api.accountQueriesAndMutations.countConversations) ?? 0;
+  const deletionJob = useQuery(api.accountQueriesAndMutations.getDeletionJob);
+  const deleteAllConversations = useMutation(
+    api.accountQueriesAndMutations.deleteAllConversations,
+  );
+  const deleteAccount = useMutation(
+    api.accountQueriesAndMutations.deleteAccount,
+  );
+  const { signOut } = useAuthActions();
+  const navigate = useNavigate();
 
-      await Promise.all(deletePromises);
+  const isDeletingChats = deletionJob?.status === "running";
 
-      toast.success("All chats deleted successfully");
-      setIsDialogOpen(false);
-      setConfirmationText("");
+  const handleDeleteAllChats = async () => {
+    try {
+      await deleteAllConversations();
+      toast.success("Deleting all chats in the background");
+      return true;
     } catch (error) {
       console.error("Error deleting chats:", error);
-      toast.error("Failed to delete some chats. Please try again.");
-    } finally {
-      setIsDeleting(false);
+      toast.error(getErrorMessage(error, "Failed to delete chats"));
+      return false;
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    try {
+      await deleteAccount();
+      await signOut();
+      toast.success("Your account is being deleted");
+      void navigate({ to: "/" });
+      return true;
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      toast.error(getErrorMessage(error, "Failed to delete your account"));
+      return false;
     }
   };
 
@@ -73,85 +180,59 @@ export function DangerZone() {
           Danger Zone
         </CardTitle>
         <CardDescription>
-          Permanently delete all your chat conversations. This action cannot be
-          undone.
+          Permanently delete your chats or your whole account. These actions
+          cannot be undone.
         </CardDescription>
       </CardHeader>
-      <CardContent>
-        <div className="flex justify-between items-center">
+      <CardContent className="space-y-6">
+        <div className="flex justify-between items-center gap-4">
           <div>
             <p className="text-sm font-medium">Delete all chats</p>
             <p className="text-xs text-muted-foreground">
-              {conversationCount === 0
-                ? "No chats to delete"
-                : `This will permanently delete ${conversationCount} conversation${conversationCount === 1 ? "" : "s"}`}
+              {isDeletingChats ? (
+                <span className="flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Deleted {Math.min(
+                    deletionJob.deleted,
+                    deletionJob.total,
+                  )} of {deletionJob.total} conversations…
+                </span>
+              ) : conversationCount === 0 ? (
+                "No chats to delete"
+              ) : (
+                `This will permanently delete ${conversationCount} conversation${conversationCount === 1 ? "" : "s"}`
+              )}
+            </p>
+          </div>
+
+          <ConfirmDeleteDialog
+            title="Delete All Chats"
+            description={`This will permanently delete all ${conversationCount} of your chat conversations. This action cannot be undone.`}
+            confirmationPhrase={DELETE_CHATS_PHRASE}
+            buttonLabel="Delete All Chats"
+            icon={<Trash2 className="h-4 w-4" />}
+            disabled={conversationCount === 0 || isDeletingChats}
+            onConfirm={handleDeleteAllChats}
+          />
+        </div>
+
+        <div className="flex justify-between items-center gap-4">
+          <div>
+            <p className="text-sm font-medium">Delete account</p>
+            <p className="text-xs text-muted-foreground">
+              Deletes your chats, usage history, spending limits, API keys and
+              sign-in details, and signs you out
             </p>
           </div>
 
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button
-                variant="destructive"
-                className="gap-2"
-                disabled={conversationCount === 0}
-              >
-                <Trash2 className="h-4 w-4" />
-                Delete All Chats
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle className="flex items-center gap-2 text-destructive">
-                  <AlertTriangle className="h-5 w-5" />
-                  Delete All Chats
-                </DialogTitle>
-                <DialogDescription className="space-y-2">
-                  <p>
-                    This will permanently delete all {conversationCount} of your
-                    chat conversations. This action cannot be undone.
-                  </p>
-                  <p className="font-medium">
-                    To confirm, type "{confirmationPhrase}" below:
-                  </p>
-                </DialogDescription>
-              </DialogHeader>
-
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="confirmation">Confirmation</Label>
-                  <Input
-                    id="confirmation"
-                    value={confirmationText}
-                    onChange={(e) => setConfirmationText(e.target.value)}
-                    placeholder={confirmationPhrase}
-                    className="mt-1"
-                  />
-                </div>
-
-                <div className="flex justify-end gap-2">
-                  <Button
-                    variant="outline"
-                    onClick={() => {
-                      setIsDialogOpen(false);
-                      setConfirmationText("");
-                    }}
-                    disabled={isDeleting}
-                  >
-                    Cancel
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    onClick={() => void handleDeleteAllChats()}
-                    disabled={!isConfirmationValid || isDeleting}
-                    className="gap-2"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                    {isDeleting ? "Deleting..." : "Delete All Chats"}
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+          <ConfirmDeleteDialog
+            title="Delete Account"
+            description="This will permanently delete your account and everything in it. This action cannot be undone."
+            confirmationPhrase={DELETE_ACCOUNT_PHRASE}
+            buttonLabel="Delete Account"
+            icon={<UserX className="h-4 w-4" />}
+            onConfirm={handleDeleteAccount}
+          />
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,152 @@
+import { useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@backend/_generated/api";
+import type { Id } from "@backend/_generated/dataModel";
+import {
+  IMPORT_SOURCE_NAMES,
+  chunkImportedMessages,
+  parseImportFile,
+} from "@backend/conversationImport";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { getErrorMessage } from "@/lib/utils";
+
+interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export function ImportSection() {
+  const importConversation = useMutation(
+    api.chatQueriesAndMutations.importConversation,
+  );
+  const importMessages = useMutation(
+    api.chatQueriesAndMutations.importMessages,
+  );
+  const deleteConversation = useMutation(
+    api.chatQueriesAndMutations.deleteConversation,
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const importFile = async (file: File) => {
+    let parsed;
+    try {
+      parsed = parseImportFile(await file.text());
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read the file",
+      );
+      return;
+    }
+
+    const { source, conversations, skipped } = parsed;
+    if (conversations.length === 0) {
+      toast.error("This file doesn't contain any messages to import");
+      return;
+    }
+
+    // Each chunk of a conversation is its own mutation, keeping requests small
+    let failed = 0;
+    let firstError: unknown;
+    setProgress({ done: 0, total: conversations.length });
+    for (const [i, conversation] of conversations.entries()) {
+      let conversationId: Id<"conversations"> | undefined;
+      try {
+        const [firstChunk, ...chunks] = chunkImportedMessages(
+          conversation.messages,
+        );
+        conversationId = await importConversation({
+          source,
+          name: conversation.name,
+          updatedAt: conversation.updatedAt,
+          messages: firstChunk,
+        });
+        for (const messages of chunks) {
+          await importMessages({ conversationId, messages });
+        }
+      } catch (error) {
+        console.error("Failed to import conversation:", error);
+        // A partly imported chat goes to the trash
+        if (conversationId) {
+          await deleteConversation({ conversationId }).catch((deleteError) =>
+            console.error("Failed to trash partly imported chat:", deleteError),
+          );
+        }
+        firstError ??= error;
+        failed++;
+      }
+      setProgress({ done: i + 1, total: conversations.length });
+    }
+    setProgress(null);
+
+    const imported = conversations.length - failed;
+    const notes = [
+      failed > 0 && `${failed} failed`,
+      skipped > 0 && `${skipped} empty skipped`,
+    ].filter(Boolean);
+    const summary = `Imported ${imported} ${imported === 1 ? "chat" : "chats"} from ${IMPORT_SOURCE_NAMES[source]}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`;
+    if (imported === 0) {
+      toast.error(getErrorMessage(firstError, "No chats could be imported"));
+    } else if (failed > 0) {
+      toast.warning(summary);
+    } else {
+      toast.success(summary);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          Import Chats
+        </CardTitle>
+        <CardDescription>
+          Bring your history over from other tools. Choose{" "}
+          <code>conversations.json</code> from a ChatGPT or Claude data export,
+          or a chat exported from this app as JSON. Replies to imported chats
+          continue from their history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) {
+              void importFile(file);
+            }
+          }}
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={progress !== null}
+          className="gap-2"
+        >
+          {progress ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4" />
+          )}
+          {progress
+            ? `Importing ${progress.done} of ${progress.total}…`
+            : "Choose file"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
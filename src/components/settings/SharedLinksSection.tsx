@@ -0,0 +1,42 @@
+import { useQuery } from "convex/react";
+import { api } from "@backend/_generated/api";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Link2, Loader2 } from "lucide-react";
+import { ShareLinkList } from "@/components/chat/ShareDialog";
+
+export function SharedLinksSection() {
+  const shares = useQuery(api.shareQueriesAndMutations.listShares, {});
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Shared Links
+        </CardTitle>
+        <CardDescription>
+          Anyone with one of these links can read the chat. Revoking a link
+          stops it from working right away.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {shares === undefined ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : shares.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't shared any chats. Use <strong>Share</strong> in a chat's
+            header to create a link.
+          </p>
+        ) : (
+          <ShareLinkList shares={shares} showNames />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
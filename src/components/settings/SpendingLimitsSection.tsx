@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "@backend/_generated/api";
+import type { ApiKeyProvider } from "@backend/constants";
+import type { SpendingPeriod } from "@backend/usage";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Save, Trash2, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { formatCost } from "@/lib/usage";
+
+const PROVIDERS: { id: ApiKeyProvider; name: string }[] = [
+  { id: "openai", name: "OpenAI" },
+  { id: "openrouter", name: "OpenRouter" },
+];
+
+const PERIODS: { id: SpendingPeriod; label: string }[] = [
+  { id: "daily", label: "Daily" },
+  { id: "monthly", label: "Monthly" },
+];
+
+type SpendingLimit = FunctionReturnType<
+  typeof api.usageQueriesAndMutations.listSpendingLimits
+>[number];
+
+function SpendingProgress({ limit }: { limit: SpendingLimit }) {
+  const percentUsed = Math.min(100, (limit.spentUsd / limit.limitUsd) * 100);
+  return (
+    <div className="space-y-1">
+      <div className="h-2 rounded bg-muted">
+        <div
+          className={cn(
+            "h-2 rounded",
+            limit.status === "ok" && "bg-primary",
+            limit.status === "warning" && "bg-amber-500",
+            limit.status === "exceeded" && "bg-destructive",
+          )}
+          style={{ width: `${percentUsed}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {formatCost(limit.spentUsd)} of {formatCost(limit.limitUsd)} spent{" "}
+        {limit.period === "daily" ? "today" : "this month"}
+        {limit.status === "exceeded" && " — new replies are paused"}
+      </p>
+    </div>
+  );
+}
+
+function ProviderLimitRow({
+  provider,
+  limit,
+}: {
+  provider: (typeof PROVIDERS)[number];
+  limit: SpendingLimit | undefined;
+}) {
+  const setSpendingLimit = useMutation(
+    api.usageQueriesAndMutations.setSpendingLimit,
+  );
+  const removeSpendingLimit = useMutation(
+    api.usageQueriesAndMutations.removeSpendingLimit,
+  );
+  const [period, setPeriod] = useState<SpendingPeriod>(
+    limit?.period ?? "monthly",
+  );
+  const [amount, setAmount] = useState(limit ? String(limit.limitUsd) : "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const limitUsd = Number(amount);
+  const isValidAmount = amount.trim() !== "" && limitUsd > 0;
+  const hasChanges =
+    !limit || limit.period !== period || limit.limitUsd !== limitUsd;
+
+  const saveLimit = async () => {
+    setIsSaving(true);
+    try {
+      await setSpendingLimit({ provider: provider.id, period, limitUsd });
+      toast.success(`${provider.name} budget saved`);
+    } catch (error) {
+      console.error("Failed to save budget:", error);
+      toast.error(`Failed to save ${provider.name} budget`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeLimit = async () => {
+    setIsSaving(true);
+    try {
+      await removeSpendingLimit({ provider: provider.id });
+      setAmount("");
+      toast.success(`${provider.name} budget removed`);
+    } catch (error) {
+      console.error("Failed to remove budget:", error);
+      toast.error(`Failed to remove ${provider.name} budget`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputId = `${provider.id}-budget`;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={inputId}>{provider.name} budget</Label>
+      <div className="flex flex-wrap gap-2">
+        <div className="flex gap-1">
+          {PERIODS.map((option) => (
+            <Button
+              key={option.id}
+              type="button"
+              variant={option.id === period ? "default" : "outline"}
+              size="sm"
+              onClick={() => setPeriod(option.id)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="relative w-32">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+            $
+          </span>
+          <Input
+            id={inputId}
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="No limit"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="pl-6"
+          />
+        </div>
+        <Button
+          size="sm"
+          onClick={() => void saveLimit()}
+          disabled={!isValidAmount || !hasChanges || isSaving}
+          className="gap-2"
+        >
+          <Save className="h-4 w-4" />
+          Save
+        </Button>
+        {limit && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => void removeLimit()}
+            disabled={isSaving}
+            className="gap-2"
+          >
+            <Trash2 className="h-4 w-4" />
+            Remove
+          </Button>
+        )}
+      </div>
+      {limit && <SpendingProgress limit={limit} />}
+    </div>
+  );
+}
+
+export function SpendingLimitsSection() {
+  const limits = useQuery(api.usageQueriesAndMutations.listSpendingLimits);
+  const loggedInUser = useQuery(api.auth.loggedInUser);
+  const isGuest = loggedInUser?.isAnonymous === true;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Spending Limits
+        </CardTitle>
+        <CardDescription>
+          New replies are refused once the estimated spend with a provider
+          reaches its budget, and you&apos;re warned at 80%. Daily budgets reset
+          at midnight UTC, monthly budgets on the 1st.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {limits === undefined ? null : isGuest ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Guest accounts have a fixed daily allowance per provider. Create
+              an account to set your own budgets.
+            </p>
+            {limits.map((limit) => (
+              <div key={limit.provider} className="space-y-2">
+                <Label>
+                  {PROVIDERS.find((p) => p.id === limit.provider)?.name}
+                </Label>
+                <SpendingProgress limit={limit} />
+              </div>
+            ))}
+          </>
+        ) : (
+          PROVIDERS.map((provider) => (
+            <ProviderLimitRow
+              key={provider.id}
+              provider={provider}
+              limit={limits.find((limit) => limit.provider === provider.id)}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@backend/_generated/api";
+import type { Id } from "@backend/_generated/dataModel";
+import { TRASH_RETENTION_DAYS, TRASH_RETENTION_MS } from "@backend/constants";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, MessageSquare, RotateCcw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { getErrorMessage } from "@/lib/utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days until a chat deleted at the given time is purged, at least one
+const getDaysLeft = (deletedAt: number) =>
+  Math.max(
+    1,
+    Math.ceil((deletedAt + TRASH_RETENTION_MS - Date.now()) / DAY_MS),
+  );
+
+export function TrashSection() {
+  const conversations = useQuery(
+    api.chatQueriesAndMutations.listTrashedConversations,
+  );
+  const restoreConversation = useMutation(
+    api.chatQueriesAndMutations.restoreConversation,
+  );
+  const deleteConversationForever = useMutation(
+    api.chatQueriesAndMutations.deleteConversationForever,
+  );
+
+  const restore = async (conversationId: Id<"conversations">) => {
+    try {
+      await restoreConversation({ conversationId });
+      toast.success("Chat restored");
+    } catch (error) {
+      console.error("Failed to restore chat:", error);
+      toast.error(
+        getErrorMessage(error, "Failed to restore the chat. Please try again."),
+      );
+    }
+  };
+
+  const deleteForever = async (conversationId: Id<"conversations">) => {
+    try {
+      await deleteConversationForever({ conversationId });
+      toast.success("Chat deleted");
+    } catch (error) {
+      console.error("Failed to delete chat:", error);
+      toast.error(
+        getErrorMessage(error, "Failed to delete the chat. Please try again."),
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Trash
+        </CardTitle>
+        <CardDescription>
+          Deleted chats stay here for {TRASH_RETENTION_DAYS} days before they
+          and their files are deleted for good.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {conversations === undefined ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : conversations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The trash is empty.</p>
+        ) : (
+          <ul className="divide-y divide-border rounded-md border border-border">
+            {conversations.map((conversation) => {
+              const daysLeft = getDaysLeft(conversation.deletedAt ?? 0);
+              return (
+                <li
+                  key={conversation._id}
+                  className="flex items-center gap-2 px-3 py-2"
+                >
+                  <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1 text-sm">
+                    <p className="truncate font-medium">
+                      {conversation.name.replace(/^"|"$/g, "")}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      Deleted forever in {daysLeft}{" "}
+                      {daysLeft === 1 ? "day" : "days"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => void restore(conversation._id)}
+                    title="Restore chat"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span className="sr-only">Restore chat</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => void deleteForever(conversation._id)}
+                    title="Delete forever"
+                  >
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Delete forever</span>
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
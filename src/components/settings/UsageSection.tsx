@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@backend/_generated/api";
+import { SUPPORTED_MODELS } from "@backend/constants";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { BarChart3, Loader2 } from "lucide-react";
+import { describeUsage, formatCost, formatTokens } from "@/lib/usage";
+
+const RANGES = [7, 30, 90] as const;
+
+function getModelName(modelId: string) {
+  return (
+    SUPPORTED_MODELS.find((model) => model.id === modelId)?.name ?? modelId
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold tabular-nums">{value}</p>
+    </div>
+  );
+}
+
+export function UsageSection() {
+  const [days, setDays] = useState<(typeof RANGES)[number]>(30);
+  // Read once so the query args stay stable between renders
+  const [timezoneOffsetMinutes] = useState(() =>
+    new Date().getTimezoneOffset(),
+  );
+  const summary = useQuery(api.usageQueriesAndMutations.getUsageSummary, {
+    days,
+    timezoneOffsetMinutes,
+  });
+
+  const maxDailyCost = Math.max(
+    0,
+    ...(summary?.daily.map((day) => day.costUsd) ?? []),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Usage
+        </CardTitle>
+        <CardDescription>
+          Tokens used by replies and their estimated cost, based on list prices.
+          Check your provider dashboards for exact billing.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-2">
+          {RANGES.map((range) => (
+            <Button
+              key={range}
+              variant={range === days ? "default" : "outline"}
+              size="sm"
+              onClick={() => setDays(range)}
+            >
+              Last {range} days
+            </Button>
+          ))}
+        </div>
+
+        {summary === undefined ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : summary.totals.replies === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No usage recorded in this period.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              <Stat
+                label="Estimated cost"
+                value={formatCost(summary.totals.costUsd)}
+              />
+              <Stat
+                label="Replies"
+                value={formatTokens(summary.totals.replies)}
+              />
+              <Stat
+                label="Input tokens"
+                value={formatTokens(summary.totals.inputTokens)}
+              />
+              <Stat
+                label="Output tokens"
+                value={formatTokens(summary.totals.outputTokens)}
+              />
+            </div>
+
+            {/* Daily totals */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Daily</h3>
+              <div className="space-y-1">
+                {summary.daily.map((day) => (
+                  <div
+                    key={day.date}
+                    className="flex items-center gap-3 text-xs"
+                    title={describeUsage(day)}
+                  >
+                    <span className="w-20 shrink-0 tabular-nums text-muted-foreground">
+                      {day.date}
+                    </span>
+                    <div className="h-2 flex-1 rounded bg-muted">
+                      <div
+                        className="h-2 rounded bg-primary"
+                        style={{
+                          width: `${
+                            maxDailyCost > 0
+                              ? (day.costUsd / maxDailyCost) * 100
+                              : 0
+                          }%`,
+                        }}
+                      />
+                    </div>
+                    <span className="w-20 shrink-0 text-right tabular-nums">
+                      {formatCost(day.costUsd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Per-model totals */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">By model</h3>
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr className="border-b text-left">
+                    <th className="py-1 font-normal">Model</th>
+                    <th className="py-1 text-right font-normal">Replies</th>
+                    <th className="py-1 text-right font-normal">Input</th>
+                    <th className="py-1 text-right font-normal">Output</th>
+                    <th className="py-1 text-right font-normal">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.byModel.map((model) => (
+                    <tr key={model.model} className="border-b last:border-0">
+                      <td className="py-1">{getModelName(model.model)}</td>
+                      <td className="py-1 text-right tabular-nums">
+                        {formatTokens(model.replies)}
+                      </td>
+                      <td className="py-1 text-right tabular-nums">
+                        {formatTokens(model.inputTokens)}
+                      </td>
+                      <td
+                        className="py-1 text-right tabular-nums"
+                        title={describeUsage(model)}
+                      >
+                        {formatTokens(model.outputTokens)}
+                      </td>
+                      <td className="py-1 text-right tabular-nums">
+                        {formatCost(model.costUsd)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+
+// Calls loadMore when the element given the returned ref scrolls into view
+// while canLoadMore is true. The observer is recreated after each page, so
+// loading continues while the element stays in view.
+export function useInfiniteScroll(canLoadMore: boolean, loadMore: () => void) {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (!canLoadMore || !sentinel) {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadMore();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, loadMore, sentinel]);
+
+  return setSentinel;
+}
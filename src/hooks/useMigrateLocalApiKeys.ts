@@ -0,0 +1,53 @@
+import { useEffect, useRef } from "react";
+import { useAction, useQuery } from "convex/react";
+import { api } from "@backend/_generated/api";
+import { toast } from "sonner";
+import { API_KEY_PROVIDERS } from "@backend/constants";
+import {
+  clearApiKeysFromStorage,
+  loadApiKeysFromStorage,
+} from "@/lib/api-keys";
+
+// Moves API keys saved in localStorage by older versions of the app into the
+// encrypted server-side vault, then removes them from the browser. Keys
+// already in the vault win, since they may have been saved on another device
+// after the local copy.
+export function useMigrateLocalApiKeys(enabled: boolean) {
+  const setApiKey = useAction(api.apiKeys.setApiKey);
+  const storedKeys = useQuery(
+    api.apiKeyQueriesAndMutations.listApiKeys,
+    enabled ? {} : "skip",
+  );
+  const hasStartedRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || !storedKeys || hasStartedRef.current) return;
+    hasStartedRef.current = true;
+
+    const localKeys = loadApiKeysFromStorage();
+    const localProviders = API_KEY_PROVIDERS.filter((provider) =>
+      localKeys[provider]?.trim(),
+    );
+    if (localProviders.length === 0) return;
+    const providers = localProviders.filter(
+      (provider) => !storedKeys.some((key) => key.provider === provider),
+    );
+    if (providers.length === 0) {
+      clearApiKeysFromStorage();
+      return;
+    }
+
+    void (async () => {
+      try {
+        for (const provider of providers) {
+          await setApiKey({ provider, apiKey: localKeys[provider] });
+        }
+        clearApiKeysFromStorage();
+        toast.success("Your API keys were moved to your account");
+      } catch (error) {
+        // Keep the local copy so the migration is retried on the next load
+        console.error("Failed to migrate API keys:", error);
+      }
+    })();
+  }, [enabled, storedKeys, setApiKey]);
+}
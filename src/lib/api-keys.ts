@@ -1,3 +1,6 @@
+// API keys used to be kept in localStorage. They now live in the encrypted
+// server-side vault; these helpers only read and remove keys left behind by
+// older versions of the app so they can be migrated once.
 interface ApiKeys {
   openai: string;
   openrouter: string;
@@ -6,7 +9,7 @@ interface ApiKeys {
 const API_KEYS_STORAGE_KEY = "chatapp_api_keys";
 
 /**
- * Load API keys from localStorage
+ * Load legacy API keys from localStorage
  */
 export function loadApiKeysFromStorage(): ApiKeys {
   if (typeof window === "undefined") {
@@ -27,24 +30,7 @@ export function loadApiKeysFromStorage(): ApiKeys {
 }
 
 /**
- * Save API keys to localStorage
- */
-export function saveApiKeysToStorage(apiKeys: ApiKeys): boolean {
-  if (typeof window === "undefined") {
-    return false;
-  }
-
-  try {
-    localStorage.setItem(API_KEYS_STORAGE_KEY, JSON.stringify(apiKeys));
-    return true;
-  } catch (error) {
-    console.error("Failed to save API keys:", error);
-    return false;
-  }
-}
-
-/**
- * Clear all API keys from localStorage
+ * Clear legacy API keys from localStorage
  */
 export function clearApiKeysFromStorage(): void {
   if (typeof window !== "undefined") {
@@ -52,28 +38,4 @@ export function clearApiKeysFromStorage(): void {
   }
 }
 
-/**
- * Get a specific API key from localStorage
- */
-export function getApiKey(provider: keyof ApiKeys): string {
-  const keys = loadApiKeysFromStorage();
-  return keys[provider] || "";
-}
-
-/**
- * Check if any API keys are configured
- */
-export function hasApiKeys(): boolean {
-  const keys = loadApiKeysFromStorage();
-  return Boolean(keys.openai || keys.openrouter);
-}
-
-/**
- * Check if a specific provider has an API key configured
- */
-export function hasApiKey(provider: keyof ApiKeys): boolean {
-  const key = getApiKey(provider);
-  return Boolean(key && key.trim().length > 0);
-}
-
 export type { ApiKeys };
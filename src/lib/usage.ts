@@ -0,0 +1,33 @@
+// Formatting helpers for token usage and estimated costs
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString();
+}
+
+// Small amounts keep more precision so single replies don't all show $0.00
+export function formatCost(costUsd: number): string {
+  if (costUsd === 0) {
+    return "$0.00";
+  }
+  if (costUsd < 0.0001) {
+    return "<$0.0001";
+  }
+  if (costUsd < 1) {
+    return `$${costUsd.toFixed(4)}`;
+  }
+  return `$${costUsd.toFixed(2)}`;
+}
+
+export function describeUsage(usage: {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+}): string {
+  const reasoning =
+    usage.reasoningTokens > 0
+      ? ` (${formatTokens(usage.reasoningTokens)} reasoning)`
+      : "";
+  return `Input: ${formatTokens(usage.inputTokens)} tokens, output: ${formatTokens(
+    usage.outputTokens,
+  )} tokens${reasoning}`;
+}
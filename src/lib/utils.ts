@@ -1,6 +1,14 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { ConvexError } from "convex/values";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Errors meant for the user (e.g. a spending limit) are thrown as ConvexErrors
+export function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof ConvexError && typeof error.data === "string"
+    ? error.data
+    : fallback;
+}
@@ -3,11 +3,25 @@ import { api } from "@backend/_generated/api";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { useState } from "react";
-import { Loader2, ArrowLeft, Settings, Key, Shield } from "lucide-react";
+import {
+  Loader2,
+  ArrowLeft,
+  Settings,
+  Key,
+  Shield,
+  BarChart3,
+  Database,
+  Trash2,
+} from "lucide-react";
 import { useNavigate } from "@tanstack/react-router";
 import { SignOutButton } from "@/SignOutButton";
 import { ThemeToggleButton } from "@/components/Theme/ThemeToggleButton";
 import { ApiKeySection } from "@/components/settings/ApiKeySection";
+import { UsageSection } from "@/components/settings/UsageSection";
+import { SpendingLimitsSection } from "@/components/settings/SpendingLimitsSection";
+import { ImportSection } from "@/components/settings/ImportSection";
+import { SharedLinksSection } from "@/components/settings/SharedLinksSection";
+import { TrashSection } from "@/components/settings/TrashSection";
 import { DangerZone } from "@/components/settings/DangerZone";
 
 export default function SettingsPage() {
@@ -48,7 +62,7 @@ export default function SettingsPage() {
           <div>
             <h1 className="text-3xl font-bold">Settings</h1>
             <p className="text-muted-foreground">
-              Manage your API keys and account preferences
+              Manage your API keys, usage and account preferences
             </p>
           </div>
         </div>
@@ -60,6 +74,18 @@ export default function SettingsPage() {
               <Key className="h-4 w-4" />
               API Keys
             </TabsTrigger>
+            <TabsTrigger value="usage" className="gap-2">
+              <BarChart3 className="h-4 w-4" />
+              Usage
+            </TabsTrigger>
+            <TabsTrigger value="data" className="gap-2">
+              <Database className="h-4 w-4" />
+              Data
+            </TabsTrigger>
+            <TabsTrigger value="trash" className="gap-2">
+              <Trash2 className="h-4 w-4" />
+              Trash
+            </TabsTrigger>
             {/* Only show this tab for authenticated users */}
             {loggedInUser && !loggedInUser.isAnonymous && (
               <TabsTrigger value="danger-zone" className="gap-2">
@@ -74,6 +100,23 @@ export default function SettingsPage() {
             <ApiKeySection />
           </TabsContent>
 
+          {/* Usage Tab */}
+          <TabsContent value="usage" className="space-y-6">
+            <UsageSection />
+            <SpendingLimitsSection />
+          </TabsContent>
+
+          {/* Data Tab */}
+          <TabsContent value="data" className="space-y-6">
+            <ImportSection />
+            <SharedLinksSection />
+          </TabsContent>
+
+          {/* Trash Tab */}
+          <TabsContent value="trash" className="space-y-6">
+            <TrashSection />
+          </TabsContent>
+
           {/* Danger Zone Tab */}
           {loggedInUser && !loggedInUser.isAnonymous && (
             <TabsContent value="danger-zone" className="space-y-6">
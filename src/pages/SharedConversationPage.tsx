@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAction, useConvexAuth, useQuery } from "convex/react";
+import { Link, useNavigate, useParams } from "@tanstack/react-router";
+import { api } from "@backend/_generated/api";
+import type { Id } from "@backend/_generated/dataModel";
+import { Link2, Loader2, MessageSquarePlus } from "lucide-react";
+import { toast } from "sonner";
+import MessageComponent from "@/components/chat/Message";
+import { FilePreviewModal } from "@/components/FilePreviewModal";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SignInForm } from "@/SignInForm";
+import { getErrorMessage } from "@/lib/utils";
+
+const FILENAME_TRUNCATION_THRESHOLD = 30;
+
+const truncateFileName = (fileName: string, isCitation: boolean = false) => {
+  const maxLength = (isCitation ? 2 : 1) * FILENAME_TRUNCATION_THRESHOLD;
+  return fileName.length > maxLength
+    ? fileName.substring(0, maxLength) + "..."
+    : fileName;
+};
+
+// Public read-only view of a shared conversation, shown without signing in
+export default function SharedConversationPage() {
+  const { slug } = useParams({ from: "/share/$slug" });
+  const shared = useQuery(api.shareQueriesAndMutations.getSharedConversation, {
+    slug,
+  });
+  const [filePreview, setFilePreview] = useState<{
+    messageId: Id<"messages">;
+    fileName: string;
+  } | null>(null);
+  const [citationFileId, setCitationFileId] = useState<string | null>(null);
+  const { isAuthenticated } = useConvexAuth();
+  const continueSharedConversation = useAction(
+    api.chat.continueSharedConversation,
+  );
+  const navigate = useNavigate();
+  const [isContinuing, setIsContinuing] = useState(false);
+  const [showSignIn, setShowSignIn] = useState(false);
+
+  // Find the attachment a clicked file citation refers to
+  const citationFile = useQuery(
+    api.shareQueriesAndMutations.findSharedFileByOpenAIId,
+    citationFileId ? { slug, openaiFileId: citationFileId } : "skip",
+  );
+
+  useEffect(() => {
+    if (citationFileId && citationFile !== undefined) {
+      if (citationFile) {
+        setFilePreview(citationFile);
+      } else {
+        toast.error("File not found for citation");
+      }
+      setCitationFileId(null);
+    }
+  }, [citationFileId, citationFile]);
+
+  const handleFilePreview = useCallback(
+    (messageId: Id<"messages">, fileName: string) => {
+      setFilePreview({ messageId, fileName });
+    },
+    [],
+  );
+
+  const handleCitationClick = useCallback((openaiFileId: string) => {
+    setCitationFileId(openaiFileId);
+  }, []);
+
+  // Copy the chat into the visitor's own conversations, signing in first
+  const continueChat = async () => {
+    if (!isAuthenticated) {
+      setShowSignIn(true);
+      return;
+    }
+    setIsContinuing(true);
+    try {
+      const { conversationId, errors } = await continueSharedConversation({
+        slug,
+      });
+      errors.forEach((error) => toast.warning(error));
+      void navigate({
+        to: "/c/$conversationId",
+        params: { conversationId },
+        search: {},
+      });
+    } catch (error) {
+      console.error("Failed to continue shared chat:", error);
+      toast.error(getErrorMessage(error, "Failed to continue this chat"));
+      setIsContinuing(false);
+    }
+  };
+
+  if (shared === undefined) {
+    return (
+      <div className="flex flex-1 justify-center items-center">
+        <Loader2 className="animate-spin h-8 w-8 text-primary" />
+      </div>
+    );
+  }
+
+  if (shared === null) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-4 p-4 text-center">
+        <Link2 className="h-10 w-10 text-muted-foreground" />
+        <div>
+          <h1 className="text-xl font-semibold">Link not available</h1>
+          <p className="text-muted-foreground">
+            This share link doesn't exist or was revoked by its owner.
+          </p>
+        </div>
+        <Button asChild variant="outline">
+          <Link to="/">Open the app</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 px-2 py-6 md:px-4">
+      <div className="max-w-3xl mx-auto space-y-4 md:space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-3 border-b border-border pb-4">
+          <div>
+            <h1 className="text-2xl font-semibold">{shared.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              {shared.mode === "live"
+                ? "Shared conversation, updated as it continues"
+                : `Snapshot shared on ${new Date(shared.sharedAt).toLocaleDateString()}`}
+            </p>
+          </div>
+          <Button
+            onClick={() => void continueChat()}
+            disabled={isContinuing}
+            title="Copy this chat into your conversations"
+          >
+            {isContinuing ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <MessageSquarePlus className="h-4 w-4" />
+            )}
+            Continue this chat
+          </Button>
+        </div>
+        {shared.messages.map((message) => (
+          <MessageComponent
+            key={message._id}
+            message={message}
+            truncateFileName={truncateFileName}
+            handleFilePreview={handleFilePreview}
+            handleCitationClick={
+              shared.includeFiles ? handleCitationClick : undefined
+            }
+          />
+        ))}
+      </div>
+
+      {filePreview && (
+        <FilePreviewModal
+          isOpen
+          onClose={() => setFilePreview(null)}
+          messageId={filePreview.messageId}
+          fileName={filePreview.fileName}
+          shareSlug={slug}
+        />
+      )}
+
+      <Dialog open={showSignIn} onOpenChange={setShowSignIn}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Sign in to continue</DialogTitle>
+            <DialogDescription>
+              The chat is copied into your own conversations, so you need an
+              account to keep chatting.
+            </DialogDescription>
+          </DialogHeader>
+          <SignInForm onSignedIn={() => setShowSignIn(false)} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
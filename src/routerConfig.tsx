@@ -5,6 +5,7 @@ import {
 } from "@tanstack/react-router";
 import ChatPage from "@/ChatPage";
 import SettingsPage from "@/pages/SettingsPage";
+import SharedConversationPage from "@/pages/SharedConversationPage";
 import { RouterErrorBoundary } from "@/RouterErrorBoundary";
 import { toast } from "sonner";
 import { Root } from "./Root";
@@ -24,6 +25,13 @@ export const conversationRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: "/c/$conversationId",
   component: ChatPage,
+  // Message to scroll to, e.g. when opening a search result
+  validateSearch: (
+    search: Record<string, unknown>,
+  ): { messageId?: string } => ({
+    messageId:
+      typeof search.messageId === "string" ? search.messageId : undefined,
+  }),
   errorComponent: ({ error }: { error: unknown }) => {
     if (
       error instanceof Error &&
@@ -43,10 +51,18 @@ export const settingsRoute = createRoute({
   component: SettingsPage,
 });
 
+// Public read-only view of a shared conversation, no sign-in needed
+export const sharedConversationRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/share/$slug",
+  component: SharedConversationPage,
+});
+
 const routeTree = rootRoute.addChildren([
   indexRoute,
   conversationRoute,
   settingsRoute,
+  sharedConversationRoute,
 ]);
 
 export const router = createRouter({